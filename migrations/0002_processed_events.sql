@@ -0,0 +1,11 @@
+-- Webhookイベントの処理状況を記録するテーブル
+-- LINEの再送やキューのリトライによる二重処理を防ぐため、webhookEventId をキーに処理状況を保持します。
+CREATE TABLE processed_events (
+    event_id TEXT PRIMARY KEY,            -- LINEのwebhookEventId
+    status TEXT NOT NULL,                 -- 処理状況 ('processing', 'completed', 'failed')
+    attempts INTEGER NOT NULL DEFAULT 0,  -- 処理試行回数
+    last_error TEXT,                      -- 直近のエラーメッセージ
+    step_results TEXT,                    -- 完了済みステップとその結果 (JSON形式)
+    created_at TEXT NOT NULL,             -- 初回受信日時
+    updated_at TEXT NOT NULL              -- 最終更新日時
+);
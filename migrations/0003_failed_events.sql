@@ -0,0 +1,16 @@
+-- 処理に失敗したWebhookイベントを保存するテーブル (デッドレター)
+-- キューのリトライ上限に達したイベントを元のJSONごと保存し、管理画面から再実行・破棄できるようにします。
+CREATE TABLE failed_events (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, -- ID (自動採番)
+    event_id TEXT,                        -- LINEのwebhookEventId (存在しない場合はNULL)
+    event_type TEXT,                      -- イベント種別 ('message', 'postback' 等)
+    event_json TEXT NOT NULL,             -- 元のWebhookEventのJSON
+    error_message TEXT,                   -- 直近のエラーメッセージ
+    stack TEXT,                           -- 直近のスタックトレース
+    attempts INTEGER NOT NULL DEFAULT 0,  -- 処理試行回数 (キューでの試行と再実行の合計)
+    status TEXT NOT NULL,                 -- 状態 ('pending', 'replayed', 'discarded')
+    created_at TEXT NOT NULL,             -- 登録日時
+    updated_at TEXT NOT NULL              -- 最終更新日時
+);
+
+CREATE INDEX idx_failed_events_status ON failed_events (status);
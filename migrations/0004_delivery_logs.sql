@@ -0,0 +1,12 @@
+-- メッセージ送信ログを保存するテーブル
+-- Reply APIとPush APIのどちらで送信したか、LINEから返されたエラー内容を記録します。
+CREATE TABLE delivery_logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, -- ログID (自動採番)
+    timestamp TEXT NOT NULL,              -- ログ日時
+    post_id TEXT,                         -- 返信元の投稿ID (posts.post_id)
+    destination TEXT,                     -- 送信先ID (ユーザーID, グループID, またはルームID)
+    method TEXT NOT NULL,                 -- 送信方法 ('reply', 'push')
+    success INTEGER NOT NULL,             -- 送信に成功したか (0: false, 1: true)
+    status_code INTEGER,                  -- LINE APIのHTTPステータスコード
+    error_body TEXT                       -- LINE APIから返されたエラーレスポンスのボディ
+);
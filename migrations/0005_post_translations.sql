@@ -0,0 +1,3 @@
+-- 言語ごとの翻訳結果を投稿に保存するカラムを追加
+-- 例: {"pl": "Dzień dobry", "en": "Good morning"}
+ALTER TABLE posts ADD COLUMN translations TEXT; -- 言語コードをキーとした翻訳結果 (JSON形式)
@@ -0,0 +1,4 @@
+-- ルームごとの言語設定を保存するカラムを追加
+-- 例: {"languages": ["ja", "uk", "de"], "targets": {"ja": ["uk", "de"]}, "roles": {"uk": "先生"}}
+-- NULLの場合は既定の設定 (日本語・ポーランド語・英語) を使用します。
+ALTER TABLE rooms ADD COLUMN language_config TEXT; -- 参加者の言語、翻訳先のルール、話者の役割 (JSON形式)
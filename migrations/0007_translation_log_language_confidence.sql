@@ -0,0 +1,4 @@
+-- 翻訳ログに言語検出の確信度と判定方法を追加
+-- n-gramによる検出の確信度が低い場合はGeminiに言語を判定させるため、どちらで決定したかも記録します。
+ALTER TABLE translation_logs ADD COLUMN language_confidence REAL; -- n-gramによる言語検出の確信度 (0〜1)
+ALTER TABLE translation_logs ADD COLUMN detection_method TEXT;    -- 言語を決定した方法 ('ngram', 'gemini')
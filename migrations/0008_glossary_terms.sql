@@ -0,0 +1,14 @@
+-- バレエ用語などの訳語を統一するための用語集テーブル
+-- 翻訳時に原文に含まれる用語をプロンプトに挿入し、翻訳後に指定の訳語が使われているかを確認します。
+CREATE TABLE glossary_terms (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, -- ID (自動採番)
+    term TEXT NOT NULL,                   -- 用語 (原文に現れる形)
+    translations TEXT,                    -- 言語ごとの訳語 (JSON形式。例: {"ja": "パ・ド・ブレ", "en": "pas de bourrée"})
+    do_not_translate INTEGER DEFAULT 0,   -- 翻訳せず原文のまま使用するか (0: false, 1: true)
+    room_id TEXT,                         -- 適用するルームID (NULLの場合はすべてのルーム)
+    note TEXT,                            -- 管理用のメモ
+    created_at TEXT NOT NULL,             -- 登録日時
+    updated_at TEXT NOT NULL              -- 最終更新日時
+);
+
+CREATE INDEX idx_glossary_terms_room_id ON glossary_terms (room_id);
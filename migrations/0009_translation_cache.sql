@@ -0,0 +1,20 @@
+-- 同じメッセージの翻訳でGeminiを呼び出さないための翻訳キャッシュ
+-- キーは正規化したメッセージ、言語の組み合わせ、会話の文脈のハッシュから作成します。
+CREATE TABLE translation_cache (
+    cache_key TEXT PRIMARY KEY,    -- キャッシュキー (SHA-256)
+    normalized_text TEXT NOT NULL, -- 正規化したメッセージ (管理画面での検索用)
+    source_lang TEXT NOT NULL,     -- 元の言語コード
+    target_langs TEXT NOT NULL,    -- 翻訳先の言語コード (カンマ区切り)
+    context_hash TEXT NOT NULL,    -- 翻訳時に使用した会話の文脈のハッシュ
+    translations TEXT NOT NULL,    -- 言語ごとの翻訳結果 (JSON形式)
+    hit_count INTEGER DEFAULT 0,   -- キャッシュが使用された回数
+    created_at TEXT NOT NULL,      -- 登録日時
+    last_hit_at TEXT               -- 最後にキャッシュが使用された日時
+);
+
+-- 日ごとのキャッシュのヒット数・ミス数
+CREATE TABLE translation_cache_stats (
+    date TEXT PRIMARY KEY,         -- 日付 (YYYY-MM-DD, UTC)
+    hits INTEGER DEFAULT 0,        -- キャッシュから翻訳を返した回数
+    misses INTEGER DEFAULT 0       -- キャッシュになくGeminiを呼び出した回数
+);
@@ -0,0 +1,3 @@
+-- 翻訳ログに翻訳をスキップした理由を追加
+-- 絵文字のみ、URLのみ、数字のみなど翻訳が不要なメッセージは、Geminiを呼び出さずに理由コードだけを記録します。
+ALTER TABLE translation_logs ADD COLUMN skip_reason TEXT; -- 翻訳をスキップした理由 ('emoji_only', 'url_only', 'numeric' 等。翻訳した場合はNULL)
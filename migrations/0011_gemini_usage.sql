@@ -0,0 +1,21 @@
+-- Gemini APIの呼び出しごとの使用量・所要時間・結果の記録
+-- どのモデルが応答したか、429などでどのモデルにフォールバックしたかを、トークン数と推定コストとともに記録します。
+CREATE TABLE gemini_usage (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    timestamp TEXT NOT NULL,       -- 呼び出し日時
+    purpose TEXT,                  -- 呼び出しの目的 ('translation', 'translation_retry', 'glossary_correction', 'language_detection')
+    post_id TEXT,                  -- 翻訳対象の投稿ID
+    room_id TEXT,                  -- 投稿があったルームID (個人チャットの場合はNULL)
+    user_id TEXT,                  -- 投稿者のユーザーID
+    model TEXT,                    -- 応答したモデル (失敗した場合は最後に試したモデル)
+    attempts INTEGER NOT NULL,     -- API呼び出しの試行回数 (リトライ・フォールバックを含む)
+    fallback_path TEXT NOT NULL,   -- 各試行のモデルと結果 (例: 'gemini-2.5-flash-lite:429 > gemini-2.5-flash:ok')
+    prompt_tokens INTEGER,         -- 入力トークン数 (usageMetadata.promptTokenCount)
+    output_tokens INTEGER,         -- 出力トークン数 (usageMetadata.candidatesTokenCount)
+    cost_usd REAL,                 -- 料金の目安から計算した推定コスト (USD)
+    latency_ms INTEGER NOT NULL,   -- 所要時間 (ミリ秒、リトライの待ち時間を含む)
+    status TEXT NOT NULL,          -- 最終的な結果 ('success', 'error')
+    error_message TEXT             -- 失敗した場合のエラー内容
+);
+
+CREATE INDEX idx_gemini_usage_timestamp ON gemini_usage (timestamp);
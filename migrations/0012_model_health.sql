@@ -0,0 +1,14 @@
+-- Geminiのモデルごとの状態 (サーキットブレーカー)
+-- 429/503を返したモデルや直近のエラー率が高いモデルを一定時間使わないようにするため、呼び出しをまたいで状態を保存します。
+CREATE TABLE model_health (
+    model TEXT PRIMARY KEY,                  -- モデル名
+    cooldown_until TEXT,                     -- この日時まではモデルを使用しない (NULLの場合は使用可能)
+    consecutive_failures INTEGER DEFAULT 0,  -- 連続して失敗した回数 (成功すると0に戻す。クールダウンの延長に使用)
+    window_started_at TEXT NOT NULL,         -- エラー率を計算する期間の開始日時
+    window_requests INTEGER DEFAULT 0,       -- 期間内の呼び出し回数
+    window_failures INTEGER DEFAULT 0,       -- 期間内に失敗した回数
+    last_status TEXT,                        -- 最後の呼び出しの結果 ('ok'、HTTPステータスコード、または 'error')
+    last_success_at TEXT,                    -- 最後に成功した日時
+    last_failure_at TEXT,                    -- 最後に失敗した日時
+    updated_at TEXT NOT NULL                 -- 更新日時
+);
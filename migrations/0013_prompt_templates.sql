@@ -0,0 +1,20 @@
+-- 翻訳プロンプトのテンプレート
+-- 編集するたびに新しいバージョンとして追加し、過去のバージョンは変更しません。
+-- ルームごとに使用するテンプレート名を選択でき、そのテンプレートの最新バージョンを使用します。
+CREATE TABLE prompt_templates (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,            -- テンプレート名 ('default' はルームで選択されていない場合に使用)
+    version INTEGER NOT NULL,      -- バージョン (テンプレート名ごとに1から採番)
+    body TEXT NOT NULL,            -- テンプレート本文 ({{source_text}} などの変数を含む)
+    note TEXT,                     -- 変更内容のメモ
+    created_at TEXT NOT NULL,      -- 作成日時
+    UNIQUE (name, version)
+);
+
+-- ルームで使用するテンプレートと、プロンプトに含めるルームの説明
+ALTER TABLE rooms ADD COLUMN prompt_template TEXT; -- 使用するテンプレート名 (NULLの場合は 'default')
+ALTER TABLE rooms ADD COLUMN description TEXT;     -- ルームの説明 (NULLの場合は既定の説明)
+
+-- 翻訳に使用したテンプレートのバージョン
+ALTER TABLE translation_logs ADD COLUMN prompt_template TEXT;            -- テンプレート名
+ALTER TABLE translation_logs ADD COLUMN prompt_template_version INTEGER; -- バージョン (組み込みのテンプレートの場合は 'built-in' のバージョン)
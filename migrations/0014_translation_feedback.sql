@@ -0,0 +1,20 @@
+-- 翻訳に対するユーザーの評価
+-- 翻訳の返信に付けたクイックリプライ (👍 / 👎 / ✏️) で受け付け、翻訳ログに紐付けて保存します。
+-- 同じユーザーが同じ翻訳を再度評価した場合は、評価を更新します。
+CREATE TABLE translation_feedback (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    translation_log_id INTEGER NOT NULL, -- 評価された翻訳ログのID
+    post_id TEXT NOT NULL,               -- 翻訳した投稿のID
+    user_id TEXT NOT NULL,               -- 評価したユーザーのID
+    rating TEXT NOT NULL,                -- 評価 ('good', 'bad', 'fix')
+    suggestion TEXT,                     -- ユーザーが送った修正案 ('fix' の場合)
+    created_at TEXT NOT NULL,            -- 評価日時
+    updated_at TEXT NOT NULL,            -- 更新日時
+    UNIQUE (translation_log_id, user_id)
+);
+
+CREATE INDEX idx_translation_feedback_rating ON translation_feedback (rating, updated_at);
+
+-- 翻訳ログと投稿を紐付けるため、翻訳した投稿のIDを記録する
+ALTER TABLE translation_logs ADD COLUMN post_id TEXT; -- 翻訳した投稿のID
+CREATE INDEX idx_translation_logs_post_id ON translation_logs (post_id);
@@ -0,0 +1,13 @@
+-- 管理者が修正した翻訳の例
+-- 管理画面で投稿の翻訳を修正した際に保存し、同じルームの翻訳プロンプトに参考例 (few-shot) として含めます。
+-- 1つの投稿につき1件とし、同じ投稿を再度修正した場合は置き換えます。
+CREATE TABLE translation_examples (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    post_id TEXT NOT NULL UNIQUE, -- 修正した投稿のID
+    room_id TEXT,                 -- 投稿があったルームID (NULLは個人チャット)
+    source_text TEXT NOT NULL,    -- 原文
+    translation TEXT NOT NULL,    -- 修正後の翻訳
+    created_at TEXT NOT NULL      -- 保存日時
+);
+
+CREATE INDEX idx_translation_examples_room_id ON translation_examples (room_id, created_at);
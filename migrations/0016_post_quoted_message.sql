@@ -0,0 +1,4 @@
+-- 引用返信の記録
+-- LINEで特定のメッセージに返信 (引用) した場合に、引用されたメッセージのIDを保存し、
+-- 翻訳プロンプトに返信先の発言として含めます。
+ALTER TABLE posts ADD COLUMN quoted_post_id TEXT; -- 引用されたメッセージのID (引用していない場合はNULL)
@@ -0,0 +1,3 @@
+-- 送信取り消し (unsend) の記録
+-- 投稿者がメッセージの送信を取り消した場合に、本文と翻訳を削除したうえで取り消し日時を残します。
+ALTER TABLE posts ADD COLUMN retracted_at TEXT; -- 送信が取り消された日時 (取り消されていない場合はNULL)
@@ -0,0 +1,3 @@
+-- 投稿の種類
+-- 画像メッセージから読み取った文章も posts に保存するため、テキストの投稿と区別できるように種類を記録します。
+ALTER TABLE posts ADD COLUMN content_type TEXT NOT NULL DEFAULT 'text'; -- 投稿の種類 ('text': テキスト, 'image': 画像から読み取った文章)
@@ -0,0 +1,5 @@
+-- テキスト以外のメッセージの記録
+-- スタンプ・写真・動画・音声・ファイル・位置情報も posts に保存し、ルームの会話の記録に抜けがないようにします。
+-- content_type には 'video', 'file', 'location', 'sticker' も保存されます。
+ALTER TABLE posts ADD COLUMN content_metadata TEXT; -- LINEのコンテンツの情報 (ファイル名、長さ、スタンプのパッケージ・キーワード、住所など。JSON形式)
+ALTER TABLE posts ADD COLUMN content_key TEXT; -- コンテンツの保存先のキー (CONTENT_BUCKET に保存した場合のみ)
@@ -0,0 +1,24 @@
+-- 発表会の会場など、名前を付けて登録した場所のテーブル
+-- 位置情報メッセージを引用して「場所登録 名前」と送信すると登録され、アンケートやお知らせで "[place:名前]" として参照できます。
+-- 個人チャットで登録した場所は登録したユーザー専用で、そのユーザーだけがどのルームからでも参照できます。
+CREATE TABLE places (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, -- ID (自動採番)
+    name TEXT NOT NULL,                   -- 参照に使う名前 (例: "発表会会場")
+    room_id TEXT,                         -- 登録したルームID (NULLの場合は個人チャットで登録した、created_by のユーザー専用の場所)
+    title TEXT,                           -- 位置情報のタイトル (施設名など)
+    address TEXT,                         -- 住所
+    latitude REAL NOT NULL,               -- 緯度
+    longitude REAL NOT NULL,              -- 経度
+    source_post_id TEXT,                  -- 登録元の位置情報メッセージのID
+    created_by TEXT,                      -- 登録したユーザーID
+    created_at TEXT NOT NULL,             -- 登録日時
+    updated_at TEXT NOT NULL              -- 最終更新日時
+);
+
+-- 同じルーム、または同じユーザー専用の場所では、名前 (大文字・小文字は区別しない) が重複しないようにする。
+-- 同じ名前で登録し直した場合は上書きします (上書きできるのは登録したユーザーのみ)。
+CREATE UNIQUE INDEX idx_places_room_id_name ON places (room_id, name COLLATE NOCASE) WHERE room_id IS NOT NULL;
+CREATE UNIQUE INDEX idx_places_created_by_name ON places (created_by, name COLLATE NOCASE) WHERE room_id IS NULL;
+
+-- アンケートやお知らせで参照した場所
+ALTER TABLE posts ADD COLUMN place_id INTEGER REFERENCES places(id); -- 投稿で参照した場所のID (参照していない場合はNULL)
@@ -0,0 +1,14 @@
+-- 送信取り消し (unsend) で、投稿以外に残ったメッセージの内容も削除するための変更
+-- 取り消されたメッセージのIDから、処理台帳のステップ結果と翻訳キャッシュを特定できるようにします。
+ALTER TABLE processed_events ADD COLUMN message_id TEXT; -- メッセージイベントの場合、LINEのメッセージID
+CREATE INDEX idx_processed_events_message_id ON processed_events (message_id);
+
+ALTER TABLE translation_cache ADD COLUMN post_id TEXT; -- キャッシュを登録した翻訳の投稿ID
+CREATE INDEX idx_translation_cache_post_id ON translation_cache (post_id);
+
+-- 送信が取り消されたメッセージの記録
+-- メッセージイベントより先に取り消しイベントが処理された場合でも、後から投稿を保存・翻訳しないようにします。
+CREATE TABLE retracted_messages (
+    message_id TEXT PRIMARY KEY,          -- 取り消されたLINEのメッセージID
+    retracted_at TEXT NOT NULL            -- 送信が取り消された日時
+);
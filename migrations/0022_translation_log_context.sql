@@ -0,0 +1,3 @@
+-- 翻訳ログのプロンプトに文脈として含めた投稿の記録
+-- 送信が取り消された投稿を文脈に含めた、他の投稿の翻訳ログのプロンプトを削除できるようにします。
+ALTER TABLE translation_logs ADD COLUMN context_post_ids TEXT; -- プロンプトの会話の文脈と返信先に含めた投稿のID (JSON配列。プロンプトを保存しない場合はnull)
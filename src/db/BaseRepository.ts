@@ -23,6 +23,17 @@ export interface Env {
   LINE_BOT_QUEUE: Queue<any>;
   BASE_URL: string;
   ADMIN_PASSWORD: string;
+  TRANSLATION_CONTEXT_TOKEN_BUDGET?: string; // 翻訳の文脈に含める発言の推定トークン数の上限 (省略時は既定値)
+  TRANSLATION_PROVIDER?: string; // 翻訳に使用するプロバイダー ('gemini', 'local', 'openai-compatible'。省略時は 'gemini')
+  OPENAI_COMPATIBLE_BASE_URL?: string; // OpenAI互換APIのベースURL (例: http://localhost:11434/v1)
+  OPENAI_COMPATIBLE_MODEL?: string; // OpenAI互換APIで使用するモデル名
+  OPENAI_COMPATIBLE_API_KEY?: string; // OpenAI互換APIのAPIキー (不要な場合は省略)
+  SPEECH_TO_TEXT_PROVIDER?: string; // 音声の書き起こしに使用するプロバイダー ('gemini', 'local'。省略時は 'gemini')
+  RATE_LIMIT_PER_USER_PER_HOUR?: string; // ユーザーごとの1時間あたりの翻訳回数の上限 (省略時は既定値)
+  MAX_MESSAGE_LENGTH?: string; // 1メッセージで翻訳する最大文字数 (省略時は既定値)
+  MONTHLY_TOKEN_BUDGET?: string; // Gemini APIの月間トークン予算 (省略時は無制限)
+  TRANSLATION_FEEDBACK?: string; // 'true' の場合、翻訳の返信に評価のクイックリプライ (👍 / 👎 / ✏️) を付ける
+  CONTENT_BUCKET?: R2Bucket; // 写真・動画・音声・ファイルを保存するR2バケット (省略時はコンテンツを保存しない)
 }
 
 export class BaseRepository {
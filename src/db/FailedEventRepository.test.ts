@@ -0,0 +1,142 @@
+/**
+ * @file FailedEventRepository.test.ts
+ * @description FailedEventRepositoryの単体テスト。
+ *              モックされたCloudflare D1データベースを使用して、失敗イベントの操作を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { FailedEventRepository } from '../db/FailedEventRepository';
+import { createMockD1Database } from '../test/utils/mockD1';
+import { Env } from '../db/BaseRepository';
+import { FailedEvent } from '../types/db';
+
+describe('FailedEventRepository', () => {
+  let mockD1: D1Database;
+  let failedEventRepository: FailedEventRepository;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    mockD1 = createMockD1Database();
+    mockEnv = {
+      DB: mockD1,
+      LINE_CHANNEL_ACCESS_TOKEN: 'mock_token',
+      LINE_CHANNEL_SECRET: 'mock_secret',
+      GEMINI_API_KEY: 'mock_gemini_key',
+      BASE_URL: 'https://example.com',
+      ADMIN_PASSWORD: 'mock_password',
+    };
+    failedEventRepository = new FailedEventRepository(mockEnv);
+  });
+
+  it('should create a failed event', async () => {
+    const newEvent: Omit<FailedEvent, 'id'> = {
+      event_id: 'E123',
+      event_type: 'message',
+      event_json: '{"type":"message"}',
+      error_message: 'LINE API error',
+      stack: 'Error: LINE API error',
+      attempts: 4,
+      status: 'pending',
+      created_at: '2023-01-01T10:00:00Z',
+      updated_at: '2023-01-01T10:00:00Z',
+    };
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 1 }
+    });
+
+    const result = await failedEventRepository.create(newEvent);
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO failed_events'));
+    expect(mockD1.bind).toHaveBeenCalledWith(
+      newEvent.event_id,
+      newEvent.event_type,
+      newEvent.event_json,
+      newEvent.error_message,
+      newEvent.stack,
+      newEvent.attempts,
+      newEvent.status,
+      newEvent.created_at,
+      newEvent.updated_at
+    );
+  });
+
+  it('should find a failed event by ID', async () => {
+    const mockEvent = { id: 1, event_id: 'E123', status: 'pending' };
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [mockEvent],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const event = await failedEventRepository.findById(1);
+    expect(event).toEqual(mockEvent);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT * FROM failed_events WHERE id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith(1);
+  });
+
+  it('should find failed events by status', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const events = await failedEventRepository.findByStatus('pending', 100);
+    expect(events).toEqual([]);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/SELECT \* FROM failed_events.*WHERE status = \?.*ORDER BY created_at DESC.*LIMIT \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('pending', 100);
+  });
+
+  it('should update the status', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await failedEventRepository.updateStatus(1, 'discarded', '2023-01-01T10:00:00Z');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE failed_events.*SET status = \?, updated_at = \?.*WHERE id = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('discarded', '2023-01-01T10:00:00Z', 1);
+  });
+
+  it('should record a replay failure', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await failedEventRepository.recordReplayFailure(1, 'still failing', 'stack', '2023-01-01T10:00:00Z');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE failed_events.*attempts = attempts \+ 1/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('still failing', 'stack', '2023-01-01T10:00:00Z', 1);
+  });
+
+  it('should delete failed events for a message', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await failedEventRepository.deleteByMessageId('msg1');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/DELETE FROM failed_events.*WHERE json_extract\(event_json, '\$\.message\.id'\) = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('msg1');
+  });
+});
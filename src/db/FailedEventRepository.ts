@@ -0,0 +1,116 @@
+/**
+ * @file FailedEventRepository
+ * @description 'failed_events' テーブルに対するデータベース操作を管理するリポジトリ。
+ *              処理に失敗したWebhookイベント (デッドレター) の保存・参照・状態更新を行います。
+ */
+
+import { BaseRepository, Env } from './BaseRepository';
+import { FailedEvent } from '../types/db';
+
+export class FailedEventRepository extends BaseRepository {
+  constructor(env: Env) {
+    super(env);
+  }
+
+  /**
+   * @method findById
+   * @description 指定されたIDの失敗イベントを検索します。
+   * @param {number} id 失敗イベントID
+   * @returns {Promise<FailedEvent | null>} 失敗イベント、または見つからない場合はnull
+   */
+  async findById(id: number): Promise<FailedEvent | null> {
+    const query = 'SELECT * FROM failed_events WHERE id = ?';
+    return await this.queryOne<FailedEvent>(query, [id]);
+  }
+
+  /**
+   * @method create
+   * @description 新しい失敗イベントを登録します。
+   * @param {Omit<FailedEvent, 'id'>} failedEvent 登録する失敗イベントデータ（IDは自動採番のため除く）
+   * @returns {Promise<D1Result<FailedEvent>>} 作成操作の結果
+   */
+  async create(failedEvent: Omit<FailedEvent, 'id'>): Promise<D1Result<FailedEvent>> {
+    const query = `
+      INSERT INTO failed_events (event_id, event_type, event_json, error_message, stack, attempts, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    return await this.execute<FailedEvent>(query, [
+      failedEvent.event_id,
+      failedEvent.event_type,
+      failedEvent.event_json,
+      failedEvent.error_message,
+      failedEvent.stack,
+      failedEvent.attempts,
+      failedEvent.status,
+      failedEvent.created_at,
+      failedEvent.updated_at,
+    ]);
+  }
+
+  /**
+   * @method findByStatus
+   * @description 指定された状態の失敗イベントを新しい順に取得します。
+   * @param {FailedEvent['status']} status 状態
+   * @param {number} limit 取得する最大数
+   * @returns {Promise<FailedEvent[]>} 失敗イベントの配列
+   */
+  async findByStatus(status: FailedEvent['status'], limit: number): Promise<FailedEvent[]> {
+    const query = `
+      SELECT * FROM failed_events
+      WHERE status = ?
+      ORDER BY created_at DESC
+      LIMIT ?
+    `;
+    return await this.queryAll<FailedEvent>(query, [status, limit]);
+  }
+
+  /**
+   * @method updateStatus
+   * @description 失敗イベントの状態を更新します。
+   * @param {number} id 失敗イベントID
+   * @param {FailedEvent['status']} status 設定する状態
+   * @param {string} now 現在日時 (ISO8601形式)
+   * @returns {Promise<D1Result<FailedEvent>>} 更新操作の結果
+   */
+  async updateStatus(id: number, status: FailedEvent['status'], now: string): Promise<D1Result<FailedEvent>> {
+    const query = `
+      UPDATE failed_events
+      SET status = ?, updated_at = ?
+      WHERE id = ?
+    `;
+    return await this.execute<FailedEvent>(query, [status, now, id]);
+  }
+
+  /**
+   * @method recordReplayFailure
+   * @description 再実行に失敗したことを記録します。試行回数を加算し、エラー内容を上書きします。
+   * @param {number} id 失敗イベントID
+   * @param {string} errorMessage エラーメッセージ
+   * @param {string | null} stack スタックトレース
+   * @param {string} now 現在日時 (ISO8601形式)
+   * @returns {Promise<D1Result<FailedEvent>>} 更新操作の結果
+   */
+  async recordReplayFailure(id: number, errorMessage: string, stack: string | null, now: string): Promise<D1Result<FailedEvent>> {
+    const query = `
+      UPDATE failed_events
+      SET error_message = ?, stack = ?, attempts = attempts + 1, updated_at = ?
+      WHERE id = ?
+    `;
+    return await this.execute<FailedEvent>(query, [errorMessage, stack, now, id]);
+  }
+
+  /**
+   * @method deleteByMessageId
+   * @description 指定されたメッセージのイベントを失敗イベントから削除します。
+   *              送信取消されたメッセージの内容をデッドレターに残さないために使用します。
+   * @param {string} messageId メッセージID
+   * @returns {Promise<D1Result<FailedEvent>>} 削除操作の結果
+   */
+  async deleteByMessageId(messageId: string): Promise<D1Result<FailedEvent>> {
+    const query = `
+      DELETE FROM failed_events
+      WHERE json_extract(event_json, '$.message.id') = ?
+    `;
+    return await this.execute<FailedEvent>(query, [messageId]);
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * @file GeminiUsageRepository.test.ts
+ * @description GeminiUsageRepositoryの単体テスト。
+ *              モックされたCloudflare D1データベースを使用して、使用量の記録と集計を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GeminiUsageRepository } from '../db/GeminiUsageRepository';
+import { createMockD1Database } from '../test/utils/mockD1';
+import { Env } from '../db/BaseRepository';
+
+describe('GeminiUsageRepository', () => {
+  let mockD1: D1Database;
+  let geminiUsageRepository: GeminiUsageRepository;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    mockD1 = createMockD1Database();
+    mockEnv = {
+      DB: mockD1,
+      LINE_CHANNEL_ACCESS_TOKEN: 'mock_token',
+      LINE_CHANNEL_SECRET: 'mock_secret',
+      GEMINI_API_KEY: 'mock_gemini_key',
+      BASE_URL: 'https://example.com',
+      ADMIN_PASSWORD: 'mock_password',
+    };
+    geminiUsageRepository = new GeminiUsageRepository(mockEnv);
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+  });
+
+  it('should create a usage record', async () => {
+    await geminiUsageRepository.create({
+      timestamp: '2024-05-01T10:00:00Z',
+      purpose: 'translation',
+      post_id: 'P1',
+      room_id: 'R1',
+      user_id: 'U1',
+      model: 'gemini-2.5-flash',
+      attempts: 2,
+      fallback_path: 'gemini-2.5-flash-lite:429 > gemini-2.5-flash:ok',
+      prompt_tokens: 120,
+      output_tokens: 40,
+      cost_usd: 0.000136,
+      latency_ms: 850,
+      status: 'success',
+      error_message: null,
+    });
+
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO gemini_usage'));
+    expect(mockD1.bind).toHaveBeenCalledWith(
+      '2024-05-01T10:00:00Z', 'translation', 'P1', 'R1', 'U1', 'gemini-2.5-flash', 2,
+      'gemini-2.5-flash-lite:429 > gemini-2.5-flash:ok', 120, 40, 0.000136, 850, 'success', null
+    );
+  });
+
+  it('should summarize usage per room and day', async () => {
+    const mockSummary = [{ period: '2024-05-01', dimension_key: 'R1', label: 'Ballet', calls: 3 }];
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: mockSummary,
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const summary = await geminiUsageRepository.summarize('day', 'room', '2024-04-18T00:00:00.000Z');
+
+    expect(summary).toEqual(mockSummary);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(
+      /substr\(gemini_usage.timestamp, 1, 10\) AS period.*LEFT JOIN rooms ON rooms.room_id = gemini_usage.room_id.*GROUP BY period, dimension_key/s
+    ));
+    expect(mockD1.bind).toHaveBeenCalledWith('2024-04-18T00:00:00.000Z');
+  });
+
+  it('should summarize usage per user and month', async () => {
+    await geminiUsageRepository.summarize('month', 'user', '2024-01-01T00:00:00.000Z');
+
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(
+      /substr\(gemini_usage.timestamp, 1, 7\) AS period.*LEFT JOIN users ON users.user_id = gemini_usage.user_id/s
+    ));
+  });
+
+  it('should count translations by a user since a time', async () => {
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [{ count: 7 }],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const count = await geminiUsageRepository.countTranslationsByUserSince('U1', '2024-05-01T09:00:00.000Z');
+
+    expect(count).toBe(7);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/WHERE user_id = \? AND purpose = 'translation' AND timestamp >= \?/));
+    expect(mockD1.bind).toHaveBeenCalledWith('U1', '2024-05-01T09:00:00.000Z');
+  });
+
+  it('should sum the tokens used since a time', async () => {
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [{ tokens: 123456 }],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const tokens = await geminiUsageRepository.sumTokensSince('2024-05-01T00:00:00.000Z');
+
+    expect(tokens).toBe(123456);
+    expect(mockD1.bind).toHaveBeenCalledWith('2024-05-01T00:00:00.000Z');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * @file GeminiUsageRepository
+ * @description 'gemini_usage' テーブルに対するデータベース操作を管理するリポジトリ。
+ */
+
+import { BaseRepository, Env } from './BaseRepository';
+import { GeminiUsage, GeminiUsageSummary } from '../types/db';
+
+// 集計する期間の単位と、timestamp から期間を取り出す式
+const PERIOD_EXPRESSIONS = {
+  day: 'substr(gemini_usage.timestamp, 1, 10)',
+  month: 'substr(gemini_usage.timestamp, 1, 7)',
+};
+
+// 集計単位ごとのID・表示名の式と、表示名を取得するための結合
+const DIMENSIONS = {
+  total: { key: "''", label: 'NULL', join: '' },
+  room: {
+    key: "COALESCE(gemini_usage.room_id, '')",
+    label: 'rooms.room_name',
+    join: 'LEFT JOIN rooms ON rooms.room_id = gemini_usage.room_id',
+  },
+  user: {
+    key: "COALESCE(gemini_usage.user_id, '')",
+    label: 'users.display_name',
+    join: 'LEFT JOIN users ON users.user_id = gemini_usage.user_id',
+  },
+  model: { key: "COALESCE(gemini_usage.model, '')", label: 'NULL', join: '' },
+};
+
+export type GeminiUsagePeriod = keyof typeof PERIOD_EXPRESSIONS;
+export type GeminiUsageDimension = keyof typeof DIMENSIONS;
+
+export class GeminiUsageRepository extends BaseRepository {
+  constructor(env: Env) {
+    super(env);
+  }
+
+  /**
+   * @method create
+   * @description Gemini APIの呼び出しの記録を作成します。
+   * @param {Omit<GeminiUsage, 'id'>} usage 作成する記録（IDは自動採番のため除く）
+   * @returns {Promise<D1Result<GeminiUsage>>} 作成操作の結果
+   */
+  async create(usage: Omit<GeminiUsage, 'id'>): Promise<D1Result<GeminiUsage>> {
+    const query = `
+      INSERT INTO gemini_usage (timestamp, purpose, post_id, room_id, user_id, model, attempts, fallback_path, prompt_tokens, output_tokens, cost_usd, latency_ms, status, error_message)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    return await this.execute<GeminiUsage>(query, [
+      usage.timestamp,
+      usage.purpose,
+      usage.post_id,
+      usage.room_id,
+      usage.user_id,
+      usage.model,
+      usage.attempts,
+      usage.fallback_path,
+      usage.prompt_tokens,
+      usage.output_tokens,
+      usage.cost_usd,
+      usage.latency_ms,
+      usage.status,
+      usage.error_message,
+    ]);
+  }
+
+  /**
+   * @method countTranslationsByUserSince
+   * @description 指定日時以降に、ユーザーの投稿の翻訳とユーザーが依頼した再翻訳で翻訳プロバイダーを呼び出した回数を取得します
+   *              (欠けた言語の再問い合わせ・言語判定は含みません)。
+   * @param {string} userId ユーザーID
+   * @param {string} since 開始日時 (ISO8601形式)
+   * @returns {Promise<number>} 呼び出し回数
+   */
+  async countTranslationsByUserSince(userId: string, since: string): Promise<number> {
+    const query = `
+      SELECT COUNT(*) AS count FROM gemini_usage
+      WHERE user_id = ? AND purpose = 'translation' AND timestamp >= ?
+    `;
+    const result = await this.queryOne<{ count: number }>(query, [userId, since]);
+    return result?.count ?? 0;
+  }
+
+  /**
+   * @method sumTokensSince
+   * @description 指定日時以降の全体のトークン使用量 (入力と出力の合計) を取得します。
+   * @param {string} since 開始日時 (ISO8601形式)
+   * @returns {Promise<number>} トークン数
+   */
+  async sumTokensSince(since: string): Promise<number> {
+    const query = `
+      SELECT COALESCE(SUM(prompt_tokens), 0) + COALESCE(SUM(output_tokens), 0) AS tokens FROM gemini_usage
+      WHERE timestamp >= ?
+    `;
+    const result = await this.queryOne<{ tokens: number }>(query, [since]);
+    return result?.tokens ?? 0;
+  }
+
+  /**
+   * @method summarize
+   * @description 指定日時以降の使用量を、期間と集計単位ごとに集計します。
+   * @param {GeminiUsagePeriod} period 期間の単位 ('day' または 'month')
+   * @param {GeminiUsageDimension} dimension 集計単位 ('total', 'room', 'user', 'model')
+   * @param {string} since 集計の開始日時 (ISO8601形式)
+   * @returns {Promise<GeminiUsageSummary[]>} 集計結果の配列 (新しい期間から、期間内は呼び出し回数の多い順)
+   */
+  async summarize(period: GeminiUsagePeriod, dimension: GeminiUsageDimension, since: string): Promise<GeminiUsageSummary[]> {
+    const { key, label, join } = DIMENSIONS[dimension];
+    const query = `
+      SELECT
+        ${PERIOD_EXPRESSIONS[period]} AS period,
+        ${key} AS dimension_key,
+        MAX(${label}) AS label,
+        COUNT(*) AS calls,
+        SUM(CASE WHEN gemini_usage.status = 'error' THEN 1 ELSE 0 END) AS errors,
+        SUM(gemini_usage.attempts) AS attempts,
+        SUM(COALESCE(gemini_usage.prompt_tokens, 0)) AS prompt_tokens,
+        SUM(COALESCE(gemini_usage.output_tokens, 0)) AS output_tokens,
+        SUM(COALESCE(gemini_usage.cost_usd, 0)) AS cost_usd,
+        AVG(gemini_usage.latency_ms) AS avg_latency_ms
+      FROM gemini_usage
+      ${join}
+      WHERE gemini_usage.timestamp >= ?
+      GROUP BY period, dimension_key
+      ORDER BY period DESC, calls DESC
+    `;
+    return await this.queryAll<GeminiUsageSummary>(query, [since]);
+  }
+}
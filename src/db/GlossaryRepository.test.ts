@@ -0,0 +1,98 @@
+/**
+ * @file GlossaryRepository.test.ts
+ * @description GlossaryRepositoryの単体テスト。
+ *              モックされたCloudflare D1データベースを使用して、用語集の操作を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GlossaryRepository } from '../db/GlossaryRepository';
+import { createMockD1Database } from '../test/utils/mockD1';
+import { Env } from '../db/BaseRepository';
+import { GlossaryTerm } from '../types/db';
+
+describe('GlossaryRepository', () => {
+  let mockD1: D1Database;
+  let glossaryRepository: GlossaryRepository;
+  let mockEnv: Env;
+
+  const mockResult = (results: any[] = []) => ({
+    results,
+    success: true,
+    meta: { duration: 0, served_by: 'mock', changes: results.length ? 0 : 1, last_row_id: 0 }
+  });
+
+  beforeEach(() => {
+    mockD1 = createMockD1Database();
+    mockEnv = {
+      DB: mockD1,
+      LINE_CHANNEL_ACCESS_TOKEN: 'mock_token',
+      LINE_CHANNEL_SECRET: 'mock_secret',
+      GEMINI_API_KEY: 'mock_gemini_key',
+      BASE_URL: 'https://example.com',
+      ADMIN_PASSWORD: 'mock_password',
+    };
+    glossaryRepository = new GlossaryRepository(mockEnv);
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+  });
+
+  it('should create a term', async () => {
+    const newTerm: Omit<GlossaryTerm, 'id'> = {
+      term: 'pas de bourrée',
+      translations: '{"ja":"パ・ド・ブレ"}',
+      do_not_translate: 0,
+      room_id: null,
+      note: 'ステップ',
+      created_at: '2023-01-01T10:00:00Z',
+      updated_at: '2023-01-01T10:00:00Z',
+    };
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce(mockResult());
+
+    const result = await glossaryRepository.create(newTerm);
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO glossary_terms'));
+    expect(mockD1.bind).toHaveBeenCalledWith(
+      'pas de bourrée', '{"ja":"パ・ド・ブレ"}', 0, null, 'ステップ', '2023-01-01T10:00:00Z', '2023-01-01T10:00:00Z'
+    );
+  });
+
+  it('should find terms for a room including the shared terms', async () => {
+    const mockTerms = [{ id: 1, term: '発表会', room_id: null }];
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce(mockResult(mockTerms));
+
+    const terms = await glossaryRepository.findForRoom('R1');
+    expect(terms).toEqual(mockTerms);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT * FROM glossary_terms WHERE room_id IS NULL OR room_id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('R1');
+  });
+
+  it('should find only the shared terms for a personal chat', async () => {
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce(mockResult());
+
+    await glossaryRepository.findForRoom(null);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT * FROM glossary_terms WHERE room_id IS NULL');
+  });
+
+  it('should update a term', async () => {
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce(mockResult());
+
+    await glossaryRepository.update(1, {
+      term: '発表会',
+      translations: '{"en":"recital"}',
+      do_not_translate: 0,
+      room_id: 'R1',
+      note: null,
+      updated_at: '2023-01-02T10:00:00Z',
+    });
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE glossary_terms.*WHERE id = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('発表会', '{"en":"recital"}', 0, 'R1', null, '2023-01-02T10:00:00Z', 1);
+  });
+
+  it('should delete a term', async () => {
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce(mockResult());
+
+    await glossaryRepository.delete(1);
+    expect(mockD1.prepare).toHaveBeenCalledWith('DELETE FROM glossary_terms WHERE id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith(1);
+  });
+});
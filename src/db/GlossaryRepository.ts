@@ -0,0 +1,105 @@
+/**
+ * @file GlossaryRepository
+ * @description 'glossary_terms' テーブルに対するデータベース操作を管理するリポジトリ。
+ */
+
+import { BaseRepository, Env } from './BaseRepository';
+import { GlossaryTerm } from '../types/db';
+
+export class GlossaryRepository extends BaseRepository {
+  constructor(env: Env) {
+    super(env);
+  }
+
+  /**
+   * @method findById
+   * @description 指定されたIDの用語を検索します。
+   * @param {number} id 用語ID
+   * @returns {Promise<GlossaryTerm | null>} 用語、または見つからない場合はnull
+   */
+  async findById(id: number): Promise<GlossaryTerm | null> {
+    const query = 'SELECT * FROM glossary_terms WHERE id = ?';
+    return await this.queryOne<GlossaryTerm>(query, [id]);
+  }
+
+  /**
+   * @method findAll
+   * @description すべての用語を用語順に取得します。
+   * @returns {Promise<GlossaryTerm[]>} 用語の配列
+   */
+  async findAll(): Promise<GlossaryTerm[]> {
+    const query = 'SELECT * FROM glossary_terms ORDER BY term COLLATE NOCASE, id';
+    return await this.queryAll<GlossaryTerm>(query);
+  }
+
+  /**
+   * @method findForRoom
+   * @description 指定されたルームに適用される用語 (全ルーム共通の用語とルーム固有の用語) を取得します。
+   * @param {string | null} roomId ルームID。nullの場合は全ルーム共通の用語のみ。
+   * @returns {Promise<GlossaryTerm[]>} 用語の配列
+   */
+  async findForRoom(roomId: string | null): Promise<GlossaryTerm[]> {
+    if (!roomId) {
+      return await this.queryAll<GlossaryTerm>('SELECT * FROM glossary_terms WHERE room_id IS NULL');
+    }
+    const query = 'SELECT * FROM glossary_terms WHERE room_id IS NULL OR room_id = ?';
+    return await this.queryAll<GlossaryTerm>(query, [roomId]);
+  }
+
+  /**
+   * @method create
+   * @description 新しい用語を登録します。
+   * @param {Omit<GlossaryTerm, 'id'>} term 登録する用語データ（IDは自動採番のため除く）
+   * @returns {Promise<D1Result<GlossaryTerm>>} 作成操作の結果
+   */
+  async create(term: Omit<GlossaryTerm, 'id'>): Promise<D1Result<GlossaryTerm>> {
+    const query = `
+      INSERT INTO glossary_terms (term, translations, do_not_translate, room_id, note, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+    return await this.execute<GlossaryTerm>(query, [
+      term.term,
+      term.translations,
+      term.do_not_translate,
+      term.room_id,
+      term.note,
+      term.created_at,
+      term.updated_at,
+    ]);
+  }
+
+  /**
+   * @method update
+   * @description 用語を更新します。
+   * @param {number} id 用語ID
+   * @param {Omit<GlossaryTerm, 'id' | 'created_at'>} term 更新後の用語データ
+   * @returns {Promise<D1Result<GlossaryTerm>>} 更新操作の結果
+   */
+  async update(id: number, term: Omit<GlossaryTerm, 'id' | 'created_at'>): Promise<D1Result<GlossaryTerm>> {
+    const query = `
+      UPDATE glossary_terms
+      SET term = ?, translations = ?, do_not_translate = ?, room_id = ?, note = ?, updated_at = ?
+      WHERE id = ?
+    `;
+    return await this.execute<GlossaryTerm>(query, [
+      term.term,
+      term.translations,
+      term.do_not_translate,
+      term.room_id,
+      term.note,
+      term.updated_at,
+      id,
+    ]);
+  }
+
+  /**
+   * @method delete
+   * @description 用語を削除します。
+   * @param {number} id 用語ID
+   * @returns {Promise<D1Result<GlossaryTerm>>} 削除操作の結果
+   */
+  async delete(id: number): Promise<D1Result<GlossaryTerm>> {
+    const query = 'DELETE FROM glossary_terms WHERE id = ?';
+    return await this.execute<GlossaryTerm>(query, [id]);
+  }
+}
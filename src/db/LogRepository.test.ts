@@ -8,7 +8,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { LogRepository } from '../db/LogRepository';
 import { createMockD1Database } from '../test/utils/mockD1';
 import { Env } from '../db/BaseRepository';
-import { TranslationLog, DebugLog } from '../types/db';
+import { TranslationLog, DebugLog, DeliveryLog } from '../types/db';
 
 describe('LogRepository', () => {
   let mockD1: D1Database;
@@ -33,10 +33,17 @@ describe('LogRepository', () => {
       timestamp: '2023-01-01T10:00:00Z',
       user_id: 'U123',
       language: 'en',
+      language_confidence: 0.95,
+      detection_method: 'ngram',
       original_message: 'Hello',
       translation: 'こんにちは',
       prompt: 'Translate to Japanese',
       history_count: 0,
+      skip_reason: null,
+      prompt_template: 'default',
+      prompt_template_version: 2,
+      post_id: 'msg1',
+      context_post_ids: '["ctx1","ctx2"]',
     };
     vi.spyOn(mockD1, 'prepare').mockReturnThis();
     vi.spyOn(mockD1, 'bind').mockReturnThis();
@@ -53,10 +60,17 @@ describe('LogRepository', () => {
       newLog.timestamp,
       newLog.user_id,
       newLog.language,
+      newLog.language_confidence,
+      newLog.detection_method,
       newLog.original_message,
       newLog.translation,
       newLog.prompt,
-      newLog.history_count
+      newLog.history_count,
+      newLog.skip_reason,
+      newLog.prompt_template,
+      newLog.prompt_template_version,
+      newLog.post_id,
+      newLog.context_post_ids
     );
   });
 
@@ -84,6 +98,38 @@ describe('LogRepository', () => {
     );
   });
 
+  it('should create a delivery log', async () => {
+    const newLog: Omit<DeliveryLog, 'id'> = {
+      timestamp: '2023-01-01T10:00:00Z',
+      post_id: 'P123',
+      destination: 'G123',
+      method: 'push',
+      success: 1,
+      status_code: 200,
+      error_body: null,
+    };
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 1 }
+    });
+
+    const result = await logRepository.createDeliveryLog(newLog);
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO delivery_logs'));
+    expect(mockD1.bind).toHaveBeenCalledWith(
+      newLog.timestamp,
+      newLog.post_id,
+      newLog.destination,
+      newLog.method,
+      newLog.success,
+      newLog.status_code,
+      newLog.error_body
+    );
+  });
+
   it('should get recent translation logs', async () => {
     const mockLogs: TranslationLog[] = [
       { id: 2, timestamp: '2023-01-01T10:05:00Z', user_id: 'U1', language: 'en', original_message: 'Hi', translation: 'やあ', prompt: 'Prompt', history_count: 1 },
@@ -103,6 +149,86 @@ describe('LogRepository', () => {
     expect(mockD1.bind).toHaveBeenCalledWith(2);
   });
 
+  it('should find the latest translation log of a post', async () => {
+    const mockLog = { id: 3, timestamp: '2023-01-01T10:05:00Z', post_id: 'msg1', original_message: 'Hi', translation: 'やあ' };
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [mockLog],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const log = await logRepository.findLatestTranslationLogByPostId('msg1');
+    expect(log).toEqual(mockLog);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/SELECT \* FROM translation_logs.*WHERE post_id = \?.*ORDER BY id DESC.*LIMIT 1/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('msg1');
+  });
+
+  it('should clear the messages of the translation logs of a post', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 2, last_row_id: 0 }
+    });
+
+    await logRepository.clearTranslationLogsByPostId('msg1');
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(
+      /UPDATE translation_logs.*SET original_message = NULL, translation = NULL, prompt = NULL.*WHERE post_id = \?/s
+    ));
+    expect(mockD1.bind).toHaveBeenCalledWith('msg1');
+  });
+
+  it('should clear the prompts of translation logs that included a post in the context', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 3, last_row_id: 0 }
+    });
+
+    await logRepository.clearPromptsByContextPostId('msg1', ' 明日は休みます ');
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(
+      /UPDATE translation_logs.*SET prompt = NULL.*json_each\(context_post_ids\) WHERE value = \?.*context_post_ids IS NULL.*instr\(prompt, \?\)/s
+    ));
+    expect(mockD1.bind).toHaveBeenCalledWith('msg1', '明日は休みます', '明日は休みます');
+  });
+
+  it('should delete the debug logs of a post', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    await logRepository.deleteDebugLogsByPostId('msg1');
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/DELETE FROM debug_logs.*WHERE instr\(message, \?\) > 0/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('for post msg1:');
+  });
+
+  it('should find the latest successful delivery of a reply to a post', async () => {
+    const mockLog: DeliveryLog = {
+      id: 3, timestamp: '2024-05-01T10:00:00Z', post_id: 'msg1', destination: 'group1', method: 'reply', success: 1, status_code: 200, error_body: null,
+    };
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [mockLog],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const log = await logRepository.findLatestDeliveryLogByPostId('msg1');
+    expect(log).toEqual(mockLog);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/SELECT \* FROM delivery_logs.*WHERE post_id = \? AND success = 1.*ORDER BY id DESC.*LIMIT 1/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('msg1');
+  });
+
   it('should get recent debug logs', async () => {
     const mockLogs: DebugLog[] = [
       { id: 2, timestamp: '2023-01-01T10:05:00Z', message: 'Error 2', stack: 'Stack 2' },
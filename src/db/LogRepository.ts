@@ -1,10 +1,10 @@
 /**
  * @file LogRepository
- * @description 'translation_logs' および 'debug_logs' テーブルに対するデータベース操作を管理するリポジトリ。
+ * @description 'translation_logs'、'debug_logs' および 'delivery_logs' テーブルに対するデータベース操作を管理するリポジトリ。
  */
 
 import { BaseRepository, Env } from './BaseRepository';
-import { TranslationLog, DebugLog } from '../types/db';
+import { TranslationLog, DebugLog, DeliveryLog } from '../types/db';
 
 export class LogRepository extends BaseRepository {
   constructor(env: Env) {
@@ -19,17 +19,24 @@ export class LogRepository extends BaseRepository {
    */
   async createTranslationLog(log: Omit<TranslationLog, 'id'>): Promise<D1Result<TranslationLog>> {
     const query = `
-      INSERT INTO translation_logs (timestamp, user_id, language, original_message, translation, prompt, history_count)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO translation_logs (timestamp, user_id, language, language_confidence, detection_method, original_message, translation, prompt, history_count, skip_reason, prompt_template, prompt_template_version, post_id, context_post_ids)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `;
     return await this.execute<TranslationLog>(query, [
       log.timestamp,
       log.user_id,
       log.language,
+      log.language_confidence ?? null,
+      log.detection_method ?? null,
       log.original_message,
       log.translation,
       log.prompt,
       log.history_count,
+      log.skip_reason ?? null,
+      log.prompt_template ?? null,
+      log.prompt_template_version ?? null,
+      log.post_id ?? null,
+      log.context_post_ids ?? null,
     ]);
   }
 
@@ -51,6 +58,28 @@ export class LogRepository extends BaseRepository {
     ]);
   }
 
+  /**
+   * @method createDeliveryLog
+   * @description 新しいメッセージ送信ログを作成します。
+   * @param {Omit<DeliveryLog, 'id'>} log 作成する送信ログデータ（IDは自動採番のため除く）
+   * @returns {Promise<D1Result<DeliveryLog>>} 作成操作の結果
+   */
+  async createDeliveryLog(log: Omit<DeliveryLog, 'id'>): Promise<D1Result<DeliveryLog>> {
+    const query = `
+      INSERT INTO delivery_logs (timestamp, post_id, destination, method, success, status_code, error_body)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `;
+    return await this.execute<DeliveryLog>(query, [
+      log.timestamp,
+      log.post_id,
+      log.destination,
+      log.method,
+      log.success,
+      log.status_code,
+      log.error_body,
+    ]);
+  }
+
   /**
    * @method getRecentTranslationLogs
    * @description 最新の翻訳ログを指定数だけ取得します。
@@ -66,6 +95,89 @@ export class LogRepository extends BaseRepository {
     return await this.queryAll<TranslationLog>(query, [limit]);
   }
 
+  /**
+   * @method findLatestTranslationLogByPostId
+   * @description 投稿の最新の翻訳ログを取得します (翻訳の評価を翻訳ログに紐付けるために使用)。
+   * @param {string} postId 投稿ID
+   * @returns {Promise<TranslationLog | null>} 翻訳ログ、または存在しない場合はnull
+   */
+  async findLatestTranslationLogByPostId(postId: string): Promise<TranslationLog | null> {
+    const query = `
+      SELECT * FROM translation_logs
+      WHERE post_id = ?
+      ORDER BY id DESC
+      LIMIT 1
+    `;
+    return await this.queryOne<TranslationLog>(query, [postId]);
+  }
+
+  /**
+   * @method clearTranslationLogsByPostId
+   * @description 送信が取り消された投稿の翻訳ログから、メッセージ・翻訳・プロンプトを削除します。
+   * @param {string} postId 投稿ID
+   * @returns {Promise<D1Result<TranslationLog>>} 更新操作の結果
+   */
+  async clearTranslationLogsByPostId(postId: string): Promise<D1Result<TranslationLog>> {
+    const query = `
+      UPDATE translation_logs
+      SET original_message = NULL, translation = NULL, prompt = NULL
+      WHERE post_id = ?
+    `;
+    return await this.execute<TranslationLog>(query, [postId]);
+  }
+
+  /**
+   * @method clearPromptsByContextPostId
+   * @description 送信が取り消された投稿を会話の文脈や返信先に含めた、他の投稿の翻訳ログのプロンプトを削除します。
+   *              文脈の投稿IDを記録する前のログは、プロンプトに投稿のメッセージが含まれているかで判定します。
+   * @param {string} postId 送信が取り消された投稿ID
+   * @param {string | null} messageText 送信が取り消された投稿のメッセージ (記録前のログの判定用)
+   * @returns {Promise<D1Result<TranslationLog>>} 更新操作の結果
+   */
+  async clearPromptsByContextPostId(postId: string, messageText: string | null): Promise<D1Result<TranslationLog>> {
+    const query = `
+      UPDATE translation_logs
+      SET prompt = NULL
+      WHERE prompt IS NOT NULL
+        AND (
+          EXISTS (SELECT 1 FROM json_each(context_post_ids) WHERE value = ?)
+          OR (context_post_ids IS NULL AND ? != '' AND instr(prompt, ?) > 0)
+        )
+    `;
+    const text = messageText?.trim() ?? '';
+    return await this.execute<TranslationLog>(query, [postId, text, text]);
+  }
+
+  /**
+   * @method deleteDebugLogsByPostId
+   * @description 投稿の翻訳で記録したデバッグログ (エラーに翻訳の出力などが含まれる場合がある) を削除します。
+   * @param {string} postId 投稿ID
+   * @returns {Promise<D1Result<DebugLog>>} 削除操作の結果
+   */
+  async deleteDebugLogsByPostId(postId: string): Promise<D1Result<DebugLog>> {
+    const query = `
+      DELETE FROM debug_logs
+      WHERE instr(message, ?) > 0
+    `;
+    return await this.execute<DebugLog>(query, [`for post ${postId}:`]);
+  }
+
+  /**
+   * @method findLatestDeliveryLogByPostId
+   * @description 投稿への返信のうち、最後に送信に成功したものの送信ログを取得します。
+   * @param {string} postId 返信元の投稿ID
+   * @returns {Promise<DeliveryLog | null>} 送信ログ、または返信していない場合はnull
+   */
+  async findLatestDeliveryLogByPostId(postId: string): Promise<DeliveryLog | null> {
+    const query = `
+      SELECT * FROM delivery_logs
+      WHERE post_id = ? AND success = 1
+      ORDER BY id DESC
+      LIMIT 1
+    `;
+    return await this.queryOne<DeliveryLog>(query, [postId]);
+  }
+
   /**
    * @method getRecentDebugLogs
    * @description 最新のデバッグログを指定数だけ取得します。
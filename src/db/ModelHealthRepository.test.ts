@@ -0,0 +1,78 @@
+/**
+ * @file ModelHealthRepository.test.ts
+ * @description ModelHealthRepositoryの単体テスト。
+ *              モックされたCloudflare D1データベースを使用して、モデルの状態の取得・保存・削除を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ModelHealthRepository } from '../db/ModelHealthRepository';
+import { createMockD1Database } from '../test/utils/mockD1';
+import { Env } from '../db/BaseRepository';
+
+describe('ModelHealthRepository', () => {
+  let mockD1: D1Database;
+  let modelHealthRepository: ModelHealthRepository;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    mockD1 = createMockD1Database();
+    mockEnv = {
+      DB: mockD1,
+      LINE_CHANNEL_ACCESS_TOKEN: 'mock_token',
+      LINE_CHANNEL_SECRET: 'mock_secret',
+      GEMINI_API_KEY: 'mock_gemini_key',
+      BASE_URL: 'https://example.com',
+      ADMIN_PASSWORD: 'mock_password',
+    };
+    modelHealthRepository = new ModelHealthRepository(mockEnv);
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+  });
+
+  it('should find the health of all models', async () => {
+    const mockHealth = [{ model: 'gemini-2.5-flash', cooldown_until: null }];
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: mockHealth,
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const health = await modelHealthRepository.findAll();
+    expect(health).toEqual(mockHealth);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT * FROM model_health ORDER BY model');
+  });
+
+  it('should save the health of a model', async () => {
+    await modelHealthRepository.save({
+      model: 'gemini-2.5-flash-lite',
+      cooldown_until: '2024-05-15T10:01:00.000Z',
+      consecutive_failures: 1,
+      window_started_at: '2024-05-15T10:00:00.000Z',
+      window_requests: 1,
+      window_failures: 1,
+      last_status: '429',
+      last_success_at: null,
+      last_failure_at: '2024-05-15T10:00:00.000Z',
+      updated_at: '2024-05-15T10:00:00.000Z',
+    });
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/INSERT INTO model_health.*ON CONFLICT\(model\) DO UPDATE SET/s));
+    expect(mockD1.bind).toHaveBeenCalledWith(
+      'gemini-2.5-flash-lite',
+      '2024-05-15T10:01:00.000Z',
+      1,
+      '2024-05-15T10:00:00.000Z',
+      1,
+      1,
+      '429',
+      null,
+      '2024-05-15T10:00:00.000Z',
+      '2024-05-15T10:00:00.000Z'
+    );
+  });
+
+  it('should delete the health of a model', async () => {
+    await modelHealthRepository.delete('gemini-2.5-flash-lite');
+    expect(mockD1.prepare).toHaveBeenCalledWith('DELETE FROM model_health WHERE model = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('gemini-2.5-flash-lite');
+  });
+});
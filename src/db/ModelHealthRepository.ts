@@ -0,0 +1,69 @@
+/**
+ * @file ModelHealthRepository
+ * @description 'model_health' テーブルに対するデータベース操作を管理するリポジトリ。
+ */
+
+import { BaseRepository, Env } from './BaseRepository';
+import { ModelHealth } from '../types/db';
+
+export class ModelHealthRepository extends BaseRepository {
+  constructor(env: Env) {
+    super(env);
+  }
+
+  /**
+   * @method findAll
+   * @description すべてのモデルの状態を取得します。
+   * @returns {Promise<ModelHealth[]>} モデルの状態の配列
+   */
+  async findAll(): Promise<ModelHealth[]> {
+    const query = 'SELECT * FROM model_health ORDER BY model';
+    return await this.queryAll<ModelHealth>(query);
+  }
+
+  /**
+   * @method save
+   * @description モデルの状態を保存します。既に記録がある場合は置き換えます。
+   * @param {ModelHealth} health 保存するモデルの状態
+   * @returns {Promise<D1Result<ModelHealth>>} 操作の結果
+   */
+  async save(health: ModelHealth): Promise<D1Result<ModelHealth>> {
+    const query = `
+      INSERT INTO model_health (model, cooldown_until, consecutive_failures, window_started_at, window_requests, window_failures, last_status, last_success_at, last_failure_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(model) DO UPDATE SET
+        cooldown_until = EXCLUDED.cooldown_until,
+        consecutive_failures = EXCLUDED.consecutive_failures,
+        window_started_at = EXCLUDED.window_started_at,
+        window_requests = EXCLUDED.window_requests,
+        window_failures = EXCLUDED.window_failures,
+        last_status = EXCLUDED.last_status,
+        last_success_at = EXCLUDED.last_success_at,
+        last_failure_at = EXCLUDED.last_failure_at,
+        updated_at = EXCLUDED.updated_at
+    `;
+    return await this.execute<ModelHealth>(query, [
+      health.model,
+      health.cooldown_until,
+      health.consecutive_failures,
+      health.window_started_at,
+      health.window_requests,
+      health.window_failures,
+      health.last_status,
+      health.last_success_at,
+      health.last_failure_at,
+      health.updated_at,
+    ]);
+  }
+
+  /**
+   * @method delete
+   * @description モデルの状態を削除し、使用可能な状態に戻します (管理画面からの手動リセット用)。
+   * @param {string} model モデル名
+   * @returns {Promise<D1Result<ModelHealth>>} 削除操作の結果
+   */
+  async delete(model: string): Promise<D1Result<ModelHealth>> {
+    const query = 'DELETE FROM model_health WHERE model = ?';
+    return await this.execute<ModelHealth>(query, [model]);
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * @file PlaceRepository.test.ts
+ * @description PlaceRepositoryの単体テスト。
+ *              モックされたCloudflare D1データベースを使用して、登録した場所の操作を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PlaceRepository } from '../db/PlaceRepository';
+import { createMockD1Database } from '../test/utils/mockD1';
+import { Env } from '../db/BaseRepository';
+import { Place } from '../types/db';
+
+describe('PlaceRepository', () => {
+  let mockD1: D1Database;
+  let placeRepository: PlaceRepository;
+  let mockEnv: Env;
+
+  const mockResult = (results: any[] = []) => ({
+    results,
+    success: true,
+    meta: { duration: 0, served_by: 'mock', changes: results.length ? 0 : 1, last_row_id: 0 }
+  });
+
+  beforeEach(() => {
+    mockD1 = createMockD1Database();
+    mockEnv = {
+      DB: mockD1,
+      LINE_CHANNEL_ACCESS_TOKEN: 'mock_token',
+      LINE_CHANNEL_SECRET: 'mock_secret',
+      GEMINI_API_KEY: 'mock_gemini_key',
+      BASE_URL: 'https://example.com',
+      ADMIN_PASSWORD: 'mock_password',
+    };
+    placeRepository = new PlaceRepository(mockEnv);
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+  });
+
+  it('should create a place', async () => {
+    const newPlace: Omit<Place, 'id'> = {
+      name: '発表会会場',
+      room_id: 'R1',
+      title: 'Filharmonia',
+      address: 'ul. Zwierzyniecka 1, Kraków',
+      latitude: 50.0577,
+      longitude: 19.9322,
+      source_post_id: 'loc1',
+      created_by: 'teacher1',
+      created_at: '2024-05-15T10:00:00Z',
+      updated_at: '2024-05-15T10:00:00Z',
+    };
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce(mockResult());
+
+    const result = await placeRepository.create(newPlace);
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO places'));
+    expect(mockD1.bind).toHaveBeenCalledWith(
+      '発表会会場', 'R1', 'Filharmonia', 'ul. Zwierzyniecka 1, Kraków', 50.0577, 19.9322,
+      'loc1', 'teacher1', '2024-05-15T10:00:00Z', '2024-05-15T10:00:00Z'
+    );
+  });
+
+  it('should find a place registered in the room by name', async () => {
+    const mockPlace = { id: 1, name: '発表会会場', room_id: 'R1' };
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce(mockResult([mockPlace]));
+
+    const place = await placeRepository.findByName('発表会会場', 'R1', 'U1');
+    expect(place).toEqual(mockPlace);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT * FROM places WHERE name = ? COLLATE NOCASE AND room_id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('発表会会場', 'R1');
+  });
+
+  it('should prefer the place registered in the room over the personal one of the user', async () => {
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce(mockResult());
+
+    const place = await placeRepository.findForRoom('Filharmonia', 'R1', 'U1');
+    expect(place).toBeNull();
+    expect(mockD1.prepare).toHaveBeenCalledWith(
+      expect.stringMatching(/WHERE name = \? COLLATE NOCASE AND \(room_id = \? OR \(room_id IS NULL AND created_by = \?\)\).*ORDER BY room_id IS NULL/s)
+    );
+    expect(mockD1.bind).toHaveBeenCalledWith('Filharmonia', 'R1', 'U1');
+  });
+
+  it('should find only the personal places of the user for a personal chat', async () => {
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce(mockResult());
+
+    await placeRepository.findForRoom('Filharmonia', null, 'U1');
+    expect(mockD1.prepare).toHaveBeenCalledWith(
+      'SELECT * FROM places WHERE name = ? COLLATE NOCASE AND room_id IS NULL AND created_by = ?'
+    );
+    expect(mockD1.bind).toHaveBeenCalledWith('Filharmonia', 'U1');
+  });
+
+  it('should update the location of a place', async () => {
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce(mockResult());
+
+    await placeRepository.updateLocation(1, {
+      title: 'ICE Kraków',
+      address: 'ul. Marii Konopnickiej 17, Kraków',
+      latitude: 50.0477,
+      longitude: 19.9316,
+      source_post_id: 'loc2',
+      updated_at: '2024-05-16T10:00:00Z',
+    });
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE places.*WHERE id = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith(
+      'ICE Kraków', 'ul. Marii Konopnickiej 17, Kraków', 50.0477, 19.9316, 'loc2', '2024-05-16T10:00:00Z', 1
+    );
+  });
+
+  it('should remove the references from posts when deleting a place', async () => {
+    vi.spyOn(mockD1, 'all').mockResolvedValue(mockResult());
+
+    await placeRepository.delete(1);
+    expect(mockD1.prepare).toHaveBeenCalledWith('UPDATE posts SET place_id = NULL WHERE place_id = ?');
+    expect(mockD1.prepare).toHaveBeenCalledWith('DELETE FROM places WHERE id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * @file PlaceRepository
+ * @description 'places' テーブルに対するデータベース操作を管理するリポジトリ。
+ */
+
+import { BaseRepository, Env } from './BaseRepository';
+import { Place } from '../types/db';
+
+export class PlaceRepository extends BaseRepository {
+  constructor(env: Env) {
+    super(env);
+  }
+
+  /**
+   * @method findById
+   * @description 指定されたIDの場所を検索します。
+   * @param {number} id 場所ID
+   * @returns {Promise<Place | null>} 場所、または見つからない場合はnull
+   */
+  async findById(id: number): Promise<Place | null> {
+    const query = 'SELECT * FROM places WHERE id = ?';
+    return await this.queryOne<Place>(query, [id]);
+  }
+
+  /**
+   * @method findAll
+   * @description すべての場所を名前順に取得します。
+   * @returns {Promise<Place[]>} 場所の配列
+   */
+  async findAll(): Promise<Place[]> {
+    const query = 'SELECT * FROM places ORDER BY name COLLATE NOCASE, id';
+    return await this.queryAll<Place>(query);
+  }
+
+  /**
+   * @method findByName
+   * @description 指定されたルームに登録された、指定された名前の場所を検索します (大文字・小文字は区別しません)。
+   *              個人チャットの場合は、そのユーザー専用の場所を検索します (登録し直す場合の確認に使用)。
+   * @param {string} name 場所の名前
+   * @param {string | null} roomId ルームID。nullの場合は個人チャット。
+   * @param {string} userId 登録するユーザーID (個人チャットの場合の検索に使用)
+   * @returns {Promise<Place | null>} 場所、または見つからない場合はnull
+   */
+  async findByName(name: string, roomId: string | null, userId: string): Promise<Place | null> {
+    if (!roomId) {
+      const query = 'SELECT * FROM places WHERE name = ? COLLATE NOCASE AND room_id IS NULL AND created_by = ?';
+      return await this.queryOne<Place>(query, [name, userId]);
+    }
+    const query = 'SELECT * FROM places WHERE name = ? COLLATE NOCASE AND room_id = ?';
+    return await this.queryOne<Place>(query, [name, roomId]);
+  }
+
+  /**
+   * @method findForRoom
+   * @description 指定されたルームで、指定されたユーザーが参照できる、指定された名前の場所を検索します。
+   *              ルームに登録された場所を、ユーザー専用の場所より優先します。
+   *              ほかのユーザーが個人チャットで登録した場所は参照できません。
+   * @param {string} name 場所の名前
+   * @param {string | null} roomId ルームID。nullの場合はユーザー専用の場所のみ。
+   * @param {string} userId 参照したユーザーID
+   * @returns {Promise<Place | null>} 場所、または見つからない場合はnull
+   */
+  async findForRoom(name: string, roomId: string | null, userId: string): Promise<Place | null> {
+    if (!roomId) {
+      return await this.findByName(name, null, userId);
+    }
+    const query = `
+      SELECT * FROM places
+      WHERE name = ? COLLATE NOCASE AND (room_id = ? OR (room_id IS NULL AND created_by = ?))
+      ORDER BY room_id IS NULL
+      LIMIT 1
+    `;
+    return await this.queryOne<Place>(query, [name, roomId, userId]);
+  }
+
+  /**
+   * @method create
+   * @description 新しい場所を登録します。
+   * @param {Omit<Place, 'id'>} place 登録する場所データ（IDは自動採番のため除く）
+   * @returns {Promise<D1Result<Place>>} 作成操作の結果
+   */
+  async create(place: Omit<Place, 'id'>): Promise<D1Result<Place>> {
+    const query = `
+      INSERT INTO places (name, room_id, title, address, latitude, longitude, source_post_id, created_by, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `;
+    return await this.execute<Place>(query, [
+      place.name,
+      place.room_id,
+      place.title,
+      place.address,
+      place.latitude,
+      place.longitude,
+      place.source_post_id,
+      place.created_by,
+      place.created_at,
+      place.updated_at,
+    ]);
+  }
+
+  /**
+   * @method updateLocation
+   * @description 登録済みの場所の位置情報を、新しい位置情報メッセージの内容で更新します。
+   * @param {number} id 場所ID
+   * @param {Pick<Place, 'title' | 'address' | 'latitude' | 'longitude' | 'source_post_id' | 'updated_at'>} location 更新後の位置情報
+   * @returns {Promise<D1Result<Place>>} 更新操作の結果
+   */
+  async updateLocation(
+    id: number,
+    location: Pick<Place, 'title' | 'address' | 'latitude' | 'longitude' | 'source_post_id' | 'updated_at'>
+  ): Promise<D1Result<Place>> {
+    const query = `
+      UPDATE places
+      SET title = ?, address = ?, latitude = ?, longitude = ?, source_post_id = ?, updated_at = ?
+      WHERE id = ?
+    `;
+    return await this.execute<Place>(query, [
+      location.title,
+      location.address,
+      location.latitude,
+      location.longitude,
+      location.source_post_id,
+      location.updated_at,
+      id,
+    ]);
+  }
+
+  /**
+   * @method delete
+   * @description 場所を削除します。場所を参照している投稿からは参照を外します。
+   * @param {number} id 場所ID
+   * @returns {Promise<D1Result<Place>>} 削除操作の結果
+   */
+  async delete(id: number): Promise<D1Result<Place>> {
+    await this.execute('UPDATE posts SET place_id = NULL WHERE place_id = ?', [id]);
+    const query = 'DELETE FROM places WHERE id = ?';
+    return await this.execute<Place>(query, [id]);
+  }
+}
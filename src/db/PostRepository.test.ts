@@ -8,7 +8,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { PostRepository } from '../db/PostRepository';
 import { createMockD1Database } from '../test/utils/mockD1';
 import { Env } from '../db/BaseRepository';
-import { Post } from '../types/db';
+import { Post, PostWithSpeaker } from '../types/db';
 
 describe('PostRepository', () => {
   let mockD1: D1Database;
@@ -74,6 +74,7 @@ describe('PostRepository', () => {
       message_text: 'New message',
       has_poll: 0,
       translated_text: null,
+      quoted_post_id: 'P123',
     };
     vi.spyOn(mockD1, 'prepare').mockReturnThis();
     vi.spyOn(mockD1, 'bind').mockReturnThis();
@@ -85,7 +86,9 @@ describe('PostRepository', () => {
 
     const result = await postRepository.create(newPost);
     expect(result.success).toBe(true);
-    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO posts'));
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(
+      /INSERT INTO posts.*WHERE NOT EXISTS \(SELECT 1 FROM retracted_messages WHERE message_id = \?\)/s
+    ));
     expect(mockD1.bind).toHaveBeenCalledWith(
       newPost.post_id,
       newPost.timestamp,
@@ -93,10 +96,31 @@ describe('PostRepository', () => {
       newPost.room_id,
       newPost.message_text,
       newPost.has_poll,
-      newPost.translated_text
+      newPost.translated_text,
+      newPost.quoted_post_id,
+      'text',
+      null,
+      null,
+      newPost.post_id
     );
   });
 
+  it('should find a post with the display name of its speaker', async () => {
+    const mockPost = { post_id: 'P123', user_id: 'U123', message_text: 'Czy jutro jest lekcja?', display_name: 'Kasia' };
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [mockPost],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const post = await postRepository.findWithSpeakerById('P123');
+    expect(post).toEqual(mockPost);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/LEFT JOIN users ON users.user_id = posts.user_id\s+WHERE posts.post_id = \?/));
+    expect(mockD1.bind).toHaveBeenCalledWith('P123');
+  });
+
   it('should find latest posts by room ID', async () => {
     const mockPosts: Post[] = [
       { post_id: 'P002', timestamp: '2023-01-01T12:05:00Z', user_id: 'U1', room_id: 'R1', message_text: 'Msg 2', has_poll: 0, translated_text: null },
@@ -116,6 +140,38 @@ describe('PostRepository', () => {
     expect(mockD1.bind).toHaveBeenCalledWith('R1', 2);
   });
 
+  it('should find context posts by room ID with the speaker name', async () => {
+    const mockPosts: PostWithSpeaker[] = [
+      { post_id: 'P002', timestamp: '2023-01-01T12:05:00Z', user_id: 'U1', room_id: 'R1', message_text: 'Msg 2', has_poll: 0, translated_text: null, display_name: 'Hana' },
+    ];
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: mockPosts,
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const posts = await postRepository.findContextPostsByRoomId('R1', 20);
+    expect(posts).toEqual(mockPosts);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/LEFT JOIN users ON users.user_id = posts.user_id.*WHERE posts.room_id = \?.*ORDER BY posts.timestamp DESC.*LIMIT \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('R1', 20);
+  });
+
+  it('should find context posts in a private chat', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    await postRepository.findContextPostsByUserId('U1', 20);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/WHERE posts.user_id = \? AND posts.room_id IS NULL/));
+    expect(mockD1.bind).toHaveBeenCalledWith('U1', 20);
+  });
+
   it('should update translated text', async () => {
     vi.spyOn(mockD1, 'prepare').mockReturnThis();
     vi.spyOn(mockD1, 'bind').mockReturnThis();
@@ -131,6 +187,52 @@ describe('PostRepository', () => {
     expect(mockD1.bind).toHaveBeenCalledWith('Translated text', 'P123');
   });
 
+  it('should set the place referenced by a post', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await postRepository.updatePlace('P123', 3);
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE posts.*SET place_id = \?.*WHERE post_id = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith(3, 'P123');
+  });
+
+  it('should update the message text of a post that is not retracted', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await postRepository.updateMessageText('P123', '発表会 土曜日 10:00');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE posts.*SET message_text = \?.*WHERE post_id = \? AND retracted_at IS NULL/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('発表会 土曜日 10:00', 'P123');
+  });
+
+  it('should update translations per language', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const translations = { pl: 'Dzień dobry', en: 'Good morning' };
+    const result = await postRepository.updateTranslations('P123', 'Polish: Dzień dobry\nEnglish: Good morning', translations);
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE posts.*SET translated_text = \?, translations = \?.*WHERE post_id = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('Polish: Dzień dobry\nEnglish: Good morning', JSON.stringify(translations), 'P123');
+  });
+
   it('should update has_poll status', async () => {
     vi.spyOn(mockD1, 'prepare').mockReturnThis();
     vi.spyOn(mockD1, 'bind').mockReturnThis();
@@ -145,4 +247,71 @@ describe('PostRepository', () => {
     expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE posts.*SET has_poll = \?.*WHERE post_id = \?/s));
     expect(mockD1.bind).toHaveBeenCalledWith(1, 'P123');
   });
+
+  it('should replace the translated text with a correction and clear the translations per language', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await postRepository.correctTranslatedText('P123', 'English: Good morning');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE posts.*SET translated_text = \?, translations = NULL.*WHERE post_id = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('English: Good morning', 'P123');
+  });
+
+  it('should clear the text, translations and content of a retracted post', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await postRepository.retract('P123', '2024-05-01T10:00:00.000Z');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(
+      /UPDATE posts.*SET message_text = NULL, translated_text = NULL, translations = NULL,\s+content_metadata = NULL, content_key = NULL, retracted_at = \?.*WHERE post_id = \?/s
+    ));
+    expect(mockD1.bind).toHaveBeenCalledWith('2024-05-01T10:00:00.000Z', 'P123');
+  });
+
+  it('should record a retracted message', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await postRepository.recordRetraction('P123', '2024-05-01T10:00:00.000Z');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/INSERT INTO retracted_messages.*ON CONFLICT\(message_id\) DO NOTHING/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('P123', '2024-05-01T10:00:00.000Z');
+  });
+
+  it('should tell whether a message has been retracted', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all')
+      .mockResolvedValueOnce({
+        results: [{ message_id: 'P123' }],
+        success: true,
+        meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+      })
+      .mockResolvedValueOnce({
+        results: [],
+        success: true,
+        meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+      });
+
+    expect(await postRepository.isRetracted('P123')).toBe(true);
+    expect(await postRepository.isRetracted('P456')).toBe(false);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT message_id FROM retracted_messages WHERE message_id = ?');
+  });
 });
@@ -4,7 +4,7 @@
  */
 
 import { BaseRepository, Env } from './BaseRepository';
-import { Post } from '../types/db';
+import { Post, PostWithSpeaker, RetractedMessage } from '../types/db';
 
 export class PostRepository extends BaseRepository {
   constructor(env: Env) {
@@ -25,13 +25,15 @@ export class PostRepository extends BaseRepository {
   /**
    * @method create
    * @description 新しい投稿を作成します。
+   *              送信が取り消し済みのメッセージは保存しません。
    * @param {Post} post 作成する投稿データ
    * @returns {Promise<D1Result<Post>>} 作成操作の結果
    */
   async create(post: Post): Promise<D1Result<Post>> {
     const query = `
-      INSERT INTO posts (post_id, timestamp, user_id, room_id, message_text, has_poll, translated_text)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO posts (post_id, timestamp, user_id, room_id, message_text, has_poll, translated_text, quoted_post_id, content_type, content_metadata, content_key)
+      SELECT ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?
+      WHERE NOT EXISTS (SELECT 1 FROM retracted_messages WHERE message_id = ?)
     `;
     return await this.execute<Post>(query, [
       post.post_id,
@@ -41,6 +43,11 @@ export class PostRepository extends BaseRepository {
       post.message_text,
       post.has_poll,
       post.translated_text,
+      post.quoted_post_id ?? null,
+      post.content_type ?? 'text',
+      post.content_metadata ?? null,
+      post.content_key ?? null,
+      post.post_id,
     ]);
   }
 
@@ -78,6 +85,57 @@ export class PostRepository extends BaseRepository {
     return await this.queryAll<Post>(query, [userId, limit]);
   }
 
+  /**
+   * @method findWithSpeakerById
+   * @description 指定された投稿を、投稿者の表示名付きで取得します (引用返信の返信先に使用)。
+   * @param {string} postId LINEメッセージID
+   * @returns {Promise<PostWithSpeaker | null>} 投稿、または見つからない場合はnull
+   */
+  async findWithSpeakerById(postId: string): Promise<PostWithSpeaker | null> {
+    const query = `
+      SELECT posts.*, users.display_name FROM posts
+      LEFT JOIN users ON users.user_id = posts.user_id
+      WHERE posts.post_id = ?
+    `;
+    return await this.queryOne<PostWithSpeaker>(query, [postId]);
+  }
+
+  /**
+   * @method findContextPostsByRoomId
+   * @description 指定されたルームIDの最新の投稿を、投稿者の表示名付きで指定数だけ取得します。
+   * @param {string} roomId ルームID
+   * @param {number} limit 取得する投稿の最大数
+   * @returns {Promise<PostWithSpeaker[]>} 投稿の配列 (新しい順)
+   */
+  async findContextPostsByRoomId(roomId: string, limit: number): Promise<PostWithSpeaker[]> {
+    const query = `
+      SELECT posts.*, users.display_name FROM posts
+      LEFT JOIN users ON users.user_id = posts.user_id
+      WHERE posts.room_id = ?
+      ORDER BY posts.timestamp DESC
+      LIMIT ?
+    `;
+    return await this.queryAll<PostWithSpeaker>(query, [roomId, limit]);
+  }
+
+  /**
+   * @method findContextPostsByUserId
+   * @description 指定されたユーザーの個人チャットでの最新の投稿を、投稿者の表示名付きで指定数だけ取得します。
+   * @param {string} userId ユーザーID
+   * @param {number} limit 取得する投稿の最大数
+   * @returns {Promise<PostWithSpeaker[]>} 投稿の配列 (新しい順)
+   */
+  async findContextPostsByUserId(userId: string, limit: number): Promise<PostWithSpeaker[]> {
+    const query = `
+      SELECT posts.*, users.display_name FROM posts
+      LEFT JOIN users ON users.user_id = posts.user_id
+      WHERE posts.user_id = ? AND posts.room_id IS NULL
+      ORDER BY posts.timestamp DESC
+      LIMIT ?
+    `;
+    return await this.queryAll<PostWithSpeaker>(query, [userId, limit]);
+  }
+
   /**
    * @method findAllByUserId
    * @description 指定されたユーザーIDのすべての投稿を指定数だけ取得します。
@@ -95,6 +153,23 @@ export class PostRepository extends BaseRepository {
     return await this.queryAll<Post>(query, [userId, limit]);
   }
 
+  /**
+   * @method updateMessageText
+   * @description 投稿の本文を更新します (画像から読み取った文章や音声の書き起こしを、投稿の保存後に設定する場合に使用)。
+   *              読み取り中に送信が取り消された投稿には書き戻しません。
+   * @param {string} postId 更新する投稿のID
+   * @param {string} messageText 設定する本文
+   * @returns {Promise<D1Result<Post>>} 更新操作の結果
+   */
+  async updateMessageText(postId: string, messageText: string): Promise<D1Result<Post>> {
+    const query = `
+      UPDATE posts
+      SET message_text = ?
+      WHERE post_id = ? AND retracted_at IS NULL
+    `;
+    return await this.execute<Post>(query, [messageText, postId]);
+  }
+
   /**
    * @method updateTranslatedText
    * @description 投稿の翻訳済みテキストを更新します。
@@ -111,6 +186,45 @@ export class PostRepository extends BaseRepository {
     return await this.execute<Post>(query, [translatedText, postId]);
   }
 
+  /**
+   * @method correctTranslatedText
+   * @description 管理者が修正した翻訳で投稿の翻訳済みテキストを置き換えます。
+   *              言語ごとの翻訳結果は修正前の翻訳のままになるため、同じ更新で削除します。
+   * @param {string} postId 更新する投稿のID
+   * @param {string} translatedText 修正した翻訳済みテキスト
+   * @returns {Promise<D1Result<Post>>} 更新操作の結果
+   */
+  async correctTranslatedText(postId: string, translatedText: string): Promise<D1Result<Post>> {
+    const query = `
+      UPDATE posts
+      SET translated_text = ?, translations = NULL
+      WHERE post_id = ?
+    `;
+    return await this.execute<Post>(query, [translatedText, postId]);
+  }
+
+  /**
+   * @method updateTranslations
+   * @description 投稿の翻訳結果を、返信用に整形したテキストと言語ごとの翻訳結果の両方で更新します。
+   *              翻訳中に送信が取り消された投稿には書き戻しません。
+   * @param {string} postId 更新する投稿のID
+   * @param {string} translatedText 返信用に整形した翻訳済みテキスト
+   * @param {Record<string, string>} translations 言語コードをキーとした翻訳結果
+   * @returns {Promise<D1Result<Post>>} 更新操作の結果
+   */
+  async updateTranslations(
+    postId: string,
+    translatedText: string,
+    translations: Record<string, string>
+  ): Promise<D1Result<Post>> {
+    const query = `
+      UPDATE posts
+      SET translated_text = ?, translations = ?
+      WHERE post_id = ? AND retracted_at IS NULL
+    `;
+    return await this.execute<Post>(query, [translatedText, JSON.stringify(translations), postId]);
+  }
+
   /**
    * @method updateHasPoll
    * @description 投稿がアンケートであるかを更新します。
@@ -126,4 +240,65 @@ export class PostRepository extends BaseRepository {
     `;
     return await this.execute<Post>(query, [hasPoll, postId]);
   }
+
+  /**
+   * @method updatePlace
+   * @description 投稿で参照した場所を設定します。
+   * @param {string} postId 更新する投稿のID
+   * @param {number} placeId 参照した場所のID
+   * @returns {Promise<D1Result<Post>>} 更新操作の結果
+   */
+  async updatePlace(postId: string, placeId: number): Promise<D1Result<Post>> {
+    const query = `
+      UPDATE posts
+      SET place_id = ?
+      WHERE post_id = ?
+    `;
+    return await this.execute<Post>(query, [placeId, postId]);
+  }
+
+  /**
+   * @method retract
+   * @description 送信が取り消された投稿の本文と翻訳、コンテンツの情報を削除し、取り消し日時を記録します。
+   * @param {string} postId 取り消された投稿のID
+   * @param {string} retractedAt 取り消し日時 (ISO8601形式)
+   * @returns {Promise<D1Result<Post>>} 更新操作の結果
+   */
+  async retract(postId: string, retractedAt: string): Promise<D1Result<Post>> {
+    const query = `
+      UPDATE posts
+      SET message_text = NULL, translated_text = NULL, translations = NULL,
+          content_metadata = NULL, content_key = NULL, retracted_at = ?
+      WHERE post_id = ?
+    `;
+    return await this.execute<Post>(query, [retractedAt, postId]);
+  }
+
+  /**
+   * @method recordRetraction
+   * @description メッセージの送信が取り消されたことを記録します。
+   *              投稿の保存より先に取り消しが処理された場合でも、後から投稿を保存しないために使用します。
+   * @param {string} messageId 取り消されたメッセージのID
+   * @param {string} retractedAt 取り消し日時 (ISO8601形式)
+   * @returns {Promise<D1Result<RetractedMessage>>} 作成操作の結果
+   */
+  async recordRetraction(messageId: string, retractedAt: string): Promise<D1Result<RetractedMessage>> {
+    const query = `
+      INSERT INTO retracted_messages (message_id, retracted_at)
+      VALUES (?, ?)
+      ON CONFLICT(message_id) DO NOTHING
+    `;
+    return await this.execute<RetractedMessage>(query, [messageId, retractedAt]);
+  }
+
+  /**
+   * @method isRetracted
+   * @description メッセージの送信が取り消し済みかを確認します。
+   * @param {string} messageId メッセージID
+   * @returns {Promise<boolean>} 取り消し済みの場合はtrue
+   */
+  async isRetracted(messageId: string): Promise<boolean> {
+    const query = 'SELECT message_id FROM retracted_messages WHERE message_id = ?';
+    return (await this.queryOne<RetractedMessage>(query, [messageId])) !== null;
+  }
 }
@@ -0,0 +1,151 @@
+/**
+ * @file ProcessedEventRepository.test.ts
+ * @description ProcessedEventRepositoryの単体テスト。
+ *              モックされたCloudflare D1データベースを使用して、処理台帳の操作を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ProcessedEventRepository } from '../db/ProcessedEventRepository';
+import { createMockD1Database } from '../test/utils/mockD1';
+import { Env } from '../db/BaseRepository';
+import { ProcessedEvent } from '../types/db';
+
+describe('ProcessedEventRepository', () => {
+  let mockD1: D1Database;
+  let processedEventRepository: ProcessedEventRepository;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    mockD1 = createMockD1Database();
+    mockEnv = {
+      DB: mockD1,
+      LINE_CHANNEL_ACCESS_TOKEN: 'mock_token',
+      LINE_CHANNEL_SECRET: 'mock_secret',
+      GEMINI_API_KEY: 'mock_gemini_key',
+      BASE_URL: 'https://example.com',
+      ADMIN_PASSWORD: 'mock_password',
+    };
+    processedEventRepository = new ProcessedEventRepository(mockEnv);
+  });
+
+  it('should find a processed event by ID', async () => {
+    const mockEvent: ProcessedEvent = {
+      event_id: 'E123',
+      status: 'completed',
+      attempts: 1,
+      last_error: null,
+      step_results: '{}',
+      created_at: '2023-01-01T10:00:00Z',
+      updated_at: '2023-01-01T10:00:01Z',
+    };
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [mockEvent],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const event = await processedEventRepository.findById('E123');
+    expect(event).toEqual(mockEvent);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT * FROM processed_events WHERE event_id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('E123');
+  });
+
+  it('should claim an event and return the updated row', async () => {
+    const claimed: ProcessedEvent = {
+      event_id: 'E123',
+      status: 'processing',
+      attempts: 2,
+      last_error: 'reply failed',
+      step_results: '{"createPost":null}',
+      created_at: '2023-01-01T10:00:00Z',
+      updated_at: '2023-01-01T10:05:00Z',
+    };
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [claimed],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await processedEventRepository.claim('E123', 'msg1', '2023-01-01T10:05:00Z', '2023-01-01T10:03:00Z');
+    expect(result).toEqual(claimed);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/INSERT INTO processed_events.*ON CONFLICT\(event_id\) DO UPDATE.*RETURNING \*/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('E123', 'msg1', '2023-01-01T10:05:00Z', '2023-01-01T10:05:00Z', '2023-01-01T10:03:00Z');
+  });
+
+  it('should return null when the event cannot be claimed', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const result = await processedEventRepository.claim('E123', 'msg1', '2023-01-01T10:05:00Z', '2023-01-01T10:03:00Z');
+    expect(result).toBeNull();
+  });
+
+  it('should save step results', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await processedEventRepository.saveStepResults('E123', '{"translate":"Hello"}', '2023-01-01T10:00:00Z');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE processed_events.*SET step_results = \?, updated_at = \?.*WHERE event_id = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('{"translate":"Hello"}', '2023-01-01T10:00:00Z', 'E123');
+  });
+
+  it('should mark an event as completed', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await processedEventRepository.markCompleted('E123', '2023-01-01T10:00:00Z');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE processed_events.*SET status = 'completed'/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('2023-01-01T10:00:00Z', 'E123');
+  });
+
+  it('should mark an event as failed with the error message', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await processedEventRepository.markFailed('E123', 'reply failed', '2023-01-01T10:00:00Z');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE processed_events.*SET status = 'failed', last_error = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('reply failed', '2023-01-01T10:00:00Z', 'E123');
+  });
+
+  it('should clear the step results recorded for a message', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await processedEventRepository.clearStepResultsByMessageId('msg1');
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE processed_events.*SET step_results = NULL.*WHERE message_id = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('msg1');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * @file ProcessedEventRepository
+ * @description 'processed_events' テーブルに対するデータベース操作を管理するリポジトリ。
+ *              Webhookイベントの二重処理を防ぐための処理台帳として使用します。
+ */
+
+import { BaseRepository, Env } from './BaseRepository';
+import { ProcessedEvent } from '../types/db';
+
+export class ProcessedEventRepository extends BaseRepository {
+  constructor(env: Env) {
+    super(env);
+  }
+
+  /**
+   * @method findById
+   * @description 指定されたイベントIDの処理状況を検索します。
+   * @param {string} eventId LINEのwebhookEventId
+   * @returns {Promise<ProcessedEvent | null>} 処理状況、または見つからない場合はnull
+   */
+  async findById(eventId: string): Promise<ProcessedEvent | null> {
+    const query = 'SELECT * FROM processed_events WHERE event_id = ?';
+    return await this.queryOne<ProcessedEvent>(query, [eventId]);
+  }
+
+  /**
+   * @method claim
+   * @description イベントの処理権を取得します。
+   *              未登録のイベントは新規作成し、失敗済みまたは処理中のままリース期限を過ぎたイベントは試行回数を加算して再取得します。
+   *              完了済み、または他の処理がリース期限内で処理中のイベントは取得できません。
+   * @param {string} eventId LINEのwebhookEventId
+   * @param {string | null} messageId イベントが対象とするメッセージID (送信取消時の削除に使用)
+   * @param {string} now 現在日時 (ISO8601形式)
+   * @param {string} leaseExpiredBefore この日時より前に更新された処理中イベントはリース切れとみなす (ISO8601形式)
+   * @returns {Promise<ProcessedEvent | null>} 取得できた場合は更新後の処理状況、取得できなかった場合はnull
+   */
+  async claim(eventId: string, messageId: string | null, now: string, leaseExpiredBefore: string): Promise<ProcessedEvent | null> {
+    const query = `
+      INSERT INTO processed_events (event_id, message_id, status, attempts, last_error, step_results, created_at, updated_at)
+      VALUES (?, ?, 'processing', 1, NULL, NULL, ?, ?)
+      ON CONFLICT(event_id) DO UPDATE SET
+        status = 'processing',
+        attempts = processed_events.attempts + 1,
+        updated_at = EXCLUDED.updated_at
+      WHERE processed_events.status = 'failed'
+        OR (processed_events.status = 'processing' AND processed_events.updated_at < ?)
+      RETURNING *
+    `;
+    return await this.queryOne<ProcessedEvent>(query, [eventId, messageId, now, now, leaseExpiredBefore]);
+  }
+
+  /**
+   * @method saveStepResults
+   * @description 完了済みステップとその結果を保存します。
+   *              送信取消済みのメッセージのイベントには、取消後に結果を書き戻しません。
+   * @param {string} eventId LINEのwebhookEventId
+   * @param {string} stepResults 完了済みステップとその結果 (JSON形式)
+   * @param {string} now 現在日時 (ISO8601形式)
+   * @returns {Promise<D1Result<ProcessedEvent>>} 更新操作の結果
+   */
+  async saveStepResults(eventId: string, stepResults: string, now: string): Promise<D1Result<ProcessedEvent>> {
+    const query = `
+      UPDATE processed_events
+      SET step_results = ?, updated_at = ?
+      WHERE event_id = ?
+        AND (message_id IS NULL OR message_id NOT IN (SELECT message_id FROM retracted_messages))
+    `;
+    return await this.execute<ProcessedEvent>(query, [stepResults, now, eventId]);
+  }
+
+  /**
+   * @method markCompleted
+   * @description イベントを処理完了としてマークします。
+   * @param {string} eventId LINEのwebhookEventId
+   * @param {string} now 現在日時 (ISO8601形式)
+   * @returns {Promise<D1Result<ProcessedEvent>>} 更新操作の結果
+   */
+  async markCompleted(eventId: string, now: string): Promise<D1Result<ProcessedEvent>> {
+    const query = `
+      UPDATE processed_events
+      SET status = 'completed', last_error = NULL, updated_at = ?
+      WHERE event_id = ?
+    `;
+    return await this.execute<ProcessedEvent>(query, [now, eventId]);
+  }
+
+  /**
+   * @method markFailed
+   * @description イベントを処理失敗としてマークし、エラー内容を記録します。
+   * @param {string} eventId LINEのwebhookEventId
+   * @param {string} error エラーメッセージ
+   * @param {string} now 現在日時 (ISO8601形式)
+   * @returns {Promise<D1Result<ProcessedEvent>>} 更新操作の結果
+   */
+  async markFailed(eventId: string, error: string, now: string): Promise<D1Result<ProcessedEvent>> {
+    const query = `
+      UPDATE processed_events
+      SET status = 'failed', last_error = ?, updated_at = ?
+      WHERE event_id = ?
+    `;
+    return await this.execute<ProcessedEvent>(query, [error, now, eventId]);
+  }
+
+  /**
+   * @method clearStepResultsByMessageId
+   * @description 指定されたメッセージのイベントに記録されたステップ結果を削除します。
+   *              送信取消されたメッセージの翻訳結果などを台帳に残さないために使用します。
+   * @param {string} messageId メッセージID
+   * @returns {Promise<D1Result<ProcessedEvent>>} 更新操作の結果
+   */
+  async clearStepResultsByMessageId(messageId: string): Promise<D1Result<ProcessedEvent>> {
+    const query = `
+      UPDATE processed_events
+      SET step_results = NULL
+      WHERE message_id = ?
+    `;
+    return await this.execute<ProcessedEvent>(query, [messageId]);
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * @file PromptTemplateRepository.test.ts
+ * @description PromptTemplateRepositoryの単体テスト。
+ *              モックされたCloudflare D1データベースを使用して、テンプレートのバージョンの取得と追加を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { PromptTemplateRepository } from '../db/PromptTemplateRepository';
+import { createMockD1Database } from '../test/utils/mockD1';
+import { Env } from '../db/BaseRepository';
+
+describe('PromptTemplateRepository', () => {
+  let mockD1: D1Database;
+  let promptTemplateRepository: PromptTemplateRepository;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    mockD1 = createMockD1Database();
+    mockEnv = {
+      DB: mockD1,
+      LINE_CHANNEL_ACCESS_TOKEN: 'mock_token',
+      LINE_CHANNEL_SECRET: 'mock_secret',
+      GEMINI_API_KEY: 'mock_gemini_key',
+      BASE_URL: 'https://example.com',
+      ADMIN_PASSWORD: 'mock_password',
+    };
+    promptTemplateRepository = new PromptTemplateRepository(mockEnv);
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+  });
+
+  it('should find the latest version of a template', async () => {
+    const mockTemplate = { id: 3, name: 'default', version: 2, body: '{{source_text}}' };
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [mockTemplate],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const template = await promptTemplateRepository.findLatestByName('default');
+    expect(template).toEqual(mockTemplate);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT * FROM prompt_templates WHERE name = ? ORDER BY version DESC LIMIT 1');
+    expect(mockD1.bind).toHaveBeenCalledWith('default');
+  });
+
+  it('should find a specific version of a template', async () => {
+    await promptTemplateRepository.findVersion('default', 1);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT * FROM prompt_templates WHERE name = ? AND version = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('default', 1);
+  });
+
+  it('should summarize the templates by name', async () => {
+    await promptTemplateRepository.summarize();
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/MAX\(version\) AS version, COUNT\(\*\) AS versions.*GROUP BY name/s));
+  });
+
+  it('should add a new version numbered after the latest one', async () => {
+    await promptTemplateRepository.createVersion({
+      name: 'formal',
+      body: '{{source_text}}',
+      note: 'Use polite wording',
+      created_at: '2024-05-15T10:00:00.000Z',
+    });
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/SELECT \?, COALESCE\(MAX\(version\), 0\) \+ 1, \?, \?, \? FROM prompt_templates WHERE name = \?/));
+    expect(mockD1.bind).toHaveBeenCalledWith('formal', '{{source_text}}', 'Use polite wording', '2024-05-15T10:00:00.000Z', 'formal');
+  });
+});
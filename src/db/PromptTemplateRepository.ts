@@ -0,0 +1,83 @@
+/**
+ * @file PromptTemplateRepository
+ * @description 'prompt_templates' テーブルに対するデータベース操作を管理するリポジトリ。
+ *              テンプレートは編集のたびに新しいバージョンとして追加し、過去のバージョンは変更しません。
+ */
+
+import { BaseRepository, Env } from './BaseRepository';
+import { PromptTemplate, PromptTemplateSummary } from '../types/db';
+
+export class PromptTemplateRepository extends BaseRepository {
+  constructor(env: Env) {
+    super(env);
+  }
+
+  /**
+   * @method findLatestByName
+   * @description 指定された名前のテンプレートの最新バージョンを取得します。
+   * @param {string} name テンプレート名
+   * @returns {Promise<PromptTemplate | null>} テンプレート、または見つからない場合はnull
+   */
+  async findLatestByName(name: string): Promise<PromptTemplate | null> {
+    const query = 'SELECT * FROM prompt_templates WHERE name = ? ORDER BY version DESC LIMIT 1';
+    return await this.queryOne<PromptTemplate>(query, [name]);
+  }
+
+  /**
+   * @method findVersion
+   * @description 指定された名前とバージョンのテンプレートを取得します。
+   * @param {string} name テンプレート名
+   * @param {number} version バージョン
+   * @returns {Promise<PromptTemplate | null>} テンプレート、または見つからない場合はnull
+   */
+  async findVersion(name: string, version: number): Promise<PromptTemplate | null> {
+    const query = 'SELECT * FROM prompt_templates WHERE name = ? AND version = ?';
+    return await this.queryOne<PromptTemplate>(query, [name, version]);
+  }
+
+  /**
+   * @method findVersions
+   * @description 指定された名前のテンプレートのすべてのバージョンを新しい順に取得します。
+   * @param {string} name テンプレート名
+   * @returns {Promise<PromptTemplate[]>} テンプレートの配列
+   */
+  async findVersions(name: string): Promise<PromptTemplate[]> {
+    const query = 'SELECT * FROM prompt_templates WHERE name = ? ORDER BY version DESC';
+    return await this.queryAll<PromptTemplate>(query, [name]);
+  }
+
+  /**
+   * @method summarize
+   * @description テンプレート名ごとの最新バージョンとバージョン数を取得します。
+   * @returns {Promise<PromptTemplateSummary[]>} テンプレート名ごとの集計の配列
+   */
+  async summarize(): Promise<PromptTemplateSummary[]> {
+    const query = `
+      SELECT name, MAX(version) AS version, COUNT(*) AS versions, MAX(created_at) AS updated_at
+      FROM prompt_templates
+      GROUP BY name
+      ORDER BY name
+    `;
+    return await this.queryAll<PromptTemplateSummary>(query);
+  }
+
+  /**
+   * @method createVersion
+   * @description テンプレートの新しいバージョンを追加します。バージョンはその名前の最新バージョンの次の番号になります。
+   * @param {Omit<PromptTemplate, 'id' | 'version'>} template 追加するテンプレート（IDとバージョンは自動採番のため除く）
+   * @returns {Promise<D1Result<PromptTemplate>>} 作成操作の結果
+   */
+  async createVersion(template: Omit<PromptTemplate, 'id' | 'version'>): Promise<D1Result<PromptTemplate>> {
+    const query = `
+      INSERT INTO prompt_templates (name, version, body, note, created_at)
+      SELECT ?, COALESCE(MAX(version), 0) + 1, ?, ?, ? FROM prompt_templates WHERE name = ?
+    `;
+    return await this.execute<PromptTemplate>(query, [
+      template.name,
+      template.body,
+      template.note,
+      template.created_at,
+      template.name,
+    ]);
+  }
+}
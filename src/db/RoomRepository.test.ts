@@ -104,4 +104,56 @@ describe('RoomRepository', () => {
     expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringContaining('ON CONFLICT(room_id) DO UPDATE SET'));
     expect(mockD1.bind).toHaveBeenCalledWith('R101', 'Updated Room');
   });
+
+  it('should find all rooms', async () => {
+    const mockRooms: Room[] = [{ room_id: 'R1', room_name: 'Room 1' }];
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: mockRooms,
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const rooms = await roomRepository.findAll();
+    expect(rooms).toEqual(mockRooms);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT * FROM rooms ORDER BY room_id');
+  });
+
+  it('should update the language configuration', async () => {
+    const config = { languages: ['ja', 'uk'], targets: { ja: ['uk'] } };
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    const result = await roomRepository.updateLanguageConfig('R1', config);
+    expect(result.success).toBe(true);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE rooms.*SET language_config = \?.*WHERE room_id = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith(JSON.stringify(config), 'R1');
+  });
+
+  it('should reset the language configuration to the default', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 1, last_row_id: 0 }
+    });
+
+    await roomRepository.updateLanguageConfig('R1', null);
+    expect(mockD1.bind).toHaveBeenCalledWith(null, 'R1');
+  });
+
+  it('should update the prompt template and description', async () => {
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+
+    await roomRepository.updatePromptSettings('R1', 'formal', '大人のバレエ教室のチャットです。');
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE rooms.*SET prompt_template = \?, description = \?.*WHERE room_id = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('formal', '大人のバレエ教室のチャットです。', 'R1');
+  });
 });
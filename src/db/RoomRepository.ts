@@ -5,6 +5,7 @@
 
 import { BaseRepository, Env } from './BaseRepository';
 import { Room } from '../types/db';
+import { RoomLanguageConfig } from '../utils/languages';
 
 export class RoomRepository extends BaseRepository {
   constructor(env: Env) {
@@ -48,4 +49,47 @@ export class RoomRepository extends BaseRepository {
     `;
     return await this.execute<Room>(query, [room.room_id, room.room_name]);
   }
+
+  /**
+   * @method findAll
+   * @description すべてのルームを取得します。
+   * @returns {Promise<Room[]>} ルームの配列
+   */
+  async findAll(): Promise<Room[]> {
+    const query = 'SELECT * FROM rooms ORDER BY room_id';
+    return await this.queryAll<Room>(query);
+  }
+
+  /**
+   * @method updateLanguageConfig
+   * @description ルームの言語設定を更新します。
+   * @param {string} roomId ルームID
+   * @param {RoomLanguageConfig | null} config 言語設定 (nullの場合は既定の設定に戻す)
+   * @returns {Promise<D1Result<Room>>} 更新操作の結果
+   */
+  async updateLanguageConfig(roomId: string, config: RoomLanguageConfig | null): Promise<D1Result<Room>> {
+    const query = `
+      UPDATE rooms
+      SET language_config = ?
+      WHERE room_id = ?
+    `;
+    return await this.execute<Room>(query, [config ? JSON.stringify(config) : null, roomId]);
+  }
+
+  /**
+   * @method updatePromptSettings
+   * @description ルームで使用するプロンプトテンプレートと、プロンプトに含めるルームの説明を更新します。
+   * @param {string} roomId ルームID
+   * @param {string | null} promptTemplate テンプレート名 (nullの場合は 'default')
+   * @param {string | null} description ルームの説明 (nullの場合は既定の説明)
+   * @returns {Promise<D1Result<Room>>} 更新操作の結果
+   */
+  async updatePromptSettings(roomId: string, promptTemplate: string | null, description: string | null): Promise<D1Result<Room>> {
+    const query = `
+      UPDATE rooms
+      SET prompt_template = ?, description = ?
+      WHERE room_id = ?
+    `;
+    return await this.execute<Room>(query, [promptTemplate, description, roomId]);
+  }
 }
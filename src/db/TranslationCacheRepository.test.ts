@@ -0,0 +1,88 @@
+/**
+ * @file TranslationCacheRepository.test.ts
+ * @description TranslationCacheRepositoryの単体テスト。
+ *              モックされたCloudflare D1データベースを使用して、翻訳キャッシュとヒット数の操作を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TranslationCacheRepository } from '../db/TranslationCacheRepository';
+import { createMockD1Database } from '../test/utils/mockD1';
+import { Env } from '../db/BaseRepository';
+
+describe('TranslationCacheRepository', () => {
+  let mockD1: D1Database;
+  let translationCacheRepository: TranslationCacheRepository;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    mockD1 = createMockD1Database();
+    mockEnv = {
+      DB: mockD1,
+      LINE_CHANNEL_ACCESS_TOKEN: 'mock_token',
+      LINE_CHANNEL_SECRET: 'mock_secret',
+      GEMINI_API_KEY: 'mock_gemini_key',
+      BASE_URL: 'https://example.com',
+      ADMIN_PASSWORD: 'mock_password',
+    };
+    translationCacheRepository = new TranslationCacheRepository(mockEnv);
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+  });
+
+  it('should find a cache entry by key', async () => {
+    const mockEntry = { cache_key: 'abc', translations: '{"ja":"OK"}' };
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [mockEntry],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const entry = await translationCacheRepository.findByKey('abc');
+    expect(entry).toEqual(mockEntry);
+    expect(mockD1.prepare).toHaveBeenCalledWith('SELECT * FROM translation_cache WHERE cache_key = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('abc');
+  });
+
+  it('should save a cache entry', async () => {
+    await translationCacheRepository.save({
+      cache_key: 'abc',
+      normalized_text: 'ok',
+      source_lang: 'en',
+      target_langs: 'ja',
+      context_hash: 'ctx',
+      translations: '{"ja":"OK"}',
+      post_id: 'msg1',
+      created_at: '2023-01-01T10:00:00Z',
+    });
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/INSERT INTO translation_cache.*ON CONFLICT\(cache_key\) DO UPDATE SET/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('abc', 'ok', 'en', 'ja', 'ctx', '{"ja":"OK"}', 'msg1', '2023-01-01T10:00:00Z');
+  });
+
+  it('should delete the entries saved from a post', async () => {
+    await translationCacheRepository.deleteByPostId('msg1');
+    expect(mockD1.prepare).toHaveBeenCalledWith('DELETE FROM translation_cache WHERE post_id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('msg1');
+  });
+
+  it('should record a hit', async () => {
+    await translationCacheRepository.recordHit('abc', '2023-01-01T10:00:00Z');
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/SET hit_count = hit_count \+ 1, last_hit_at = \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('2023-01-01T10:00:00Z', 'abc');
+  });
+
+  it('should increment the daily hit and miss counters', async () => {
+    await translationCacheRepository.incrementStats('2023-01-01', 'hits');
+    expect(mockD1.prepare).toHaveBeenLastCalledWith(expect.stringContaining('hits = hits + 1'));
+    expect(mockD1.bind).toHaveBeenLastCalledWith('2023-01-01', 1, 0);
+
+    await translationCacheRepository.incrementStats('2023-01-01', 'misses');
+    expect(mockD1.prepare).toHaveBeenLastCalledWith(expect.stringContaining('misses = misses + 1'));
+    expect(mockD1.bind).toHaveBeenLastCalledWith('2023-01-01', 0, 1);
+  });
+
+  it('should delete a cache entry', async () => {
+    await translationCacheRepository.delete('abc');
+    expect(mockD1.prepare).toHaveBeenCalledWith('DELETE FROM translation_cache WHERE cache_key = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('abc');
+  });
+});
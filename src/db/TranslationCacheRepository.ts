@@ -0,0 +1,142 @@
+/**
+ * @file TranslationCacheRepository
+ * @description 'translation_cache' および 'translation_cache_stats' テーブルに対するデータベース操作を管理するリポジトリ。
+ */
+
+import { BaseRepository, Env } from './BaseRepository';
+import { TranslationCacheEntry, TranslationCacheStats } from '../types/db';
+
+export class TranslationCacheRepository extends BaseRepository {
+  constructor(env: Env) {
+    super(env);
+  }
+
+  /**
+   * @method findByKey
+   * @description 指定されたキーのキャッシュを検索します。
+   * @param {string} cacheKey キャッシュキー
+   * @returns {Promise<TranslationCacheEntry | null>} キャッシュ、または見つからない場合はnull
+   */
+  async findByKey(cacheKey: string): Promise<TranslationCacheEntry | null> {
+    const query = 'SELECT * FROM translation_cache WHERE cache_key = ?';
+    return await this.queryOne<TranslationCacheEntry>(query, [cacheKey]);
+  }
+
+  /**
+   * @method save
+   * @description キャッシュを登録します。同じキーが既にある場合は翻訳結果を置き換えます。
+   * @param {Omit<TranslationCacheEntry, 'hit_count' | 'last_hit_at'>} entry 登録するキャッシュ
+   * @returns {Promise<D1Result<TranslationCacheEntry>>} 操作の結果
+   */
+  async save(entry: Omit<TranslationCacheEntry, 'hit_count' | 'last_hit_at'>): Promise<D1Result<TranslationCacheEntry>> {
+    const query = `
+      INSERT INTO translation_cache (cache_key, normalized_text, source_lang, target_langs, context_hash, translations, post_id, hit_count, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?)
+      ON CONFLICT(cache_key) DO UPDATE SET
+        translations = EXCLUDED.translations,
+        post_id = EXCLUDED.post_id,
+        created_at = EXCLUDED.created_at
+    `;
+    return await this.execute<TranslationCacheEntry>(query, [
+      entry.cache_key,
+      entry.normalized_text,
+      entry.source_lang,
+      entry.target_langs,
+      entry.context_hash,
+      entry.translations,
+      entry.post_id ?? null,
+      entry.created_at,
+    ]);
+  }
+
+  /**
+   * @method deleteByPostId
+   * @description 指定された投稿の翻訳から登録したキャッシュを削除します (送信が取り消された場合に使用)。
+   * @param {string} postId 投稿ID
+   * @returns {Promise<D1Result<TranslationCacheEntry>>} 削除操作の結果
+   */
+  async deleteByPostId(postId: string): Promise<D1Result<TranslationCacheEntry>> {
+    const query = 'DELETE FROM translation_cache WHERE post_id = ?';
+    return await this.execute<TranslationCacheEntry>(query, [postId]);
+  }
+
+  /**
+   * @method recordHit
+   * @description キャッシュの使用回数と最終使用日時を更新します。
+   * @param {string} cacheKey キャッシュキー
+   * @param {string} now 使用日時
+   * @returns {Promise<D1Result<TranslationCacheEntry>>} 更新操作の結果
+   */
+  async recordHit(cacheKey: string, now: string): Promise<D1Result<TranslationCacheEntry>> {
+    const query = `
+      UPDATE translation_cache
+      SET hit_count = hit_count + 1, last_hit_at = ?
+      WHERE cache_key = ?
+    `;
+    return await this.execute<TranslationCacheEntry>(query, [now, cacheKey]);
+  }
+
+  /**
+   * @method incrementStats
+   * @description 日ごとのヒット数またはミス数を1増やします。
+   * @param {string} date 日付 (YYYY-MM-DD)
+   * @param {'hits' | 'misses'} counter 増やすカウンター
+   * @returns {Promise<D1Result<TranslationCacheStats>>} 操作の結果
+   */
+  async incrementStats(date: string, counter: 'hits' | 'misses'): Promise<D1Result<TranslationCacheStats>> {
+    const query = `
+      INSERT INTO translation_cache_stats (date, hits, misses)
+      VALUES (?, ?, ?)
+      ON CONFLICT(date) DO UPDATE SET
+        ${counter} = ${counter} + 1
+    `;
+    return await this.execute<TranslationCacheStats>(query, [date, counter === 'hits' ? 1 : 0, counter === 'misses' ? 1 : 0]);
+  }
+
+  /**
+   * @method findStats
+   * @description 直近の日ごとのヒット数・ミス数を新しい順に取得します。
+   * @param {number} days 取得する日数
+   * @returns {Promise<TranslationCacheStats[]>} 日ごとの集計の配列
+   */
+  async findStats(days: number): Promise<TranslationCacheStats[]> {
+    const query = 'SELECT * FROM translation_cache_stats ORDER BY date DESC LIMIT ?';
+    return await this.queryAll<TranslationCacheStats>(query, [days]);
+  }
+
+  /**
+   * @method findRecent
+   * @description キャッシュを最近使用・登録された順に取得します。
+   * @param {number} limit 取得する最大数
+   * @param {string} [search] 正規化したメッセージの部分一致検索 (省略時はすべて)
+   * @returns {Promise<TranslationCacheEntry[]>} キャッシュの配列
+   */
+  async findRecent(limit: number, search?: string): Promise<TranslationCacheEntry[]> {
+    if (search) {
+      const query = `
+        SELECT * FROM translation_cache
+        WHERE normalized_text LIKE ?
+        ORDER BY COALESCE(last_hit_at, created_at) DESC
+        LIMIT ?
+      `;
+      return await this.queryAll<TranslationCacheEntry>(query, [`%${search}%`, limit]);
+    }
+    const query = `
+      SELECT * FROM translation_cache
+      ORDER BY COALESCE(last_hit_at, created_at) DESC
+      LIMIT ?
+    `;
+    return await this.queryAll<TranslationCacheEntry>(query, [limit]);
+  }
+
+  /**
+   * @method delete
+   * @description キャッシュを削除します (誤った翻訳を再利用しないようにするため)。
+   * @param {string} cacheKey キャッシュキー
+   * @returns {Promise<D1Result<TranslationCacheEntry>>} 削除操作の結果
+   */
+  async delete(cacheKey: string): Promise<D1Result<TranslationCacheEntry>> {
+    const query = 'DELETE FROM translation_cache WHERE cache_key = ?';
+    return await this.execute<TranslationCacheEntry>(query, [cacheKey]);
+  }
+}
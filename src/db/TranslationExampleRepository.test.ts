@@ -0,0 +1,69 @@
+/**
+ * @file TranslationExampleRepository.test.ts
+ * @description TranslationExampleRepositoryの単体テスト。
+ *              モックされたCloudflare D1データベースを使用して、翻訳の例の保存・取得・削除を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TranslationExampleRepository } from '../db/TranslationExampleRepository';
+import { createMockD1Database } from '../test/utils/mockD1';
+import { Env } from '../db/BaseRepository';
+
+describe('TranslationExampleRepository', () => {
+  let mockD1: D1Database;
+  let translationExampleRepository: TranslationExampleRepository;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    mockD1 = createMockD1Database();
+    mockEnv = {
+      DB: mockD1,
+      LINE_CHANNEL_ACCESS_TOKEN: 'mock_token',
+      LINE_CHANNEL_SECRET: 'mock_secret',
+      GEMINI_API_KEY: 'mock_gemini_key',
+      BASE_URL: 'https://example.com',
+      ADMIN_PASSWORD: 'mock_password',
+    };
+    translationExampleRepository = new TranslationExampleRepository(mockEnv);
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+  });
+
+  it('should upsert an example for a post', async () => {
+    await translationExampleRepository.upsert({
+      post_id: 'msg1',
+      room_id: 'room1',
+      source_text: '発表会の衣装',
+      translation: 'Kostium na pokaz',
+      created_at: '2024-05-15T10:00:00.000Z',
+    });
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/INSERT INTO translation_examples.*ON CONFLICT\(post_id\) DO UPDATE SET/s));
+    expect(mockD1.bind).toHaveBeenCalledWith('msg1', 'room1', '発表会の衣装', 'Kostium na pokaz', '2024-05-15T10:00:00.000Z');
+  });
+
+  it('should find the recent examples of a room', async () => {
+    const mockExamples = [{ id: 1, post_id: 'msg1', room_id: null, source_text: 'A', translation: 'B' }];
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: mockExamples,
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const examples = await translationExampleRepository.findRecentByRoomId(null, 3);
+    expect(examples).toEqual(mockExamples);
+    expect(mockD1.prepare).toHaveBeenCalledWith(expect.stringMatching(/WHERE room_id IS \?.*ORDER BY created_at DESC.*LIMIT \?/s));
+    expect(mockD1.bind).toHaveBeenCalledWith(null, 3);
+  });
+
+  it('should delete an example', async () => {
+    await translationExampleRepository.delete(1);
+    expect(mockD1.prepare).toHaveBeenCalledWith('DELETE FROM translation_examples WHERE id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith(1);
+  });
+
+  it('should delete the examples created from a post', async () => {
+    await translationExampleRepository.deleteByPostId('msg1');
+    expect(mockD1.prepare).toHaveBeenCalledWith('DELETE FROM translation_examples WHERE post_id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('msg1');
+  });
+});
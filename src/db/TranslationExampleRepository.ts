@@ -0,0 +1,86 @@
+/**
+ * @file TranslationExampleRepository
+ * @description 'translation_examples' テーブルに対するデータベース操作を管理するリポジトリ。
+ */
+
+import { BaseRepository, Env } from './BaseRepository';
+import { TranslationExample } from '../types/db';
+
+export class TranslationExampleRepository extends BaseRepository {
+  constructor(env: Env) {
+    super(env);
+  }
+
+  /**
+   * @method upsert
+   * @description 翻訳の例を保存します。同じ投稿の例が既にある場合は置き換えます。
+   * @param {Omit<TranslationExample, 'id'>} example 保存する例
+   * @returns {Promise<D1Result<TranslationExample>>} 操作の結果
+   */
+  async upsert(example: Omit<TranslationExample, 'id'>): Promise<D1Result<TranslationExample>> {
+    const query = `
+      INSERT INTO translation_examples (post_id, room_id, source_text, translation, created_at)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(post_id) DO UPDATE SET
+        source_text = EXCLUDED.source_text,
+        translation = EXCLUDED.translation,
+        created_at = EXCLUDED.created_at
+    `;
+    return await this.execute<TranslationExample>(query, [
+      example.post_id,
+      example.room_id,
+      example.source_text,
+      example.translation,
+      example.created_at,
+    ]);
+  }
+
+  /**
+   * @method findRecentByRoomId
+   * @description ルームの翻訳の例を新しい順に取得します。
+   * @param {string | null} roomId ルームID (nullの場合は個人チャットの例)
+   * @param {number} limit 取得する最大数
+   * @returns {Promise<TranslationExample[]>} 翻訳の例の配列
+   */
+  async findRecentByRoomId(roomId: string | null, limit: number): Promise<TranslationExample[]> {
+    const query = `
+      SELECT * FROM translation_examples
+      WHERE room_id IS ?
+      ORDER BY created_at DESC
+      LIMIT ?
+    `;
+    return await this.queryAll<TranslationExample>(query, [roomId, limit]);
+  }
+
+  /**
+   * @method findAll
+   * @description すべての翻訳の例を新しい順に取得します (管理画面用)。
+   * @returns {Promise<TranslationExample[]>} 翻訳の例の配列
+   */
+  async findAll(): Promise<TranslationExample[]> {
+    const query = 'SELECT * FROM translation_examples ORDER BY created_at DESC';
+    return await this.queryAll<TranslationExample>(query);
+  }
+
+  /**
+   * @method delete
+   * @description 翻訳の例を削除します。
+   * @param {number} id 例のID
+   * @returns {Promise<D1Result<TranslationExample>>} 削除操作の結果
+   */
+  async delete(id: number): Promise<D1Result<TranslationExample>> {
+    const query = 'DELETE FROM translation_examples WHERE id = ?';
+    return await this.execute<TranslationExample>(query, [id]);
+  }
+
+  /**
+   * @method deleteByPostId
+   * @description 投稿から作成した翻訳の例を削除します (送信が取り消された場合に使用)。
+   * @param {string} postId 投稿ID
+   * @returns {Promise<D1Result<TranslationExample>>} 削除操作の結果
+   */
+  async deleteByPostId(postId: string): Promise<D1Result<TranslationExample>> {
+    const query = 'DELETE FROM translation_examples WHERE post_id = ?';
+    return await this.execute<TranslationExample>(query, [postId]);
+  }
+}
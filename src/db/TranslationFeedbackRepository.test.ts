@@ -0,0 +1,90 @@
+/**
+ * @file TranslationFeedbackRepository.test.ts
+ * @description TranslationFeedbackRepositoryの単体テスト。
+ *              モックされたCloudflare D1データベースを使用して、翻訳の評価の保存・修正案の記録・低評価の一覧の取得を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TranslationFeedbackRepository } from '../db/TranslationFeedbackRepository';
+import { createMockD1Database } from '../test/utils/mockD1';
+import { Env } from '../db/BaseRepository';
+
+describe('TranslationFeedbackRepository', () => {
+  let mockD1: D1Database;
+  let translationFeedbackRepository: TranslationFeedbackRepository;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    mockD1 = createMockD1Database();
+    mockEnv = {
+      DB: mockD1,
+      LINE_CHANNEL_ACCESS_TOKEN: 'mock_token',
+      LINE_CHANNEL_SECRET: 'mock_secret',
+      GEMINI_API_KEY: 'mock_gemini_key',
+      BASE_URL: 'https://example.com',
+      ADMIN_PASSWORD: 'mock_password',
+    };
+    translationFeedbackRepository = new TranslationFeedbackRepository(mockEnv);
+    vi.spyOn(mockD1, 'prepare').mockReturnThis();
+    vi.spyOn(mockD1, 'bind').mockReturnThis();
+  });
+
+  it('should upsert feedback for a translation log', async () => {
+    await translationFeedbackRepository.upsert({
+      translation_log_id: 10,
+      post_id: 'msg1',
+      user_id: 'user1',
+      rating: 'bad',
+      created_at: '2024-05-15T10:00:00.000Z',
+      updated_at: '2024-05-15T10:00:00.000Z',
+    });
+    expect(mockD1.prepare).toHaveBeenCalledWith(
+      expect.stringMatching(/INSERT INTO translation_feedback.*ON CONFLICT\(translation_log_id, user_id\) DO UPDATE SET/s)
+    );
+    expect(mockD1.bind).toHaveBeenCalledWith(10, 'msg1', 'user1', 'bad', '2024-05-15T10:00:00.000Z', '2024-05-15T10:00:00.000Z');
+  });
+
+  it('should find the latest pending suggestion of a user', async () => {
+    const mockFeedback = { id: 1, translation_log_id: 10, user_id: 'user1', rating: 'fix', suggestion: null };
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: [mockFeedback],
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const feedback = await translationFeedbackRepository.findPendingSuggestion('user1', '2024-05-15T09:30:00.000Z');
+    expect(feedback).toEqual(mockFeedback);
+    expect(mockD1.prepare).toHaveBeenCalledWith(
+      expect.stringMatching(/WHERE user_id = \? AND rating = 'fix' AND suggestion IS NULL AND updated_at >= \?.*ORDER BY updated_at DESC/s)
+    );
+    expect(mockD1.bind).toHaveBeenCalledWith('user1', '2024-05-15T09:30:00.000Z');
+  });
+
+  it('should update the suggestion of feedback', async () => {
+    await translationFeedbackRepository.updateSuggestion(1, 'Lepsze tłumaczenie', '2024-05-15T10:01:00.000Z');
+    expect(mockD1.prepare).toHaveBeenCalledWith('UPDATE translation_feedback SET suggestion = ?, updated_at = ? WHERE id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('Lepsze tłumaczenie', '2024-05-15T10:01:00.000Z', 1);
+  });
+
+  it('should find poorly rated translations with their translation logs', async () => {
+    const mockRows = [{ id: 1, rating: 'bad', original_message: 'こんにちは', translation: 'Hello', prompt: 'Prompt' }];
+    vi.spyOn(mockD1, 'all').mockResolvedValueOnce({
+      results: mockRows,
+      success: true,
+      meta: { duration: 0, served_by: 'mock', changes: 0, last_row_id: 0 }
+    });
+
+    const rows = await translationFeedbackRepository.findPoorlyRated(50);
+    expect(rows).toEqual(mockRows);
+    expect(mockD1.prepare).toHaveBeenCalledWith(
+      expect.stringMatching(/JOIN translation_logs l ON l.id = f.translation_log_id.*WHERE f.rating IN \('bad', 'fix'\)/s)
+    );
+    expect(mockD1.bind).toHaveBeenCalledWith(50);
+  });
+
+  it('should delete feedback for a post', async () => {
+    await translationFeedbackRepository.deleteByPostId('msg1');
+    expect(mockD1.prepare).toHaveBeenCalledWith('DELETE FROM translation_feedback WHERE post_id = ?');
+    expect(mockD1.bind).toHaveBeenCalledWith('msg1');
+  });
+});
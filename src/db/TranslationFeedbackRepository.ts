@@ -0,0 +1,98 @@
+/**
+ * @file TranslationFeedbackRepository
+ * @description 'translation_feedback' テーブルに対するデータベース操作を管理するリポジトリ。
+ */
+
+import { BaseRepository, Env } from './BaseRepository';
+import { TranslationFeedback, PoorlyRatedTranslation } from '../types/db';
+
+export class TranslationFeedbackRepository extends BaseRepository {
+  constructor(env: Env) {
+    super(env);
+  }
+
+  /**
+   * @method upsert
+   * @description 翻訳の評価を保存します。同じユーザーが既に評価している場合は評価を更新します。
+   *              評価を変更した場合、以前の修正案は削除します。
+   * @param {Omit<TranslationFeedback, 'id' | 'suggestion'>} feedback 保存する評価
+   * @returns {Promise<D1Result<TranslationFeedback>>} 操作の結果
+   */
+  async upsert(feedback: Omit<TranslationFeedback, 'id' | 'suggestion'>): Promise<D1Result<TranslationFeedback>> {
+    const query = `
+      INSERT INTO translation_feedback (translation_log_id, post_id, user_id, rating, suggestion, created_at, updated_at)
+      VALUES (?, ?, ?, ?, NULL, ?, ?)
+      ON CONFLICT(translation_log_id, user_id) DO UPDATE SET
+        rating = EXCLUDED.rating,
+        suggestion = CASE WHEN translation_feedback.rating = EXCLUDED.rating THEN translation_feedback.suggestion ELSE NULL END,
+        updated_at = EXCLUDED.updated_at
+    `;
+    return await this.execute<TranslationFeedback>(query, [
+      feedback.translation_log_id,
+      feedback.post_id,
+      feedback.user_id,
+      feedback.rating,
+      feedback.created_at,
+      feedback.updated_at,
+    ]);
+  }
+
+  /**
+   * @method findPendingSuggestion
+   * @description ユーザーが指定日時以降に「修正を提案」を選び、まだ修正案を送っていない評価のうち最新のものを取得します。
+   * @param {string} userId ユーザーID
+   * @param {string} since この日時以降の評価を対象とする (ISO 8601)
+   * @returns {Promise<TranslationFeedback | null>} 評価、または存在しない場合はnull
+   */
+  async findPendingSuggestion(userId: string, since: string): Promise<TranslationFeedback | null> {
+    const query = `
+      SELECT * FROM translation_feedback
+      WHERE user_id = ? AND rating = 'fix' AND suggestion IS NULL AND updated_at >= ?
+      ORDER BY updated_at DESC
+      LIMIT 1
+    `;
+    return await this.queryOne<TranslationFeedback>(query, [userId, since]);
+  }
+
+  /**
+   * @method updateSuggestion
+   * @description 評価にユーザーが送った修正案を保存します。
+   * @param {number} id 評価ID
+   * @param {string} suggestion 修正案
+   * @param {string} updatedAt 更新日時
+   * @returns {Promise<D1Result<TranslationFeedback>>} 更新操作の結果
+   */
+  async updateSuggestion(id: number, suggestion: string, updatedAt: string): Promise<D1Result<TranslationFeedback>> {
+    const query = 'UPDATE translation_feedback SET suggestion = ?, updated_at = ? WHERE id = ?';
+    return await this.execute<TranslationFeedback>(query, [suggestion, updatedAt, id]);
+  }
+
+  /**
+   * @method findPoorlyRated
+   * @description 👎 または修正を提案された翻訳を、翻訳ログ (元のメッセージ、翻訳結果、プロンプト) とともに新しい順に取得します。
+   * @param {number} limit 取得する最大数
+   * @returns {Promise<PoorlyRatedTranslation[]>} 低く評価された翻訳の配列
+   */
+  async findPoorlyRated(limit: number): Promise<PoorlyRatedTranslation[]> {
+    const query = `
+      SELECT f.*, l.original_message, l.translation, l.prompt, l.language, l.prompt_template, l.prompt_template_version
+      FROM translation_feedback f
+      JOIN translation_logs l ON l.id = f.translation_log_id
+      WHERE f.rating IN ('bad', 'fix')
+      ORDER BY f.updated_at DESC
+      LIMIT ?
+    `;
+    return await this.queryAll<PoorlyRatedTranslation>(query, [limit]);
+  }
+
+  /**
+   * @method deleteByPostId
+   * @description 指定された投稿への評価と修正案を削除します。送信取消されたメッセージの内容を残さないために使用します。
+   * @param {string} postId 投稿ID
+   * @returns {Promise<D1Result<TranslationFeedback>>} 削除操作の結果
+   */
+  async deleteByPostId(postId: string): Promise<D1Result<TranslationFeedback>> {
+    const query = 'DELETE FROM translation_feedback WHERE post_id = ?';
+    return await this.execute<TranslationFeedback>(query, [postId]);
+  }
+}
@@ -4,3 +4,13 @@ export * from './RoomRepository';
 export * from './PostRepository';
 export * from './AnswerRepository';
 export * from './LogRepository';
+export * from './ProcessedEventRepository';
+export * from './FailedEventRepository';
+export * from './GlossaryRepository';
+export * from './TranslationCacheRepository';
+export * from './GeminiUsageRepository';
+export * from './ModelHealthRepository';
+export * from './PromptTemplateRepository';
+export * from './TranslationFeedbackRepository';
+export * from './TranslationExampleRepository';
+export * from './PlaceRepository';
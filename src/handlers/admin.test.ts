@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest'
 import { admin } from './admin'
 import { Env } from '../db/BaseRepository'
+import { LineWebhookHandler } from './webhook'
 
 // Helper to create mock Env
 const createMockEnv = () => {
@@ -122,4 +123,826 @@ describe('Admin Handler', () => {
     expect(res.headers.get('Location')).toBe('/admin/table/users')
     expect(env.DB.prepare).toHaveBeenCalledWith('UPDATE users SET display_name = ? WHERE user_id = ?')
   })
+
+  it('should list pending failed events', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+
+    const mockFailedEvents = [
+      { id: 1, event_id: 'E1', event_type: 'message', event_json: '{}', error_message: 'LINE API error', attempts: 4, status: 'pending', created_at: '2023-01-01' }
+    ];
+    stmt.all.mockResolvedValue({ results: mockFailedEvents });
+
+    const res = await admin.request('http://localhost/failed-events', {
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('Failed Events')
+    expect(text).toContain('LINE API error')
+    expect(text).toContain('Replay selected')
+    expect(stmt.bind).toHaveBeenCalledWith('pending', 100)
+  })
+
+  it('should show failed event detail with stack trace', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+
+    const mockFailedEvent = {
+      id: 1, event_id: 'E1', event_type: 'message', event_json: '{"type":"message"}',
+      error_message: 'LINE API error', stack: 'Error: LINE API error\n    at reply', attempts: 4,
+      status: 'pending', created_at: '2023-01-01', updated_at: '2023-01-01'
+    };
+    stmt.all.mockResolvedValue({ results: [mockFailedEvent] });
+
+    const res = await admin.request('http://localhost/failed-events/1', {
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('at reply')
+    expect(text).toContain('&quot;type&quot;: &quot;message&quot;')
+    expect(text).toContain('Replay')
+    expect(text).toContain('Discard')
+  })
+
+  it('should replay selected failed events', async () => {
+    const { env } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    const replaySpy = vi.spyOn(LineWebhookHandler.prototype, 'replayFailedEvent')
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(false)
+
+    const formData = new FormData();
+    formData.append('ids', '3');
+    formData.append('ids', '1');
+
+    const res = await admin.request('http://localhost/failed-events/replay', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/admin/failed-events?replayed=1&failed=1')
+    // 古いイベントから順に再実行される
+    expect(replaySpy).toHaveBeenNthCalledWith(1, 1, env)
+    expect(replaySpy).toHaveBeenNthCalledWith(2, 3, env)
+    replaySpy.mockRestore()
+  })
+
+  it('should discard selected failed events', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [] });
+
+    const formData = new FormData();
+    formData.append('ids', '2');
+
+    const res = await admin.request('http://localhost/failed-events/discard', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/admin/failed-events?discarded=1')
+    expect(stmt.bind).toHaveBeenCalledWith('discarded', expect.any(String), 2)
+  })
+
+  it('should list rooms with their language configuration', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [
+      { room_id: 'R1', room_name: 'Kyiv Class', language_config: '{"languages":["ja","uk","de"],"targets":{"uk":["ja","de"]}}' },
+      { room_id: 'R2', room_name: 'Warsaw Class', language_config: null },
+    ] });
+
+    const res = await admin.request('http://localhost/rooms', {
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('ja, uk, de')
+    expect(text).toContain('uk → ja, de')
+    expect(text).toContain('ja, pl, en (default)')
+    expect(text).toContain('/admin/rooms/R1/edit')
+  })
+
+  it('should show the room language form', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [
+      { room_id: 'R1', room_name: 'Kyiv Class', language_config: '{"languages":["ja","uk"],"targets":{"ja":["uk"]},"roles":{"uk":"先生"}}' },
+    ] });
+
+    const res = await admin.request('http://localhost/rooms/R1/edit', {
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('value="ja, uk"')
+    expect(text).toContain('ja: uk')
+    expect(text).toContain('uk: 先生')
+  })
+
+  it('should update the room language configuration', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [{ room_id: 'R1', room_name: 'Kyiv Class', language_config: null }] });
+
+    const formData = new FormData();
+    formData.append('languages', 'ja, UK, de');
+    formData.append('targets', 'uk: ja, de\nja: uk');
+    formData.append('roles', 'uk: 先生');
+
+    const res = await admin.request('http://localhost/rooms/R1/edit', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/admin/rooms')
+    expect(stmt.bind).toHaveBeenCalledWith(JSON.stringify({
+      languages: ['ja', 'uk', 'de'],
+      targets: { uk: ['ja', 'de'], ja: ['uk'] },
+      roles: { uk: '先生' },
+    }), 'R1')
+  })
+
+  it('should reject unsupported languages in the room language form', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [{ room_id: 'R1', room_name: 'Kyiv Class', language_config: null }] });
+
+    const formData = new FormData();
+    formData.append('languages', 'ja, xx');
+    formData.append('targets', '');
+    formData.append('roles', '');
+
+    const res = await admin.request('http://localhost/rooms/R1/edit', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(400)
+    expect(await res.text()).toContain('Unsupported language: xx')
+    expect(env.DB.prepare).not.toHaveBeenCalledWith(expect.stringContaining('UPDATE rooms'))
+  })
+
+  it('should reset the room language configuration to the default', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [{ room_id: 'R1', room_name: 'Kyiv Class', language_config: '{"languages":["ja","uk"]}' }] });
+
+    const formData = new FormData();
+    formData.append('reset', '1');
+
+    const res = await admin.request('http://localhost/rooms/R1/edit', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(stmt.bind).toHaveBeenCalledWith(null, 'R1')
+  })
+
+  it('should list glossary terms', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [
+      { id: 1, term: 'pas de bourrée', translations: '{"ja":"パ・ド・ブレ"}', do_not_translate: 0, room_id: null, note: null },
+      { id: 2, term: 'Madame Kasia', translations: null, do_not_translate: 1, room_id: 'R1', note: '先生の名前' },
+    ] });
+
+    const res = await admin.request('http://localhost/glossary', {
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('ja: パ・ド・ブレ')
+    expect(text).toContain('All rooms')
+    expect(text).toContain('先生の名前')
+    expect(text).toContain('/admin/glossary/2/edit')
+  })
+
+  it('should create a glossary term', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [] });
+
+    const formData = new FormData();
+    formData.append('term', '発表会');
+    formData.append('translations', 'pl: pokaz\nen: recital');
+    formData.append('room_id', '');
+    formData.append('note', '');
+
+    const res = await admin.request('http://localhost/glossary/new', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/admin/glossary')
+    expect(stmt.bind).toHaveBeenCalledWith(
+      '発表会', '{"pl":"pokaz","en":"recital"}', 0, null, null, expect.any(String), expect.any(String)
+    )
+  })
+
+  it('should reject a glossary term without translations', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [] });
+
+    const formData = new FormData();
+    formData.append('term', 'fouetté');
+    formData.append('translations', '');
+
+    const res = await admin.request('http://localhost/glossary/new', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(400)
+    expect(await res.text()).toContain('Enter at least one translation')
+    expect(env.DB.prepare).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO glossary_terms'))
+  })
+
+  it('should update a glossary term', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [
+      { id: 2, term: 'Madame Kasia', translations: null, do_not_translate: 1, room_id: null, note: null },
+    ] });
+
+    const formData = new FormData();
+    formData.append('term', 'Madame Kasia');
+    formData.append('translations', '');
+    formData.append('do_not_translate', '1');
+    formData.append('room_id', 'R1');
+
+    const res = await admin.request('http://localhost/glossary/2/edit', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(stmt.bind).toHaveBeenCalledWith('Madame Kasia', null, 1, 'R1', null, expect.any(String), 2)
+  })
+
+  it('should delete a glossary term', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [] });
+
+    const res = await admin.request('http://localhost/glossary/3/delete', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(env.DB.prepare).toHaveBeenCalledWith('DELETE FROM glossary_terms WHERE id = ?')
+    expect(stmt.bind).toHaveBeenCalledWith(3)
+  })
+
+  it('should show translation cache statistics and entries', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all
+      .mockResolvedValueOnce({ results: [
+        { date: '2023-01-02', hits: 3, misses: 1 },
+        { date: '2023-01-01', hits: 0, misses: 4 },
+      ] })
+      .mockResolvedValueOnce({ results: [
+        { cache_key: 'abc', normalized_text: 'ありがとうございます', source_lang: 'ja', target_langs: 'pl,en',
+          translations: '{"pl":"Dziękuję bardzo","en":"Thank you very much"}', hit_count: 3, created_at: '2023-01-01', last_hit_at: '2023-01-02' },
+      ] });
+
+    const res = await admin.request('http://localhost/translation-cache?q=' + encodeURIComponent('ありがとう'), {
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('Hits: 3, Misses: 5, Hit rate: 38%')
+    expect(text).toContain('pl: Dziękuję bardzo')
+    expect(text).toContain('value="abc"')
+    expect(stmt.bind).toHaveBeenCalledWith('%ありがとう%', 100)
+  })
+
+  it('should invalidate selected translation cache entries', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [] });
+
+    const formData = new FormData();
+    formData.append('keys', 'abc');
+    formData.append('keys', 'def');
+
+    const res = await admin.request('http://localhost/translation-cache/invalidate', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/admin/translation-cache?invalidated=2')
+    expect(env.DB.prepare).toHaveBeenCalledWith('DELETE FROM translation_cache WHERE cache_key = ?')
+    expect(stmt.bind).toHaveBeenCalledWith('abc')
+    expect(stmt.bind).toHaveBeenCalledWith('def')
+  })
+
+  it('should show Gemini usage per room and user', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    const row = { period: '2024-05', calls: 4, errors: 1, attempts: 6, prompt_tokens: 1200, output_tokens: 300, cost_usd: 0.00111, avg_latency_ms: 812.5 };
+    stmt.all
+      .mockResolvedValueOnce({ results: [{ ...row, dimension_key: '', label: null }] })
+      .mockResolvedValueOnce({ results: [{ ...row, dimension_key: 'gemini-2.5-flash', label: null }] })
+      .mockResolvedValueOnce({ results: [{ ...row, dimension_key: 'R1', label: 'Ballet Class' }, { ...row, dimension_key: '', label: null }] })
+      .mockResolvedValueOnce({ results: [{ ...row, dimension_key: 'U1', label: 'Hana' }] });
+
+    const res = await admin.request('http://localhost/usage?period=month', {
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('Calls: 4, Tokens: 1500, Estimated cost: $0.0011')
+    expect(text).toContain('gemini-2.5-flash')
+    expect(text).toContain('Ballet Class')
+    expect(text).toContain('(private chat)')
+    expect(text).toContain('Hana')
+    expect(text).toContain('<td>813</td>')
+    expect(env.DB.prepare).toHaveBeenCalledWith(expect.stringContaining('substr(gemini_usage.timestamp, 1, 7) AS period'))
+  })
+
+  it('should show the health of each model', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [{
+      model: 'gemini-2.5-flash-lite',
+      cooldown_until: '2999-01-01T00:00:00.000Z',
+      consecutive_failures: 2,
+      window_started_at: new Date().toISOString(),
+      window_requests: 4,
+      window_failures: 3,
+      last_status: '429',
+      last_success_at: null,
+      last_failure_at: '2024-05-15T10:00:00.000Z',
+      updated_at: '2024-05-15T10:00:00.000Z',
+    }] });
+
+    const res = await admin.request('http://localhost/models', {
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('Cooling down')
+    expect(text).toContain('2999-01-01T00:00:00.000Z')
+    expect(text).toContain('75% (3/4)')
+    expect(text).toContain('action="/admin/models/gemini-2.5-flash-lite/reset"')
+    expect(text).toContain('gemma-3-27b-it')
+    expect(text).toContain('Healthy')
+  })
+
+  it('should reset the health of a model', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+
+    const res = await admin.request('http://localhost/models/gemini-2.5-flash-lite/reset', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/admin/models?reset=gemini-2.5-flash-lite')
+    expect(env.DB.prepare).toHaveBeenCalledWith('DELETE FROM model_health WHERE model = ?')
+    expect(stmt.bind).toHaveBeenCalledWith('gemini-2.5-flash-lite')
+  })
+
+  it('should show the translation edit form of a post', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [
+      { post_id: 'msg1', user_id: 'U1', room_id: 'R1', timestamp: '2024-05-15T10:00:00.000Z', message_text: '発表会の衣装', has_poll: 0, translated_text: 'Kostium' },
+    ] })
+
+    const res = await admin.request('http://localhost/posts/msg1/edit', {
+      headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('<pre>発表会の衣装</pre>')
+    expect(text).toContain('<textarea name="translated_text" rows="8">Kostium</textarea>')
+    expect(text).toContain('name="save_example"')
+  })
+
+  it('should update the translation of a post and save it as an example', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [
+      { post_id: 'msg1', user_id: 'U1', room_id: 'R1', timestamp: '2024-05-15T10:00:00.000Z', message_text: '[check] 発表会に参加しますか？', has_poll: 1, translated_text: 'Kostium' },
+    ] })
+
+    const formData = new FormData();
+    formData.append('translated_text', 'Polish: Czy weźmiesz udział w pokazie?\r\nEnglish: Will you join the recital?');
+    formData.append('save_example', '1');
+
+    const res = await admin.request('http://localhost/posts/msg1/edit', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/admin/users/U1/posts')
+    const corrected = 'Polish: Czy weźmiesz udział w pokazie?\nEnglish: Will you join the recital?'
+    expect(env.DB.prepare).toHaveBeenCalledWith(expect.stringMatching(/UPDATE posts\s+SET translated_text = \?, translations = NULL/))
+    expect(stmt.bind).toHaveBeenCalledWith(corrected, 'msg1')
+    expect(env.DB.prepare).toHaveBeenCalledWith(expect.stringContaining('INSERT INTO translation_examples'))
+    expect(stmt.bind).toHaveBeenCalledWith('msg1', 'R1', '発表会に参加しますか？', corrected, expect.any(String))
+  })
+
+  it('should update the translation of a post without saving an example when unchecked', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [
+      { post_id: 'msg1', user_id: 'U1', room_id: null, timestamp: '2024-05-15T10:00:00.000Z', message_text: 'こんにちは', has_poll: 0, translated_text: 'Hi' },
+    ] })
+
+    const formData = new FormData();
+    formData.append('translated_text', 'Hello');
+
+    const res = await admin.request('http://localhost/posts/msg1/edit', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(stmt.bind).toHaveBeenCalledWith('Hello', 'msg1')
+    expect(env.DB.prepare).not.toHaveBeenCalledWith(expect.stringContaining('INSERT INTO translation_examples'))
+  })
+
+  it('should mark posts read from images and voice messages', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [
+      { post_id: 'img1', user_id: 'U1', room_id: 'R1', timestamp: '2024-05-15T10:00:00.000Z', message_text: 'Koncert: sobota 10:00', has_poll: 0, translated_text: '発表会: 土曜日 10:00', content_type: 'image' },
+      { post_id: 'img2', user_id: 'U1', room_id: 'R1', timestamp: '2024-05-15T10:05:00.000Z', message_text: null, has_poll: 0, translated_text: null, content_type: 'image' },
+      { post_id: 'voice1', user_id: 'U1', room_id: 'R1', timestamp: '2024-05-15T10:10:00.000Z', message_text: 'Dzień dobry', has_poll: 0, translated_text: 'おはようございます', content_type: 'audio' },
+    ] })
+
+    const res = await admin.request('http://localhost/users/U1/posts', {
+      headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+    const text = await res.text()
+    expect(text).toContain('<em>Image:</em> Koncert: sobota 10:00')
+    expect(text).toContain('<em>Image:</em> No text found')
+    expect(text).toContain('<em>Voice:</em> Dzień dobry')
+  })
+
+  it('should render stickers, files and locations in the user posts', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [
+      { post_id: 'sticker1', user_id: 'U1', room_id: 'R1', timestamp: '2024-05-15T10:00:00.000Z', message_text: null, has_poll: 0, translated_text: null, content_type: 'sticker', content_metadata: '{"packageId":"11537","stickerId":"52002734","keywords":["thank you","bow"]}' },
+      { post_id: 'file1', user_id: 'U1', room_id: 'R1', timestamp: '2024-05-15T10:05:00.000Z', message_text: null, has_poll: 0, translated_text: null, content_type: 'file', content_metadata: '{"fileName":"harmonogram.pdf","fileSize":20480}', content_key: 'posts/file1' },
+      { post_id: 'location1', user_id: 'U1', room_id: 'R1', timestamp: '2024-05-15T10:10:00.000Z', message_text: null, has_poll: 0, translated_text: null, content_type: 'location', content_metadata: '{"title":"Filharmonia","address":"ul. Sienkiewicza 3","latitude":50.06,"longitude":19.93}' },
+    ] })
+
+    const res = await admin.request('http://localhost/users/U1/posts', {
+      headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+    const text = await res.text()
+    expect(text).toContain('<em>Sticker:</em> thank you, bow')
+    expect(text).toContain('<em>File:</em> harmonogram.pdf (20480 bytes) <a href="/admin/posts/file1/content">View content</a>')
+    expect(text).toContain('<em>Location:</em> Filharmonia, ul. Sienkiewicza 3 <a href="https://www.google.com/maps/search/?api=1&amp;query=50.06,19.93">Map</a>')
+    expect(text).not.toContain('/admin/posts/sticker1/edit')
+  })
+
+  it('should serve stored content and return 404 without it', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    const data = new TextEncoder().encode('pdf').buffer
+    env.CONTENT_BUCKET = {
+      get: vi.fn().mockResolvedValue({ arrayBuffer: () => Promise.resolve(data), httpMetadata: { contentType: 'application/pdf' } }),
+    } as unknown as R2Bucket
+    stmt.all.mockResolvedValueOnce({ results: [{ post_id: 'file1', content_type: 'file', content_key: 'posts/file1' }] })
+
+    const res = await admin.request('http://localhost/posts/file1/content', {
+      headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+    expect(res.status).toBe(200)
+    expect(res.headers.get('Content-Type')).toBe('application/pdf')
+    expect(res.headers.get('Content-Disposition')).toBe('attachment')
+    expect(res.headers.get('X-Content-Type-Options')).toBe('nosniff')
+    expect(await res.text()).toBe('pdf')
+
+    stmt.all.mockResolvedValueOnce({ results: [{ post_id: 'sticker1', content_type: 'sticker', content_key: null }] })
+    const missingRes = await admin.request('http://localhost/posts/sticker1/content', {
+      headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+    expect(missingRes.status).toBe(404)
+  })
+
+  it('should show only images, audio and video inline and download other content', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    const serve = async (contentType: string, post: Record<string, unknown>) => {
+      env.CONTENT_BUCKET = {
+        get: vi.fn().mockResolvedValue({ arrayBuffer: () => Promise.resolve(new ArrayBuffer(1)), httpMetadata: { contentType } }),
+      } as unknown as R2Bucket
+      stmt.all.mockResolvedValueOnce({ results: [{ post_id: 'p1', content_key: 'posts/p1', ...post }] })
+      return await admin.request('http://localhost/posts/p1/content', {
+        headers: { Authorization: `Basic ${credentials}` }
+      }, env)
+    }
+
+    const image = await serve('image/jpeg', { content_type: 'image' })
+    expect(image.headers.get('Content-Disposition')).toBe('inline')
+    expect(image.headers.get('X-Content-Type-Options')).toBe('nosniff')
+
+    const svg = await serve('image/svg+xml', { content_type: 'file', content_metadata: '{"fileName":"logo.svg"}' })
+    expect(svg.headers.get('Content-Disposition')).toBe("attachment; filename*=UTF-8''logo.svg")
+
+    const page = await serve('text/html; charset=utf-8', { content_type: 'file', content_metadata: '{"fileName":"お知らせ.html"}' })
+    expect(page.headers.get('Content-Disposition')).toBe(`attachment; filename*=UTF-8''${encodeURIComponent('お知らせ.html')}`)
+    expect(page.headers.get('X-Content-Type-Options')).toBe('nosniff')
+  })
+
+  it('should mark retracted posts and refuse to edit their translation', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    const retracted = { post_id: 'msg1', user_id: 'U1', room_id: 'R1', timestamp: '2024-05-15T10:00:00.000Z', message_text: null, has_poll: 0, translated_text: null, retracted_at: '2024-05-15T10:01:00.000Z' }
+    stmt.all.mockResolvedValueOnce({ results: [retracted] })
+
+    const listRes = await admin.request('http://localhost/users/U1/posts', {
+      headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+    const text = await listRes.text()
+    expect(text).toContain('Withdrawn by the sender (2024-05-15T10:01:00.000Z)')
+    expect(text).not.toContain('/admin/posts/msg1/edit')
+
+    stmt.all.mockResolvedValueOnce({ results: [retracted] })
+    const editRes = await admin.request('http://localhost/posts/msg1/edit', {
+      headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+    expect(editRes.status).toBe(410)
+
+    const formData = new FormData();
+    formData.append('translated_text', 'Hello');
+    stmt.all.mockResolvedValueOnce({ results: [retracted] })
+    const updateRes = await admin.request('http://localhost/posts/msg1/edit', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+    expect(updateRes.status).toBe(410)
+    expect(stmt.bind).not.toHaveBeenCalledWith('Hello', 'msg1')
+  })
+
+  it('should list and delete translation examples', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [
+      { id: 4, post_id: 'msg1', room_id: 'R1', source_text: '発表会の衣装', translation: 'Kostium na pokaz', created_at: '2024-05-15T10:00:00.000Z' },
+    ] })
+
+    const listRes = await admin.request('http://localhost/translation-examples', {
+      headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+    const text = await listRes.text()
+    expect(text).toContain('Kostium na pokaz')
+    expect(text).toContain('action="/admin/translation-examples/4/delete"')
+
+    const deleteRes = await admin.request('http://localhost/translation-examples/4/delete', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+    expect(deleteRes.status).toBe(302)
+    expect(deleteRes.headers.get('Location')).toBe('/admin/translation-examples')
+    expect(env.DB.prepare).toHaveBeenCalledWith('DELETE FROM translation_examples WHERE id = ?')
+    expect(stmt.bind).toHaveBeenCalledWith(4)
+  })
+
+  it('should list and delete places', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [
+      {
+        id: 2, name: '発表会会場', room_id: null, title: 'Filharmonia', address: 'ul. Zwierzyniecka 1, Kraków',
+        latitude: 50.0577, longitude: 19.9322, source_post_id: 'loc1', created_by: 'U1',
+        created_at: '2024-05-15T10:00:00.000Z', updated_at: '2024-05-15T10:00:00.000Z',
+      },
+    ] })
+
+    const listRes = await admin.request('http://localhost/places', {
+      headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+    const text = await listRes.text()
+    expect(text).toContain('発表会会場')
+    expect(text).toContain('personal (U1)')
+    expect(text).toContain('href="https://www.google.com/maps/search/?api=1&amp;query=50.0577,19.9322"')
+    expect(text).toContain('action="/admin/places/2/delete"')
+
+    const deleteRes = await admin.request('http://localhost/places/2/delete', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+    expect(deleteRes.status).toBe(302)
+    expect(deleteRes.headers.get('Location')).toBe('/admin/places')
+    expect(env.DB.prepare).toHaveBeenCalledWith('DELETE FROM places WHERE id = ?')
+    expect(stmt.bind).toHaveBeenCalledWith(2)
+  })
+
+  it('should list poorly rated translations with their prompt', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [
+      {
+        id: 1, translation_log_id: 10, post_id: 'msg1', user_id: 'U1', rating: 'fix', suggestion: 'Do zobaczenia jutro',
+        updated_at: '2024-05-15T10:05:00.000Z', original_message: 'また明日', translation: 'Widzimy się jutro',
+        prompt: 'PROMPT BODY', language: 'ja', prompt_template: 'formal', prompt_template_version: 3,
+      },
+      {
+        id: 2, translation_log_id: 11, post_id: 'msg2', user_id: 'U2', rating: 'bad', suggestion: null,
+        updated_at: '2024-05-15T10:00:00.000Z', original_message: 'OK?', translation: 'OK?',
+        prompt: null, language: 'en', prompt_template: 'default', prompt_template_version: 0,
+      },
+      {
+        id: 3, translation_log_id: 12, post_id: 'msg3', user_id: 'U3', rating: 'bad', suggestion: null,
+        updated_at: '2024-05-15T09:00:00.000Z', original_message: 'Dzięki', translation: 'ありがとう',
+        prompt: null, language: 'pl', prompt_template: 'built-in', prompt_template_version: 1,
+      },
+    ] })
+
+    const res = await admin.request('http://localhost/feedback', {
+      headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    expect(env.DB.prepare).toHaveBeenCalledWith(expect.stringContaining("WHERE f.rating IN ('bad', 'fix')"))
+    const text = await res.text()
+    expect(text).toContain('Translation Feedback')
+    expect(text).toContain('Do zobaczenia jutro')
+    expect(text).toContain('<pre>PROMPT BODY</pre>')
+    expect(text).toContain('href="/admin/prompt-templates/formal?version=3"')
+    expect(text).toContain('default (built-in)')
+    expect(text).toContain('built-in v1')
+    expect(text).not.toContain('href="/admin/prompt-templates/built-in')
+    expect(text).toContain('(cached)')
+  })
+
+  it('should update the prompt template and description of a room', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [{ room_id: 'R1', room_name: 'Adult Class', language_config: null }] })
+
+    const formData = new FormData();
+    formData.append('prompt_template', 'formal');
+    formData.append('description', '');
+
+    const res = await admin.request('http://localhost/rooms/R1/prompt', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/admin/rooms/R1/edit')
+    expect(stmt.bind).toHaveBeenCalledWith('formal', null, 'R1')
+  })
+
+  it('should list prompt templates and note the built-in default', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [{ name: 'formal', version: 3, versions: 3, updated_at: '2024-05-15T10:00:00.000Z' }] })
+
+    const res = await admin.request('http://localhost/prompt-templates', {
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('/admin/prompt-templates/formal')
+    expect(text).toContain('built-in template (version 1)')
+  })
+
+  it('should load an older version of a prompt template into the form', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValueOnce({ results: [
+      { id: 2, name: 'formal', version: 2, body: 'v2 {{source_text}} {{output_format}}', note: 'Shorter', created_at: '2024-05-15T10:00:00.000Z' },
+      { id: 1, name: 'formal', version: 1, body: 'v1 {{source_text}} {{output_format}}', note: null, created_at: '2024-05-14T10:00:00.000Z' },
+    ] })
+
+    const res = await admin.request('http://localhost/prompt-templates/formal?version=1', {
+        headers: { Authorization: `Basic ${credentials}` }
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('v1 {{source_text}} {{output_format}}</textarea>')
+    expect(text).toContain('Shorter')
+  })
+
+  it('should preview a prompt template with the sample message', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [] })
+
+    const formData = new FormData();
+    formData.append('name', 'formal');
+    formData.append('body', '{{#polish}}PL {{/polish}}{{source_text}}\r\n{{output_format}}');
+    formData.append('action', 'preview');
+
+    const res = await admin.request('http://localhost/prompt-templates', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(200)
+    const text = await res.text()
+    expect(text).toContain('PL 明日のレッスンは{{TIME_1}}からです。')
+    expect(stmt.run).not.toHaveBeenCalled()
+  })
+
+  it('should save a prompt template as a new version', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [] })
+
+    const formData = new FormData();
+    formData.append('name', 'formal');
+    formData.append('body', '{{source_text}}\r\n{{output_format}}');
+    formData.append('note', 'First draft');
+    formData.append('action', 'save');
+
+    const res = await admin.request('http://localhost/prompt-templates', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/admin/prompt-templates/formal')
+    expect(stmt.bind).toHaveBeenCalledWith('formal', '{{source_text}}\n{{output_format}}', 'First draft', expect.any(String), 'formal')
+  })
+
+  it('should reject a prompt template without the required variables', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [] })
+
+    const formData = new FormData();
+    formData.append('name', 'formal');
+    formData.append('body', 'Translate politely.');
+    formData.append('action', 'save');
+
+    const res = await admin.request('http://localhost/prompt-templates', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(400)
+    expect(await res.text()).toContain('The template must contain {{source_text}} and {{output_format}}.')
+  })
+
+  it('should reject a prompt template named like the built-in template', async () => {
+    const { env, stmt } = createMockEnv()
+    const credentials = btoa('admin:secret_password')
+    stmt.all.mockResolvedValue({ results: [] })
+
+    const formData = new FormData();
+    formData.append('name', 'built-in');
+    formData.append('body', '{{source_text}} {{output_format}}');
+    formData.append('action', 'save');
+
+    const res = await admin.request('http://localhost/prompt-templates', {
+        method: 'POST',
+        headers: { Authorization: `Basic ${credentials}` },
+        body: formData
+    }, env)
+
+    expect(res.status).toBe(400)
+    expect(await res.text()).toContain('is reserved for the built-in template.')
+    expect(stmt.run).not.toHaveBeenCalled()
+  })
 })
@@ -3,10 +3,504 @@ import { basicAuth } from 'hono/basic-auth'
 import { html } from 'hono/html'
 import { Env } from '../db/BaseRepository'
 import { PostRepository } from '../db/PostRepository'
+import { FailedEventRepository } from '../db/FailedEventRepository'
+import { RoomRepository } from '../db/RoomRepository'
+import { GlossaryRepository } from '../db/GlossaryRepository'
+import { TranslationCacheRepository } from '../db/TranslationCacheRepository'
+import { GeminiUsageRepository, GeminiUsagePeriod } from '../db/GeminiUsageRepository'
+import { ModelHealthRepository } from '../db/ModelHealthRepository'
+import { PromptTemplateRepository } from '../db/PromptTemplateRepository'
+import { TranslationFeedbackRepository } from '../db/TranslationFeedbackRepository'
+import { TranslationExampleRepository } from '../db/TranslationExampleRepository'
+import { PlaceRepository } from '../db/PlaceRepository'
+import { FailedEvent, GeminiUsageSummary, GlossaryTerm, Post, PromptTemplate, PromptTemplateSummary, Room } from '../types/db'
+import { RoomLanguageConfig, SUPPORTED_LANGUAGES, parseRoomLanguageConfig } from '../utils/languages'
+import { GEMINI_MODELS } from '../services/gemini'
+import { ModelHealthTracker } from '../services/modelHealth'
+import {
+  BUILTIN_PROMPT_TEMPLATE,
+  BUILTIN_PROMPT_TEMPLATE_NAME,
+  BUILTIN_PROMPT_TEMPLATE_VERSION,
+  DEFAULT_PROMPT_TEMPLATE_NAME,
+  DEFAULT_ROOM_DESCRIPTION,
+  PROMPT_TEMPLATE_VARIABLES,
+  SAMPLE_PROMPT_VARIABLES,
+  renderPromptTemplate,
+  validatePromptTemplate,
+} from '../services/promptTemplates'
+import { POLL_COMMAND_PATTERN } from '../utils/commands'
+import { formatDuration, parseContentMetadata } from '../utils/messageContent'
+import { createMapUrl } from '../utils/places'
+import { createContentStorage } from '../services/contentStorage'
+import { LineWebhookHandler } from './webhook'
 
 const admin = new Hono<{ Bindings: Env }>()
 
-const tables = ['users', 'rooms', 'posts', 'answers', 'translation_logs', 'debug_logs'];
+const tables = ['users', 'rooms', 'posts', 'answers', 'translation_logs', 'debug_logs', 'delivery_logs', 'processed_events', 'failed_events', 'glossary_terms', 'translation_cache', 'translation_cache_stats', 'gemini_usage', 'model_health', 'prompt_templates', 'translation_feedback', 'translation_examples', 'places'];
+
+const failedEventStatuses: FailedEvent['status'][] = ['pending', 'replayed', 'discarded'];
+
+/**
+ * 管理画面でそのまま表示 (inline) するコンテンツの種類かを判定します。
+ * コンテンツはグループのメンバーが送信したものなので、スクリプトを実行できる HTML や SVG などは
+ * 管理画面のオリジンで開かれないよう、画像・音声・動画 (SVGを除く) 以外はダウンロードさせます。
+ */
+const isInlineContentType = (contentType: string): boolean => {
+  const mimeType = contentType.split(';')[0].trim().toLowerCase()
+  return /^(image|audio|video)\//.test(mimeType) && mimeType !== 'image/svg+xml'
+}
+
+/**
+ * フォームから送信された失敗イベントIDの一覧を取得します。
+ * チェックボックスで複数選択された場合は配列、単一の場合は文字列で届くため、両方を数値配列に揃えます。
+ */
+const parseFailedEventIds = (value: unknown): number[] => {
+  const values = Array.isArray(value) ? value : value !== undefined ? [value] : [];
+  return values
+    .map(v => Number(v))
+    .filter(id => Number.isInteger(id) && id > 0);
+}
+
+/**
+ * ルームの言語設定フォームの入力値
+ */
+interface RoomLanguageFormValues {
+  languages: string; // カンマ区切りの言語コード (例: "ja, uk, de")
+  targets: string; // 1行に1ルール (例: "uk: ja, de")
+  roles: string; // 1行に1言語 (例: "pl: 先生")
+}
+
+const splitLanguageCodes = (value: string): string[] =>
+  value.split(',').map(v => v.trim().toLowerCase()).filter(v => v);
+
+/**
+ * "pl: 先生" のように1行に1言語ずつ入力された値を、言語コードをキーとしたオブジェクトに変換します。
+ * 指定された言語以外のコードが含まれる場合はエラーメッセージを返します。
+ */
+const parseLanguageLines = (
+  value: string,
+  allowedLanguages: string[],
+  label: string
+): { values?: Record<string, string>; error?: string } => {
+  const values: Record<string, string> = {};
+  for (const line of value.split('\n').map(l => l.trim()).filter(l => l)) {
+    const match = line.match(/^([a-z]+)\s*:\s*(.+)$/i);
+    if (!match) {
+      return { error: `Invalid ${label}: ${line}` };
+    }
+    const lang = match[1].toLowerCase();
+    if (!allowedLanguages.includes(lang)) {
+      return { error: `Unsupported language in ${label}: ${lang}` };
+    }
+    values[lang] = match[2].trim();
+  }
+  return { values };
+}
+
+const toLanguageLines = (values: Record<string, string>): string =>
+  Object.entries(values).map(([lang, value]) => `${lang}: ${value}`).join('\n');
+
+/**
+ * ルームの言語設定をフォームの入力値に変換します。
+ */
+const toRoomLanguageFormValues = (config: RoomLanguageConfig): RoomLanguageFormValues => ({
+  languages: config.languages.join(', '),
+  targets: Object.entries(config.targets).map(([src, dests]) => `${src}: ${dests.join(', ')}`).join('\n'),
+  roles: toLanguageLines(config.roles || {}),
+});
+
+/**
+ * フォームの入力値をルームの言語設定として検証・変換します。
+ * 対応していない言語コードや、参加者言語に含まれない言語を指定した場合はエラーメッセージを返します。
+ */
+const parseRoomLanguageForm = (values: RoomLanguageFormValues): { config?: RoomLanguageConfig; error?: string } => {
+  const languages = [...new Set(splitLanguageCodes(values.languages))];
+  if (languages.length === 0) {
+    return { error: 'At least one language is required.' };
+  }
+  const unsupported = languages.filter(lang => !SUPPORTED_LANGUAGES[lang]);
+  if (unsupported.length > 0) {
+    return { error: `Unsupported language: ${unsupported.join(', ')}` };
+  }
+
+  const targets: Record<string, string[]> = {};
+  for (const line of values.targets.split('\n').map(l => l.trim()).filter(l => l)) {
+    const match = line.match(/^([a-z]+)\s*:\s*(.*)$/i);
+    if (!match) {
+      return { error: `Invalid target rule: ${line}` };
+    }
+    const source = match[1].toLowerCase();
+    const dests = splitLanguageCodes(match[2]);
+    const unknown = [source, ...dests].filter(lang => !languages.includes(lang));
+    if (unknown.length > 0) {
+      return { error: `Target rule uses a language that is not in the room: ${unknown.join(', ')}` };
+    }
+    targets[source] = dests.filter(lang => lang !== source);
+  }
+
+  const roles = parseLanguageLines(values.roles, languages, 'role');
+  if (!roles.values) {
+    return { error: roles.error };
+  }
+
+  return { config: { languages, targets, roles: roles.values } };
+}
+
+const renderRoomLanguageForm = (
+  room: Room,
+  values: RoomLanguageFormValues,
+  templates: PromptTemplateSummary[],
+  error?: string
+) => html`
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <title>Edit Room Languages</title>
+      <style>
+        body { font-family: sans-serif; padding: 20px; }
+        form { max-width: 500px; margin: 20px 0; }
+        label { display: block; margin-bottom: 5px; }
+        input, textarea { width: 100%; padding: 8px; margin-bottom: 5px; }
+        .hint { color: #666; font-size: 0.9em; margin-bottom: 15px; }
+        .error { color: #c00; }
+        button { padding: 10px 20px; }
+        .back { margin-bottom: 20px; display: inline-block; }
+      </style>
+    </head>
+    <body>
+      <a href="/admin/rooms" class="back">Back to Rooms</a>
+      <h1>Edit Room Languages: ${room.room_name || room.room_id}</h1>
+      ${error ? html`<p class="error">${error}</p>` : ''}
+      ${room.language_config ? '' : html`<p>This room uses the default language configuration.</p>`}
+      <form method="POST">
+        <label>Participant Languages</label>
+        <input type="text" name="languages" value="${values.languages}" />
+        <div class="hint">Comma-separated language codes. Supported: ${Object.keys(SUPPORTED_LANGUAGES).join(', ')}</div>
+
+        <label>Translation Targets</label>
+        <textarea name="targets" rows="5">${values.targets}</textarea>
+        <div class="hint">One rule per line, e.g. "uk: ja, de". Languages without a rule are translated into all other participant languages.</div>
+
+        <label>Speaker Roles</label>
+        <textarea name="roles" rows="3">${values.roles}</textarea>
+        <div class="hint">One role per line, e.g. "pl: 先生". Used to describe the speakers in the translation prompt.</div>
+
+        <button type="submit">Update</button>
+        <button type="submit" name="reset" value="1">Reset to Default</button>
+      </form>
+
+      <h2>Translation Prompt</h2>
+      <form method="POST" action="/admin/rooms/${room.room_id}/prompt">
+        <label>Prompt Template</label>
+        <select name="prompt_template">
+          <option value="">${DEFAULT_PROMPT_TEMPLATE_NAME} (default)</option>
+          ${templates
+            .filter(template => template.name !== DEFAULT_PROMPT_TEMPLATE_NAME)
+            .map(template => html`<option value="${template.name}" ${template.name === room.prompt_template ? 'selected' : ''}>${template.name} (v${template.version})</option>`)}
+        </select>
+        <div class="hint">The latest version of the selected template is used. <a href="/admin/prompt-templates">Manage templates</a></div>
+
+        <label>Room Description</label>
+        <textarea name="description" rows="3">${room.description || ''}</textarea>
+        <div class="hint">Inserted as {{room_description}}. Leave empty to use: ${DEFAULT_ROOM_DESCRIPTION}</div>
+
+        <button type="submit">Update</button>
+      </form>
+    </body>
+  </html>
+`
+
+/**
+ * 用語集フォームの入力値
+ */
+interface GlossaryFormValues {
+  term: string;
+  translations: string; // 1行に1言語 (例: "ja: パ・ド・ブレ")
+  do_not_translate: boolean;
+  room_id: string; // 空文字の場合はすべてのルーム
+  note: string;
+}
+
+const toGlossaryFormValues = (term: GlossaryTerm): GlossaryFormValues => ({
+  term: term.term,
+  translations: toLanguageLines(term.translations ? JSON.parse(term.translations) : {}),
+  do_not_translate: !!term.do_not_translate,
+  room_id: term.room_id || '',
+  note: term.note || '',
+});
+
+/**
+ * 送信された用語集フォームの値を取り出します。
+ */
+const readGlossaryForm = (body: Record<string, unknown>): GlossaryFormValues => ({
+  term: ((body['term'] as string) || '').trim(),
+  translations: (body['translations'] as string) || '',
+  do_not_translate: !!body['do_not_translate'],
+  room_id: ((body['room_id'] as string) || '').trim(),
+  note: ((body['note'] as string) || '').trim(),
+});
+
+/**
+ * 用語集フォームの入力値を検証し、保存する用語データに変換します。
+ */
+const parseGlossaryForm = (
+  values: GlossaryFormValues,
+  now: string
+): { term?: Omit<GlossaryTerm, 'id' | 'created_at'>; error?: string } => {
+  if (!values.term) {
+    return { error: 'Term is required.' };
+  }
+  const translations = parseLanguageLines(values.translations, Object.keys(SUPPORTED_LANGUAGES), 'translation');
+  if (!translations.values) {
+    return { error: translations.error };
+  }
+  if (!values.do_not_translate && Object.keys(translations.values).length === 0) {
+    return { error: 'Enter at least one translation or mark the term as do-not-translate.' };
+  }
+  return {
+    term: {
+      term: values.term,
+      translations: Object.keys(translations.values).length > 0 ? JSON.stringify(translations.values) : null,
+      do_not_translate: values.do_not_translate ? 1 : 0,
+      room_id: values.room_id || null,
+      note: values.note || null,
+      updated_at: now,
+    },
+  };
+}
+
+const renderGlossaryForm = (title: string, values: GlossaryFormValues, rooms: Room[], error?: string) => html`
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <title>${title}</title>
+      <style>
+        body { font-family: sans-serif; padding: 20px; }
+        form { max-width: 500px; margin: 20px 0; }
+        label { display: block; margin-bottom: 5px; }
+        input[type="text"], textarea, select { width: 100%; padding: 8px; margin-bottom: 5px; }
+        .hint { color: #666; font-size: 0.9em; margin-bottom: 15px; }
+        .error { color: #c00; }
+        button { padding: 10px 20px; }
+        .back { margin-bottom: 20px; display: inline-block; }
+      </style>
+    </head>
+    <body>
+      <a href="/admin/glossary" class="back">Back to Glossary</a>
+      <h1>${title}</h1>
+      ${error ? html`<p class="error">${error}</p>` : ''}
+      <form method="POST">
+        <label>Term</label>
+        <input type="text" name="term" value="${values.term}" />
+        <div class="hint">The form that appears in the original message, e.g. "pas de bourrée" or "発表会".</div>
+
+        <label>Translations</label>
+        <textarea name="translations" rows="4">${values.translations}</textarea>
+        <div class="hint">One translation per line, e.g. "ja: パ・ド・ブレ".</div>
+
+        <label><input type="checkbox" name="do_not_translate" value="1" ${values.do_not_translate ? 'checked' : ''} /> Do not translate (keep the term as is)</label>
+
+        <label>Room</label>
+        <select name="room_id">
+          <option value="">All rooms</option>
+          ${rooms.map(room => html`<option value="${room.room_id}" ${room.room_id === values.room_id ? 'selected' : ''}>${room.room_name || room.room_id}</option>`)}
+        </select>
+
+        <label>Note</label>
+        <input type="text" name="note" value="${values.note}" />
+
+        <button type="submit">Save</button>
+      </form>
+    </body>
+  </html>
+`
+
+/**
+ * プロンプトテンプレートのフォームの入力値
+ */
+interface PromptTemplateFormValues {
+  name: string;
+  note: string;
+  body: string;
+}
+
+/**
+ * 送信されたプロンプトテンプレートのフォームの値を取り出します。
+ */
+const readPromptTemplateForm = (body: Record<string, unknown>): PromptTemplateFormValues => ({
+  name: ((body['name'] as string) || '').trim(),
+  note: ((body['note'] as string) || '').trim(),
+  // textarea の改行は CRLF で送信されるため、LF に揃える
+  body: ((body['body'] as string) || '').replace(/\r\n/g, '\n'),
+});
+
+/**
+ * プロンプトテンプレートのフォームの入力値を検証します。
+ */
+const validatePromptTemplateForm = (values: PromptTemplateFormValues): string | null => {
+  if (!/^[a-z0-9_-]+$/.test(values.name)) {
+    return 'Name must consist of lowercase letters, digits, "-" and "_".';
+  }
+  if (values.name === BUILTIN_PROMPT_TEMPLATE_NAME) {
+    return `"${BUILTIN_PROMPT_TEMPLATE_NAME}" is reserved for the built-in template.`;
+  }
+  return validatePromptTemplate(values.body);
+}
+
+const renderPromptTemplateForm = (
+  title: string,
+  values: PromptTemplateFormValues,
+  options: { versions?: PromptTemplate[]; preview?: string; error?: string } = {}
+) => html`
+  <!DOCTYPE html>
+  <html>
+    <head>
+      <title>${title}</title>
+      <style>
+        body { font-family: sans-serif; padding: 20px; }
+        form { max-width: 900px; margin: 20px 0; }
+        label { display: block; margin-bottom: 5px; }
+        input[type="text"], textarea { width: 100%; padding: 8px; margin-bottom: 5px; }
+        textarea { font-family: monospace; }
+        .hint { color: #666; font-size: 0.9em; margin-bottom: 15px; }
+        .error { color: #c00; }
+        button { padding: 10px 20px; margin-right: 10px; }
+        .back { margin-bottom: 20px; display: inline-block; }
+        .preview { white-space: pre-wrap; background-color: #f9f9f9; border: 1px solid #ddd; padding: 10px; max-width: 900px; }
+        table { border-collapse: collapse; margin-bottom: 20px; }
+        th, td { border: 1px solid #ddd; padding: 6px; text-align: left; }
+        th { background-color: #f2f2f2; }
+      </style>
+    </head>
+    <body>
+      <a href="/admin/prompt-templates" class="back">Back to Prompt Templates</a>
+      <h1>${title}</h1>
+      ${options.error ? html`<p class="error">${options.error}</p>` : ''}
+      ${options.preview !== undefined ? html`
+        <h2>Preview (sample message)</h2>
+        <div class="preview">${options.preview}</div>
+      ` : ''}
+      <form method="POST" action="/admin/prompt-templates">
+        <label>Name</label>
+        <input type="text" name="name" value="${values.name}" ${options.versions ? 'readonly' : ''} />
+        <div class="hint">Saving creates a new version. "${DEFAULT_PROMPT_TEMPLATE_NAME}" is used by rooms without a selected template.</div>
+
+        <label>Template</label>
+        <textarea name="body" rows="30">${values.body}</textarea>
+
+        <label>Change Note</label>
+        <input type="text" name="note" value="${values.note}" />
+
+        <button type="submit" name="action" value="preview">Preview</button>
+        <button type="submit" name="action" value="save">Save as New Version</button>
+      </form>
+      <h2>Variables</h2>
+      <p class="hint">Use {{name}} for a value, {{#name}}...{{/name}} for text included only when the value is not empty and {{^name}}...{{/name}} for text included only when it is empty.</p>
+      <table>
+        ${Object.entries(PROMPT_TEMPLATE_VARIABLES).map(([name, description]) => html`
+          <tr><td><code>{{${name}}}</code></td><td>${description}</td></tr>
+        `)}
+      </table>
+      ${options.versions ? html`
+        <h2>Versions</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Version</th>
+              <th>Note</th>
+              <th>Created At</th>
+              <th>Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${options.versions.map(version => html`
+              <tr>
+                <td>v${version.version}</td>
+                <td>${version.note || '-'}</td>
+                <td>${version.created_at}</td>
+                <td><a href="/admin/prompt-templates/${version.name}?version=${version.version}">Load</a></td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      ` : ''}
+    </body>
+  </html>
+`
+
+/**
+ * Gemini APIの使用量の集計結果を表で表示します。
+ * keyHeader を指定した場合は、集計単位 (ルーム、ユーザー、モデル) の列を追加します。
+ */
+const renderUsageTable = (
+  rows: GeminiUsageSummary[],
+  keyHeader?: string,
+  formatKey: (row: GeminiUsageSummary) => string = row => row.dimension_key
+) => html`
+  <table>
+    <thead>
+      <tr>
+        <th>Period</th>
+        ${keyHeader ? html`<th>${keyHeader}</th>` : ''}
+        <th>Calls</th>
+        <th>Errors</th>
+        <th>Attempts</th>
+        <th>Prompt Tokens</th>
+        <th>Output Tokens</th>
+        <th>Est. Cost (USD)</th>
+        <th>Avg Latency (ms)</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${rows.map(row => html`
+        <tr>
+          <td>${row.period}</td>
+          ${keyHeader ? html`<td>${formatKey(row)}</td>` : ''}
+          <td>${row.calls}</td>
+          <td>${row.errors}</td>
+          <td>${row.attempts}</td>
+          <td>${row.prompt_tokens}</td>
+          <td>${row.output_tokens}</td>
+          <td>$${row.cost_usd.toFixed(4)}</td>
+          <td>${Math.round(row.avg_latency_ms)}</td>
+        </tr>
+      `)}
+    </tbody>
+  </table>
+`
+
+/**
+ * 投稿の本文を、メッセージの種類に応じて表示します。
+ * テキスト以外の投稿は種類とコンテンツの情報 (ファイル名、スタンプのキーワード、住所など) を表示し、
+ * コンテンツを保存している場合はリンクを付けます。
+ */
+const renderPostContent = (post: Post) => {
+  if (post.retracted_at) {
+    return html`<em>Withdrawn by the sender (${post.retracted_at})</em>`
+  }
+  const metadata = parseContentMetadata(post.content_metadata)
+  const link = post.content_key ? html` <a href="/admin/posts/${post.post_id}/content">View content</a>` : ''
+  switch (post.content_type) {
+    case 'image':
+      return html`<em>Image:</em> ${post.message_text || 'No text found'}${link}`
+    case 'audio':
+      return html`<em>Voice${metadata.duration ? ` (${formatDuration(metadata.duration)})` : ''}:</em> ${post.message_text || 'No speech found'}${link}`
+    case 'video':
+      return html`<em>Video${metadata.duration ? ` (${formatDuration(metadata.duration)})` : ''}</em>${link}`
+    case 'file':
+      return html`<em>File:</em> ${metadata.fileName || '-'}${metadata.fileSize ? ` (${metadata.fileSize} bytes)` : ''}${link}`
+    case 'location':
+      return html`<em>Location:</em> ${[metadata.title, metadata.address].filter(Boolean).join(', ') || '-'}${
+        metadata.latitude !== undefined && metadata.longitude !== undefined
+          ? html` <a href="${createMapUrl(metadata.latitude, metadata.longitude)}">Map</a>`
+          : ''}`
+    case 'sticker':
+      return html`<em>Sticker:</em> ${metadata.stickerText ? `"${metadata.stickerText}" ` : ''}${
+        metadata.keywords?.length ? metadata.keywords.join(', ') : `${metadata.packageId}/${metadata.stickerId}`}`
+    default:
+      return post.message_text
+  }
+}
 
 admin.use(
   '*',
@@ -37,6 +531,19 @@ admin.get('/', (c) => {
         <ul>
           ${tables.map(t => html`<li><a href="/admin/table/${t}">${t}</a></li>`)}
         </ul>
+        <h2>Operations</h2>
+        <ul>
+          <li><a href="/admin/failed-events">Failed Events</a></li>
+          <li><a href="/admin/rooms">Room Languages</a></li>
+          <li><a href="/admin/glossary">Glossary</a></li>
+          <li><a href="/admin/translation-cache">Translation Cache</a></li>
+          <li><a href="/admin/usage">Gemini Usage</a></li>
+          <li><a href="/admin/models">Model Health</a></li>
+          <li><a href="/admin/prompt-templates">Prompt Templates</a></li>
+          <li><a href="/admin/feedback">Translation Feedback</a></li>
+          <li><a href="/admin/translation-examples">Translation Examples</a></li>
+          <li><a href="/admin/places">Places</a></li>
+        </ul>
       </body>
     </html>
   `)
@@ -73,7 +580,7 @@ admin.get('/table/:tableName', async (c) => {
           <thead>
             <tr>
               ${columns.map(col => html`<th>${col}</th>`)}
-              ${tableName === 'users' ? html`<th>Action</th>` : ''}
+              ${tableName === 'users' || tableName === 'rooms' || tableName === 'posts' ? html`<th>Action</th>` : ''}
             </tr>
           </thead>
           <tbody>
@@ -84,6 +591,12 @@ admin.get('/table/:tableName', async (c) => {
                   <a href="/admin/users/${(row as any).user_id}/edit">Edit</a>
                   <a href="/admin/users/${(row as any).user_id}/posts">Posts</a>
                 </td>` : ''}
+                ${tableName === 'rooms' ? html`<td>
+                  <a href="/admin/rooms/${(row as any).room_id}/edit">Edit</a>
+                </td>` : ''}
+                ${tableName === 'posts' ? html`<td>
+                  ${(row as any).retracted_at ? 'Withdrawn' : html`<a href="/admin/posts/${(row as any).post_id}/edit">Edit Translation</a>`}
+                </td>` : ''}
               </tr>
             `)}
           </tbody>
@@ -173,6 +686,7 @@ admin.get('/users/:userId/posts', async (c) => {
               <th>Message</th>
               <th>Poll</th>
               <th>Translated Text</th>
+              <th>Action</th>
             </tr>
           </thead>
           <tbody>
@@ -180,16 +694,1041 @@ admin.get('/users/:userId/posts', async (c) => {
               <tr>
                 <td>${post.timestamp}</td>
                 <td>${post.room_id || '-'}</td>
-                <td>${post.message_text}</td>
+                <td>${renderPostContent(post)}</td>
                 <td>${post.has_poll ? 'Yes' : 'No'}</td>
                 <td>${post.translated_text || '-'}</td>
+                <td>${post.retracted_at || !post.message_text ? '-' : html`<a href="/admin/posts/${post.post_id}/edit">Edit Translation</a>`}</td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  `)
+})
+
+admin.get('/posts/:postId/content', async (c) => {
+  const postId = c.req.param('postId');
+  const post = await new PostRepository(c.env).findById(postId);
+  const storage = createContentStorage(c.env);
+  const content = post?.content_key && storage ? await storage.get(post.content_key) : null;
+  if (!content) {
+    return c.text('Content not found', 404);
+  }
+  const fileName = parseContentMetadata(post?.content_metadata).fileName
+  const disposition = isInlineContentType(content.contentType) ? 'inline' : 'attachment'
+  return c.body(content.data, 200, {
+    'Content-Type': content.contentType,
+    'Content-Disposition': fileName ? `${disposition}; filename*=UTF-8''${encodeURIComponent(fileName)}` : disposition,
+    'X-Content-Type-Options': 'nosniff',
+  });
+})
+
+admin.get('/posts/:postId/edit', async (c) => {
+  const postId = c.req.param('postId');
+  const postRepository = new PostRepository(c.env);
+  const post = await postRepository.findById(postId);
+
+  if (!post) {
+    return c.text('Post not found', 404);
+  }
+  if (post.retracted_at) {
+    return c.text('The post was withdrawn by the sender', 410);
+  }
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Edit Translation</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          form { max-width: 600px; margin: 20px 0; }
+          label { display: block; margin-bottom: 5px; }
+          textarea { width: 100%; padding: 8px; margin-bottom: 15px; box-sizing: border-box; }
+          button { padding: 10px 20px; }
+          pre { background-color: #f9f9f9; border: 1px solid #ddd; padding: 10px; white-space: pre-wrap; max-width: 600px; }
+          .back { margin-bottom: 20px; display: inline-block; }
+          .checkbox { display: flex; align-items: center; gap: 8px; margin-bottom: 15px; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin/users/${post.user_id}/posts" class="back">Back to Posts</a>
+        <h1>Edit Translation</h1>
+        <p>Post ${post.post_id} in ${post.room_id || 'private chat'} (${post.timestamp})</p>
+        <h2>${post.content_type === 'image' ? 'Text Read from the Image' : post.content_type === 'audio' ? 'Transcript of the Voice Message' : 'Original Message'}</h2>
+        <pre>${post.message_text || '-'}</pre>
+        <form method="POST">
+          <label>Translated Text</label>
+          <textarea name="translated_text" rows="8">${post.translated_text || ''}</textarea>
+
+          <label class="checkbox">
+            <input type="checkbox" name="save_example" value="1" checked />
+            Save as an example for future translations in this room
+          </label>
+
+          <button type="submit">Update</button>
+        </form>
+      </body>
+    </html>
+  `)
+})
+
+admin.post('/posts/:postId/edit', async (c) => {
+  const postId = c.req.param('postId');
+  const body = await c.req.parseBody();
+  const translatedText = String(body['translated_text'] ?? '').replace(/\r\n/g, '\n').trim();
+  const postRepository = new PostRepository(c.env);
+  const post = await postRepository.findById(postId);
+
+  if (!post) {
+    return c.text('Post not found', 404);
+  }
+  if (post.retracted_at) {
+    return c.text('The post was withdrawn by the sender', 410);
+  }
+
+  await postRepository.correctTranslatedText(postId, translatedText);
+
+  // 修正した翻訳を、同じルームの翻訳プロンプトに含める例として保存する
+  const sourceText = post.has_poll
+    ? (post.message_text || '').replace(POLL_COMMAND_PATTERN, '').trim()
+    : (post.message_text || '').trim();
+  if (body['save_example'] && sourceText && translatedText) {
+    const translationExampleRepository = new TranslationExampleRepository(c.env);
+    await translationExampleRepository.upsert({
+      post_id: postId,
+      room_id: post.room_id || null,
+      source_text: sourceText,
+      translation: translatedText,
+      created_at: new Date().toISOString(),
+    });
+  }
+
+  return c.redirect(`/admin/users/${post.user_id}/posts`);
+})
+
+admin.get('/translation-examples', async (c) => {
+  const translationExampleRepository = new TranslationExampleRepository(c.env);
+  const examples = await translationExampleRepository.findAll();
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Translation Examples</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; vertical-align: top; white-space: pre-wrap; }
+          th { background-color: #f2f2f2; }
+          .back { margin-bottom: 20px; display: inline-block; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin" class="back">Back to Dashboard</a>
+        <h1>Translation Examples</h1>
+        <p>Corrected translations are added to the translation prompt of the same room as examples (the newest 3 per room). Correct a translation from a user's posts page.</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Saved At</th>
+              <th>Room ID</th>
+              <th>Original</th>
+              <th>Corrected Translation</th>
+              <th>Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${examples.map(example => html`
+              <tr>
+                <td>${example.created_at}</td>
+                <td>${example.room_id || 'private chat'}</td>
+                <td>${example.source_text}</td>
+                <td>${example.translation}</td>
+                <td>
+                  <form method="POST" action="/admin/translation-examples/${example.id}/delete" onsubmit="return confirm('Delete this example?')">
+                    <button type="submit">Delete</button>
+                  </form>
+                </td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  `)
+})
+
+admin.post('/translation-examples/:id/delete', async (c) => {
+  const translationExampleRepository = new TranslationExampleRepository(c.env);
+  await translationExampleRepository.delete(Number(c.req.param('id')));
+  return c.redirect('/admin/translation-examples');
+})
+
+admin.get('/places', async (c) => {
+  const placeRepository = new PlaceRepository(c.env);
+  const places = await placeRepository.findAll();
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Places</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; vertical-align: top; }
+          th { background-color: #f2f2f2; }
+          .back { margin-bottom: 20px; display: inline-block; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin" class="back">Back to Dashboard</a>
+        <h1>Places</h1>
+        <p>Quote a location message in LINE and send "場所登録 name" (or "save place name") to save it. Write [place:name] in a poll or announcement to send the place with it. Places saved in a private chat are personal: only the user who saved them can reference them, from any room. A place can only be overwritten by the user who saved it.</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Room ID</th>
+              <th>Title</th>
+              <th>Address</th>
+              <th>Map</th>
+              <th>Updated At</th>
+              <th>Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${places.map(place => html`
+              <tr>
+                <td>${place.name}</td>
+                <td>${place.room_id || `personal (${place.created_by})`}</td>
+                <td>${place.title || '-'}</td>
+                <td>${place.address || '-'}</td>
+                <td><a href="${createMapUrl(place.latitude, place.longitude)}">${place.latitude}, ${place.longitude}</a></td>
+                <td>${place.updated_at}</td>
+                <td>
+                  <form method="POST" action="/admin/places/${place.id}/delete" onsubmit="return confirm('Delete this place?')">
+                    <button type="submit">Delete</button>
+                  </form>
+                </td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  `)
+})
+
+admin.post('/places/:id/delete', async (c) => {
+  const placeRepository = new PlaceRepository(c.env);
+  await placeRepository.delete(Number(c.req.param('id')));
+  return c.redirect('/admin/places');
+})
+
+admin.get('/rooms', async (c) => {
+  const roomRepository = new RoomRepository(c.env);
+  const rooms = await roomRepository.findAll();
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Room Languages</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+          th { background-color: #f2f2f2; }
+          .back { margin-bottom: 20px; display: inline-block; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin" class="back">Back to Dashboard</a>
+        <h1>Room Languages</h1>
+        <table>
+          <thead>
+            <tr>
+              <th>Room ID</th>
+              <th>Name</th>
+              <th>Languages</th>
+              <th>Targets</th>
+              <th>Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${rooms.map(room => {
+              const config = parseRoomLanguageConfig(room.language_config);
+              return html`
+                <tr>
+                  <td>${room.room_id}</td>
+                  <td>${room.room_name || '-'}</td>
+                  <td>${config.languages.join(', ')}${room.language_config ? '' : ' (default)'}</td>
+                  <td>${Object.entries(config.targets).map(([src, dests]) => `${src} → ${dests.join(', ') || '-'}`).join(' / ') || 'all other languages'}</td>
+                  <td><a href="/admin/rooms/${room.room_id}/edit">Edit</a></td>
+                </tr>
+              `;
+            })}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  `)
+})
+
+admin.get('/rooms/:roomId/edit', async (c) => {
+  const roomRepository = new RoomRepository(c.env);
+  const room = await roomRepository.findById(c.req.param('roomId'));
+
+  if (!room) {
+    return c.text('Room not found', 404);
+  }
+
+  const values = toRoomLanguageFormValues(parseRoomLanguageConfig(room.language_config));
+  const promptTemplateRepository = new PromptTemplateRepository(c.env);
+  const templates = await promptTemplateRepository.summarize();
+  return c.html(renderRoomLanguageForm(room, values, templates));
+})
+
+admin.post('/rooms/:roomId/edit', async (c) => {
+  const roomRepository = new RoomRepository(c.env);
+  const room = await roomRepository.findById(c.req.param('roomId'));
+
+  if (!room) {
+    return c.text('Room not found', 404);
+  }
+
+  const body = await c.req.parseBody();
+  if (body['reset']) {
+    await roomRepository.updateLanguageConfig(room.room_id, null);
+    return c.redirect('/admin/rooms');
+  }
+
+  const values: RoomLanguageFormValues = {
+    languages: (body['languages'] as string) || '',
+    targets: (body['targets'] as string) || '',
+    roles: (body['roles'] as string) || '',
+  };
+  const { config, error } = parseRoomLanguageForm(values);
+  if (!config) {
+    const promptTemplateRepository = new PromptTemplateRepository(c.env);
+    const templates = await promptTemplateRepository.summarize();
+    return c.html(renderRoomLanguageForm(room, values, templates, error), 400);
+  }
+
+  await roomRepository.updateLanguageConfig(room.room_id, config);
+  return c.redirect('/admin/rooms');
+})
+
+admin.post('/rooms/:roomId/prompt', async (c) => {
+  const roomRepository = new RoomRepository(c.env);
+  const room = await roomRepository.findById(c.req.param('roomId'));
+
+  if (!room) {
+    return c.text('Room not found', 404);
+  }
+
+  const body = await c.req.parseBody();
+  const promptTemplate = ((body['prompt_template'] as string) || '').trim();
+  const description = ((body['description'] as string) || '').trim();
+  await roomRepository.updatePromptSettings(room.room_id, promptTemplate || null, description || null);
+  return c.redirect(`/admin/rooms/${room.room_id}/edit`);
+})
+
+admin.get('/glossary', async (c) => {
+  const glossaryRepository = new GlossaryRepository(c.env);
+  const terms = await glossaryRepository.findAll();
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Glossary</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+          th { background-color: #f2f2f2; }
+          .back { margin-bottom: 20px; display: inline-block; }
+          td form { display: inline; }
+          .translations { white-space: pre-line; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin" class="back">Back to Dashboard</a>
+        <h1>Glossary</h1>
+        <p><a href="/admin/glossary/new">Add Term</a></p>
+        <table>
+          <thead>
+            <tr>
+              <th>Term</th>
+              <th>Translations</th>
+              <th>Do Not Translate</th>
+              <th>Room</th>
+              <th>Note</th>
+              <th>Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${terms.map(term => html`
+              <tr>
+                <td>${term.term}</td>
+                <td class="translations">${toLanguageLines(term.translations ? JSON.parse(term.translations) : {}) || '-'}</td>
+                <td>${term.do_not_translate ? 'Yes' : 'No'}</td>
+                <td>${term.room_id || 'All rooms'}</td>
+                <td>${term.note || '-'}</td>
+                <td>
+                  <a href="/admin/glossary/${term.id}/edit">Edit</a>
+                  <form method="POST" action="/admin/glossary/${term.id}/delete" onsubmit="return confirm('Delete this term?')">
+                    <button type="submit">Delete</button>
+                  </form>
+                </td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  `)
+})
+
+admin.get('/glossary/new', async (c) => {
+  const roomRepository = new RoomRepository(c.env);
+  const rooms = await roomRepository.findAll();
+  const values: GlossaryFormValues = { term: '', translations: '', do_not_translate: false, room_id: '', note: '' };
+  return c.html(renderGlossaryForm('Add Term', values, rooms));
+})
+
+admin.post('/glossary/new', async (c) => {
+  const values = readGlossaryForm(await c.req.parseBody());
+  const now = new Date().toISOString();
+  const { term, error } = parseGlossaryForm(values, now);
+  if (!term) {
+    const roomRepository = new RoomRepository(c.env);
+    const rooms = await roomRepository.findAll();
+    return c.html(renderGlossaryForm('Add Term', values, rooms, error), 400);
+  }
+
+  const glossaryRepository = new GlossaryRepository(c.env);
+  await glossaryRepository.create({ ...term, created_at: now });
+  return c.redirect('/admin/glossary');
+})
+
+admin.get('/glossary/:id/edit', async (c) => {
+  const glossaryRepository = new GlossaryRepository(c.env);
+  const glossaryTerm = await glossaryRepository.findById(Number(c.req.param('id')));
+  if (!glossaryTerm) {
+    return c.text('Term not found', 404);
+  }
+
+  const roomRepository = new RoomRepository(c.env);
+  const rooms = await roomRepository.findAll();
+  return c.html(renderGlossaryForm('Edit Term', toGlossaryFormValues(glossaryTerm), rooms));
+})
+
+admin.post('/glossary/:id/edit', async (c) => {
+  const glossaryRepository = new GlossaryRepository(c.env);
+  const glossaryTerm = await glossaryRepository.findById(Number(c.req.param('id')));
+  if (!glossaryTerm) {
+    return c.text('Term not found', 404);
+  }
+
+  const values = readGlossaryForm(await c.req.parseBody());
+  const { term, error } = parseGlossaryForm(values, new Date().toISOString());
+  if (!term) {
+    const roomRepository = new RoomRepository(c.env);
+    const rooms = await roomRepository.findAll();
+    return c.html(renderGlossaryForm('Edit Term', values, rooms, error), 400);
+  }
+
+  await glossaryRepository.update(glossaryTerm.id, term);
+  return c.redirect('/admin/glossary');
+})
+
+admin.post('/glossary/:id/delete', async (c) => {
+  const glossaryRepository = new GlossaryRepository(c.env);
+  await glossaryRepository.delete(Number(c.req.param('id')));
+  return c.redirect('/admin/glossary');
+})
+
+admin.get('/translation-cache', async (c) => {
+  const search = (c.req.query('q') || '').trim();
+  const invalidated = c.req.query('invalidated');
+
+  const translationCacheRepository = new TranslationCacheRepository(c.env);
+  const stats = await translationCacheRepository.findStats(14);
+  const entries = await translationCacheRepository.findRecent(100, search || undefined);
+  const totalHits = stats.reduce((sum, s) => sum + s.hits, 0);
+  const totalMisses = stats.reduce((sum, s) => sum + s.misses, 0);
+  const hitRate = totalHits + totalMisses > 0 ? Math.round((totalHits / (totalHits + totalMisses)) * 100) : 0;
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Translation Cache</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; vertical-align: top; }
+          th { background-color: #f2f2f2; }
+          .back { margin-bottom: 20px; display: inline-block; }
+          .notice { background-color: #f9f9f9; border-left: 5px solid #06c755; padding: 10px; margin-bottom: 20px; }
+          .actions { margin: 15px 0; }
+          .actions button { padding: 8px 16px; }
+          .translations { white-space: pre-line; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin" class="back">Back to Dashboard</a>
+        <h1>Translation Cache</h1>
+        ${invalidated !== undefined ? html`<p class="notice">Invalidated: ${invalidated}</p>` : ''}
+        <h2>Last 14 days</h2>
+        <p>Hits: ${totalHits}, Misses: ${totalMisses}, Hit rate: ${hitRate}%</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Date</th>
+              <th>Hits</th>
+              <th>Misses</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${stats.map(s => html`
+              <tr>
+                <td>${s.date}</td>
+                <td>${s.hits}</td>
+                <td>${s.misses}</td>
               </tr>
             `)}
           </tbody>
         </table>
+        <h2>Entries</h2>
+        <form method="GET">
+          <input type="text" name="q" value="${search}" placeholder="Search message" />
+          <button type="submit">Search</button>
+        </form>
+        <form method="POST" action="/admin/translation-cache/invalidate">
+          <div class="actions">
+            <button type="submit">Invalidate selected</button>
+          </div>
+          <table>
+            <thead>
+              <tr>
+                <th></th>
+                <th>Message</th>
+                <th>Languages</th>
+                <th>Translations</th>
+                <th>Hits</th>
+                <th>Created At</th>
+                <th>Last Hit At</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${entries.map(entry => html`
+                <tr>
+                  <td><input type="checkbox" name="keys" value="${entry.cache_key}" /></td>
+                  <td>${entry.normalized_text}</td>
+                  <td>${entry.source_lang} → ${entry.target_langs}</td>
+                  <td class="translations">${toLanguageLines(JSON.parse(entry.translations))}</td>
+                  <td>${entry.hit_count}</td>
+                  <td>${entry.created_at}</td>
+                  <td>${entry.last_hit_at || '-'}</td>
+                </tr>
+              `)}
+            </tbody>
+          </table>
+        </form>
       </body>
     </html>
   `)
 })
 
+admin.post('/translation-cache/invalidate', async (c) => {
+  const body = await c.req.parseBody({ all: true });
+  const value = body['keys'];
+  const keys = (Array.isArray(value) ? value : value !== undefined ? [value] : [])
+    .filter((key): key is string => typeof key === 'string' && key.length > 0);
+  const translationCacheRepository = new TranslationCacheRepository(c.env);
+
+  for (const key of keys) {
+    await translationCacheRepository.delete(key);
+  }
+
+  return c.redirect(`/admin/translation-cache?invalidated=${keys.length}`);
+})
+
+admin.get('/usage', async (c) => {
+  const period: GeminiUsagePeriod = c.req.query('period') === 'month' ? 'month' : 'day';
+  // 日別は直近14日間、月別は今月を含む直近6か月間を集計する (UTC)
+  const now = new Date();
+  const since = period === 'month'
+    ? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 5, 1)).toISOString()
+    : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - 13)).toISOString();
+
+  const geminiUsageRepository = new GeminiUsageRepository(c.env);
+  const totals = await geminiUsageRepository.summarize(period, 'total', since);
+  const byModel = await geminiUsageRepository.summarize(period, 'model', since);
+  const byRoom = await geminiUsageRepository.summarize(period, 'room', since);
+  const byUser = await geminiUsageRepository.summarize(period, 'user', since);
+  const totalCalls = totals.reduce((sum, row) => sum + row.calls, 0);
+  const totalTokens = totals.reduce((sum, row) => sum + row.prompt_tokens + row.output_tokens, 0);
+  const totalCost = totals.reduce((sum, row) => sum + row.cost_usd, 0);
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Gemini Usage</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+          th { background-color: #f2f2f2; }
+          .back { margin-bottom: 20px; display: inline-block; }
+          .filters a { margin-right: 10px; }
+          .filters a.active { font-weight: bold; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin" class="back">Back to Dashboard</a>
+        <h1>Gemini Usage</h1>
+        <div class="filters">
+          <a href="/admin/usage?period=day" class="${period === 'day' ? 'active' : ''}">Daily (last 14 days)</a>
+          <a href="/admin/usage?period=month" class="${period === 'month' ? 'active' : ''}">Monthly (last 6 months)</a>
+        </div>
+        <p>Calls: ${totalCalls}, Tokens: ${totalTokens}, Estimated cost: $${totalCost.toFixed(4)}</p>
+        <h2>Total</h2>
+        ${renderUsageTable(totals)}
+        <h2>By Model</h2>
+        ${renderUsageTable(byModel, 'Model')}
+        <h2>By Room</h2>
+        ${renderUsageTable(byRoom, 'Room', row => row.dimension_key ? row.label || row.dimension_key : '(private chat)')}
+        <h2>By User</h2>
+        ${renderUsageTable(byUser, 'User', row => row.label || row.dimension_key || '-')}
+      </body>
+    </html>
+  `)
+})
+
+admin.get('/models', async (c) => {
+  const reset = c.req.query('reset');
+  const modelHealthTracker = new ModelHealthTracker(c.env);
+  const statuses = await modelHealthTracker.getStatuses(GEMINI_MODELS);
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Model Health</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; margin-bottom: 20px; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+          th { background-color: #f2f2f2; }
+          .back { margin-bottom: 20px; display: inline-block; }
+          .notice { background-color: #f9f9f9; border-left: 5px solid #06c755; padding: 10px; margin-bottom: 20px; }
+          .healthy { color: #06c755; }
+          .cooldown { color: #d32f2f; font-weight: bold; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin" class="back">Back to Dashboard</a>
+        <h1>Model Health</h1>
+        ${reset ? html`<p class="notice">Reset: ${reset}</p>` : ''}
+        <p>Models are tried in this order. A model that returned 429/503 or failed too often in the last 5 minutes is skipped until its cooldown ends.</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Model</th>
+              <th>Status</th>
+              <th>Cooldown Until</th>
+              <th>Consecutive Failures</th>
+              <th>Error Rate (window)</th>
+              <th>Last Status</th>
+              <th>Last Success</th>
+              <th>Last Failure</th>
+              <th>Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${statuses.map(status => html`
+              <tr>
+                <td>${status.model}</td>
+                <td class="${status.healthy ? 'healthy' : 'cooldown'}">${status.healthy ? 'Healthy' : 'Cooling down'}</td>
+                <td>${status.healthy ? '-' : status.health?.cooldown_until}</td>
+                <td>${status.health?.consecutive_failures ?? 0}</td>
+                <td>${status.errorRate === null
+                  ? '-'
+                  : `${Math.round(status.errorRate * 100)}% (${status.health?.window_failures}/${status.health?.window_requests})`}</td>
+                <td>${status.health?.last_status || '-'}</td>
+                <td>${status.health?.last_success_at || '-'}</td>
+                <td>${status.health?.last_failure_at || '-'}</td>
+                <td>
+                  ${status.health ? html`
+                    <form method="POST" action="/admin/models/${encodeURIComponent(status.model)}/reset">
+                      <button type="submit">Reset</button>
+                    </form>
+                  ` : ''}
+                </td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  `)
+})
+
+admin.post('/models/:model/reset', async (c) => {
+  const model = c.req.param('model');
+  const modelHealthRepository = new ModelHealthRepository(c.env);
+  await modelHealthRepository.delete(model);
+  return c.redirect(`/admin/models?reset=${encodeURIComponent(model)}`);
+})
+
+admin.get('/feedback', async (c) => {
+  const translationFeedbackRepository = new TranslationFeedbackRepository(c.env);
+  const feedback = await translationFeedbackRepository.findPoorlyRated(100);
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Translation Feedback</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; vertical-align: top; }
+          th { background-color: #f2f2f2; }
+          pre { background-color: #f9f9f9; border: 1px solid #ddd; padding: 10px; white-space: pre-wrap; max-width: 600px; }
+          .back { margin-bottom: 20px; display: inline-block; }
+          .bad { color: #d32f2f; font-weight: bold; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin" class="back">Back to Dashboard</a>
+        <h1>Translation Feedback</h1>
+        <p>Translations rated 👎 or with a suggested fix (newest first). Enable the rating buttons with TRANSLATION_FEEDBACK = "true".</p>
+        <table>
+          <thead>
+            <tr>
+              <th>Rated At</th>
+              <th>Rating</th>
+              <th>Language</th>
+              <th>Original</th>
+              <th>Translation</th>
+              <th>Suggested Fix</th>
+              <th>Template</th>
+              <th>Prompt</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${feedback.map(row => html`
+              <tr>
+                <td>${row.updated_at}</td>
+                <td class="bad">${row.rating === 'bad' ? '👎' : '✏️'}</td>
+                <td>${row.language || '-'}</td>
+                <td>${row.original_message || '-'}</td>
+                <td>${row.translation || '-'}</td>
+                <td>${row.suggestion || '-'}</td>
+                <td>${row.prompt_template
+                  ? row.prompt_template === BUILTIN_PROMPT_TEMPLATE_NAME
+                    ? `${row.prompt_template} v${row.prompt_template_version}`
+                    : row.prompt_template_version
+                      ? html`<a href="/admin/prompt-templates/${row.prompt_template}?version=${row.prompt_template_version}">${row.prompt_template} v${row.prompt_template_version}</a>`
+                      : `${row.prompt_template} (built-in)`
+                  : '-'}</td>
+                <td>${row.prompt
+                  ? html`<details><summary>Show</summary><pre>${row.prompt}</pre></details>`
+                  : '(cached)'}</td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  `)
+})
+
+admin.get('/prompt-templates', async (c) => {
+  const promptTemplateRepository = new PromptTemplateRepository(c.env);
+  const templates = await promptTemplateRepository.summarize();
+  const hasDefault = templates.some(template => template.name === DEFAULT_PROMPT_TEMPLATE_NAME);
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Prompt Templates</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+          th { background-color: #f2f2f2; }
+          .back { margin-bottom: 20px; display: inline-block; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin" class="back">Back to Dashboard</a>
+        <h1>Prompt Templates</h1>
+        <p><a href="/admin/prompt-templates/new">New Template</a></p>
+        ${hasDefault ? '' : html`<p>No "${DEFAULT_PROMPT_TEMPLATE_NAME}" template is stored, so rooms without a selected template use the built-in template (version ${BUILTIN_PROMPT_TEMPLATE_VERSION}).</p>`}
+        <table>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Latest Version</th>
+              <th>Versions</th>
+              <th>Updated At</th>
+              <th>Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${templates.map(template => html`
+              <tr>
+                <td>${template.name}</td>
+                <td>v${template.version}</td>
+                <td>${template.versions}</td>
+                <td>${template.updated_at}</td>
+                <td><a href="/admin/prompt-templates/${template.name}">Edit</a></td>
+              </tr>
+            `)}
+          </tbody>
+        </table>
+      </body>
+    </html>
+  `)
+})
+
+admin.get('/prompt-templates/new', (c) => {
+  return c.html(renderPromptTemplateForm('New Prompt Template', { name: '', note: '', body: BUILTIN_PROMPT_TEMPLATE }))
+})
+
+admin.get('/prompt-templates/:name', async (c) => {
+  const name = c.req.param('name');
+  const promptTemplateRepository = new PromptTemplateRepository(c.env);
+  const versions = await promptTemplateRepository.findVersions(name);
+  if (versions.length === 0) {
+    return c.text('Template not found', 404);
+  }
+
+  const requested = Number(c.req.query('version'));
+  const selected = versions.find(version => version.version === requested) || versions[0];
+  return c.html(renderPromptTemplateForm(
+    `Edit Prompt Template: ${name}`,
+    { name, note: '', body: selected.body },
+    { versions }
+  ))
+})
+
+admin.post('/prompt-templates', async (c) => {
+  const body = await c.req.parseBody();
+  const values = readPromptTemplateForm(body);
+  const promptTemplateRepository = new PromptTemplateRepository(c.env);
+  const versions = values.name ? await promptTemplateRepository.findVersions(values.name) : [];
+  const title = versions.length > 0 ? `Edit Prompt Template: ${values.name}` : 'New Prompt Template';
+  const options = { versions: versions.length > 0 ? versions : undefined };
+
+  const error = validatePromptTemplateForm(values);
+  if (error) {
+    return c.html(renderPromptTemplateForm(title, values, { ...options, error }), 400);
+  }
+  if (body['action'] === 'preview') {
+    return c.html(renderPromptTemplateForm(title, values, {
+      ...options,
+      preview: renderPromptTemplate(values.body, SAMPLE_PROMPT_VARIABLES),
+    }));
+  }
+
+  await promptTemplateRepository.createVersion({
+    name: values.name,
+    body: values.body,
+    note: values.note || null,
+    created_at: new Date().toISOString(),
+  });
+  return c.redirect(`/admin/prompt-templates/${values.name}`);
+})
+
+admin.get('/failed-events', async (c) => {
+  const statusParam = c.req.query('status') as FailedEvent['status'] | undefined;
+  const status = statusParam && failedEventStatuses.includes(statusParam) ? statusParam : 'pending';
+  const replayed = c.req.query('replayed');
+  const failed = c.req.query('failed');
+  const discarded = c.req.query('discarded');
+
+  const failedEventRepository = new FailedEventRepository(c.env);
+  const failedEvents = await failedEventRepository.findByStatus(status, 100);
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Failed Events</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          table { width: 100%; border-collapse: collapse; }
+          th, td { border: 1px solid #ddd; padding: 8px; text-align: left; vertical-align: top; }
+          th { background-color: #f2f2f2; }
+          .back { margin-bottom: 20px; display: inline-block; }
+          .filters a { margin-right: 10px; }
+          .filters a.active { font-weight: bold; }
+          .notice { background-color: #f9f9f9; border-left: 5px solid #06c755; padding: 10px; margin-bottom: 20px; }
+          .actions { margin: 15px 0; }
+          .actions button { padding: 8px 16px; margin-right: 10px; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin" class="back">Back to Dashboard</a>
+        <h1>Failed Events</h1>
+        <div class="filters">
+          ${failedEventStatuses.map(s => html`<a href="/admin/failed-events?status=${s}" class="${s === status ? 'active' : ''}">${s}</a>`)}
+        </div>
+        ${replayed !== undefined || discarded !== undefined ? html`
+          <p class="notice">
+            ${replayed !== undefined ? html`Replayed: ${replayed}, Failed: ${failed || 0}` : ''}
+            ${discarded !== undefined ? html`Discarded: ${discarded}` : ''}
+          </p>
+        ` : ''}
+        <form method="POST">
+          ${status === 'pending' ? html`
+            <div class="actions">
+              <button type="submit" formaction="/admin/failed-events/replay">Replay selected</button>
+              <button type="submit" formaction="/admin/failed-events/discard">Discard selected</button>
+            </div>
+          ` : ''}
+          <table>
+            <thead>
+              <tr>
+                <th></th>
+                <th>ID</th>
+                <th>Created At</th>
+                <th>Type</th>
+                <th>Event ID</th>
+                <th>Attempts</th>
+                <th>Error</th>
+                <th>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${failedEvents.map(event => html`
+                <tr>
+                  <td>${status === 'pending' ? html`<input type="checkbox" name="ids" value="${event.id}" />` : ''}</td>
+                  <td>${event.id}</td>
+                  <td>${event.created_at}</td>
+                  <td>${event.event_type || '-'}</td>
+                  <td>${event.event_id || '-'}</td>
+                  <td>${event.attempts}</td>
+                  <td>${event.error_message || '-'}</td>
+                  <td><a href="/admin/failed-events/${event.id}">View</a></td>
+                </tr>
+              `)}
+            </tbody>
+          </table>
+        </form>
+      </body>
+    </html>
+  `)
+})
+
+admin.get('/failed-events/:id', async (c) => {
+  const id = Number(c.req.param('id'));
+  const failedEventRepository = new FailedEventRepository(c.env);
+  const failedEvent = Number.isInteger(id) ? await failedEventRepository.findById(id) : null;
+
+  if (!failedEvent) {
+    return c.text('Failed event not found', 404);
+  }
+
+  let eventJson = failedEvent.event_json;
+  try {
+    eventJson = JSON.stringify(JSON.parse(failedEvent.event_json), null, 2);
+  } catch (e) {
+    // 不正なJSONの場合はそのまま表示する
+  }
+
+  return c.html(html`
+    <!DOCTYPE html>
+    <html>
+      <head>
+        <title>Failed Event ${failedEvent.id}</title>
+        <style>
+          body { font-family: sans-serif; padding: 20px; }
+          pre { background-color: #f9f9f9; border: 1px solid #ddd; padding: 10px; overflow-x: auto; }
+          dt { font-weight: bold; margin-top: 10px; }
+          .back { margin-bottom: 20px; display: inline-block; }
+          form { display: inline-block; margin-right: 10px; }
+          button { padding: 8px 16px; }
+        </style>
+      </head>
+      <body>
+        <a href="/admin/failed-events" class="back">Back to Failed Events</a>
+        <h1>Failed Event ${failedEvent.id}</h1>
+        <dl>
+          <dt>Status</dt><dd>${failedEvent.status}</dd>
+          <dt>Type</dt><dd>${failedEvent.event_type || '-'}</dd>
+          <dt>Event ID</dt><dd>${failedEvent.event_id || '-'}</dd>
+          <dt>Attempts</dt><dd>${failedEvent.attempts}</dd>
+          <dt>Created At</dt><dd>${failedEvent.created_at}</dd>
+          <dt>Updated At</dt><dd>${failedEvent.updated_at}</dd>
+          <dt>Error</dt><dd>${failedEvent.error_message || '-'}</dd>
+        </dl>
+        ${failedEvent.status === 'pending' ? html`
+          <form method="POST" action="/admin/failed-events/replay">
+            <input type="hidden" name="ids" value="${failedEvent.id}" />
+            <button type="submit">Replay</button>
+          </form>
+          <form method="POST" action="/admin/failed-events/discard">
+            <input type="hidden" name="ids" value="${failedEvent.id}" />
+            <button type="submit">Discard</button>
+          </form>
+        ` : ''}
+        <h2>Stack Trace</h2>
+        <pre>${failedEvent.stack || '-'}</pre>
+        <h2>Event JSON</h2>
+        <pre>${eventJson}</pre>
+      </body>
+    </html>
+  `)
+})
+
+admin.post('/failed-events/replay', async (c) => {
+  const body = await c.req.parseBody({ all: true });
+  const ids = parseFailedEventIds(body['ids']);
+  const webhookHandler = new LineWebhookHandler();
+
+  let replayed = 0;
+  let failed = 0;
+  // イベントの順序を保つため、古いもの (IDの小さいもの) から1件ずつ再実行する
+  for (const id of [...ids].sort((x, y) => x - y)) {
+    try {
+      if (await webhookHandler.replayFailedEvent(id, c.env)) {
+        replayed++;
+      } else {
+        failed++;
+      }
+    } catch (e) {
+      console.error(`Replay of failed event ${id} could not be started:`, e);
+      failed++;
+    }
+  }
+
+  return c.redirect(`/admin/failed-events?replayed=${replayed}&failed=${failed}`);
+})
+
+admin.post('/failed-events/discard', async (c) => {
+  const body = await c.req.parseBody({ all: true });
+  const ids = parseFailedEventIds(body['ids']);
+  const failedEventRepository = new FailedEventRepository(c.env);
+
+  const now = new Date().toISOString();
+  for (const id of ids) {
+    await failedEventRepository.updateStatus(id, 'discarded', now);
+  }
+
+  return c.redirect(`/admin/failed-events?discarded=${ids.length}`);
+})
+
 export { admin }
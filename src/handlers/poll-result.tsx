@@ -5,7 +5,8 @@
  */
 
 import { Context } from 'hono';
-import { PostRepository, AnswerRepository, Env } from '../db';
+import { PostRepository, AnswerRepository, PlaceRepository, Env } from '../db';
+import { createMapUrl } from '../utils/places';
 import { Post, Answer } from '../types/db';
 import { html } from 'hono/html';
 
@@ -55,7 +56,35 @@ export class PollResultHandler {
       `, 404);
     }
 
+    // 送信が取り消されたアンケートは、質問と回答を表示しない
+    if (post.retracted_at) {
+      return c.html(html`
+        <!DOCTYPE html>
+        <html>
+          <head>
+            <title>Poll Withdrawn</title>
+            <meta charset="utf-8">
+            <meta name="viewport" content="width=device-width, initial-scale=1">
+            <style>
+              body { font-family: sans-serif; padding: 20px; color: #333; display: flex; align-items: center; justify-content: center; height: 100vh; margin: 0; background-color: #f2f2f2; }
+              .container { text-align: center; background: white; padding: 40px; border-radius: 8px; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+              h1 { margin-bottom: 20px; }
+            </style>
+          </head>
+          <body>
+            <div class="container">
+              <h1>アンケートは取り消されました</h1>
+              <p>このアンケートは送信者によって取り消されたため、結果は表示されません。</p>
+              <p>This poll was withdrawn by the sender.</p>
+            </div>
+          </body>
+        </html>
+      `, 410);
+    }
+
     const answers = await answerRepository.getAnswersWithUserNames(postId);
+    // アンケートで参照した場所 (発表会の会場など)
+    const place = post.place_id ? await new PlaceRepository(c.env).findById(post.place_id) : null;
 
     // 回答の集計は不要になった（GASではリスト表示のみだったため）。
     // 必要なら追加するが、GASのHTMLには集計テーブルはない。
@@ -79,6 +108,7 @@ export class PollResultHandler {
             .footer { margin-top: 30px; font-size: 0.8em; color: #666; text-align: center; }
             .poll-content { background-color: #f9f9f9; padding: 15px; border-radius: 5px; margin-bottom: 20px; border-left: 5px solid #06c755; }
             .poll-content p { white-space: pre-wrap; margin-bottom: 0; }
+            .place { margin-bottom: 20px; }
           </style>
         </head>
         <body>
@@ -94,6 +124,13 @@ export class PollResultHandler {
               </div>
             ` : ''}
 
+            ${place ? html`
+              <p class="place">
+                📍 <a href="${createMapUrl(place.latitude, place.longitude)}">${place.title || place.name}</a>
+                ${place.address ? html`<br><span style="color: #666; font-size: 0.9em;">${place.address}</span>` : ''}
+              </p>
+            ` : ''}
+
             ${answers.length > 0 ? html`
               <table>
                 <thead>
@@ -133,7 +170,8 @@ export class PollResultHandler {
               <p>対象投稿ID: ${postId}</p>
               <p style="margin-top: 20px; font-size: 0.9em; line-height: 1.6;">
                 <strong>[Check]</strong> でアンケートを作成<br>
-                <strong>私の名前は"〇〇"</strong> で名前を設定
+                <strong>私の名前は"〇〇"</strong> で名前を設定<br>
+                <strong>[place:〇〇]</strong> で登録した場所を添付
               </p>
             </div>
           </div>
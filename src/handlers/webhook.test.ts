@@ -6,7 +6,7 @@ import { Context } from 'hono';
 const mockLineClient = {
   validateSignature: vi.fn(),
   startLoadingAnimation: vi.fn(),
-  replyMessage: vi.fn(),
+  replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
 };
 
 // Mock the LineClient class constructor
@@ -31,11 +31,19 @@ vi.mock('../db', () => ({
   PostRepository: vi.fn().mockImplementation(function() {
     return {
       create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
     };
   }),
   AnswerRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
-  LogRepository: vi.fn().mockImplementation(function() { return {}; }),
+  LogRepository: vi.fn().mockImplementation(function() { return { createDeliveryLog: vi.fn() }; }),
   AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+  ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+  FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+  PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+  GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
 }));
 
 vi.mock('../services/translator', () => ({
@@ -14,17 +14,58 @@ import {
   PostRepository,
   LogRepository,
   AnswerRepository,
+  ProcessedEventRepository,
+  FailedEventRepository,
+  TranslationFeedbackRepository,
+  TranslationExampleRepository,
+  TranslationCacheRepository,
+  PlaceRepository,
 } from '../db';
 import {
   WebhookEvent,
   MessageEvent,
   TextMessage,
+  ImageMessage,
+  VideoMessage,
+  AudioMessage,
+  FileMessage,
+  LocationMessage,
   PostbackEvent,
+  UnsendEvent,
   GroupSource,
   RoomSource,
+  SendingMessage,
 } from '../types/line';
 import { TranslationService } from '../services/translator';
+import { ImageTextExtractor } from '../services/imageText';
+import { VoiceTranscriber } from '../services/voiceTranscription';
+import { ContentStorage, createContentStorage, createContentKey } from '../services/contentStorage';
+import { EventLedger, EventProgress } from '../services/eventLedger';
+import { MessageDeliveryService, DeliveryTarget } from '../services/delivery';
 import { createPollFlexMessage } from '../utils/flexMessages';
+import { createFeedbackQuickReply, isFeedbackRating, FEEDBACK_POSTBACK_ACTION } from '../utils/quickReplies';
+import { formatQuotedReply } from '../utils/quotedReply';
+import { createMentionMessage } from '../utils/mentions';
+import { createContentMetadata, parseContentMetadata } from '../utils/messageContent';
+import { createMapUrl, createLocationMessage, parsePlaceReference } from '../utils/places';
+import { Place } from '../types/db';
+import {
+  POLL_COMMAND_PATTERN,
+  NAME_REGISTRATION_PATTERN,
+  FEEDBACK_SUGGESTION_PATTERN,
+  RETRANSLATE_COMMAND_PATTERN,
+  PLACE_REGISTRATION_PATTERN,
+} from '../utils/commands';
+
+// キューでの最大試行回数 (wrangler.toml の max_retries = 3 に初回の1回を加えた値)
+// 最後の試行でも失敗したイベントは failed_events に保存し、管理画面から再実行できるようにする
+const MAX_QUEUE_ATTEMPTS = 4;
+
+// 「修正を提案」を選んでから修正案のメッセージを受け付ける時間 (ミリ秒)
+const FEEDBACK_SUGGESTION_WINDOW_MS = 30 * 60 * 1000;
+
+// 送信が取り消されたメッセージの翻訳を、取り消されたことを知らせる対象とする時間 (翻訳の返信からのミリ秒)
+const UNSEND_NOTICE_WINDOW_MS = 60 * 60 * 1000;
 
 type ServiceCollection = {
   lineClient: LineClient;
@@ -34,6 +75,17 @@ type ServiceCollection = {
   logRepository: LogRepository;
   answerRepository: AnswerRepository;
   translationService: TranslationService;
+  imageTextExtractor: ImageTextExtractor;
+  voiceTranscriber: VoiceTranscriber;
+  contentStorage: ContentStorage | null;
+  messageDelivery: MessageDeliveryService;
+  eventLedger: EventLedger;
+  processedEventRepository: ProcessedEventRepository;
+  failedEventRepository: FailedEventRepository;
+  translationFeedbackRepository: TranslationFeedbackRepository;
+  translationExampleRepository: TranslationExampleRepository;
+  translationCacheRepository: TranslationCacheRepository;
+  placeRepository: PlaceRepository;
   env: Env;
 };
 
@@ -106,16 +158,7 @@ export class LineWebhookHandler {
    * @param {Env} env 環境変数
    */
   async handleQueue(batch: MessageBatch<WebhookEvent>, env: Env): Promise<void> {
-    const services: ServiceCollection = {
-      lineClient: new LineClient(env),
-      userRepository: new UserRepository(env),
-      roomRepository: new RoomRepository(env),
-      postRepository: new PostRepository(env),
-      logRepository: new LogRepository(env),
-      answerRepository: new AnswerRepository(env),
-      translationService: new TranslationService(env),
-      env: env,
-    };
+    const services = this.createServices(env);
 
     for (const message of batch.messages) {
       const event = message.body;
@@ -124,36 +167,156 @@ export class LineWebhookHandler {
         message.ack(); // 処理成功時に明示的にack（必須ではないが推奨）
       } catch (e) {
         console.error('Error processing queued event:', e);
-        message.retry(); // エラー時はリトライ
+        if (message.attempts >= MAX_QUEUE_ATTEMPTS) {
+          // リトライ上限に達したイベントはデッドレターとして保存し、キューからは削除する
+          try {
+            await this.storeFailedEvent(event, e, message.attempts, services);
+            message.ack();
+          } catch (storeError) {
+            console.error('Failed to store failed event:', storeError);
+            message.retry();
+          }
+        } else {
+          message.retry(); // エラー時はリトライ
+        }
       }
     }
   }
 
+  /**
+   * @method replayFailedEvent
+   * @description 保存された失敗イベントを再実行します。
+   *              成功した場合は 'replayed' に、失敗した場合はエラー内容を更新して 'pending' のまま残します。
+   * @param {number} failedEventId 失敗イベントID
+   * @param {Env} env 環境変数
+   * @returns {Promise<boolean>} 再実行に成功した場合はtrue
+   * @throws {Error} 指定されたIDの失敗イベントが存在しない場合
+   */
+  async replayFailedEvent(failedEventId: number, env: Env): Promise<boolean> {
+    const services = this.createServices(env);
+    const { failedEventRepository } = services;
+
+    const failedEvent = await failedEventRepository.findById(failedEventId);
+    if (!failedEvent) {
+      throw new Error(`Failed event not found: ${failedEventId}`);
+    }
+
+    try {
+      await this.processEvent(JSON.parse(failedEvent.event_json) as WebhookEvent, services);
+      await failedEventRepository.updateStatus(failedEventId, 'replayed', new Date().toISOString());
+      console.log(`Failed event ${failedEventId} replayed successfully.`);
+      return true;
+    } catch (e) {
+      console.error(`Replay of failed event ${failedEventId} failed:`, e);
+      await failedEventRepository.recordReplayFailure(
+        failedEventId,
+        e instanceof Error ? e.message : String(e),
+        e instanceof Error ? e.stack ?? null : null,
+        new Date().toISOString()
+      );
+      return false;
+    }
+  }
+
+  /**
+   * @method createServices
+   * @description イベント処理に必要なサービスとリポジトリのインスタンスを生成します。
+   * @param {Env} env 環境変数
+   * @returns {ServiceCollection} サービスとリポジトリのインスタンス
+   */
+  private createServices(env: Env): ServiceCollection {
+    return {
+      lineClient: new LineClient(env),
+      userRepository: new UserRepository(env),
+      roomRepository: new RoomRepository(env),
+      postRepository: new PostRepository(env),
+      logRepository: new LogRepository(env),
+      answerRepository: new AnswerRepository(env),
+      translationService: new TranslationService(env),
+      imageTextExtractor: new ImageTextExtractor(env),
+      voiceTranscriber: new VoiceTranscriber(env),
+      contentStorage: createContentStorage(env),
+      messageDelivery: new MessageDeliveryService(env),
+      eventLedger: new EventLedger(env),
+      processedEventRepository: new ProcessedEventRepository(env),
+      failedEventRepository: new FailedEventRepository(env),
+      translationFeedbackRepository: new TranslationFeedbackRepository(env),
+      translationExampleRepository: new TranslationExampleRepository(env),
+      translationCacheRepository: new TranslationCacheRepository(env),
+      placeRepository: new PlaceRepository(env),
+      env: env,
+    };
+  }
+
+  /**
+   * @method storeFailedEvent
+   * @description リトライ上限に達したイベントを、元のJSONとエラー内容とともに保存します。
+   * @param {WebhookEvent} event 処理に失敗したWebhookイベント
+   * @param {unknown} error 発生したエラー
+   * @param {number} attempts キューでの試行回数
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   */
+  private async storeFailedEvent(
+    event: WebhookEvent,
+    error: unknown,
+    attempts: number,
+    services: ServiceCollection
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    await services.failedEventRepository.create({
+      event_id: event.webhookEventId ?? null,
+      event_type: event.type,
+      event_json: JSON.stringify(event),
+      error_message: error instanceof Error ? error.message : String(error),
+      stack: error instanceof Error ? error.stack ?? null : null,
+      attempts: attempts,
+      status: 'pending',
+      created_at: now,
+      updated_at: now,
+    });
+    console.warn(`Event ${event.webhookEventId ?? '(no id)'} moved to failed_events after ${attempts} attempts.`);
+  }
+
   /**
    * @method processEvent
    * @description 個々のWebhookイベントを処理します。
+   *              処理台帳を参照し、処理済みのイベントはスキップ、途中で失敗したイベントは完了済みのステップを飛ばして再開します。
    * @param {WebhookEvent} event 処理するWebhookイベント
    * @param {ServiceCollection} services サービスとリポジトリのインスタンス
    */
   private async processEvent(event: WebhookEvent, services: ServiceCollection): Promise<void> {
     console.log(`Processing event type: ${event.type}`);
 
-    switch (event.type) {
-      case 'message':
-        await this.handleMessageEvent(event as MessageEvent, services);
-        break;
-      case 'follow':
-        console.log('Follow event received:', event);
-        break;
-      case 'join':
-        console.log('Join event received:', event);
-        break;
-      case 'postback':
-        await this.handlePostbackEvent(event as PostbackEvent, services);
-        break;
-      default:
-        console.log(`Unhandled event type: ${event.type}`);
-        break;
+    const progress = await services.eventLedger.begin(event);
+    if (!progress) {
+      return;
+    }
+
+    try {
+      switch (event.type) {
+        case 'message':
+          await this.handleMessageEvent(event as MessageEvent, services, progress);
+          break;
+        case 'follow':
+          console.log('Follow event received:', event);
+          break;
+        case 'join':
+          console.log('Join event received:', event);
+          break;
+        case 'postback':
+          await this.handlePostbackEvent(event as PostbackEvent, services);
+          break;
+        case 'unsend':
+          await this.handleUnsendEvent(event as UnsendEvent, services, progress);
+          break;
+        default:
+          console.log(`Unhandled event type: ${event.type}`);
+          break;
+      }
+      await progress.complete();
+    } catch (e) {
+      await progress.fail(e);
+      throw e;
     }
   }
 
@@ -178,9 +341,10 @@ export class LineWebhookHandler {
    * @description メッセージイベントを処理します。
    * @param {MessageEvent} event 処理するメッセージイベント
    * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   * @param {EventProgress} progress イベントの処理進捗
    */
-  private async handleMessageEvent(event: MessageEvent, services: ServiceCollection): Promise<void> {
-    const { lineClient, userRepository, roomRepository, postRepository, translationService } = services;
+  private async handleMessageEvent(event: MessageEvent, services: ServiceCollection, progress: EventProgress): Promise<void> {
+    const { userRepository, roomRepository, postRepository, translationService, messageDelivery } = services;
     const sourceId = this.getSourceId(event.source);
     const userId = event.source.userId;
 
@@ -189,6 +353,12 @@ export class LineWebhookHandler {
       return;
     }
 
+    // 送信取り消しが先に処理されたメッセージは保存も翻訳もしない
+    if (await postRepository.isRetracted(event.message.id)) {
+      console.log(`Message ${event.message.id} was unsent before it was processed. Skipping.`);
+      return;
+    }
+
     // ユーザーとルーム/グループ情報をupsert
     await userRepository.createIfNotExists({ user_id: userId, display_name: "" });
 
@@ -198,24 +368,64 @@ export class LineWebhookHandler {
 
     if (event.message.type === 'text') {
       const message = event.message as TextMessage;
-      const checkRegex = /\[check\]/i;
-      const hasPoll = checkRegex.test(message.text);
+      const hasPoll = POLL_COMMAND_PATTERN.test(message.text);
       // ユーザー名更新コマンドの判定
-      const nameMatch = message.text.match(/私(?:の名前|)は"(.+?)"/);
+      const nameMatch = message.text.match(NAME_REGISTRATION_PATTERN);
+      // 返信先。返信トークンが期限切れの場合はグループ/ルーム、個人チャットの場合はユーザーにPush送信する
+      const deliveryTarget: DeliveryTarget = {
+        replyToken: event.replyToken,
+        to: sourceId ?? userId,
+        postId: message.id,
+      };
 
       // 投稿をDBに保存
-      await postRepository.create({
-        post_id: message.id,
-        timestamp: new Date(event.timestamp).toISOString(),
-        user_id: userId,
-        room_id: sourceId,
-        message_text: message.text,
-        has_poll: hasPoll ? 1 : 0,
-        translated_text: null,
+      await progress.step('createPost', async () => {
+        await postRepository.create({
+          post_id: message.id,
+          timestamp: new Date(event.timestamp).toISOString(),
+          user_id: userId,
+          room_id: sourceId,
+          message_text: message.text,
+          has_poll: hasPoll ? 1 : 0,
+          translated_text: null,
+          quoted_post_id: message.quotedMessageId ?? null,
+        });
       });
 
       console.log(`Text message from ${userId} in ${sourceId || 'private chat'}: ${message.text}`);
 
+      // 「修正を提案」を選んだ後のメッセージは、翻訳せずに修正案として記録する
+      const suggestionMatch = message.text.match(FEEDBACK_SUGGESTION_PATTERN);
+      if (suggestionMatch) {
+        const recorded = await progress.step('recordSuggestion', () =>
+          this.recordFeedbackSuggestion(userId, suggestionMatch[1].trim(), event.timestamp, services)
+        );
+        if (recorded) {
+          await progress.step('reply', async () => {
+            await messageDelivery.deliver(deliveryTarget, [
+              {
+                type: 'text',
+                text: '修正案を記録しました。ありがとうございます！',
+              },
+            ]);
+          });
+          return;
+        }
+      }
+
+      // 引用したメッセージの再翻訳
+      if (RETRANSLATE_COMMAND_PATTERN.test(message.text)) {
+        await this.handleRetranslateCommand(message, userId, deliveryTarget, services, progress);
+        return;
+      }
+
+      // 引用した位置情報の、名前を付けた場所としての登録
+      const placeRegistrationMatch = message.text.match(PLACE_REGISTRATION_PATTERN);
+      if (placeRegistrationMatch) {
+        await this.handlePlaceRegistration(message, placeRegistrationMatch[1], userId, sourceId, deliveryTarget, services, progress);
+        return;
+      }
+
       if (nameMatch) {
         const newName = nameMatch[1];
         // ユーザー名を更新
@@ -224,14 +434,16 @@ export class LineWebhookHandler {
         const confirmationMessage = `名前を「${newName}」に更新しました。`;
 
         // ユーザーの入力を翻訳
-        const translatedUserMessage = await translationService.translateMessage(
-          message.id,
-          userId,
-          sourceId,
-          message.text
+        const translatedUserMessage = await progress.step('translate', () =>
+          translationService.translateMessage(
+            message.id,
+            userId,
+            sourceId,
+            message.text
+          )
         );
 
-        const messagesToSend = [];
+        const messagesToSend: SendingMessage[] = [];
         if (translatedUserMessage) {
           messagesToSend.push({
             type: 'text',
@@ -243,36 +455,49 @@ export class LineWebhookHandler {
           text: confirmationMessage,
         });
 
-        if (event.replyToken) {
-          await lineClient.replyMessage(event.replyToken, messagesToSend);
-        }
+        await progress.step('reply', async () => {
+          await messageDelivery.deliver(deliveryTarget, messagesToSend);
+        });
         return;
       }
 
       // LoadingアニメーションはProducer側で実行済みのため、ここでは削除
 
+      // 登録した場所の参照 (例: "[place:発表会会場]") は翻訳せずに取り除き、場所は位置情報メッセージとして返信に付ける
+      const placeReference = parsePlaceReference(message.text, message.mention?.mentionees);
+      const place = placeReference
+        ? await this.attachPlace(message.id, placeReference.name, sourceId, userId, services, progress)
+        : null;
+      const sourceText = placeReference ? placeReference.text : message.text;
+      const mentionees = placeReference ? placeReference.mentionees : message.mention?.mentionees;
+
       if (hasPoll) {
-        const pollContent = message.text.replace(checkRegex, '').trim();
+        const pollContent = sourceText.replace(POLL_COMMAND_PATTERN, '').trim();
         let translatedPoll = '';
 
         // アンケート内容の翻訳（内容がある場合のみ）
         if (pollContent) {
           try {
-            translatedPoll = await translationService.translateMessage(
-              message.id,
-              userId,
-              sourceId,
-              pollContent
-            );
-            // 翻訳結果をDBに更新
-            await postRepository.updateTranslatedText(message.id, translatedPoll);
+            translatedPoll = (await progress.step('translate', async () => {
+              const translated = await translationService.translateMessage(
+                message.id,
+                userId,
+                sourceId,
+                pollContent
+              );
+              // 翻訳結果をDBに更新 (翻訳しなかった場合や失敗した場合は更新しない)
+              if (translated) {
+                await postRepository.updateTranslatedText(message.id, translated);
+              }
+              return translated;
+            })) || '';
           } catch (e) {
             console.error('Poll translation failed:', e);
           }
         }
 
         const flexMessage = createPollFlexMessage(message.id, services.env.BASE_URL);
-        const messagesToSend = [];
+        const messagesToSend: SendingMessage[] = [];
 
         if (translatedPoll) {
           messagesToSend.push({
@@ -280,33 +505,502 @@ export class LineWebhookHandler {
             text: translatedPoll,
           });
         }
+        if (place) {
+          messagesToSend.push(createLocationMessage(place));
+        }
         messagesToSend.push(flexMessage);
 
-        if (event.replyToken) {
-          await lineClient.replyMessage(event.replyToken, messagesToSend);
-        }
+        await progress.step('reply', async () => {
+          await messageDelivery.deliver(deliveryTarget, messagesToSend);
+        });
       } else {
-        // 通常の翻訳サービスを呼び出す
-        const translatedText = await translationService.translateMessage(
-          message.id,
-          userId,
-          sourceId,
-          message.text
-        );
+        // 通常の翻訳サービスを呼び出す (引用返信の場合は、引用されたメッセージを返信先としてプロンプトに含める)
+        // メンションされた名前は翻訳せずに残し、返信で同じ相手をメンションする
+        // 場所の参照のみのメッセージは翻訳しない
+        const translatedText = sourceText
+          ? await progress.step('translate', () =>
+            translationService.translateMessage(
+              message.id,
+              userId,
+              sourceId,
+              sourceText,
+              { quotedPostId: message.quotedMessageId, mentionees }
+            )
+          )
+          : null;
 
-        // 翻訳結果があれば返信する
-        if (translatedText && event.replyToken) {
-          await lineClient.replyMessage(event.replyToken, [
-            {
-              type: 'text',
-              text: translatedText,
-            },
-          ]);
+        // 翻訳結果があれば返信する (TRANSLATION_FEEDBACK が有効な場合は評価のクイックリプライを付ける)
+        if (translatedText || place) {
+          await progress.step('reply', async () => {
+            const messagesToSend: SendingMessage[] = [];
+            if (translatedText) {
+              const quotedPost = message.quotedMessageId
+                ? await postRepository.findWithSpeakerById(message.quotedMessageId)
+                : null;
+              messagesToSend.push(
+                this.createTranslationReply(formatQuotedReply(translatedText, quotedPost), message.id, services.env, message)
+              );
+            }
+            if (place) {
+              messagesToSend.push(createLocationMessage(place));
+            }
+            await messageDelivery.deliver(deliveryTarget, messagesToSend);
+          });
         }
       }
+    } else if (event.message.type === 'image' || event.message.type === 'audio') {
+      await this.handleMediaMessage(event, event.message as ImageMessage | AudioMessage, userId, sourceId, services, progress);
+    } else if (event.message.type === 'location') {
+      await this.handleLocationMessage(event, event.message as LocationMessage, userId, sourceId, services, progress);
     } else {
-      console.log(`Received a non-text message type: ${event.message.type}`);
+      await this.recordContentMessage(event, userId, sourceId, services, progress);
+    }
+  }
+
+  /**
+   * @method recordContentMessage
+   * @description 翻訳する本文がないメッセージ (スタンプ・動画・ファイル・位置情報) を、種類とコンテンツの情報とともに記録します。
+   *              ルームの会話の記録と翻訳の文脈に含めるためのもので、返信はしません (位置情報の翻訳は handleLocationMessage で返信します)。
+   * @param {MessageEvent} event メッセージイベント
+   * @param {string} userId 投稿者のユーザーID
+   * @param {string | null} sourceId グループ/ルームID (個人チャットの場合はnull)
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   * @param {EventProgress} progress イベントの処理進捗
+   */
+  private async recordContentMessage(
+    event: MessageEvent,
+    userId: string,
+    sourceId: string | null,
+    services: ServiceCollection,
+    progress: EventProgress
+  ): Promise<void> {
+    const { message } = event;
+    const contentKey = message.type === 'video' || message.type === 'file'
+      ? await this.storeContent(message, services, progress)
+      : null;
+    const metadata = createContentMetadata(message);
+
+    await progress.step('createPost', async () => {
+      await services.postRepository.create({
+        post_id: message.id,
+        timestamp: new Date(event.timestamp).toISOString(),
+        user_id: userId,
+        room_id: sourceId,
+        message_text: null,
+        has_poll: 0,
+        translated_text: null,
+        content_type: message.type,
+        content_metadata: metadata ? JSON.stringify(metadata) : null,
+        content_key: contentKey,
+      });
+    });
+
+    console.log(`${message.type} message from ${userId} in ${sourceId || 'private chat'} was recorded.`);
+  }
+
+  /**
+   * @method handleLocationMessage
+   * @description 位置情報メッセージを記録し、場所の名前と住所を翻訳して地図のリンクと一緒に返信します。
+   *              先生が共有した発表会の会場などを、保護者が自分の言語で確認できるようにするためのものです。
+   *              名前も住所もない位置情報 (地図上の地点のみ) や、翻訳が不要な場合は返信しません。
+   * @param {MessageEvent} event 位置情報メッセージのイベント
+   * @param {LocationMessage} message 位置情報メッセージ
+   * @param {string} userId 投稿者のユーザーID
+   * @param {string | null} sourceId グループ/ルームID (個人チャットの場合はnull)
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   * @param {EventProgress} progress イベントの処理進捗
+   */
+  private async handleLocationMessage(
+    event: MessageEvent,
+    message: LocationMessage,
+    userId: string,
+    sourceId: string | null,
+    services: ServiceCollection,
+    progress: EventProgress
+  ): Promise<void> {
+    const { translationService, messageDelivery } = services;
+    await this.recordContentMessage(event, userId, sourceId, services, progress);
+
+    // 名前と住所を1行ずつ並べて翻訳する (翻訳結果は投稿の翻訳として保存され、文脈にも含まれる)
+    const locationText = [message.title, message.address].filter(Boolean).join('\n');
+    if (!locationText) {
+      return;
+    }
+    const translatedText = await progress.step('translate', () =>
+      translationService.translateMessage(message.id, userId, sourceId, locationText)
+    );
+
+    if (translatedText) {
+      const deliveryTarget: DeliveryTarget = {
+        replyToken: event.replyToken,
+        to: sourceId ?? userId,
+        postId: message.id,
+      };
+      const replyText = `📍 ${translatedText}\n${createMapUrl(message.latitude, message.longitude)}`;
+      await progress.step('reply', async () => {
+        await messageDelivery.deliver(deliveryTarget, [
+          this.createTranslationReply(replyText, message.id, services.env),
+        ]);
+      });
+    }
+  }
+
+  /**
+   * @method storeContent
+   * @description メッセージのコンテンツをLINEから取得し、CONTENT_BUCKET に保存します。
+   *              保存に失敗しても投稿の記録や翻訳は続けるため、エラーはログに残してnullを返します。
+   * @param {ImageMessage | VideoMessage | AudioMessage | FileMessage} message コンテンツを含むメッセージ
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   * @param {EventProgress} progress イベントの処理進捗
+   * @returns {Promise<string | null>} 保存先のキー、または保存しなかった場合はnull
+   */
+  private async storeContent(
+    message: ImageMessage | VideoMessage | AudioMessage | FileMessage,
+    services: ServiceCollection,
+    progress: EventProgress
+  ): Promise<string | null> {
+    const { contentStorage, lineClient } = services;
+    if (!contentStorage) {
+      return null;
+    }
+    return progress.step('storeContent', async () => {
+      try {
+        const key = createContentKey(message.id);
+        await contentStorage.put(key, await lineClient.getContent(message));
+        return key;
+      } catch (e) {
+        console.error(`Failed to store the content of post ${message.id}:`, e);
+        return null;
+      }
+    });
+  }
+
+  /**
+   * @method handleMediaMessage
+   * @description 画像に写っている文章 (発表会のスケジュールなどのお知らせ) や音声メッセージの発言を読み取り、通常の投稿と同じように翻訳して返信します。
+   *              読み取りに失敗し続けても会話の記録に抜けがないよう、先に本文のない投稿として保存し、読み取った文章を後から本文に設定します。
+   *              文章が写っていない写真や、聞き取れる発言がない音声には返信しません。
+   *              音声の場合は、書き起こしと翻訳の両方を返信します。
+   * @param {MessageEvent} event 画像・音声メッセージのイベント
+   * @param {ImageMessage | AudioMessage} message 画像または音声のメッセージ
+   * @param {string} userId 投稿者のユーザーID
+   * @param {string | null} sourceId グループ/ルームID (個人チャットの場合はnull)
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   * @param {EventProgress} progress イベントの処理進捗
+   */
+  private async handleMediaMessage(
+    event: MessageEvent,
+    message: ImageMessage | AudioMessage,
+    userId: string,
+    sourceId: string | null,
+    services: ServiceCollection,
+    progress: EventProgress
+  ): Promise<void> {
+    const { postRepository, translationService, imageTextExtractor, voiceTranscriber, messageDelivery } = services;
+    const deliveryTarget: DeliveryTarget = {
+      replyToken: event.replyToken,
+      to: sourceId ?? userId,
+      postId: message.id,
+    };
+    const generation = { postId: message.id, roomId: sourceId, userId };
+
+    const contentKey = await this.storeContent(message, services, progress);
+    const metadata = createContentMetadata(message);
+
+    // 投稿をDBに保存 (本文は読み取った後に設定する)
+    await progress.step('createPost', async () => {
+      await postRepository.create({
+        post_id: message.id,
+        timestamp: new Date(event.timestamp).toISOString(),
+        user_id: userId,
+        room_id: sourceId,
+        message_text: null,
+        has_poll: 0,
+        translated_text: null,
+        content_type: message.type,
+        content_metadata: metadata ? JSON.stringify(metadata) : null,
+        content_key: contentKey,
+      });
+    });
+
+    const extractedText = await progress.step('extractText', () =>
+      message.type === 'audio'
+        ? voiceTranscriber.transcribe(message, generation)
+        : imageTextExtractor.extract(message, generation)
+    );
+    if (!extractedText) {
+      return;
+    }
+
+    // 読み取った文章や書き起こしを投稿の本文に設定する
+    await progress.step('updateText', async () => {
+      await postRepository.updateMessageText(message.id, extractedText);
+    });
+
+    console.log(`${message.type === 'audio' ? 'Audio' : 'Image'} message from ${userId} in ${sourceId || 'private chat'}: ${extractedText}`);
+
+    const translatedText = await progress.step('translate', () =>
+      translationService.translateMessage(message.id, userId, sourceId, extractedText)
+    );
+
+    if (translatedText) {
+      // 音声は元の発言を読めないため、書き起こしも一緒に返信する
+      const replyText = message.type === 'audio' ? `🎙️ ${extractedText}\n\n${translatedText}` : translatedText;
+      await progress.step('reply', async () => {
+        await messageDelivery.deliver(deliveryTarget, [
+          this.createTranslationReply(replyText, message.id, services.env),
+        ]);
+      });
+    }
+  }
+
+  /**
+   * @method createTranslationReply
+   * @description 翻訳の返信メッセージを作成します。TRANSLATION_FEEDBACK が有効な場合は評価のクイックリプライを付けます。
+   *              元のメッセージにメンションがある場合は、textV2 メッセージで同じ相手をメンションします。
+   * @param {string} translatedText 翻訳されたテキスト (引用返信の場合は返信先の見出しを付けたもの)
+   * @param {string} postId 翻訳した投稿のID
+   * @param {Env} env 環境変数
+   * @param {TextMessage} [source] 翻訳した元のメッセージ (メンションの確認に使用)
+   * @returns {object} テキストまたはtextV2のメッセージオブジェクト
+   */
+  private createTranslationReply(translatedText: string, postId: string, env: Env, source?: TextMessage) {
+    return {
+      ...createMentionMessage(translatedText, source?.text ?? '', source?.mention?.mentionees),
+      ...(env.TRANSLATION_FEEDBACK === 'true' ? { quickReply: createFeedbackQuickReply(postId) } : {}),
+    };
+  }
+
+  /**
+   * @method handleRetranslateCommand
+   * @description 引用されたメッセージを、キャッシュを使わずに精度の高いモデルで翻訳し直して返信します。
+   *              引用がない場合や、引用されたメッセージが保存されていない場合 (ボットの返信など) は使い方を返信します。
+   * @param {TextMessage} message 再翻訳コマンドのメッセージ
+   * @param {string} userId 再翻訳を依頼したユーザーのID (使用量の制限と記録の対象)
+   * @param {DeliveryTarget} deliveryTarget 返信先
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   * @param {EventProgress} progress イベントの処理進捗
+   */
+  private async handleRetranslateCommand(
+    message: TextMessage,
+    userId: string,
+    deliveryTarget: DeliveryTarget,
+    services: ServiceCollection,
+    progress: EventProgress
+  ): Promise<void> {
+    const { postRepository, translationService, messageDelivery } = services;
+    const quotedPost = message.quotedMessageId ? await postRepository.findById(message.quotedMessageId) : null;
+    if (!quotedPost?.message_text) {
+      await progress.step('reply', async () => {
+        await messageDelivery.deliver(deliveryTarget, [
+          {
+            type: 'text',
+            text: '翻訳し直すメッセージを引用して「再翻訳」と送ってください。\nQuote the message to translate again and send "retranslate".',
+          },
+        ]);
+      });
+      return;
+    }
+
+    // アンケートはコマンドを除いた質問文を翻訳する
+    const sourceText = quotedPost.has_poll
+      ? quotedPost.message_text.replace(POLL_COMMAND_PATTERN, '').trim()
+      : quotedPost.message_text;
+    const translatedText = await progress.step('translate', () =>
+      translationService.translateMessage(
+        quotedPost.post_id,
+        quotedPost.user_id,
+        quotedPost.room_id,
+        sourceText,
+        // 利用上限は投稿者ではなく、再翻訳を依頼したユーザーの回数として数える
+        { retranslate: true, quotedPostId: quotedPost.quoted_post_id, requesterId: userId }
+      )
+    );
+
+    await progress.step('reply', async () => {
+      // 再翻訳するメッセージ自体が引用返信の場合は、その返信先を見出しに示す
+      const repliedPost = translatedText && quotedPost.quoted_post_id
+        ? await postRepository.findWithSpeakerById(quotedPost.quoted_post_id)
+        : null;
+      await messageDelivery.deliver(deliveryTarget, [
+        translatedText
+          ? this.createTranslationReply(formatQuotedReply(translatedText, repliedPost), quotedPost.post_id, services.env)
+          : { type: 'text', text: '再翻訳できませんでした。\nThe message could not be translated again.' },
+      ]);
+    });
+  }
+
+  /**
+   * @method handlePlaceRegistration
+   * @description 引用された位置情報メッセージを、名前を付けた場所として登録します。
+   *              同じルームに同じ名前の場所がある場合は、新しい位置情報で上書きします。
+   *              ほかのユーザーが登録した場所は、会場を差し替えられないよう上書きしません。
+   *              個人チャットで登録した場所は登録したユーザー専用で、そのユーザーだけがどのルームからでも参照できます。
+   *              引用がない場合や、引用されたメッセージが位置情報でない場合は使い方を返信します。
+   * @param {TextMessage} message 場所の登録コマンドのメッセージ
+   * @param {string} name 登録する場所の名前
+   * @param {string} userId 登録したユーザーID
+   * @param {string | null} sourceId グループ/ルームID (個人チャットの場合はnull)
+   * @param {DeliveryTarget} deliveryTarget 返信先
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   * @param {EventProgress} progress イベントの処理進捗
+   */
+  private async handlePlaceRegistration(
+    message: TextMessage,
+    name: string,
+    userId: string,
+    sourceId: string | null,
+    deliveryTarget: DeliveryTarget,
+    services: ServiceCollection,
+    progress: EventProgress
+  ): Promise<void> {
+    const { postRepository, placeRepository, messageDelivery } = services;
+    const quotedPost = message.quotedMessageId ? await postRepository.findById(message.quotedMessageId) : null;
+    const location = quotedPost?.content_type === 'location' && !quotedPost.retracted_at
+      ? parseContentMetadata(quotedPost.content_metadata)
+      : null;
+    if (!quotedPost || location?.latitude === undefined || location.longitude === undefined) {
+      await progress.step('reply', async () => {
+        await messageDelivery.deliver(deliveryTarget, [
+          {
+            type: 'text',
+            text: '登録する位置情報を引用して「場所登録 名前」と送ってください。\nQuote a location and send "save place <name>".',
+          },
+        ]);
+      });
+      return;
+    }
+
+    const saved = await progress.step('savePlace', async () => {
+      const now = new Date().toISOString();
+      const fields = {
+        title: location.title ?? null,
+        address: location.address ?? null,
+        latitude: location.latitude!,
+        longitude: location.longitude!,
+        source_post_id: quotedPost.post_id,
+        updated_at: now,
+      };
+      const existing = await placeRepository.findByName(name, sourceId, userId);
+      if (existing && existing.created_by !== userId) {
+        console.warn(`User ${userId} tried to overwrite place ${existing.id} registered by ${existing.created_by}.`);
+        return false;
+      }
+      if (existing) {
+        await placeRepository.updateLocation(existing.id, fields);
+      } else {
+        await placeRepository.create({ ...fields, name, room_id: sourceId, created_by: userId, created_at: now });
+      }
+      return true;
+    });
+
+    await progress.step('reply', async () => {
+      await messageDelivery.deliver(deliveryTarget, [
+        !saved ? {
+          type: 'text',
+          text: `場所「${name}」はほかのユーザーが登録しているため、上書きできません。別の名前で登録してください。\nThe place "${name}" was saved by another user. Use a different name.`,
+        } : {
+          type: 'text',
+          text: `場所「${name}」を登録しました。アンケートやお知らせに [place:${name}] と書くと、地図を一緒に送ります。\nSaved the place "${name}". Write [place:${name}] in a poll or announcement to send its map.`,
+        },
+      ]);
+    });
+  }
+
+  /**
+   * @method attachPlace
+   * @description メッセージで参照された場所を検索し、投稿の参照先として記録します。
+   *              場所が登録されていない場合は警告をログに残し、場所なしで処理を続けます。
+   * @param {string} postId 場所を参照した投稿のID
+   * @param {string} name 参照された場所の名前
+   * @param {string | null} sourceId グループ/ルームID (個人チャットの場合はnull)
+   * @param {string} userId 場所を参照したユーザーID (ユーザー専用の場所の検索に使用)
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   * @param {EventProgress} progress イベントの処理進捗
+   * @returns {Promise<Place | null>} 参照された場所、または登録されていない場合はnull
+   */
+  private async attachPlace(
+    postId: string,
+    name: string,
+    sourceId: string | null,
+    userId: string,
+    services: ServiceCollection,
+    progress: EventProgress
+  ): Promise<Place | null> {
+    const { postRepository, placeRepository } = services;
+    return progress.step('attachPlace', async () => {
+      const place = await placeRepository.findForRoom(name, sourceId, userId);
+      if (!place) {
+        console.warn(`Place "${name}" referenced by post ${postId} is not registered.`);
+        return null;
+      }
+      await postRepository.updatePlace(postId, place.id);
+      return place;
+    });
+  }
+
+  /**
+   * @method handleUnsendEvent
+   * @description 送信取り消しイベントを処理します。
+   *              投稿の本文・翻訳と、翻訳ログ (投稿を文脈に含めた他の投稿のプロンプトを含む)・デバッグログ・翻訳の例・評価・翻訳キャッシュ・
+   *              処理台帳・失敗イベントに残ったメッセージを削除し、取り消されたことだけを記録します。
+   *              メッセージイベントより先に届いた場合も取り消しを記録し、後から投稿を保存しないようにします。
+   *              ボットは送信済みの翻訳を取り消せないため、翻訳の返信がまだ新しい場合は翻訳も取り消されたことを知らせます。
+   * @param {UnsendEvent} event 処理する送信取り消しイベント
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   * @param {EventProgress} progress イベントの処理進捗
+   */
+  private async handleUnsendEvent(event: UnsendEvent, services: ServiceCollection, progress: EventProgress): Promise<void> {
+    const {
+      postRepository,
+      logRepository,
+      translationExampleRepository,
+      translationFeedbackRepository,
+      translationCacheRepository,
+      processedEventRepository,
+      failedEventRepository,
+      contentStorage,
+      messageDelivery,
+    } = services;
+    const postId = event.unsend.messageId;
+    const retractedAt = new Date(event.timestamp).toISOString();
+    const post = await postRepository.findById(postId);
+
+    await progress.step('retract', async () => {
+      await postRepository.recordRetraction(postId, retractedAt);
+      if (post) {
+        await postRepository.retract(postId, retractedAt);
+      }
+      await translationFeedbackRepository.deleteByPostId(postId);
+      await logRepository.clearTranslationLogsByPostId(postId);
+      await logRepository.clearPromptsByContextPostId(postId, post?.message_text ?? null);
+      await logRepository.deleteDebugLogsByPostId(postId);
+      await translationExampleRepository.deleteByPostId(postId);
+      await translationCacheRepository.deleteByPostId(postId);
+      await processedEventRepository.clearStepResultsByMessageId(postId);
+      await failedEventRepository.deleteByMessageId(postId);
+      if (post?.content_key && contentStorage) {
+        await contentStorage.delete(post.content_key);
+      }
+    });
+    if (!post) {
+      console.log(`Unsent message ${postId} is not stored yet. Recorded the retraction.`);
+      return;
     }
+    console.log(`Post ${postId} was retracted by ${post.user_id}.`);
+
+    const lastReply = await logRepository.findLatestDeliveryLogByPostId(postId);
+    if (!lastReply?.destination || event.timestamp - new Date(lastReply.timestamp).getTime() > UNSEND_NOTICE_WINDOW_MS) {
+      return;
+    }
+    await progress.step('notice', async () => {
+      await messageDelivery.deliver({ to: lastReply.destination, postId }, [
+        {
+          type: 'text',
+          text: 'メッセージの送信が取り消されたため、その翻訳も取り消しました。\nThe original message was unsent, so its translation has been withdrawn.',
+        },
+      ]);
+    });
   }
 
   /**
@@ -316,7 +1010,7 @@ export class LineWebhookHandler {
    * @param {ServiceCollection} services サービスとリポジトリのインスタンス
    */
   private async handlePostbackEvent(event: PostbackEvent, services: ServiceCollection): Promise<void> {
-    const { answerRepository, lineClient } = services;
+    const { answerRepository, postRepository, lineClient } = services;
     const data = event.postback.data;
     const params = new URLSearchParams(data);
     const action = params.get('action');
@@ -329,6 +1023,13 @@ export class LineWebhookHandler {
       const pollPostId = params.get('postId');
 
       if (value && pollPostId) {
+        // 送信が取り消されたアンケートへの回答は記録しない
+        const pollPost = await postRepository.findById(pollPostId);
+        if (pollPost?.retracted_at) {
+          console.log(`Ignoring an answer to retracted poll ${pollPostId}.`);
+          return;
+        }
+
         // ローディングアニメーションを表示
         try {
           await lineClient.startLoadingAnimation(userId, 5);
@@ -347,6 +1048,69 @@ export class LineWebhookHandler {
 
         console.log(`Answer recorded: User ${userId} answered ${value} to post ${pollPostId}`);
       }
+    } else if (action === FEEDBACK_POSTBACK_ACTION) {
+      await this.handleFeedbackPostback(event, params, services);
+    }
+  }
+
+  /**
+   * @method handleFeedbackPostback
+   * @description 翻訳の評価のポストバックを処理し、評価を投稿の最新の翻訳ログに紐付けて保存します。
+   * @param {PostbackEvent} event 処理するポストバックイベント
+   * @param {URLSearchParams} params ポストバックデータ
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   */
+  private async handleFeedbackPostback(event: PostbackEvent, params: URLSearchParams, services: ServiceCollection): Promise<void> {
+    const { logRepository, translationFeedbackRepository } = services;
+    const userId = event.source.userId;
+    const rating = params.get('rating');
+    const postId = params.get('postId');
+    if (!userId || !postId || !isFeedbackRating(rating)) {
+      console.warn(`Invalid feedback postback: ${event.postback.data}`);
+      return;
+    }
+
+    const translationLog = await logRepository.findLatestTranslationLogByPostId(postId);
+    if (!translationLog) {
+      console.warn(`No translation log found for feedback on post ${postId}`);
+      return;
+    }
+
+    const now = new Date(event.timestamp).toISOString();
+    await translationFeedbackRepository.upsert({
+      translation_log_id: translationLog.id,
+      post_id: postId,
+      user_id: userId,
+      rating: rating,
+      created_at: now,
+      updated_at: now,
+    });
+    console.log(`Feedback recorded: User ${userId} rated the translation of post ${postId} as ${rating}`);
+  }
+
+  /**
+   * @method recordFeedbackSuggestion
+   * @description ユーザーが直近に「修正を提案」を選んだ評価に、送られた修正案を保存します。
+   * @param {string} userId ユーザーID
+   * @param {string} suggestion 修正案
+   * @param {number} timestamp メッセージの送信日時 (エポックミリ秒)
+   * @param {ServiceCollection} services サービスとリポジトリのインスタンス
+   * @returns {Promise<boolean>} 修正案を保存した場合はtrue (修正案を待っている評価がない場合はfalse)
+   */
+  private async recordFeedbackSuggestion(
+    userId: string,
+    suggestion: string,
+    timestamp: number,
+    services: ServiceCollection
+  ): Promise<boolean> {
+    const { translationFeedbackRepository } = services;
+    const since = new Date(timestamp - FEEDBACK_SUGGESTION_WINDOW_MS).toISOString();
+    const feedback = await translationFeedbackRepository.findPendingSuggestion(userId, since);
+    if (!feedback) {
+      return false;
     }
+    await translationFeedbackRepository.updateSuggestion(feedback.id, suggestion, new Date(timestamp).toISOString());
+    console.log(`Suggestion recorded: User ${userId} suggested a fix for the translation of post ${feedback.post_id}`);
+    return true;
   }
 }
@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockTranslationService,
+  mockBucket
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      startLoadingAnimation: vi.fn(),
+      validateSignature: vi.fn().mockResolvedValue(true),
+      getContent: vi.fn(),
+    },
+    mockPostRepository: {
+      create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
+    },
+    mockTranslationService: {
+      translateMessage: vi.fn(),
+    },
+    mockBucket: {
+      put: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../services/line', () => {
+  return {
+    LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+  };
+});
+
+vi.mock('../db', () => {
+  return {
+    PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+    AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+    UserRepository: vi.fn().mockImplementation(function() { return { createIfNotExists: vi.fn() }; }),
+    RoomRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
+    LogRepository: vi.fn().mockImplementation(function() { return { createDeliveryLog: vi.fn() }; }),
+    ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+    PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+    GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+  };
+});
+
+vi.mock('../services/translator', () => {
+  return {
+    TranslationService: vi.fn().mockImplementation(function() { return mockTranslationService; }),
+  };
+});
+
+/**
+ * メッセージイベントを含むキューのバッチを作成します。
+ */
+const createBatch = (message: object) => ({
+  messages: [
+    {
+      body: {
+        type: 'message',
+        timestamp: 1234567890,
+        source: { type: 'group', groupId: 'group1', userId: 'teacher1' },
+        message,
+        replyToken: 'replyToken1',
+      },
+      ack: vi.fn(),
+      retry: vi.fn(),
+    },
+  ],
+}) as any;
+
+describe('LineWebhookHandler Non-text Messages', () => {
+  let handler: LineWebhookHandler;
+  const mockEnv = {
+    BASE_URL: 'https://example.com',
+    LINE_BOT_QUEUE: { send: vi.fn() },
+    ADMIN_PASSWORD: 'mock_password',
+  } as unknown as Env;
+
+  beforeEach(() => {
+    handler = new LineWebhookHandler();
+    vi.clearAllMocks();
+  });
+
+  it('should record stickers with their metadata without replying', async () => {
+    await handler.handleQueue(createBatch({
+      id: 'sticker1', type: 'sticker', packageId: '11537', stickerId: '52002734', keywords: ['thank you', 'bow'],
+    }), mockEnv);
+
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'sticker1',
+      message_text: null,
+      content_type: 'sticker',
+      content_metadata: '{"packageId":"11537","stickerId":"52002734","keywords":["thank you","bow"]}',
+      content_key: null,
+    }));
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).not.toHaveBeenCalled();
+  });
+
+  it('should keep the text of a message sticker for the context without translating it', async () => {
+    await handler.handleQueue(createBatch({
+      id: 'sticker2', type: 'sticker', packageId: '26162', stickerId: '536628776', keywords: ['thanks'], text: 'Dziękuję!',
+    }), mockEnv);
+
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'sticker2',
+      message_text: null,
+      content_metadata: '{"packageId":"26162","stickerId":"536628776","keywords":["thanks"],"stickerText":"Dziękuję!"}',
+    }));
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).not.toHaveBeenCalled();
+  });
+
+  it('should store the content of files when CONTENT_BUCKET is bound', async () => {
+    const content = { data: new TextEncoder().encode('pdf').buffer, contentType: 'application/pdf' };
+    mockLineClient.getContent.mockResolvedValueOnce(content);
+    const file = { id: 'file1', type: 'file', fileName: 'harmonogram.pdf', fileSize: 20480 };
+
+    await handler.handleQueue(createBatch(file), { ...mockEnv, CONTENT_BUCKET: mockBucket } as unknown as Env);
+
+    expect(mockLineClient.getContent).toHaveBeenCalledWith(file);
+    expect(mockBucket.put).toHaveBeenCalledWith('posts/file1', content.data, { httpMetadata: { contentType: 'application/pdf' } });
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'file1',
+      content_type: 'file',
+      content_metadata: '{"fileName":"harmonogram.pdf","fileSize":20480}',
+      content_key: 'posts/file1',
+    }));
+  });
+
+  it('should still record the message when the content cannot be stored', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockLineClient.getContent.mockRejectedValueOnce(new Error('LINE API error: 410'));
+
+    await handler.handleQueue(
+      createBatch({ id: 'video1', type: 'video', duration: 12000, contentProvider: { type: 'line' } }),
+      { ...mockEnv, CONTENT_BUCKET: mockBucket } as unknown as Env
+    );
+
+    expect(mockBucket.put).not.toHaveBeenCalled();
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'video1',
+      content_type: 'video',
+      content_metadata: '{"duration":12000}',
+      content_key: null,
+    }));
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockTranslationService,
+  mockFailedEventRepository,
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      startLoadingAnimation: vi.fn(),
+    },
+    mockPostRepository: {
+      create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
+      updateTranslatedText: vi.fn(),
+    },
+    mockTranslationService: {
+      translateMessage: vi.fn(),
+    },
+    mockFailedEventRepository: {
+      create: vi.fn(),
+      findById: vi.fn(),
+      updateStatus: vi.fn(),
+      recordReplayFailure: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../services/line', () => ({
+  LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+}));
+
+vi.mock('../db', () => ({
+  UserRepository: vi.fn().mockImplementation(function() { return { createIfNotExists: vi.fn() }; }),
+  RoomRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
+  PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+  LogRepository: vi.fn().mockImplementation(function() { return { createDeliveryLog: vi.fn() }; }),
+  AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+  ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+  FailedEventRepository: vi.fn().mockImplementation(function() { return mockFailedEventRepository; }),
+  TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+  PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+  GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+}));
+
+vi.mock('../services/translator', () => ({
+  TranslationService: vi.fn().mockImplementation(function() { return mockTranslationService; }),
+}));
+
+describe('LineWebhookHandler - Dead Letter & Replay', () => {
+  let handler: LineWebhookHandler;
+  const mockEnv = {
+    BASE_URL: 'https://example.com',
+    ADMIN_PASSWORD: 'mock_password',
+  } as unknown as Env;
+
+  const event = {
+    type: 'message',
+    timestamp: 1234567890,
+    source: { type: 'user', userId: 'user1' },
+    replyToken: 'replyToken1',
+    message: { type: 'text', id: 'msg1', text: 'Hello' },
+  };
+
+  const createBatch = (attempts: number) => ({
+    messages: [
+      {
+        body: event,
+        attempts,
+        ack: vi.fn(),
+        retry: vi.fn(),
+      },
+    ],
+  }) as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handler = new LineWebhookHandler();
+    mockTranslationService.translateMessage.mockResolvedValue('こんにちは');
+  });
+
+  it('should retry when attempts remain', async () => {
+    mockPostRepository.create.mockRejectedValueOnce(new Error('D1 error'));
+
+    const batch = createBatch(1);
+    await handler.handleQueue(batch, mockEnv);
+
+    expect(mockFailedEventRepository.create).not.toHaveBeenCalled();
+    expect(batch.messages[0].retry).toHaveBeenCalled();
+    expect(batch.messages[0].ack).not.toHaveBeenCalled();
+  });
+
+  it('should store the event as a failed event on the last attempt', async () => {
+    mockPostRepository.create.mockRejectedValueOnce(new Error('D1 error'));
+
+    const batch = createBatch(4);
+    await handler.handleQueue(batch, mockEnv);
+
+    expect(mockFailedEventRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      event_type: 'message',
+      event_json: JSON.stringify(event),
+      error_message: 'D1 error',
+      stack: expect.stringContaining('D1 error'),
+      attempts: 4,
+      status: 'pending',
+    }));
+    expect(batch.messages[0].ack).toHaveBeenCalled();
+    expect(batch.messages[0].retry).not.toHaveBeenCalled();
+  });
+
+  it('should keep retrying if the failed event cannot be stored', async () => {
+    mockPostRepository.create.mockRejectedValueOnce(new Error('D1 error'));
+    mockFailedEventRepository.create.mockRejectedValueOnce(new Error('D1 unavailable'));
+
+    const batch = createBatch(4);
+    await handler.handleQueue(batch, mockEnv);
+
+    expect(batch.messages[0].retry).toHaveBeenCalled();
+    expect(batch.messages[0].ack).not.toHaveBeenCalled();
+  });
+
+  it('should replay a failed event and mark it as replayed', async () => {
+    mockFailedEventRepository.findById.mockResolvedValueOnce({ id: 1, event_json: JSON.stringify(event) });
+
+    const result = await handler.replayFailedEvent(1, mockEnv);
+
+    expect(result).toBe(true);
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({ post_id: 'msg1' }));
+    expect(mockFailedEventRepository.updateStatus).toHaveBeenCalledWith(1, 'replayed', expect.any(String));
+  });
+
+  it('should record the error when a replay fails', async () => {
+    mockFailedEventRepository.findById.mockResolvedValueOnce({ id: 1, event_json: JSON.stringify(event) });
+    mockPostRepository.create.mockRejectedValueOnce(new Error('D1 error'));
+
+    const result = await handler.replayFailedEvent(1, mockEnv);
+
+    expect(result).toBe(false);
+    expect(mockFailedEventRepository.updateStatus).not.toHaveBeenCalled();
+    expect(mockFailedEventRepository.recordReplayFailure).toHaveBeenCalledWith(1, 'D1 error', expect.any(String), expect.any(String));
+  });
+
+  it('should throw when the failed event does not exist', async () => {
+    mockFailedEventRepository.findById.mockResolvedValueOnce(null);
+
+    await expect(handler.replayFailedEvent(999, mockEnv)).rejects.toThrow('Failed event not found: 999');
+  });
+});
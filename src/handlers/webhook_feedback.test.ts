@@ -0,0 +1,201 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { PostbackEvent } from '../types/line';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockTranslationService,
+  mockLogRepository,
+  mockTranslationFeedbackRepository
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      startLoadingAnimation: vi.fn(),
+      validateSignature: vi.fn().mockResolvedValue(true),
+    },
+    mockPostRepository: {
+      create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
+    },
+    mockTranslationService: {
+      translateMessage: vi.fn().mockResolvedValue('Translated Text'),
+    },
+    mockLogRepository: {
+      createDeliveryLog: vi.fn(),
+      findLatestTranslationLogByPostId: vi.fn(),
+    },
+    mockTranslationFeedbackRepository: {
+      upsert: vi.fn(),
+      findPendingSuggestion: vi.fn(),
+      updateSuggestion: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../services/line', () => {
+  return {
+    LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+  };
+});
+
+vi.mock('../db', () => {
+  return {
+    PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+    AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+    UserRepository: vi.fn().mockImplementation(function() { return { createIfNotExists: vi.fn() }; }),
+    RoomRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
+    LogRepository: vi.fn().mockImplementation(function() { return mockLogRepository; }),
+    ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return mockTranslationFeedbackRepository; }),
+    TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+    PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+    GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+  };
+});
+
+vi.mock('../services/translator', () => {
+  return {
+    TranslationService: vi.fn().mockImplementation(function() { return mockTranslationService; }),
+  };
+});
+
+/**
+ * イベントを1件含むキューのバッチを作成します。
+ */
+const createBatch = (event: any) => ({
+  messages: [
+    {
+      body: event,
+      ack: vi.fn(),
+      retry: vi.fn(),
+    },
+  ],
+}) as any;
+
+/**
+ * テキストメッセージのイベントを作成します。
+ */
+const createTextEvent = (text: string) => ({
+  type: 'message',
+  timestamp: Date.parse('2024-05-15T10:10:00.000Z'),
+  source: { type: 'group', groupId: 'group1', userId: 'user1' },
+  message: { type: 'text', id: 'msg2', text },
+  replyToken: 'replyToken1',
+});
+
+/**
+ * 評価のポストバックイベントを作成します。
+ */
+const createFeedbackEvent = (data: string): PostbackEvent => ({
+  type: 'postback',
+  timestamp: Date.parse('2024-05-15T10:05:00.000Z'),
+  source: { type: 'group', groupId: 'group1', userId: 'user2' } as any,
+  postback: { data },
+  mode: 'active',
+});
+
+describe('LineWebhookHandler Translation Feedback', () => {
+  let handler: LineWebhookHandler;
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    handler = new LineWebhookHandler();
+    vi.clearAllMocks();
+    mockEnv = {
+      BASE_URL: 'https://example.com',
+      LINE_BOT_QUEUE: { send: vi.fn() },
+      ADMIN_PASSWORD: 'mock_password',
+      TRANSLATION_FEEDBACK: 'true',
+    } as unknown as Env;
+  });
+
+  it('should attach feedback quick replies to the translation when enabled', async () => {
+    await handler.handleQueue(createBatch(createTextEvent('Dzień dobry')), mockEnv);
+
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      {
+        type: 'text',
+        text: 'Translated Text',
+        quickReply: {
+          items: [
+            { type: 'action', action: { type: 'postback', label: '👍', data: 'action=feedback&rating=good&postId=msg2' } },
+            { type: 'action', action: { type: 'postback', label: '👎', data: 'action=feedback&rating=bad&postId=msg2' } },
+            {
+              type: 'action',
+              action: {
+                type: 'postback',
+                label: '✏️ Suggest fix',
+                data: 'action=feedback&rating=fix&postId=msg2',
+                inputOption: 'openKeyboard',
+                fillInText: '✏️ ',
+              },
+            },
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('should not attach quick replies when feedback is disabled', async () => {
+    delete mockEnv.TRANSLATION_FEEDBACK;
+    await handler.handleQueue(createBatch(createTextEvent('Dzień dobry')), mockEnv);
+
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: 'Translated Text' },
+    ]);
+  });
+
+  it('should record feedback against the latest translation log of the post', async () => {
+    mockLogRepository.findLatestTranslationLogByPostId.mockResolvedValueOnce({ id: 42, post_id: 'msg1' });
+
+    await handler.handleQueue(createBatch(createFeedbackEvent('action=feedback&rating=bad&postId=msg1')), mockEnv);
+
+    expect(mockLogRepository.findLatestTranslationLogByPostId).toHaveBeenCalledWith('msg1');
+    expect(mockTranslationFeedbackRepository.upsert).toHaveBeenCalledWith({
+      translation_log_id: 42,
+      post_id: 'msg1',
+      user_id: 'user2',
+      rating: 'bad',
+      created_at: '2024-05-15T10:05:00.000Z',
+      updated_at: '2024-05-15T10:05:00.000Z',
+    });
+  });
+
+  it('should ignore feedback with an unknown rating or without a translation log', async () => {
+    await handler.handleQueue(createBatch(createFeedbackEvent('action=feedback&rating=great&postId=msg1')), mockEnv);
+    mockLogRepository.findLatestTranslationLogByPostId.mockResolvedValueOnce(null);
+    await handler.handleQueue(createBatch(createFeedbackEvent('action=feedback&rating=good&postId=msg1')), mockEnv);
+
+    expect(mockLogRepository.findLatestTranslationLogByPostId).toHaveBeenCalledTimes(1);
+    expect(mockTranslationFeedbackRepository.upsert).not.toHaveBeenCalled();
+  });
+
+  it('should record a suggestion instead of translating it', async () => {
+    mockTranslationFeedbackRepository.findPendingSuggestion.mockResolvedValueOnce({ id: 7, post_id: 'msg1', rating: 'fix' });
+
+    await handler.handleQueue(createBatch(createTextEvent('✏️ Jutro lekcja zaczyna się o 16:00')), mockEnv);
+
+    expect(mockTranslationFeedbackRepository.findPendingSuggestion).toHaveBeenCalledWith('user1', '2024-05-15T09:40:00.000Z');
+    expect(mockTranslationFeedbackRepository.updateSuggestion).toHaveBeenCalledWith(
+      7, 'Jutro lekcja zaczyna się o 16:00', '2024-05-15T10:10:00.000Z'
+    );
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: '修正案を記録しました。ありがとうございます！' },
+    ]);
+  });
+
+  it('should translate a message starting with ✏️ when no suggestion is pending', async () => {
+    mockTranslationFeedbackRepository.findPendingSuggestion.mockResolvedValueOnce(null);
+
+    await handler.handleQueue(createBatch(createTextEvent('✏️ Narysuj kota')), mockEnv);
+
+    expect(mockTranslationFeedbackRepository.updateSuggestion).not.toHaveBeenCalled();
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith('msg2', 'user1', 'group1', '✏️ Narysuj kota', {});
+  });
+});
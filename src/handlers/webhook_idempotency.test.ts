@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockTranslationService,
+  mockProcessedEventRepository,
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      startLoadingAnimation: vi.fn(),
+    },
+    mockPostRepository: {
+      create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
+      updateTranslatedText: vi.fn(),
+    },
+    mockTranslationService: {
+      translateMessage: vi.fn(),
+    },
+    mockProcessedEventRepository: {
+      claim: vi.fn(),
+      findById: vi.fn(),
+      saveStepResults: vi.fn(),
+      markCompleted: vi.fn(),
+      markFailed: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../services/line', () => ({
+  LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+}));
+
+vi.mock('../db', () => ({
+  UserRepository: vi.fn().mockImplementation(function() { return { createIfNotExists: vi.fn() }; }),
+  RoomRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
+  PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+  LogRepository: vi.fn().mockImplementation(function() { return { createDeliveryLog: vi.fn() }; }),
+  AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+  ProcessedEventRepository: vi.fn().mockImplementation(function() { return mockProcessedEventRepository; }),
+  FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+  PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+  GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+}));
+
+vi.mock('../services/translator', () => ({
+  TranslationService: vi.fn().mockImplementation(function() { return mockTranslationService; }),
+}));
+
+describe('LineWebhookHandler - Idempotent Queue Processing', () => {
+  let handler: LineWebhookHandler;
+  const mockEnv = {
+    BASE_URL: 'https://example.com',
+    ADMIN_PASSWORD: 'mock_password',
+  } as unknown as Env;
+
+  const createBatch = () => ({
+    messages: [
+      {
+        body: {
+          type: 'message',
+          webhookEventId: 'EVENT1',
+          timestamp: 1234567890,
+          source: { type: 'user', userId: 'user1' },
+          replyToken: 'replyToken1',
+          message: { type: 'text', id: 'msg1', text: 'Hello' },
+        },
+        ack: vi.fn(),
+        retry: vi.fn(),
+      },
+    ],
+  }) as any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handler = new LineWebhookHandler();
+    mockTranslationService.translateMessage.mockResolvedValue('こんにちは');
+  });
+
+  it('should process a new event and mark it as completed', async () => {
+    mockProcessedEventRepository.claim.mockResolvedValueOnce({
+      event_id: 'EVENT1', status: 'processing', attempts: 1, step_results: null,
+    });
+
+    const batch = createBatch();
+    await handler.handleQueue(batch, mockEnv);
+
+    expect(mockPostRepository.create).toHaveBeenCalledTimes(1);
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [{ type: 'text', text: 'こんにちは' }]);
+    expect(mockProcessedEventRepository.saveStepResults).toHaveBeenLastCalledWith(
+      'EVENT1',
+      JSON.stringify({ createPost: null, translate: 'こんにちは', reply: null }),
+      expect.any(String)
+    );
+    expect(mockProcessedEventRepository.markCompleted).toHaveBeenCalledWith('EVENT1', expect.any(String));
+    expect(batch.messages[0].ack).toHaveBeenCalled();
+  });
+
+  it('should skip an event that has already been completed', async () => {
+    mockProcessedEventRepository.claim.mockResolvedValueOnce(null);
+    mockProcessedEventRepository.findById.mockResolvedValueOnce({ event_id: 'EVENT1', status: 'completed' });
+
+    const batch = createBatch();
+    await handler.handleQueue(batch, mockEnv);
+
+    expect(mockPostRepository.create).not.toHaveBeenCalled();
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).not.toHaveBeenCalled();
+    expect(batch.messages[0].ack).toHaveBeenCalled();
+  });
+
+  it('should not store or translate a message that was unsent before it was processed', async () => {
+    mockProcessedEventRepository.claim.mockResolvedValueOnce({
+      event_id: 'EVENT1', status: 'processing', attempts: 1, step_results: null,
+    });
+    mockPostRepository.isRetracted.mockResolvedValueOnce(true);
+
+    const batch = createBatch();
+    await handler.handleQueue(batch, mockEnv);
+
+    expect(mockProcessedEventRepository.claim).toHaveBeenCalledWith('EVENT1', 'msg1', expect.any(String), expect.any(String));
+    expect(mockPostRepository.isRetracted).toHaveBeenCalledWith('msg1');
+    expect(mockPostRepository.create).not.toHaveBeenCalled();
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).not.toHaveBeenCalled();
+    expect(mockProcessedEventRepository.markCompleted).toHaveBeenCalledWith('EVENT1', expect.any(String));
+  });
+
+  it('should retry an event that is being processed by another consumer', async () => {
+    mockProcessedEventRepository.claim.mockResolvedValueOnce(null);
+    mockProcessedEventRepository.findById.mockResolvedValueOnce({ event_id: 'EVENT1', status: 'processing' });
+
+    const batch = createBatch();
+    await handler.handleQueue(batch, mockEnv);
+
+    expect(mockPostRepository.create).not.toHaveBeenCalled();
+    expect(mockProcessedEventRepository.markFailed).not.toHaveBeenCalled();
+    expect(batch.messages[0].retry).toHaveBeenCalled();
+  });
+
+  it('should resume from the failed reply without re-creating the post or re-translating', async () => {
+    mockProcessedEventRepository.claim.mockResolvedValueOnce({
+      event_id: 'EVENT1',
+      status: 'processing',
+      attempts: 2,
+      step_results: JSON.stringify({ createPost: null, translate: 'こんにちは' }),
+    });
+
+    const batch = createBatch();
+    await handler.handleQueue(batch, mockEnv);
+
+    expect(mockPostRepository.create).not.toHaveBeenCalled();
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [{ type: 'text', text: 'こんにちは' }]);
+    expect(mockProcessedEventRepository.markCompleted).toHaveBeenCalled();
+  });
+
+  it('should record the failure and retry when a step throws', async () => {
+    mockProcessedEventRepository.claim.mockResolvedValueOnce({
+      event_id: 'EVENT1', status: 'processing', attempts: 1, step_results: null,
+    });
+    mockLineClient.replyMessage.mockRejectedValueOnce(new Error('LINE API error'));
+
+    const batch = createBatch();
+    await handler.handleQueue(batch, mockEnv);
+
+    expect(mockProcessedEventRepository.markFailed).toHaveBeenCalledWith('EVENT1', 'LINE API error', expect.any(String));
+    expect(mockProcessedEventRepository.markCompleted).not.toHaveBeenCalled();
+    expect(batch.messages[0].retry).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockTranslationService,
+  mockImageTextExtractor
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      startLoadingAnimation: vi.fn(),
+      validateSignature: vi.fn().mockResolvedValue(true),
+    },
+    mockPostRepository: {
+      create: vi.fn(),
+      updateMessageText: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
+    },
+    mockTranslationService: {
+      translateMessage: vi.fn().mockResolvedValue('Koncert: sobota 10:00'),
+    },
+    mockImageTextExtractor: {
+      extract: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../services/line', () => {
+  return {
+    LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+  };
+});
+
+vi.mock('../db', () => {
+  return {
+    PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+    AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+    UserRepository: vi.fn().mockImplementation(function() { return { createIfNotExists: vi.fn() }; }),
+    RoomRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
+    LogRepository: vi.fn().mockImplementation(function() { return { createDeliveryLog: vi.fn() }; }),
+    ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+    PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+    GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+  };
+});
+
+vi.mock('../services/translator', () => {
+  return {
+    TranslationService: vi.fn().mockImplementation(function() { return mockTranslationService; }),
+  };
+});
+
+vi.mock('../services/imageText', () => {
+  return {
+    ImageTextExtractor: vi.fn().mockImplementation(function() { return mockImageTextExtractor; }),
+  };
+});
+
+/**
+ * 画像メッセージイベントを含むキューのバッチを作成します。
+ */
+const createBatch = () => ({
+  messages: [
+    {
+      body: {
+        type: 'message',
+        timestamp: 1234567890,
+        source: { type: 'group', groupId: 'group1', userId: 'teacher1' },
+        message: { type: 'image', id: 'img1', contentProvider: { type: 'line' } },
+        replyToken: 'replyToken1',
+      },
+      ack: vi.fn(),
+      retry: vi.fn(),
+    },
+  ],
+}) as any;
+
+describe('LineWebhookHandler Image Messages', () => {
+  let handler: LineWebhookHandler;
+  const mockEnv = {
+    BASE_URL: 'https://example.com',
+    LINE_BOT_QUEUE: { send: vi.fn() },
+    ADMIN_PASSWORD: 'mock_password',
+  } as unknown as Env;
+
+  beforeEach(() => {
+    handler = new LineWebhookHandler();
+    vi.clearAllMocks();
+  });
+
+  it('should store the text read from the image and reply with its translation', async () => {
+    mockImageTextExtractor.extract.mockResolvedValueOnce('発表会 土曜日 10:00');
+
+    await handler.handleQueue(createBatch(), mockEnv);
+
+    expect(mockImageTextExtractor.extract).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'img1', type: 'image' }),
+      { postId: 'img1', roomId: 'group1', userId: 'teacher1' }
+    );
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'img1',
+      message_text: null,
+      content_type: 'image',
+    }));
+    expect(mockPostRepository.updateMessageText).toHaveBeenCalledWith('img1', '発表会 土曜日 10:00');
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'img1', 'teacher1', 'group1', '発表会 土曜日 10:00'
+    );
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: 'Koncert: sobota 10:00' },
+    ]);
+  });
+
+  it('should store the image without replying when it has no text', async () => {
+    mockImageTextExtractor.extract.mockResolvedValueOnce(null);
+
+    await handler.handleQueue(createBatch(), mockEnv);
+
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'img1',
+      message_text: null,
+      content_type: 'image',
+    }));
+    expect(mockPostRepository.updateMessageText).not.toHaveBeenCalled();
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).not.toHaveBeenCalled();
+  });
+
+  it('should store the image before reading it so that a failed read leaves no gap in the history', async () => {
+    mockImageTextExtractor.extract.mockRejectedValueOnce(new Error('Gemini API error'));
+
+    await handler.handleQueue(createBatch(), mockEnv);
+
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'img1',
+      message_text: null,
+      content_type: 'image',
+    }));
+    expect(mockPostRepository.updateMessageText).not.toHaveBeenCalled();
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockPlaceRepository,
+  mockTranslationService
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      startLoadingAnimation: vi.fn(),
+      validateSignature: vi.fn().mockResolvedValue(true),
+    },
+    mockPostRepository: {
+      create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
+      findById: vi.fn(),
+      updateTranslatedText: vi.fn(),
+      updatePlace: vi.fn(),
+    },
+    mockPlaceRepository: {
+      findByName: vi.fn(),
+      findForRoom: vi.fn(),
+      create: vi.fn(),
+      updateLocation: vi.fn(),
+    },
+    mockTranslationService: {
+      translateMessage: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../services/line', () => {
+  return {
+    LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+  };
+});
+
+vi.mock('../db', () => {
+  return {
+    PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+    AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+    UserRepository: vi.fn().mockImplementation(function() { return { createIfNotExists: vi.fn() }; }),
+    RoomRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
+    LogRepository: vi.fn().mockImplementation(function() { return { createDeliveryLog: vi.fn() }; }),
+    ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+    PlaceRepository: vi.fn().mockImplementation(function() { return mockPlaceRepository; }),
+    GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+  };
+});
+
+vi.mock('../services/translator', () => {
+  return {
+    TranslationService: vi.fn().mockImplementation(function() { return mockTranslationService; }),
+  };
+});
+
+const filharmonia = {
+  id: 1,
+  name: '発表会会場',
+  room_id: 'group1',
+  title: 'Filharmonia',
+  address: 'ul. Zwierzyniecka 1, Kraków',
+  latitude: 50.0577,
+  longitude: 19.9322,
+  source_post_id: 'loc1',
+  created_by: 'teacher1',
+  created_at: '2024-05-15T10:00:00.000Z',
+  updated_at: '2024-05-15T10:00:00.000Z',
+};
+
+/**
+ * 指定したメッセージのイベントを含むキューのバッチを作成します。
+ */
+const createBatch = (message: any) => ({
+  messages: [
+    {
+      body: {
+        type: 'message',
+        timestamp: 1234567890,
+        source: { type: 'group', groupId: 'group1', userId: 'teacher1' },
+        message,
+        replyToken: 'replyToken1',
+      },
+      ack: vi.fn(),
+      retry: vi.fn(),
+    },
+  ],
+}) as any;
+
+describe('LineWebhookHandler Location Messages and Places', () => {
+  let handler: LineWebhookHandler;
+  const mockEnv = {
+    BASE_URL: 'https://example.com',
+    LINE_BOT_QUEUE: { send: vi.fn() },
+    ADMIN_PASSWORD: 'mock_password',
+  } as unknown as Env;
+
+  beforeEach(() => {
+    handler = new LineWebhookHandler();
+    vi.clearAllMocks();
+  });
+
+  it('should record a location and reply with its translated title and address and a map link', async () => {
+    mockTranslationService.translateMessage.mockResolvedValueOnce('フィルハーモニー\nクラクフ、ズヴィエジニエツカ通り1');
+
+    await handler.handleQueue(createBatch({
+      id: 'loc1', type: 'location', title: 'Filharmonia', address: 'ul. Zwierzyniecka 1, Kraków', latitude: 50.0577, longitude: 19.9322,
+    }), mockEnv);
+
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'loc1',
+      message_text: null,
+      content_type: 'location',
+      content_metadata: '{"title":"Filharmonia","address":"ul. Zwierzyniecka 1, Kraków","latitude":50.0577,"longitude":19.9322}',
+    }));
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'loc1', 'teacher1', 'group1', 'Filharmonia\nul. Zwierzyniecka 1, Kraków'
+    );
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      {
+        type: 'text',
+        text: '📍 フィルハーモニー\nクラクフ、ズヴィエジニエツカ通り1\nhttps://www.google.com/maps/search/?api=1&query=50.0577,19.9322',
+      },
+    ]);
+  });
+
+  it('should not reply to a location without a title or address', async () => {
+    await handler.handleQueue(createBatch({ id: 'loc2', type: 'location', latitude: 50.0577, longitude: 19.9322 }), mockEnv);
+
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({ post_id: 'loc2', content_type: 'location' }));
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).not.toHaveBeenCalled();
+  });
+
+  it('should save the quoted location as a named place', async () => {
+    mockPostRepository.findById.mockResolvedValueOnce({
+      post_id: 'loc1',
+      content_type: 'location',
+      content_metadata: '{"title":"Filharmonia","address":"ul. Zwierzyniecka 1, Kraków","latitude":50.0577,"longitude":19.9322}',
+    });
+    mockPlaceRepository.findByName.mockResolvedValueOnce(null);
+
+    await handler.handleQueue(createBatch({ id: 'msg1', type: 'text', text: '場所登録 発表会会場', quotedMessageId: 'loc1' }), mockEnv);
+
+    expect(mockPlaceRepository.findByName).toHaveBeenCalledWith('発表会会場', 'group1', 'teacher1');
+    expect(mockPlaceRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      name: '発表会会場',
+      room_id: 'group1',
+      title: 'Filharmonia',
+      address: 'ul. Zwierzyniecka 1, Kraków',
+      latitude: 50.0577,
+      longitude: 19.9322,
+      source_post_id: 'loc1',
+      created_by: 'teacher1',
+    }));
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: expect.stringContaining('場所「発表会会場」を登録しました。') },
+    ]);
+  });
+
+  it('should overwrite a place saved with the same name', async () => {
+    mockPostRepository.findById.mockResolvedValueOnce({
+      post_id: 'loc3',
+      content_type: 'location',
+      content_metadata: '{"title":"ICE Kraków","latitude":50.0477,"longitude":19.9316}',
+    });
+    mockPlaceRepository.findByName.mockResolvedValueOnce(filharmonia);
+
+    await handler.handleQueue(createBatch({ id: 'msg2', type: 'text', text: 'save place 発表会会場', quotedMessageId: 'loc3' }), mockEnv);
+
+    expect(mockPlaceRepository.create).not.toHaveBeenCalled();
+    expect(mockPlaceRepository.updateLocation).toHaveBeenCalledWith(1, expect.objectContaining({
+      title: 'ICE Kraków',
+      address: null,
+      latitude: 50.0477,
+      longitude: 19.9316,
+      source_post_id: 'loc3',
+    }));
+  });
+
+  it('should not overwrite a place saved by another user', async () => {
+    mockPostRepository.findById.mockResolvedValueOnce({
+      post_id: 'loc4',
+      content_type: 'location',
+      content_metadata: '{"title":"Somewhere else","latitude":52.2297,"longitude":21.0122}',
+    });
+    mockPlaceRepository.findByName.mockResolvedValueOnce({ ...filharmonia, created_by: 'teacher2' });
+
+    await handler.handleQueue(createBatch({ id: 'msg5', type: 'text', text: '場所登録 発表会会場', quotedMessageId: 'loc4' }), mockEnv);
+
+    expect(mockPlaceRepository.updateLocation).not.toHaveBeenCalled();
+    expect(mockPlaceRepository.create).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: expect.stringContaining('ほかのユーザーが登録しているため、上書きできません') },
+    ]);
+  });
+
+  it('should reply with the usage when the quoted message is not a location', async () => {
+    mockPostRepository.findById.mockResolvedValueOnce({ post_id: 'msg0', content_type: 'text', message_text: 'Dzień dobry' });
+
+    await handler.handleQueue(createBatch({ id: 'msg3', type: 'text', text: '場所登録 発表会会場', quotedMessageId: 'msg0' }), mockEnv);
+
+    expect(mockPlaceRepository.create).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: expect.stringContaining('登録する位置情報を引用して') },
+    ]);
+  });
+
+  it('should send the referenced place with a poll', async () => {
+    mockPlaceRepository.findForRoom.mockResolvedValueOnce(filharmonia);
+    mockTranslationService.translateMessage.mockResolvedValueOnce('土曜日のリハーサルに参加しますか？');
+
+    await handler.handleQueue(createBatch({
+      id: 'poll1', type: 'text', text: '[check] Czy będziecie na próbie w sobotę? [place:発表会会場]',
+    }), mockEnv);
+
+    expect(mockPlaceRepository.findForRoom).toHaveBeenCalledWith('発表会会場', 'group1', 'teacher1');
+    expect(mockPostRepository.updatePlace).toHaveBeenCalledWith('poll1', 1);
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'poll1', 'teacher1', 'group1', 'Czy będziecie na próbie w sobotę?'
+    );
+    const messages = mockLineClient.replyMessage.mock.calls[0][1];
+    expect(messages).toHaveLength(3);
+    expect(messages[0]).toEqual({ type: 'text', text: '土曜日のリハーサルに参加しますか？' });
+    expect(messages[1]).toEqual({
+      type: 'location',
+      title: 'Filharmonia',
+      address: 'ul. Zwierzyniecka 1, Kraków',
+      latitude: 50.0577,
+      longitude: 19.9322,
+    });
+    expect(messages[2].type).toBe('flex');
+  });
+
+  it('should translate an announcement without the reference to an unregistered place', async () => {
+    mockPlaceRepository.findForRoom.mockResolvedValueOnce(null);
+    mockTranslationService.translateMessage.mockResolvedValueOnce('発表会は10時に始まります');
+
+    await handler.handleQueue(createBatch({
+      id: 'msg4', type: 'text', text: 'Koncert zaczyna się o 10:00 [place:Opera]',
+    }), mockEnv);
+
+    expect(mockPostRepository.updatePlace).not.toHaveBeenCalled();
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'msg4', 'teacher1', 'group1', 'Koncert zaczyna się o 10:00', expect.any(Object)
+    );
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: '発表会は10時に始まります' },
+    ]);
+  });
+
+  it('should translate with the mentions moved to their positions in the message without the reference', async () => {
+    mockPlaceRepository.findForRoom.mockResolvedValueOnce(filharmonia);
+    mockTranslationService.translateMessage.mockResolvedValueOnce('@Hana 会場はこちらです');
+
+    await handler.handleQueue(createBatch({
+      id: 'msg5', type: 'text', text: '[place:発表会会場] @Hana to tutaj',
+      mention: { mentionees: [{ index: 14, length: 5, type: 'user', userId: 'parent1' }] },
+    }), mockEnv);
+
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'msg5', 'teacher1', 'group1', '@Hana to tutaj',
+      expect.objectContaining({ mentionees: [{ index: 0, length: 5, type: 'user', userId: 'parent1' }] })
+    );
+  });
+});
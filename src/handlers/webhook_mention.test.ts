@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockTranslationService
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      startLoadingAnimation: vi.fn(),
+      validateSignature: vi.fn().mockResolvedValue(true),
+    },
+    mockPostRepository: {
+      create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
+    },
+    mockTranslationService: {
+      translateMessage: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../services/line', () => {
+  return {
+    LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+  };
+});
+
+vi.mock('../db', () => {
+  return {
+    PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+    AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+    UserRepository: vi.fn().mockImplementation(function() { return { createIfNotExists: vi.fn() }; }),
+    RoomRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
+    LogRepository: vi.fn().mockImplementation(function() { return { createDeliveryLog: vi.fn() }; }),
+    ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+    PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+    GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+  };
+});
+
+vi.mock('../services/translator', () => {
+  return {
+    TranslationService: vi.fn().mockImplementation(function() { return mockTranslationService; }),
+  };
+});
+
+/**
+ * メンションを含むテキストメッセージイベントのキューのバッチを作成します。
+ */
+const createBatch = (text: string, mentionees?: any[]) => ({
+  messages: [
+    {
+      body: {
+        type: 'message',
+        timestamp: 1234567890,
+        source: { type: 'group', groupId: 'group1', userId: 'teacher1' },
+        message: { type: 'text', id: 'msg1', text, ...(mentionees ? { mention: { mentionees } } : {}) },
+        replyToken: 'replyToken1',
+      },
+      ack: vi.fn(),
+      retry: vi.fn(),
+    },
+  ],
+}) as any;
+
+describe('LineWebhookHandler Mentions', () => {
+  let handler: LineWebhookHandler;
+  const mockEnv = {
+    BASE_URL: 'https://example.com',
+    LINE_BOT_QUEUE: { send: vi.fn() },
+    ADMIN_PASSWORD: 'mock_password',
+  } as unknown as Env;
+
+  beforeEach(() => {
+    handler = new LineWebhookHandler();
+    vi.clearAllMocks();
+  });
+
+  it('should keep mentions out of the translation and mention the same users in the reply', async () => {
+    const mentionees = [{ index: 0, length: 5, type: 'user', userId: 'parent1' }];
+    mockTranslationService.translateMessage.mockResolvedValueOnce('@Hana Proszę przynieść buty jutro.');
+
+    await handler.handleQueue(createBatch('@Hana 明日はシューズを持ってきてください。', mentionees), mockEnv);
+
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'msg1', 'teacher1', 'group1', '@Hana 明日はシューズを持ってきてください。', { mentionees }
+    );
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      {
+        type: 'textV2',
+        text: '{mention1} Proszę przynieść buty jutro.',
+        substitution: { mention1: { type: 'mention', mentionee: { type: 'user', userId: 'parent1' } } },
+      },
+    ]);
+  });
+
+  it('should reply with a plain text message when the message has no mentions', async () => {
+    mockTranslationService.translateMessage.mockResolvedValueOnce('Dzień dobry {ok}');
+
+    await handler.handleQueue(createBatch('おはようございます'), mockEnv);
+
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: 'Dzień dobry {ok}' },
+    ]);
+  });
+});
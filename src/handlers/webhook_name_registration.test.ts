@@ -4,7 +4,7 @@ import { LineWebhookHandler } from './webhook';
 // Define mock functions outside so we can assert on them
 const mockUpsert = vi.fn().mockResolvedValue({});
 const mockTranslateMessage = vi.fn().mockResolvedValue('Translated Name Declaration');
-const mockReplyMessage = vi.fn();
+const mockReplyMessage = vi.fn().mockResolvedValue({ ok: true, status: 200 });
 
 // Mock dependencies
 const mockLineClient = {
@@ -36,13 +36,22 @@ vi.mock('../db', () => ({
   PostRepository: vi.fn().mockImplementation(function() {
     return {
       create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
       updateTranslatedText: vi.fn(),
     };
   }),
   LogRepository: vi.fn().mockImplementation(function() { return {
       createTranslationLog: vi.fn(),
+      createDeliveryLog: vi.fn(),
   }; }),
   AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+  ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+  FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+  TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+  PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+  GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
 }));
 
 vi.mock('../services/translator', () => ({
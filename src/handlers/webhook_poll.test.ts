@@ -14,13 +14,15 @@ const {
 } = vi.hoisted(() => {
   return {
     mockLineClient: {
-      replyMessage: vi.fn(),
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
       startLoadingAnimation: vi.fn(),
       validateSignature: vi.fn().mockResolvedValue(true),
     },
     mockPostRepository: {
       create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
       updateTranslatedText: vi.fn(),
+      findById: vi.fn().mockResolvedValue(null),
     },
     mockAnswerRepository: {
       upsert: vi.fn(),
@@ -34,7 +36,9 @@ const {
     mockRoomRepository: {
       upsert: vi.fn(),
     },
-    mockLogRepository: {},
+    mockLogRepository: {
+      createDeliveryLog: vi.fn(),
+    },
   };
 });
 
@@ -51,6 +55,13 @@ vi.mock('../db', () => {
     UserRepository: vi.fn().mockImplementation(function() { return mockUserRepository; }),
     RoomRepository: vi.fn().mockImplementation(function() { return mockRoomRepository; }),
     LogRepository: vi.fn().mockImplementation(function() { return mockLogRepository; }),
+    ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+    PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+    GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
   };
 });
 
@@ -122,6 +133,32 @@ describe('LineWebhookHandler Poll Logic', () => {
     );
   });
 
+  it('should send the poll without storing a translation when the question is not translated', async () => {
+    mockTranslationService.translateMessage.mockResolvedValueOnce(null);
+    const batch = {
+      messages: [
+        {
+          body: {
+            type: 'message',
+            timestamp: 1234567890,
+            source: { type: 'user', userId: 'user1' },
+            message: { type: 'text', id: 'msg2', text: '[check] Poll Question' },
+            replyToken: 'replyToken1',
+          },
+          ack: vi.fn(),
+          retry: vi.fn(),
+        },
+      ],
+    } as any;
+
+    await handler.handleQueue(batch, mockEnv);
+
+    expect(mockPostRepository.updateTranslatedText).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      expect.objectContaining({ type: 'flex', altText: 'アンケート' }),
+    ]);
+  });
+
   it('should handle postback event and record answer', async () => {
     const event: PostbackEvent = {
       type: 'postback',
@@ -155,4 +192,29 @@ describe('LineWebhookHandler Poll Logic', () => {
     // Verify loading animation
     expect(mockLineClient.startLoadingAnimation).toHaveBeenCalledWith('user1', 5);
   });
+
+  it('should ignore answers to a retracted poll', async () => {
+    mockPostRepository.findById.mockResolvedValueOnce({
+      post_id: 'post1', message_text: null, has_poll: 1, retracted_at: '2024-05-01T10:00:00.000Z',
+    });
+
+    await handler.handleQueue({
+      messages: [
+        {
+          body: {
+            type: 'postback',
+            timestamp: 1234567890,
+            source: { type: 'user', userId: 'user1' },
+            postback: { data: 'action=answer&value=OK&postId=post1' },
+            mode: 'active',
+          },
+          ack: vi.fn(),
+          retry: vi.fn(),
+        },
+      ],
+    } as any, mockEnv);
+
+    expect(mockPostRepository.findById).toHaveBeenCalledWith('post1');
+    expect(mockAnswerRepository.upsert).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockTranslationService
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      startLoadingAnimation: vi.fn(),
+      validateSignature: vi.fn().mockResolvedValue(true),
+    },
+    mockPostRepository: {
+      create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
+      findWithSpeakerById: vi.fn(),
+    },
+    mockTranslationService: {
+      translateMessage: vi.fn().mockResolvedValue('Tak, w porządku.'),
+    },
+  };
+});
+
+vi.mock('../services/line', () => {
+  return {
+    LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+  };
+});
+
+vi.mock('../db', () => {
+  return {
+    PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+    AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+    UserRepository: vi.fn().mockImplementation(function() { return { createIfNotExists: vi.fn() }; }),
+    RoomRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
+    LogRepository: vi.fn().mockImplementation(function() { return { createDeliveryLog: vi.fn() }; }),
+    ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+    PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+    GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+  };
+});
+
+vi.mock('../services/translator', () => {
+  return {
+    TranslationService: vi.fn().mockImplementation(function() { return mockTranslationService; }),
+  };
+});
+
+/**
+ * テキストメッセージイベントを含むキューのバッチを作成します。
+ */
+const createBatch = (text: string, quotedMessageId?: string) => ({
+  messages: [
+    {
+      body: {
+        type: 'message',
+        timestamp: 1234567890,
+        source: { type: 'group', groupId: 'group1', userId: 'teacher1' },
+        message: { type: 'text', id: 'msg2', text, quotedMessageId },
+        replyToken: 'replyToken1',
+      },
+      ack: vi.fn(),
+      retry: vi.fn(),
+    },
+  ],
+}) as any;
+
+describe('LineWebhookHandler Quoted Replies', () => {
+  let handler: LineWebhookHandler;
+  const mockEnv = {
+    BASE_URL: 'https://example.com',
+    LINE_BOT_QUEUE: { send: vi.fn() },
+    ADMIN_PASSWORD: 'mock_password',
+  } as unknown as Env;
+
+  beforeEach(() => {
+    handler = new LineWebhookHandler();
+    vi.clearAllMocks();
+  });
+
+  it('should store the quoted message ID and translate with it as the reply target', async () => {
+    mockPostRepository.findWithSpeakerById.mockResolvedValueOnce({
+      post_id: 'msg1', user_id: 'parent1', room_id: 'group1', display_name: 'Hana',
+      message_text: '来週の土曜日は振替レッスンに参加してもいいですか？', has_poll: 0,
+    });
+
+    await handler.handleQueue(createBatch('はい、大丈夫です。', 'msg1'), mockEnv);
+
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'msg2',
+      quoted_post_id: 'msg1',
+    }));
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'msg2', 'teacher1', 'group1', 'はい、大丈夫です。', { quotedPostId: 'msg1' }
+    );
+    expect(mockPostRepository.findWithSpeakerById).toHaveBeenCalledWith('msg1');
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: '↩️ Hana「来週の土曜日は振替レッスンに参加してもいいですか？」\nTak, w porządku.' },
+    ]);
+  });
+
+  it('should shorten a long quoted message and omit an unregistered speaker name', async () => {
+    mockPostRepository.findWithSpeakerById.mockResolvedValueOnce({
+      post_id: 'msg1', user_id: 'parent1', room_id: 'group1', display_name: null,
+      message_text: '[check] 発表会の衣装合わせは来週の土曜日と日曜日のどちらがよろしいでしょうか？', has_poll: 1,
+    });
+
+    await handler.handleQueue(createBatch('土曜日でお願いします', 'msg1'), mockEnv);
+
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: '↩️「発表会の衣装合わせは来週の土曜日と日曜日のどちらがよろしいで…」\nTak, w porządku.' },
+    ]);
+  });
+
+  it('should reply with the translation only when the quoted message is not stored', async () => {
+    mockPostRepository.findWithSpeakerById.mockResolvedValueOnce(null);
+
+    await handler.handleQueue(createBatch('はい、大丈夫です。', 'botReply1'), mockEnv);
+
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'msg2', 'teacher1', 'group1', 'はい、大丈夫です。', { quotedPostId: 'botReply1' }
+    );
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: 'Tak, w porządku.' },
+    ]);
+  });
+});
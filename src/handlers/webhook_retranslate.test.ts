@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockTranslationService
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      startLoadingAnimation: vi.fn(),
+      validateSignature: vi.fn().mockResolvedValue(true),
+    },
+    mockPostRepository: {
+      create: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
+      findById: vi.fn(),
+    },
+    mockTranslationService: {
+      translateMessage: vi.fn().mockResolvedValue('Retranslated Text'),
+    },
+  };
+});
+
+vi.mock('../services/line', () => {
+  return {
+    LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+  };
+});
+
+vi.mock('../db', () => {
+  return {
+    PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+    AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+    UserRepository: vi.fn().mockImplementation(function() { return { createIfNotExists: vi.fn() }; }),
+    RoomRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
+    LogRepository: vi.fn().mockImplementation(function() { return { createDeliveryLog: vi.fn() }; }),
+    ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+    PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+    GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+  };
+});
+
+vi.mock('../services/translator', () => {
+  return {
+    TranslationService: vi.fn().mockImplementation(function() { return mockTranslationService; }),
+  };
+});
+
+/**
+ * 再翻訳コマンドのメッセージイベントを含むキューのバッチを作成します。
+ */
+const createBatch = (text: string, quotedMessageId?: string) => ({
+  messages: [
+    {
+      body: {
+        type: 'message',
+        timestamp: 1234567890,
+        source: { type: 'group', groupId: 'group1', userId: 'teacher1' },
+        message: { type: 'text', id: 'cmd1', text, quotedMessageId },
+        replyToken: 'replyToken1',
+      },
+      ack: vi.fn(),
+      retry: vi.fn(),
+    },
+  ],
+}) as any;
+
+describe('LineWebhookHandler Retranslate Command', () => {
+  let handler: LineWebhookHandler;
+  const mockEnv = {
+    BASE_URL: 'https://example.com',
+    LINE_BOT_QUEUE: { send: vi.fn() },
+    ADMIN_PASSWORD: 'mock_password',
+  } as unknown as Env;
+
+  beforeEach(() => {
+    handler = new LineWebhookHandler();
+    vi.clearAllMocks();
+  });
+
+  it('should retranslate the quoted message and reply with the new translation', async () => {
+    mockPostRepository.findById.mockResolvedValueOnce({
+      post_id: 'msg1', user_id: 'parent1', room_id: 'group1', message_text: '明日は休みます', has_poll: 0,
+    });
+
+    await handler.handleQueue(createBatch('再翻訳', 'msg1'), mockEnv);
+
+    expect(mockPostRepository.findById).toHaveBeenCalledWith('msg1');
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'msg1', 'parent1', 'group1', '明日は休みます', { retranslate: true, requesterId: 'teacher1' }
+    );
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: 'Retranslated Text' },
+    ]);
+  });
+
+  it('should retranslate only the question of a quoted poll', async () => {
+    mockPostRepository.findById.mockResolvedValueOnce({
+      post_id: 'msg1', user_id: 'teacher1', room_id: 'group1', message_text: '[check] 土曜日の練習に参加しますか？', has_poll: 1,
+    });
+
+    await handler.handleQueue(createBatch('Retranslate', 'msg1'), mockEnv);
+
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'msg1', 'teacher1', 'group1', '土曜日の練習に参加しますか？', { retranslate: true, requesterId: 'teacher1' }
+    );
+  });
+
+  it('should explain the usage when no stored message is quoted', async () => {
+    mockPostRepository.findById.mockResolvedValueOnce(null);
+
+    await handler.handleQueue(createBatch('再翻訳'), mockEnv);
+    await handler.handleQueue(createBatch('再翻訳', 'botReply1'), mockEnv);
+
+    expect(mockPostRepository.findById).toHaveBeenCalledTimes(1);
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).toHaveBeenCalledTimes(2);
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      expect.objectContaining({ type: 'text', text: expect.stringContaining('「再翻訳」と送ってください') }),
+    ]);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockLogRepository,
+  mockTranslationExampleRepository,
+  mockTranslationFeedbackRepository,
+  mockTranslationCacheRepository,
+  mockProcessedEventRepository,
+  mockFailedEventRepository,
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn(),
+      pushMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      validateSignature: vi.fn().mockResolvedValue(true),
+    },
+    mockPostRepository: {
+      findById: vi.fn(),
+      retract: vi.fn(),
+      recordRetraction: vi.fn(),
+    },
+    mockLogRepository: {
+      clearTranslationLogsByPostId: vi.fn(),
+      clearPromptsByContextPostId: vi.fn(),
+      deleteDebugLogsByPostId: vi.fn(),
+      findLatestDeliveryLogByPostId: vi.fn(),
+      createDeliveryLog: vi.fn(),
+    },
+    mockTranslationExampleRepository: {
+      deleteByPostId: vi.fn(),
+    },
+    mockTranslationFeedbackRepository: {
+      deleteByPostId: vi.fn(),
+    },
+    mockTranslationCacheRepository: {
+      deleteByPostId: vi.fn(),
+    },
+    mockProcessedEventRepository: {
+      clearStepResultsByMessageId: vi.fn(),
+    },
+    mockFailedEventRepository: {
+      deleteByMessageId: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../services/line', () => {
+  return {
+    LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+  };
+});
+
+vi.mock('../db', () => {
+  return {
+    PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+    AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+    UserRepository: vi.fn().mockImplementation(function() { return {}; }),
+    RoomRepository: vi.fn().mockImplementation(function() { return {}; }),
+    LogRepository: vi.fn().mockImplementation(function() { return mockLogRepository; }),
+    ProcessedEventRepository: vi.fn().mockImplementation(function() { return mockProcessedEventRepository; }),
+    FailedEventRepository: vi.fn().mockImplementation(function() { return mockFailedEventRepository; }),
+    TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return mockTranslationFeedbackRepository; }),
+    TranslationExampleRepository: vi.fn().mockImplementation(function() { return mockTranslationExampleRepository; }),
+    TranslationCacheRepository: vi.fn().mockImplementation(function() { return mockTranslationCacheRepository; }),
+    PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+    GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+  };
+});
+
+vi.mock('../services/translator', () => {
+  return {
+    TranslationService: vi.fn().mockImplementation(function() { return {}; }),
+  };
+});
+
+const unsentAt = new Date('2024-05-01T10:00:00Z').getTime();
+
+/**
+ * 送信取り消しイベントを含むキューのバッチを作成します。
+ */
+const createBatch = (messageId: string) => ({
+  messages: [
+    {
+      body: {
+        type: 'unsend',
+        mode: 'active',
+        timestamp: unsentAt,
+        source: { type: 'group', groupId: 'group1', userId: 'parent1' },
+        unsend: { messageId },
+      },
+      ack: vi.fn(),
+      retry: vi.fn(),
+    },
+  ],
+}) as any;
+
+describe('LineWebhookHandler Unsend Events', () => {
+  let handler: LineWebhookHandler;
+  const mockEnv = {
+    BASE_URL: 'https://example.com',
+    LINE_BOT_QUEUE: { send: vi.fn() },
+    ADMIN_PASSWORD: 'mock_password',
+  } as unknown as Env;
+
+  beforeEach(() => {
+    handler = new LineWebhookHandler();
+    vi.clearAllMocks();
+    mockPostRepository.findById.mockResolvedValue({ post_id: 'msg1', user_id: 'parent1', room_id: 'group1', message_text: '明日は休みます' });
+  });
+
+  it('should retract the post and say the recent translation was withdrawn', async () => {
+    mockLogRepository.findLatestDeliveryLogByPostId.mockResolvedValueOnce({
+      timestamp: '2024-05-01T09:50:00.000Z', post_id: 'msg1', destination: 'group1', method: 'reply', success: 1,
+    });
+
+    await handler.handleQueue(createBatch('msg1'), mockEnv);
+
+    expect(mockPostRepository.recordRetraction).toHaveBeenCalledWith('msg1', '2024-05-01T10:00:00.000Z');
+    expect(mockPostRepository.retract).toHaveBeenCalledWith('msg1', '2024-05-01T10:00:00.000Z');
+    expect(mockLogRepository.clearTranslationLogsByPostId).toHaveBeenCalledWith('msg1');
+    expect(mockLogRepository.clearPromptsByContextPostId).toHaveBeenCalledWith('msg1', '明日は休みます');
+    expect(mockLogRepository.deleteDebugLogsByPostId).toHaveBeenCalledWith('msg1');
+    expect(mockTranslationExampleRepository.deleteByPostId).toHaveBeenCalledWith('msg1');
+    expect(mockTranslationFeedbackRepository.deleteByPostId).toHaveBeenCalledWith('msg1');
+    expect(mockTranslationCacheRepository.deleteByPostId).toHaveBeenCalledWith('msg1');
+    expect(mockProcessedEventRepository.clearStepResultsByMessageId).toHaveBeenCalledWith('msg1');
+    expect(mockFailedEventRepository.deleteByMessageId).toHaveBeenCalledWith('msg1');
+    expect(mockLineClient.pushMessage).toHaveBeenCalledWith('group1', [
+      expect.objectContaining({ type: 'text', text: expect.stringContaining('その翻訳も取り消しました') }),
+    ]);
+  });
+
+  it('should not send a notice when the translation was sent long ago or never sent', async () => {
+    mockLogRepository.findLatestDeliveryLogByPostId.mockResolvedValueOnce({
+      timestamp: '2024-05-01T08:00:00.000Z', post_id: 'msg1', destination: 'group1', method: 'reply', success: 1,
+    });
+    mockLogRepository.findLatestDeliveryLogByPostId.mockResolvedValueOnce(null);
+
+    await handler.handleQueue(createBatch('msg1'), mockEnv);
+    await handler.handleQueue(createBatch('msg1'), mockEnv);
+
+    expect(mockPostRepository.retract).toHaveBeenCalledTimes(2);
+    expect(mockLineClient.pushMessage).not.toHaveBeenCalled();
+  });
+
+  it('should delete the stored content of a retracted post', async () => {
+    const mockBucket = { delete: vi.fn() };
+    mockPostRepository.findById.mockResolvedValueOnce({
+      post_id: 'msg1', user_id: 'parent1', room_id: 'group1', content_type: 'image', content_key: 'posts/msg1',
+    });
+    mockLogRepository.findLatestDeliveryLogByPostId.mockResolvedValueOnce(null);
+
+    await handler.handleQueue(createBatch('msg1'), { ...mockEnv, CONTENT_BUCKET: mockBucket } as unknown as Env);
+
+    expect(mockPostRepository.retract).toHaveBeenCalledWith('msg1', '2024-05-01T10:00:00.000Z');
+    expect(mockBucket.delete).toHaveBeenCalledWith('posts/msg1');
+  });
+
+  it('should record the retraction of a message that is not stored yet', async () => {
+    mockPostRepository.findById.mockResolvedValueOnce(null);
+
+    await handler.handleQueue(createBatch('unknown1'), mockEnv);
+
+    expect(mockPostRepository.recordRetraction).toHaveBeenCalledWith('unknown1', '2024-05-01T10:00:00.000Z');
+    expect(mockProcessedEventRepository.clearStepResultsByMessageId).toHaveBeenCalledWith('unknown1');
+    expect(mockFailedEventRepository.deleteByMessageId).toHaveBeenCalledWith('unknown1');
+    expect(mockPostRepository.retract).not.toHaveBeenCalled();
+    expect(mockLineClient.pushMessage).not.toHaveBeenCalled();
+  });
+});
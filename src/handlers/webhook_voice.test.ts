@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { LineWebhookHandler } from './webhook';
+import { Env } from '../db/BaseRepository';
+
+const {
+  mockLineClient,
+  mockPostRepository,
+  mockTranslationService,
+  mockVoiceTranscriber
+} = vi.hoisted(() => {
+  return {
+    mockLineClient: {
+      replyMessage: vi.fn().mockResolvedValue({ ok: true, status: 200 }),
+      startLoadingAnimation: vi.fn(),
+      validateSignature: vi.fn().mockResolvedValue(true),
+    },
+    mockPostRepository: {
+      create: vi.fn(),
+      updateMessageText: vi.fn(),
+      isRetracted: vi.fn().mockResolvedValue(false),
+    },
+    mockTranslationService: {
+      translateMessage: vi.fn().mockResolvedValue('おはようございます。明日のリハーサルは10時です。'),
+    },
+    mockVoiceTranscriber: {
+      transcribe: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../services/line', () => {
+  return {
+    LineClient: vi.fn().mockImplementation(function() { return mockLineClient; }),
+  };
+});
+
+vi.mock('../db', () => {
+  return {
+    PostRepository: vi.fn().mockImplementation(function() { return mockPostRepository; }),
+    AnswerRepository: vi.fn().mockImplementation(function() { return {}; }),
+    UserRepository: vi.fn().mockImplementation(function() { return { createIfNotExists: vi.fn() }; }),
+    RoomRepository: vi.fn().mockImplementation(function() { return { upsert: vi.fn() }; }),
+    LogRepository: vi.fn().mockImplementation(function() { return { createDeliveryLog: vi.fn() }; }),
+    ProcessedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    FailedEventRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationFeedbackRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationExampleRepository: vi.fn().mockImplementation(function() { return {}; }),
+    TranslationCacheRepository: vi.fn().mockImplementation(function() { return {}; }),
+    PlaceRepository: vi.fn().mockImplementation(function() { return {}; }),
+    GeminiUsageRepository: vi.fn().mockImplementation(function() { return {}; }),
+  };
+});
+
+vi.mock('../services/translator', () => {
+  return {
+    TranslationService: vi.fn().mockImplementation(function() { return mockTranslationService; }),
+  };
+});
+
+vi.mock('../services/voiceTranscription', () => {
+  return {
+    VoiceTranscriber: vi.fn().mockImplementation(function() { return mockVoiceTranscriber; }),
+  };
+});
+
+/**
+ * 音声メッセージイベントを含むキューのバッチを作成します。
+ */
+const createBatch = () => ({
+  messages: [
+    {
+      body: {
+        type: 'message',
+        timestamp: 1234567890,
+        source: { type: 'group', groupId: 'group1', userId: 'teacher1' },
+        message: { type: 'audio', id: 'voice1', duration: 12000, contentProvider: { type: 'line' } },
+        replyToken: 'replyToken1',
+      },
+      ack: vi.fn(),
+      retry: vi.fn(),
+    },
+  ],
+}) as any;
+
+describe('LineWebhookHandler Voice Messages', () => {
+  let handler: LineWebhookHandler;
+  const mockEnv = {
+    BASE_URL: 'https://example.com',
+    LINE_BOT_QUEUE: { send: vi.fn() },
+    ADMIN_PASSWORD: 'mock_password',
+  } as unknown as Env;
+
+  beforeEach(() => {
+    handler = new LineWebhookHandler();
+    vi.clearAllMocks();
+  });
+
+  it('should store the transcript and reply with both the transcript and its translation', async () => {
+    mockVoiceTranscriber.transcribe.mockResolvedValueOnce('Dzień dobry, jutro próba o 10.');
+
+    await handler.handleQueue(createBatch(), mockEnv);
+
+    expect(mockVoiceTranscriber.transcribe).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'voice1', type: 'audio' }),
+      { postId: 'voice1', roomId: 'group1', userId: 'teacher1' }
+    );
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'voice1',
+      message_text: null,
+      content_type: 'audio',
+    }));
+    expect(mockPostRepository.updateMessageText).toHaveBeenCalledWith('voice1', 'Dzień dobry, jutro próba o 10.');
+    expect(mockTranslationService.translateMessage).toHaveBeenCalledWith(
+      'voice1', 'teacher1', 'group1', 'Dzień dobry, jutro próba o 10.'
+    );
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('replyToken1', [
+      { type: 'text', text: '🎙️ Dzień dobry, jutro próba o 10.\n\nおはようございます。明日のリハーサルは10時です。' },
+    ]);
+  });
+
+  it('should store the voice message without replying when there is no speech', async () => {
+    mockVoiceTranscriber.transcribe.mockResolvedValueOnce(null);
+
+    await handler.handleQueue(createBatch(), mockEnv);
+
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'voice1',
+      message_text: null,
+      content_type: 'audio',
+    }));
+    expect(mockPostRepository.updateMessageText).not.toHaveBeenCalled();
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.replyMessage).not.toHaveBeenCalled();
+  });
+
+  it('should store the voice message before reading it so that a failed read leaves no gap in the history', async () => {
+    mockVoiceTranscriber.transcribe.mockRejectedValueOnce(new Error('Gemini API error'));
+
+    await handler.handleQueue(createBatch(), mockEnv);
+
+    expect(mockPostRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'voice1',
+      message_text: null,
+      content_type: 'audio',
+    }));
+    expect(mockPostRepository.updateMessageText).not.toHaveBeenCalled();
+    expect(mockTranslationService.translateMessage).not.toHaveBeenCalled();
+  });
+});
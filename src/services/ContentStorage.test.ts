@@ -0,0 +1,56 @@
+/**
+ * @file ContentStorage.test.ts
+ * @description R2ContentStorageとストレージの作成の単体テスト。
+ *              R2バケットをモックして、コンテンツの保存・取得・削除を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { R2ContentStorage, createContentStorage, createContentKey } from './contentStorage';
+import { Env } from '../db/BaseRepository';
+
+describe('R2ContentStorage', () => {
+  let mockBucket: any;
+  let storage: R2ContentStorage;
+
+  beforeEach(() => {
+    mockBucket = {
+      put: vi.fn(),
+      get: vi.fn(),
+      delete: vi.fn(),
+    };
+    storage = new R2ContentStorage(mockBucket as R2Bucket);
+  });
+
+  it('should store the content with its content type', async () => {
+    const data = new TextEncoder().encode('pdf').buffer;
+
+    await storage.put(createContentKey('msg1'), { data, contentType: 'application/pdf' });
+
+    expect(mockBucket.put).toHaveBeenCalledWith('posts/msg1', data, { httpMetadata: { contentType: 'application/pdf' } });
+  });
+
+  it('should read the stored content back', async () => {
+    const data = new TextEncoder().encode('pdf').buffer;
+    mockBucket.get.mockResolvedValueOnce({
+      arrayBuffer: () => Promise.resolve(data),
+      httpMetadata: { contentType: 'application/pdf' },
+    });
+    mockBucket.get.mockResolvedValueOnce(null);
+
+    expect(await storage.get('posts/msg1')).toEqual({ data, contentType: 'application/pdf' });
+    expect(await storage.get('posts/missing')).toBeNull();
+  });
+
+  it('should delete the stored content', async () => {
+    await storage.delete('posts/msg1');
+
+    expect(mockBucket.delete).toHaveBeenCalledWith('posts/msg1');
+  });
+});
+
+describe('createContentStorage', () => {
+  it('should only create a storage when CONTENT_BUCKET is bound', () => {
+    expect(createContentStorage({} as Env)).toBeNull();
+    expect(createContentStorage({ CONTENT_BUCKET: {} as R2Bucket } as Env)).toBeInstanceOf(R2ContentStorage);
+  });
+});
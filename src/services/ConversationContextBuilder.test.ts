@@ -0,0 +1,164 @@
+/**
+ * @file ConversationContextBuilder.test.ts
+ * @description ConversationContextBuilderの単体テスト。
+ *              PostRepositoryをモックして、話者・役割・相対時刻の付与、コマンドの除外、トークン数の上限、引用返信の返信先を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ConversationContextBuilder, estimateTokens, formatRelativeTime } from '../services/conversationContext';
+import { PostRepository } from '../db';
+import { Env } from '../db/BaseRepository';
+import { PostWithSpeaker } from '../types/db';
+import { DEFAULT_ROOM_LANGUAGE_CONFIG } from '../utils/languages';
+
+vi.mock('../db/PostRepository');
+
+const now = new Date('2024-05-01T10:00:00Z');
+
+const createPost = (postId: string, minutesAgo: number, text: string | null, overrides: Partial<PostWithSpeaker> = {}): PostWithSpeaker => ({
+  post_id: postId,
+  timestamp: new Date(now.getTime() - minutesAgo * 60000).toISOString(),
+  user_id: 'U1',
+  room_id: 'R1',
+  message_text: text,
+  has_poll: 0,
+  translated_text: null,
+  display_name: 'Hana',
+  ...overrides,
+});
+
+describe('ConversationContextBuilder', () => {
+  let mockEnv: Env;
+  let mockPostRepository: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnv = { DB: {} as D1Database } as Env;
+    mockPostRepository = {
+      findContextPostsByRoomId: vi.fn().mockResolvedValue([]),
+      findContextPostsByUserId: vi.fn().mockResolvedValue([]),
+      findWithSpeakerById: vi.fn().mockResolvedValue(null),
+    };
+    vi.mocked(PostRepository).mockImplementation(function () {
+      return mockPostRepository;
+    });
+  });
+
+  it('should list earlier messages chronologically with speaker, role, time and translation', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValue([
+      createPost('P3', 0, 'Ona jest chora?'),
+      createPost('P2', 3, 'Moja córka jest chora dzisiaj', {
+        display_name: 'Kasia',
+        translated_text: '娘は今日具合が悪いです',
+      }),
+      createPost('P1', 90, '今日は休みます', { display_name: '' }),
+    ]);
+
+    const entries = await new ConversationContextBuilder(mockEnv).build('P3', 'U1', 'R1', DEFAULT_ROOM_LANGUAGE_CONFIG, now);
+
+    expect(mockPostRepository.findContextPostsByRoomId).toHaveBeenCalledWith('R1', 20);
+    expect(entries.map(entry => entry.text)).toEqual([
+      '[1時間前] 名前未登録のユーザー (生徒の保護者): 今日は休みます',
+      '[3分前] Kasia (先生): Moja córka jest chora dzisiaj\n   訳: 娘は今日具合が悪いです',
+    ]);
+  });
+
+  it('should exclude poll commands, name registrations, retranslate and place commands and translation suggestions', async () => {
+    mockPostRepository.findContextPostsByUserId.mockResolvedValue([
+      createPost('P7', 1, '場所登録 発表会会場'),
+      createPost('P6', 1, '再翻訳'),
+      createPost('P5', 1, '✏️ Jutro lekcja zaczyna się o 16:00'),
+      createPost('P4', 1, '[check] 土曜日の練習に参加しますか？', { has_poll: 1 }),
+      createPost('P3', 2, '私の名前は"ハナ"'),
+      createPost('P2', 3, '   '),
+      createPost('P1', 4, '明日の練習は何時からですか？'),
+    ]);
+
+    const entries = await new ConversationContextBuilder(mockEnv).build('P8', 'U1', null, DEFAULT_ROOM_LANGUAGE_CONFIG, now);
+
+    expect(mockPostRepository.findContextPostsByUserId).toHaveBeenCalledWith('U1', 20);
+    expect(entries.map(entry => entry.post.post_id)).toEqual(['P1']);
+  });
+
+  it('should describe photos, stickers, files and locations and skip retracted posts', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValue([
+      createPost('P5', 1, null, {
+        content_type: 'sticker',
+        content_metadata: '{"packageId":"11537","stickerId":"52002734","keywords":["thank you","bow"]}',
+      }),
+      createPost('P4', 2, null, { content_type: 'file', content_metadata: '{"fileName":"harmonogram.pdf","fileSize":20480}', display_name: 'Kasia' }),
+      createPost('P3', 3, null, { content_type: 'image', retracted_at: '2024-05-01T09:58:00.000Z' }),
+      createPost('P2', 4, 'Koncert w sobotę', { content_type: 'image', display_name: 'Kasia' }),
+      createPost('P1', 5, null, {
+        content_type: 'location',
+        content_metadata: '{"title":"Filharmonia","address":"ul. Sienkiewicza 3","latitude":50.06,"longitude":19.93}',
+        display_name: 'Kasia',
+      }),
+    ]);
+
+    const entries = await new ConversationContextBuilder(mockEnv).build('P6', 'U1', 'R1', DEFAULT_ROOM_LANGUAGE_CONFIG, now);
+
+    expect(entries.map(entry => entry.text)).toEqual([
+      '[5分前] Kasia: [位置情報: Filharmonia (ul. Sienkiewicza 3)]',
+      '[4分前] Kasia (先生): [写真] Koncert w sobotę',
+      '[2分前] Kasia: [ファイル: harmonogram.pdf]',
+      '[1分前] Hana: [スタンプ: thank you, bow]',
+    ]);
+  });
+
+  it('should keep only the newest messages that fit in the token budget', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValue([
+      createPost('P3', 1, 'あいうえお'.repeat(4)),
+      createPost('P2', 2, 'かきくけこ'.repeat(4)),
+      createPost('P1', 3, 'さしすせそ'.repeat(4)),
+    ]);
+    mockEnv.TRANSLATION_CONTEXT_TOKEN_BUDGET = '80';
+
+    const entries = await new ConversationContextBuilder(mockEnv).build('P4', 'U1', 'R1', DEFAULT_ROOM_LANGUAGE_CONFIG, now);
+
+    expect(entries.map(entry => entry.post.post_id)).toEqual(['P2', 'P3']);
+  });
+
+  it('should format the quoted message of a reply as the reply target', async () => {
+    mockPostRepository.findWithSpeakerById.mockResolvedValue(
+      createPost('P1', 60, '来週の土曜日は振替レッスンに参加してもいいですか？', {
+        translated_text: 'Czy możemy przyjść na lekcję zastępczą w przyszłą sobotę?',
+      })
+    );
+
+    const entry = await new ConversationContextBuilder(mockEnv).buildQuoted('P1', DEFAULT_ROOM_LANGUAGE_CONFIG, now);
+
+    expect(mockPostRepository.findWithSpeakerById).toHaveBeenCalledWith('P1');
+    expect(entry?.post.post_id).toBe('P1');
+    expect(entry?.text).toBe(
+      '[1時間前] Hana (生徒の保護者): 来週の土曜日は振替レッスンに参加してもいいですか？\n   訳: Czy możemy przyjść na lekcję zastępczą w przyszłą sobotę?'
+    );
+  });
+
+  it('should return null when the quoted message is not stored or has no text', async () => {
+    const builder = new ConversationContextBuilder(mockEnv);
+    expect(await builder.buildQuoted('botReply1', DEFAULT_ROOM_LANGUAGE_CONFIG, now)).toBeNull();
+
+    mockPostRepository.findWithSpeakerById.mockResolvedValue(createPost('P1', 5, '  '));
+    expect(await builder.buildQuoted('P1', DEFAULT_ROOM_LANGUAGE_CONFIG, now)).toBeNull();
+  });
+});
+
+describe('estimateTokens', () => {
+  it('should count CJK characters individually and other text by four characters', () => {
+    expect(estimateTokens('こんにちは')).toBe(5);
+    expect(estimateTokens('Dzień dobry!')).toBe(3);
+  });
+});
+
+describe('formatRelativeTime', () => {
+  it.each([
+    ['2024-05-01T09:59:30Z', 'たった今'],
+    ['2024-05-01T09:45:00Z', '15分前'],
+    ['2024-05-01T07:00:00Z', '3時間前'],
+    ['2024-04-29T10:00:00Z', '2日前'],
+    ['invalid', '時刻不明'],
+  ])('should format %s as %s', (timestamp, expected) => {
+    expect(formatRelativeTime(timestamp, now)).toBe(expected);
+  });
+});
@@ -1,13 +1,17 @@
 /**
  * @file GeminiClient.test.ts
  * @description GeminiClientの単体テスト。
- *              @google/generative-aiライブラリをモックして、テキスト生成とリトライ・フォールバックロジックを検証します。
+ *              @google/generative-aiライブラリとGeminiUsageRepositoryをモックして、
+ *              ModelHealthRepositoryもモックして、テキスト生成とリトライ・フォールバックロジック、
+ *              使用量の記録、クールダウン中のモデルを飛ばす振り分けを検証します。
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { GeminiClient } from './gemini';
 import { Env } from '../db/BaseRepository';
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { GeminiUsageRepository } from '../db/GeminiUsageRepository';
+import { ModelHealthRepository } from '../db/ModelHealthRepository';
 
 // vi.hoisted を使用してモック関数を定義（vi.mock内から参照できるようにする）
 const mocks = vi.hoisted(() => {
@@ -33,9 +37,14 @@ vi.mock('@google/generative-ai', () => {
   };
 });
 
+vi.mock('../db/GeminiUsageRepository');
+vi.mock('../db/ModelHealthRepository');
+
 describe('GeminiClient', () => {
   let geminiClient: GeminiClient;
   let mockEnv: Env;
+  let mockGeminiUsageRepository: any;
+  let mockModelHealthRepository: any;
   let consoleWarnSpy: any;
   let consoleErrorSpy: any;
 
@@ -52,6 +61,19 @@ describe('GeminiClient', () => {
       BASE_URL: 'https://example.com',
       ADMIN_PASSWORD: 'mock_password',
     };
+    mockGeminiUsageRepository = {
+      create: vi.fn(),
+    };
+    vi.mocked(GeminiUsageRepository).mockImplementation(function () {
+      return mockGeminiUsageRepository;
+    });
+    mockModelHealthRepository = {
+      findAll: vi.fn().mockResolvedValue([]),
+      save: vi.fn(),
+    };
+    vi.mocked(ModelHealthRepository).mockImplementation(function () {
+      return mockModelHealthRepository;
+    });
     geminiClient = new GeminiClient(mockEnv);
   });
 
@@ -177,7 +199,7 @@ describe('GeminiClient', () => {
 
     mocks.sendMessage.mockRejectedValue({ response: { status: 503 } }); // All attempts fail
 
-    const promise = geminiClient.generateText('Test prompt', [], 3);
+    const promise = geminiClient.generateText('Test prompt', {}, [], 3);
 
     const assertPromise = expect(promise).rejects.toThrow();
 
@@ -261,4 +283,208 @@ describe('GeminiClient', () => {
     // Verify setTimeout was called with 3500ms
     expect(setTimeoutSpy).toHaveBeenCalledWith(expect.any(Function), 3500);
   });
+
+  describe('usage recording', () => {
+    it('should record the answering model, fallback path, tokens and cost', async () => {
+      mocks.sendMessage
+        .mockRejectedValueOnce({ response: { status: 429 } })
+        .mockResolvedValueOnce({
+          response: {
+            text: () => 'OK',
+            usageMetadata: { promptTokenCount: 1000, candidatesTokenCount: 200 },
+          },
+        });
+
+      await geminiClient.generateText('Test prompt', { purpose: 'translation', postId: 'P1', roomId: 'R1', userId: 'U1' });
+
+      expect(mockGeminiUsageRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        purpose: 'translation',
+        post_id: 'P1',
+        room_id: 'R1',
+        user_id: 'U1',
+        model: 'gemini-2.5-flash',
+        attempts: 2,
+        fallback_path: 'gemini-2.5-flash-lite:429 > gemini-2.5-flash:ok',
+        prompt_tokens: 1000,
+        output_tokens: 200,
+        cost_usd: (1000 * 0.3 + 200 * 2.5) / 1_000_000,
+        latency_ms: expect.any(Number),
+        status: 'success',
+        error_message: null,
+      }));
+    });
+
+    it('should record a failed call', async () => {
+      mocks.sendMessage.mockRejectedValue(new Error('Invalid argument'));
+
+      await expect(geminiClient.generateText('Test prompt')).rejects.toThrow('Invalid argument');
+
+      expect(mockGeminiUsageRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        purpose: null,
+        model: 'gemini-2.5-flash-lite',
+        attempts: 1,
+        fallback_path: 'gemini-2.5-flash-lite:error',
+        prompt_tokens: null,
+        cost_usd: null,
+        status: 'error',
+        error_message: 'Invalid argument',
+      }));
+    });
+
+    it('should return the text even when the usage cannot be saved', async () => {
+      mockGeminiUsageRepository.create.mockRejectedValueOnce(new Error('D1 error'));
+      mocks.sendMessage.mockResolvedValueOnce({ response: { text: () => 'OK' } });
+
+      await expect(geminiClient.generateText('Test prompt')).resolves.toBe('OK');
+      expect(consoleWarnSpy).toHaveBeenCalledWith('Failed to record Gemini usage:', expect.any(Error));
+    });
+  });
+
+  it('should only use the economy models when requested', async () => {
+    mocks.sendMessage.mockRejectedValue({ response: { status: 429 } });
+
+    await expect(geminiClient.generateText('Test prompt', { economy: true })).rejects.toEqual({ response: { status: 429 } });
+
+    expect(mocks.getGenerativeModel).toHaveBeenCalledTimes(2);
+    expect(mocks.getGenerativeModel).toHaveBeenNthCalledWith(1, { model: 'gemini-2.5-flash-lite' });
+    expect(mocks.getGenerativeModel).toHaveBeenNthCalledWith(2, { model: 'gemma-3-27b-it' });
+  });
+
+  it('should try the more accurate models first when retranslating', async () => {
+    mocks.sendMessage
+      .mockRejectedValueOnce({ response: { status: 429 } })
+      .mockResolvedValueOnce({ response: { text: () => 'OK' } });
+
+    await expect(geminiClient.generateText('Test prompt', { accurate: true })).resolves.toBe('OK');
+
+    expect(mocks.getGenerativeModel).toHaveBeenNthCalledWith(1, { model: 'gemini-3-flash-preview' });
+    expect(mocks.getGenerativeModel).toHaveBeenNthCalledWith(2, { model: 'gemini-2.5-flash' });
+  });
+
+  describe('image and audio input', () => {
+    const image = { data: 'aW1hZ2U=', mimeType: 'image/jpeg' };
+
+    it('should send the prompt together with the image', async () => {
+      mocks.sendMessage.mockResolvedValueOnce({ response: { text: () => 'Harmonogram koncertu' } });
+
+      const result = await geminiClient.generateFromMedia('Transcribe', image, { purpose: 'image_text_extraction', postId: 'P1' });
+
+      expect(result).toBe('Harmonogram koncertu');
+      expect(mocks.sendMessage).toHaveBeenCalledWith(['Transcribe', { inlineData: image }]);
+      expect(mockGeminiUsageRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        purpose: 'image_text_extraction',
+        post_id: 'P1',
+        model: 'gemini-2.5-flash-lite',
+      }));
+    });
+
+    it('should not fall back to models without image input', async () => {
+      mocks.sendMessage.mockRejectedValue({ response: { status: 429 } });
+
+      await expect(geminiClient.generateFromMedia('Transcribe', image)).rejects.toEqual({ response: { status: 429 } });
+
+      expect(mocks.getGenerativeModel).toHaveBeenCalledTimes(3);
+      expect(mocks.getGenerativeModel).not.toHaveBeenCalledWith({ model: 'gemma-3-27b-it' });
+    });
+
+    it('should only use the cheapest model in economy mode', async () => {
+      mocks.sendMessage.mockResolvedValueOnce({ response: { text: () => 'OK' } });
+
+      await geminiClient.generateFromMedia('Transcribe', image, { economy: true });
+
+      expect(mocks.getGenerativeModel).toHaveBeenCalledTimes(1);
+      expect(mocks.getGenerativeModel).toHaveBeenCalledWith({ model: 'gemini-2.5-flash-lite' });
+    });
+
+    it('should transcribe audio as a speech-to-text provider', async () => {
+      mocks.sendMessage.mockResolvedValueOnce({ response: { text: () => 'Dzień dobry, jutro próba o 10.\n' } });
+
+      const audio = { data: new TextEncoder().encode('audio').buffer, contentType: 'audio/m4a' };
+      const result = await geminiClient.transcribe(audio, { postId: 'P1' });
+
+      expect(result).toBe('Dzień dobry, jutro próba o 10.');
+      expect(mocks.sendMessage).toHaveBeenCalledWith([
+        expect.stringContaining('書き起こして'),
+        { inlineData: { data: btoa('audio'), mimeType: 'audio/m4a' } },
+      ]);
+      expect(mockGeminiUsageRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        purpose: 'speech_to_text',
+        post_id: 'P1',
+      }));
+    });
+
+    it('should return an empty transcript when there is no speech', async () => {
+      mocks.sendMessage.mockResolvedValueOnce({ response: { text: () => 'NO_SPEECH' } });
+
+      const audio = { data: new ArrayBuffer(0), contentType: 'audio/m4a' };
+      expect(await geminiClient.transcribe(audio)).toBe('');
+    });
+  });
+
+  describe('model health', () => {
+    const coolingDown = (model: string, cooldownUntil: string) => ({
+      model,
+      cooldown_until: cooldownUntil,
+      consecutive_failures: 1,
+      window_started_at: new Date().toISOString(),
+      window_requests: 1,
+      window_failures: 1,
+      last_status: '429',
+      last_success_at: null,
+      last_failure_at: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+
+    it('should start from the first model that is not cooling down', async () => {
+      mockModelHealthRepository.findAll.mockResolvedValueOnce([
+        coolingDown('gemini-2.5-flash-lite', new Date(Date.now() + 60000).toISOString()),
+      ]);
+      mocks.sendMessage.mockResolvedValueOnce({ response: { text: () => 'OK' } });
+
+      await expect(geminiClient.generateText('Test prompt')).resolves.toBe('OK');
+
+      expect(mocks.getGenerativeModel).toHaveBeenCalledTimes(1);
+      expect(mocks.getGenerativeModel).toHaveBeenCalledWith({ model: 'gemini-2.5-flash' });
+      expect(mockModelHealthRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'gemini-2.5-flash',
+        last_status: 'ok',
+        cooldown_until: null,
+      }));
+    });
+
+    it('should use a model again after its cooldown has ended', async () => {
+      mockModelHealthRepository.findAll.mockResolvedValueOnce([
+        coolingDown('gemini-2.5-flash-lite', new Date(Date.now() - 1000).toISOString()),
+      ]);
+      mocks.sendMessage.mockResolvedValueOnce({ response: { text: () => 'OK' } });
+
+      await geminiClient.generateText('Test prompt');
+
+      expect(mocks.getGenerativeModel).toHaveBeenCalledWith({ model: 'gemini-2.5-flash-lite' });
+    });
+
+    it('should put a model that returned 429 into cooldown', async () => {
+      mocks.sendMessage
+        .mockRejectedValueOnce({ response: { status: 429 } })
+        .mockResolvedValueOnce({ response: { text: () => 'OK' } });
+
+      await geminiClient.generateText('Test prompt');
+
+      expect(mockModelHealthRepository.save).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        model: 'gemini-2.5-flash-lite',
+        last_status: '429',
+        consecutive_failures: 1,
+        cooldown_until: new Date(Date.now() + 60000).toISOString(),
+      }));
+    });
+
+    it('should still generate text when the model health cannot be loaded', async () => {
+      mockModelHealthRepository.findAll.mockRejectedValueOnce(new Error('D1 error'));
+      mocks.sendMessage.mockResolvedValueOnce({ response: { text: () => 'OK' } });
+
+      await expect(geminiClient.generateText('Test prompt')).resolves.toBe('OK');
+      expect(consoleWarnSpy).toHaveBeenCalledWith('Failed to load model health:', expect.any(Error));
+      expect(mocks.getGenerativeModel).toHaveBeenCalledWith({ model: 'gemini-2.5-flash-lite' });
+    });
+  });
 });
@@ -0,0 +1,87 @@
+/**
+ * @file ImageTextExtractor.test.ts
+ * @description ImageTextExtractorの単体テスト。
+ *              LineClient・GeminiClient・UsageLimiterをモックして、画像の取得と文章の読み取りを検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ImageTextExtractor } from '../services/imageText';
+import { LineClient } from '../services/line';
+import { GeminiClient } from '../services/gemini';
+import { UsageLimiter } from '../services/usageLimits';
+import { Env } from '../db/BaseRepository';
+import { ImageMessage } from '../types/line';
+
+vi.mock('../services/line');
+vi.mock('../services/gemini');
+vi.mock('../services/usageLimits');
+
+const lineImage: ImageMessage = { id: 'msg1', type: 'image', contentProvider: { type: 'line' } };
+const generation = { postId: 'msg1', roomId: 'group1', userId: 'teacher1' };
+
+describe('ImageTextExtractor', () => {
+  let extractor: ImageTextExtractor;
+  let mockLineClient: any;
+  let mockGeminiClient: any;
+  let mockUsageLimiter: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockLineClient = {
+      getContent: vi.fn().mockResolvedValue({
+        data: new TextEncoder().encode('image').buffer,
+        contentType: 'image/jpeg; charset=binary',
+      }),
+    };
+    vi.mocked(LineClient).mockImplementation(function () {
+      return mockLineClient;
+    });
+    mockGeminiClient = {
+      generateFromMedia: vi.fn().mockResolvedValue('Koncert: sobota 10:00\n'),
+    };
+    vi.mocked(GeminiClient).mockImplementation(function () {
+      return mockGeminiClient;
+    });
+    mockUsageLimiter = {
+      check: vi.fn().mockResolvedValue({ action: 'allow', economy: false }),
+    };
+    vi.mocked(UsageLimiter).mockImplementation(function () {
+      return mockUsageLimiter;
+    });
+    extractor = new ImageTextExtractor({ DB: {} as D1Database } as Env);
+  });
+
+  it('should fetch the image from LINE and transcribe it', async () => {
+    const text = await extractor.extract(lineImage, generation);
+
+    expect(text).toBe('Koncert: sobota 10:00');
+    expect(mockLineClient.getContent).toHaveBeenCalledWith(lineImage);
+    expect(mockGeminiClient.generateFromMedia).toHaveBeenCalledWith(
+      expect.stringContaining('書き起こして'),
+      { data: btoa('image'), mimeType: 'image/jpeg' },
+      { ...generation, purpose: 'image_text_extraction', economy: false }
+    );
+  });
+
+  it('should return null when the image has no text', async () => {
+    mockGeminiClient.generateFromMedia.mockResolvedValueOnce('NO_TEXT');
+
+    expect(await extractor.extract(lineImage, generation)).toBeNull();
+  });
+
+  it('should not read the image when the user has reached the usage limit', async () => {
+    mockUsageLimiter.check.mockResolvedValueOnce({ action: 'deny', reason: 'rate_limited' });
+
+    expect(await extractor.extract(lineImage, generation)).toBeNull();
+    expect(mockLineClient.getContent).not.toHaveBeenCalled();
+    expect(mockGeminiClient.generateFromMedia).not.toHaveBeenCalled();
+  });
+
+  it('should throw when the image cannot be fetched', async () => {
+    mockLineClient.getContent.mockRejectedValueOnce(new Error('LINE API error: 410'));
+
+    await expect(extractor.extract(lineImage, generation)).rejects.toThrow('LINE API error: 410');
+  });
+});
@@ -137,6 +137,52 @@ describe('LineClient', () => {
     await expect(lineClient.getGroupMemberProfile('test_group', 'non_existent_member')).rejects.toThrow('LINE API error: 404');
   });
 
+  it('should get message content from the data API', async () => {
+    const data = new Uint8Array([0xff, 0xd8, 0xff]).buffer;
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      arrayBuffer: () => Promise.resolve(data),
+      headers: new Headers({ 'Content-Type': 'image/jpeg' }),
+    });
+
+    const content = await lineClient.getMessageContent('msg1');
+    expect(content).toEqual({ data, contentType: 'image/jpeg' });
+    expect(mockFetch).toHaveBeenCalledWith('https://api-data.line.me/v2/bot/message/msg1/content', {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${mockEnv.LINE_CHANNEL_ACCESS_TOKEN}`,
+      },
+    });
+  });
+
+  it('should throw error when getting message content fails', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 410,
+    });
+
+    await expect(lineClient.getMessageContent('expired_msg')).rejects.toThrow('LINE API error: 410');
+  });
+
+  it('should get the content of an external image from its original URL', async () => {
+    const data = new Uint8Array([0x89, 0x50]).buffer;
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      status: 200,
+      arrayBuffer: () => Promise.resolve(data),
+      headers: new Headers({ 'Content-Type': 'image/png' }),
+    });
+
+    const content = await lineClient.getContent({
+      id: 'msg1',
+      type: 'image',
+      contentProvider: { type: 'external', originalContentUrl: 'https://example.com/notice.png' },
+    });
+    expect(content).toEqual({ data, contentType: 'image/png' });
+    expect(mockFetch).toHaveBeenCalledWith('https://example.com/notice.png');
+  });
+
   it('should start loading animation', async () => {
     mockFetch.mockResolvedValueOnce({
       ok: true,
@@ -0,0 +1,131 @@
+/**
+ * @file MessageDeliveryService.test.ts
+ * @description MessageDeliveryServiceの単体テスト。
+ *              LineClientとLogRepositoryをモックして、Reply APIからPush APIへのフォールバックと送信ログの記録を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MessageDeliveryService } from '../services/delivery';
+import { LineClient } from '../services/line';
+import { LogRepository } from '../db';
+import { Env } from '../db/BaseRepository';
+
+vi.mock('../services/line');
+vi.mock('../db/LogRepository');
+
+const createResponse = (status: number, body = '') => ({
+  ok: status >= 200 && status < 300,
+  status,
+  text: () => Promise.resolve(body),
+});
+
+describe('MessageDeliveryService', () => {
+  let deliveryService: MessageDeliveryService;
+  let mockLineClient: any;
+  let mockLogRepository: any;
+  const messages = [{ type: 'text', text: 'Translated' }];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    mockLineClient = {
+      replyMessage: vi.fn(),
+      pushMessage: vi.fn(),
+    };
+    mockLogRepository = {
+      createDeliveryLog: vi.fn(),
+    };
+    vi.mocked(LineClient).mockImplementation(function () {
+      return mockLineClient;
+    });
+    vi.mocked(LogRepository).mockImplementation(function () {
+      return mockLogRepository;
+    });
+
+    deliveryService = new MessageDeliveryService({} as Env);
+  });
+
+  it('should reply when the reply token is valid', async () => {
+    mockLineClient.replyMessage.mockResolvedValueOnce(createResponse(200));
+
+    const result = await deliveryService.deliver({ replyToken: 'token1', to: 'group1', postId: 'msg1' }, messages);
+
+    expect(result).toEqual({ method: 'reply' });
+    expect(mockLineClient.replyMessage).toHaveBeenCalledWith('token1', messages);
+    expect(mockLineClient.pushMessage).not.toHaveBeenCalled();
+    expect(mockLogRepository.createDeliveryLog).toHaveBeenCalledWith(expect.objectContaining({
+      post_id: 'msg1',
+      destination: 'group1',
+      method: 'reply',
+      success: 1,
+      status_code: 200,
+      error_body: null,
+    }));
+  });
+
+  it('should fall back to push when the reply token is invalid or expired', async () => {
+    const errorBody = '{"message":"Invalid reply token"}';
+    mockLineClient.replyMessage.mockResolvedValueOnce(createResponse(400, errorBody));
+    mockLineClient.pushMessage.mockResolvedValueOnce(createResponse(200));
+
+    const result = await deliveryService.deliver({ replyToken: 'expired', to: 'group1', postId: 'msg1' }, messages);
+
+    expect(result).toEqual({ method: 'push' });
+    expect(mockLineClient.pushMessage).toHaveBeenCalledWith('group1', messages);
+    expect(mockLogRepository.createDeliveryLog).toHaveBeenNthCalledWith(1, expect.objectContaining({
+      method: 'reply',
+      success: 0,
+      status_code: 400,
+      error_body: errorBody,
+    }));
+    expect(mockLogRepository.createDeliveryLog).toHaveBeenNthCalledWith(2, expect.objectContaining({
+      method: 'push',
+      success: 1,
+      status_code: 200,
+    }));
+  });
+
+  it('should push directly when there is no reply token', async () => {
+    mockLineClient.pushMessage.mockResolvedValueOnce(createResponse(200));
+
+    const result = await deliveryService.deliver({ to: 'user1' }, messages);
+
+    expect(result).toEqual({ method: 'push' });
+    expect(mockLineClient.replyMessage).not.toHaveBeenCalled();
+    expect(mockLineClient.pushMessage).toHaveBeenCalledWith('user1', messages);
+  });
+
+  it('should throw without pushing when the reply fails for another reason', async () => {
+    mockLineClient.replyMessage.mockResolvedValueOnce(createResponse(500, '{"message":"Internal error"}'));
+
+    await expect(
+      deliveryService.deliver({ replyToken: 'token1', to: 'group1' }, messages)
+    ).rejects.toThrow('LINE reply API error: 500');
+    expect(mockLineClient.pushMessage).not.toHaveBeenCalled();
+  });
+
+  it('should throw and log the error body when the push fails', async () => {
+    const errorBody = '{"message":"You have reached your monthly limit."}';
+    mockLineClient.replyMessage.mockResolvedValueOnce(createResponse(400, '{"message":"Invalid reply token"}'));
+    mockLineClient.pushMessage.mockResolvedValueOnce(createResponse(429, errorBody));
+
+    await expect(
+      deliveryService.deliver({ replyToken: 'expired', to: 'group1' }, messages)
+    ).rejects.toThrow('LINE push API error: 429');
+    expect(mockLogRepository.createDeliveryLog).toHaveBeenLastCalledWith(expect.objectContaining({
+      method: 'push',
+      success: 0,
+      status_code: 429,
+      error_body: errorBody,
+    }));
+  });
+
+  it('should throw when falling back without a destination', async () => {
+    mockLineClient.replyMessage.mockResolvedValueOnce(createResponse(400, '{"message":"Invalid reply token"}'));
+
+    await expect(
+      deliveryService.deliver({ replyToken: 'expired', to: null }, messages)
+    ).rejects.toThrow('destination is unknown');
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * @file ModelHealthTracker.test.ts
+ * @description ModelHealthTrackerの単体テスト。
+ *              ModelHealthRepositoryをモックして、クールダウンの開始・延長・解除と、エラー率による判定を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ModelHealthTracker } from '../services/modelHealth';
+import { ModelHealthRepository } from '../db';
+import { Env } from '../db/BaseRepository';
+import { ModelHealth } from '../types/db';
+
+vi.mock('../db/ModelHealthRepository');
+
+describe('ModelHealthTracker', () => {
+  let mockModelHealthRepository: any;
+  let tracker: ModelHealthTracker;
+  const now = new Date('2024-05-15T10:00:00Z');
+  const models = ['model-a', 'model-b', 'model-c'];
+
+  const health = (model: string, overrides: Partial<ModelHealth> = {}): ModelHealth => ({
+    model,
+    cooldown_until: null,
+    consecutive_failures: 0,
+    window_started_at: '2024-05-15T09:58:00.000Z',
+    window_requests: 0,
+    window_failures: 0,
+    last_status: null,
+    last_success_at: null,
+    last_failure_at: null,
+    updated_at: '2024-05-15T09:58:00.000Z',
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockModelHealthRepository = {
+      findAll: vi.fn().mockResolvedValue([]),
+      save: vi.fn(),
+    };
+    vi.mocked(ModelHealthRepository).mockImplementation(function () {
+      return mockModelHealthRepository;
+    });
+    tracker = new ModelHealthTracker({ DB: {} as D1Database } as Env);
+  });
+
+  it('should skip models that are cooling down', async () => {
+    mockModelHealthRepository.findAll.mockResolvedValue([
+      health('model-a', { cooldown_until: '2024-05-15T10:01:00.000Z' }),
+      health('model-b', { cooldown_until: '2024-05-15T09:59:00.000Z' }),
+    ]);
+
+    expect(await tracker.selectModels(models, now)).toEqual(['model-b', 'model-c']);
+  });
+
+  it('should try every model by the end of its cooldown when all are cooling down', async () => {
+    mockModelHealthRepository.findAll.mockResolvedValue([
+      health('model-a', { cooldown_until: '2024-05-15T10:05:00.000Z' }),
+      health('model-b', { cooldown_until: '2024-05-15T10:01:00.000Z' }),
+      health('model-c', { cooldown_until: '2024-05-15T10:03:00.000Z' }),
+    ]);
+
+    expect(await tracker.selectModels(models, now)).toEqual(['model-b', 'model-c', 'model-a']);
+  });
+
+  it('should double the cooldown for consecutive 429 responses', async () => {
+    mockModelHealthRepository.findAll.mockResolvedValue([
+      health('model-a', { consecutive_failures: 2, window_requests: 2, window_failures: 2 }),
+    ]);
+    await tracker.selectModels(models, now);
+
+    await tracker.recordOutcome('model-a', '429', now);
+
+    expect(mockModelHealthRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'model-a',
+      consecutive_failures: 3,
+      window_requests: 3,
+      window_failures: 3,
+      cooldown_until: '2024-05-15T10:04:00.000Z',
+      last_status: '429',
+      last_failure_at: now.toISOString(),
+    }));
+  });
+
+  it('should cool down a model whose error rate in the window is too high', async () => {
+    mockModelHealthRepository.findAll.mockResolvedValue([
+      health('model-a', { window_requests: 3, window_failures: 1 }),
+    ]);
+    await tracker.selectModels(models, now);
+
+    await tracker.recordOutcome('model-a', '500', now);
+
+    expect(mockModelHealthRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+      window_requests: 4,
+      window_failures: 2,
+      cooldown_until: '2024-05-15T10:01:00.000Z',
+    }));
+  });
+
+  it('should restart the window after it has ended and ignore errors caused by the prompt', async () => {
+    mockModelHealthRepository.findAll.mockResolvedValue([
+      health('model-a', { window_started_at: '2024-05-15T09:50:00.000Z', window_requests: 9, window_failures: 9 }),
+    ]);
+    await tracker.selectModels(models, now);
+
+    await tracker.recordOutcome('model-a', '400', now);
+
+    expect(mockModelHealthRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+      window_started_at: now.toISOString(),
+      window_requests: 1,
+      window_failures: 0,
+      cooldown_until: null,
+    }));
+  });
+
+  it('should clear the cooldown after a successful call', async () => {
+    mockModelHealthRepository.findAll.mockResolvedValue([
+      health('model-a', { cooldown_until: '2024-05-15T09:59:00.000Z', consecutive_failures: 4 }),
+    ]);
+    await tracker.selectModels(models, now);
+
+    await tracker.recordOutcome('model-a', 'ok', now);
+
+    expect(mockModelHealthRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+      cooldown_until: null,
+      consecutive_failures: 0,
+      last_success_at: now.toISOString(),
+    }));
+  });
+
+  it('should report the status and error rate of each model', async () => {
+    mockModelHealthRepository.findAll.mockResolvedValue([
+      health('model-a', { cooldown_until: '2024-05-15T10:01:00.000Z', window_requests: 4, window_failures: 1 }),
+    ]);
+
+    const statuses = await tracker.getStatuses(['model-a', 'model-b'], now);
+
+    expect(statuses).toEqual([
+      expect.objectContaining({ model: 'model-a', healthy: false, errorRate: 0.25 }),
+      { model: 'model-b', healthy: true, errorRate: null, health: null },
+    ]);
+  });
+});
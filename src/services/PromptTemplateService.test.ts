@@ -0,0 +1,102 @@
+/**
+ * @file PromptTemplateService.test.ts
+ * @description プロンプトテンプレートの展開・検証と、PromptTemplateServiceの単体テスト。
+ *              PromptTemplateRepositoryをモックして、ルームで選択されたテンプレートの解決を検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  PromptTemplateService,
+  BUILTIN_PROMPT_TEMPLATE,
+  BUILTIN_PROMPT_TEMPLATE_VERSION,
+  SAMPLE_PROMPT_VARIABLES,
+  renderPromptTemplate,
+  validatePromptTemplate,
+} from '../services/promptTemplates';
+import { PromptTemplateRepository } from '../db';
+import { Env } from '../db/BaseRepository';
+
+vi.mock('../db/PromptTemplateRepository');
+
+describe('renderPromptTemplate', () => {
+  it('should replace variables and keep unknown placeholders', () => {
+    expect(renderPromptTemplate('訳: {{source_text}} ({{URL_1}})', { source_text: 'こんにちは' }))
+      .toBe('訳: こんにちは ({{URL_1}})');
+  });
+
+  it('should include sections only when the variable is set', () => {
+    const body = '{{#glossary}}[{{glossary}}]{{/glossary}}{{^glossary}}no glossary{{/glossary}}';
+    expect(renderPromptTemplate(body, { glossary: 'terms' })).toBe('[terms]');
+    expect(renderPromptTemplate(body, { glossary: '' })).toBe('no glossary');
+  });
+
+  it('should render nested sections', () => {
+    const body = '{{^japanese_only}}A{{#polish}}B{{/polish}}C{{/japanese_only}}';
+    expect(renderPromptTemplate(body, { japanese_only: '', polish: '1' })).toBe('ABC');
+    expect(renderPromptTemplate(body, { japanese_only: '', polish: '' })).toBe('AC');
+  });
+
+  it('should not expand template syntax inside the message', () => {
+    expect(renderPromptTemplate('{{source_text}}', { source_text: '{{output_format}} {{#polish}}x{{/polish}}', output_format: 'JSON' }))
+      .toBe('{{output_format}} {{#polish}}x{{/polish}}');
+  });
+
+  it('should render the built-in template with the sample variables', () => {
+    const prompt = renderPromptTemplate(BUILTIN_PROMPT_TEMPLATE, SAMPLE_PROMPT_VARIABLES);
+    expect(prompt).toContain('以下の日本語テキストを「ポーランド語」と「英語」の両方に翻訳してください。');
+    expect(prompt).toContain('【会話の文脈】');
+    expect(prompt).toContain('3. [4分前] Hana: [スタンプ: thank you, bow]');
+    expect(prompt).toContain('- 直前のスタンプなどの反応から会話の雰囲気');
+    expect(prompt).toContain('- {{URL_1}} のような二重波括弧のプレースホルダーは');
+    expect(prompt).not.toMatch(/\{\{[#^/]/);
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  it('should accept the built-in template', () => {
+    expect(validatePromptTemplate(BUILTIN_PROMPT_TEMPLATE)).toBeNull();
+  });
+
+  it('should require the message and the output format', () => {
+    expect(validatePromptTemplate('Translate: {{source_text}}')).toBe('The template must contain {{output_format}}.');
+  });
+
+  it('should reject unclosed and unknown sections', () => {
+    expect(validatePromptTemplate('{{source_text}} {{output_format}} {{#glossary}}x')).toBe('Unclosed section: glossary');
+    expect(validatePromptTemplate('{{source_text}} {{output_format}} {{#formal}}x{{/formal}}')).toBe('Unknown section variable: formal');
+  });
+});
+
+describe('PromptTemplateService', () => {
+  let mockPromptTemplateRepository: any;
+  let service: PromptTemplateService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockPromptTemplateRepository = {
+      findLatestByName: vi.fn().mockResolvedValue(null),
+    };
+    vi.mocked(PromptTemplateRepository).mockImplementation(function () {
+      return mockPromptTemplateRepository;
+    });
+    service = new PromptTemplateService({ DB: {} as D1Database } as Env);
+  });
+
+  it('should use the latest version of the selected template', async () => {
+    mockPromptTemplateRepository.findLatestByName.mockResolvedValueOnce({ id: 4, name: 'formal', version: 2, body: 'B' });
+
+    expect(await service.resolve('formal')).toEqual({ name: 'formal', version: 2, body: 'B' });
+  });
+
+  it('should use the built-in template when no template is stored', async () => {
+    expect(await service.resolve(null)).toEqual({ name: 'built-in', version: BUILTIN_PROMPT_TEMPLATE_VERSION, body: BUILTIN_PROMPT_TEMPLATE });
+    expect(mockPromptTemplateRepository.findLatestByName).toHaveBeenCalledWith('default');
+  });
+
+  it('should use the built-in template when the templates cannot be loaded', async () => {
+    mockPromptTemplateRepository.findLatestByName.mockRejectedValueOnce(new Error('D1 error'));
+
+    expect(await service.resolve('formal')).toEqual({ name: 'built-in', version: BUILTIN_PROMPT_TEMPLATE_VERSION, body: BUILTIN_PROMPT_TEMPLATE });
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * @file SpeechToTextProvider.test.ts
+ * @description 音声の書き起こしプロバイダーの選択と、LocalSpeechToTextProviderの単体テスト。
+ *              GeminiClientをモックして検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createSpeechToTextProvider } from './speechToText';
+import { LocalSpeechToTextProvider } from './localProvider';
+import { GeminiClient } from './gemini';
+import { Env } from '../db/BaseRepository';
+
+vi.mock('./gemini');
+
+describe('createSpeechToTextProvider', () => {
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnv = { GEMINI_API_KEY: 'mock_gemini_key' } as Env;
+  });
+
+  it('should use Gemini by default', () => {
+    createSpeechToTextProvider(mockEnv);
+    expect(GeminiClient).toHaveBeenCalledWith(mockEnv);
+  });
+
+  it('should select the provider from SPEECH_TO_TEXT_PROVIDER', () => {
+    expect(createSpeechToTextProvider({ ...mockEnv, SPEECH_TO_TEXT_PROVIDER: 'local' })).toBeInstanceOf(LocalSpeechToTextProvider);
+    expect(GeminiClient).not.toHaveBeenCalled();
+  });
+
+  it('should throw for an unknown provider', () => {
+    expect(() => createSpeechToTextProvider({ ...mockEnv, SPEECH_TO_TEXT_PROVIDER: 'unknown' }))
+      .toThrow('Unknown SPEECH_TO_TEXT_PROVIDER: unknown');
+  });
+});
+
+describe('LocalSpeechToTextProvider', () => {
+  const provider = new LocalSpeechToTextProvider();
+
+  it('should read the fixture audio as its transcript', async () => {
+    const audio = { data: new TextEncoder().encode('Dzień dobry, jutro próba o 10.\n').buffer, contentType: 'audio/m4a' };
+
+    expect(await provider.transcribe(audio)).toBe('Dzień dobry, jutro próba o 10.');
+  });
+
+  it('should return an empty transcript for silent audio', async () => {
+    expect(await provider.transcribe({ data: new ArrayBuffer(0), contentType: 'audio/m4a' })).toBe('');
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * @file TranslationProvider.test.ts
+ * @description 翻訳プロバイダーの選択、LocalTranslationProvider、OpenAICompatibleClientの単体テスト。
+ *              GeminiClient、fetch API、使用量の記録をモックして検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createTranslationProvider } from './translationProvider';
+import { LocalTranslationProvider } from './localProvider';
+import { OpenAICompatibleClient } from './openaiCompatible';
+import { GeminiClient } from './gemini';
+import { Env } from '../db/BaseRepository';
+
+const { mockGeminiUsageRepository } = vi.hoisted(() => ({
+  mockGeminiUsageRepository: { create: vi.fn() },
+}));
+
+vi.mock('./gemini');
+vi.mock('../db/GeminiUsageRepository', () => ({
+  GeminiUsageRepository: vi.fn().mockImplementation(function() { return mockGeminiUsageRepository; }),
+}));
+
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+describe('createTranslationProvider', () => {
+  let mockEnv: Env;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnv = { GEMINI_API_KEY: 'mock_gemini_key' } as Env;
+  });
+
+  it('should use Gemini by default', () => {
+    createTranslationProvider(mockEnv);
+    expect(GeminiClient).toHaveBeenCalledWith(mockEnv);
+  });
+
+  it('should select the provider from TRANSLATION_PROVIDER', () => {
+    expect(createTranslationProvider({ ...mockEnv, TRANSLATION_PROVIDER: 'local' })).toBeInstanceOf(LocalTranslationProvider);
+    expect(createTranslationProvider({
+      ...mockEnv,
+      TRANSLATION_PROVIDER: 'openai-compatible',
+      OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1',
+      OPENAI_COMPATIBLE_MODEL: 'llama3',
+    })).toBeInstanceOf(OpenAICompatibleClient);
+    expect(GeminiClient).not.toHaveBeenCalled();
+  });
+
+  it('should throw for an unknown provider', () => {
+    expect(() => createTranslationProvider({ ...mockEnv, TRANSLATION_PROVIDER: 'unknown' }))
+      .toThrow('Unknown TRANSLATION_PROVIDER: unknown');
+  });
+});
+
+describe('LocalTranslationProvider', () => {
+  const provider = new LocalTranslationProvider({} as Env);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should echo the message for each target language', async () => {
+    const prompt =
+      '【出力形式】\n以下のキーを持つJSONオブジェクトのみを出力してください。\n' +
+      '{"pl": "[Polishの翻訳結果]", "en": "[Englishの翻訳結果]"}\n\n' +
+      '【翻訳対象】\nおはようございます\n\n【指示】\n- 上記のJSONのみを出力してください\n';
+
+    expect(JSON.parse(await provider.generateText(prompt))).toEqual({
+      pl: '[pl] おはようございます',
+      en: '[en] おはようございます',
+    });
+  });
+
+  it('should answer a language detection prompt with one of the candidates', async () => {
+    const prompt = '次のテキストが書かれている言語を判定してください。\n候補: ja, pl, en\n候補の中から言語コードを1つだけ出力してください（説明は不要）。\n\nDzień dobry, jak się masz?';
+
+    expect(await provider.generateText(prompt)).toBe('pl');
+  });
+
+  it('should record each call so that the usage limits count it', async () => {
+    await provider.generateText('Translate', { purpose: 'translation', postId: 'post1', roomId: 'room1', userId: 'user1' });
+
+    expect(mockGeminiUsageRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      purpose: 'translation',
+      post_id: 'post1',
+      room_id: 'room1',
+      user_id: 'user1',
+      model: 'local',
+      attempts: 1,
+      prompt_tokens: null,
+      output_tokens: null,
+      status: 'success',
+    }));
+  });
+});
+
+describe('OpenAICompatibleClient', () => {
+  const env = {
+    OPENAI_COMPATIBLE_BASE_URL: 'http://localhost:11434/v1/',
+    OPENAI_COMPATIBLE_MODEL: 'llama3',
+    OPENAI_COMPATIBLE_API_KEY: 'sk-test',
+  } as Env;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should send the prompt to the chat completions endpoint', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({
+        choices: [{ message: { content: '{"ja": "こんにちは"}' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 15 },
+      }),
+    });
+
+    const result = await new OpenAICompatibleClient(env).generateText('Translate', { purpose: 'translation', userId: 'user1' });
+
+    expect(result).toBe('{"ja": "こんにちは"}');
+    expect(mockFetch).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer sk-test' },
+      body: JSON.stringify({ model: 'llama3', messages: [{ role: 'user', content: 'Translate' }] }),
+    });
+    expect(mockGeminiUsageRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      purpose: 'translation',
+      user_id: 'user1',
+      model: 'llama3',
+      fallback_path: 'llama3:ok',
+      prompt_tokens: 120,
+      output_tokens: 15,
+      status: 'success',
+    }));
+  });
+
+  it('should throw when the API returns an error', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 500, text: () => Promise.resolve('model not loaded') });
+
+    await expect(new OpenAICompatibleClient(env).generateText('Translate'))
+      .rejects.toThrow('OpenAI-compatible API request failed (Model: llama3, Status: 500): model not loaded');
+    expect(mockGeminiUsageRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'llama3',
+      status: 'error',
+      error_message: 'OpenAI-compatible API request failed (Model: llama3, Status: 500): model not loaded',
+    }));
+  });
+
+  it('should throw its own error when the response has no message content', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ choices: [{ message: { content: null } }], usage: { prompt_tokens: 120 } }),
+    });
+
+    await expect(new OpenAICompatibleClient(env).generateText('Translate'))
+      .rejects.toThrow('OpenAI-compatible API did not return text (Model: llama3).');
+    expect(mockGeminiUsageRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'error',
+      prompt_tokens: 120,
+      output_tokens: null,
+      error_message: 'OpenAI-compatible API did not return text (Model: llama3).',
+    }));
+  });
+
+  it('should throw its own error when the response is not a JSON object', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.reject(new SyntaxError('Unexpected token <')) });
+    await expect(new OpenAICompatibleClient(env).generateText('Translate'))
+      .rejects.toThrow('OpenAI-compatible API returned invalid JSON (Model: llama3).');
+
+    mockFetch.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(null) });
+    await expect(new OpenAICompatibleClient(env).generateText('Translate'))
+      .rejects.toThrow('OpenAI-compatible API returned an unexpected response (Model: llama3).');
+  });
+
+  it('should require the base URL and model', () => {
+    expect(() => new OpenAICompatibleClient({} as Env)).toThrow('OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL are required');
+  });
+});
@@ -1,21 +1,37 @@
 /**
  * @file TranslationService.test.ts
  * @description TranslationServiceの単体テスト。
- *              GeminiClient、PostRepository、LogRepositoryをモックして、
+ *              GeminiClient、PostRepository、LogRepository、RoomRepository、GlossaryRepository、
+ *              TranslationCacheRepository、GeminiUsageRepository、PromptTemplateRepository、TranslationExampleRepositoryをモックして、
  *              翻訳ロジックとログ保存機能を検証します。
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TranslationService } from '../services/translator';
 import { GeminiClient } from '../services/gemini';
-import { PostRepository, LogRepository } from '../db';
+import {
+  PostRepository,
+  LogRepository,
+  RoomRepository,
+  GlossaryRepository,
+  TranslationCacheRepository,
+  GeminiUsageRepository,
+  PromptTemplateRepository,
+  TranslationExampleRepository,
+} from '../db';
 import { Env } from '../db/BaseRepository';
-import { Post } from '../types/db';
+import { Post, PostWithSpeaker } from '../types/db';
 
 // 各依存サービス/リポジトリをモック
 vi.mock('../services/gemini');
 vi.mock('../db/PostRepository');
 vi.mock('../db/LogRepository');
+vi.mock('../db/RoomRepository');
+vi.mock('../db/GlossaryRepository');
+vi.mock('../db/TranslationCacheRepository');
+vi.mock('../db/GeminiUsageRepository');
+vi.mock('../db/PromptTemplateRepository');
+vi.mock('../db/TranslationExampleRepository');
 
 describe('TranslationService', () => {
   let translationService: TranslationService;
@@ -23,6 +39,12 @@ describe('TranslationService', () => {
   let mockGeminiClient: any;
   let mockPostRepository: any;
   let mockLogRepository: any;
+  let mockRoomRepository: any;
+  let mockGlossaryRepository: any;
+  let mockTranslationCacheRepository: any;
+  let mockGeminiUsageRepository: any;
+  let mockPromptTemplateRepository: any;
+  let mockTranslationExampleRepository: any;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -42,14 +64,37 @@ describe('TranslationService', () => {
       generateText: vi.fn()
     };
     mockPostRepository = {
-      findLatestPostsByRoomId: vi.fn(),
-      findLatestPostsByUserId: vi.fn(),
-      updateTranslatedText: vi.fn()
+      findContextPostsByRoomId: vi.fn(),
+      findContextPostsByUserId: vi.fn(),
+      updateTranslatedText: vi.fn(),
+      updateTranslations: vi.fn()
     };
     mockLogRepository = {
       createTranslationLog: vi.fn(),
       createDebugLog: vi.fn()
     };
+    mockRoomRepository = {
+      findById: vi.fn().mockResolvedValue(null)
+    };
+    mockGlossaryRepository = {
+      findForRoom: vi.fn().mockResolvedValue([])
+    };
+    mockTranslationCacheRepository = {
+      findByKey: vi.fn().mockResolvedValue(null),
+      save: vi.fn(),
+      recordHit: vi.fn(),
+      incrementStats: vi.fn()
+    };
+    mockGeminiUsageRepository = {
+      countTranslationsByUserSince: vi.fn().mockResolvedValue(0),
+      sumTokensSince: vi.fn().mockResolvedValue(0)
+    };
+    mockPromptTemplateRepository = {
+      findLatestByName: vi.fn().mockResolvedValue(null)
+    };
+    mockTranslationExampleRepository = {
+      findRecentByRoomId: vi.fn().mockResolvedValue([])
+    };
 
     // コンストラクタでモックインスタンスが使われるようにする
     // (new GeminiClient(env)) などが呼ばれた際に、モックされたインスタンスを返すようにする
@@ -62,7 +107,24 @@ describe('TranslationService', () => {
     vi.mocked(LogRepository).mockImplementation(function () {
       return mockLogRepository;
     });
-
+    vi.mocked(RoomRepository).mockImplementation(function () {
+      return mockRoomRepository;
+    });
+    vi.mocked(GlossaryRepository).mockImplementation(function () {
+      return mockGlossaryRepository;
+    });
+    vi.mocked(TranslationCacheRepository).mockImplementation(function () {
+      return mockTranslationCacheRepository;
+    });
+    vi.mocked(GeminiUsageRepository).mockImplementation(function () {
+      return mockGeminiUsageRepository;
+    });
+    vi.mocked(PromptTemplateRepository).mockImplementation(function () {
+      return mockPromptTemplateRepository;
+    });
+    vi.mocked(TranslationExampleRepository).mockImplementation(function () {
+      return mockTranslationExampleRepository;
+    });
 
     translationService = new TranslationService(mockEnv);
   });
@@ -76,9 +138,9 @@ describe('TranslationService', () => {
     const userId = 'test_user_id';
     const roomId = 'test_room_id';
 
-    mockPostRepository.findLatestPostsByRoomId.mockResolvedValueOnce([]);
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
     mockGeminiClient.generateText.mockResolvedValue(mockGeminiResponse);
-    mockPostRepository.updateTranslatedText.mockResolvedValueOnce({ success: true } as D1Result<Post>);
+    mockPostRepository.updateTranslations.mockResolvedValueOnce({ success: true } as D1Result<Post>);
     mockLogRepository.createTranslationLog.mockResolvedValueOnce({ success: true } as D1Result<any>);
 
     const result = await translationService.translateMessage(
@@ -89,10 +151,13 @@ describe('TranslationService', () => {
     );
 
     expect(result).toBe(mockGeminiResponse);
-    expect(mockPostRepository.findLatestPostsByRoomId).toHaveBeenCalledWith(roomId, 2);
+    expect(mockPostRepository.findContextPostsByRoomId).toHaveBeenCalledWith(roomId, 20);
     // Should be called once now
     expect(mockGeminiClient.generateText).toHaveBeenCalledTimes(1);
-    expect(mockPostRepository.updateTranslatedText).toHaveBeenCalledWith(postId, mockGeminiResponse);
+    expect(mockPostRepository.updateTranslations).toHaveBeenCalledWith(postId, mockGeminiResponse, {
+      pl: 'Dzień dobry, jak się masz?',
+      en: 'Hello, how are you?',
+    });
     expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(
       expect.objectContaining({
         user_id: userId,
@@ -100,6 +165,8 @@ describe('TranslationService', () => {
         original_message: originalText,
         translation: mockGeminiResponse,
         history_count: 0,
+        prompt_template: 'built-in',
+        prompt_template_version: 1,
       })
     );
   });
@@ -126,7 +193,7 @@ describe('TranslationService', () => {
     const roomId = 'test_room_id';
     const error = new Error('Gemini API error');
 
-    mockPostRepository.findLatestPostsByRoomId.mockResolvedValueOnce([]);
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
     mockGeminiClient.generateText.mockRejectedValue(error);
     mockLogRepository.createDebugLog.mockResolvedValue({ success: true } as D1Result<any>);
 
@@ -143,7 +210,702 @@ describe('TranslationService', () => {
         message: expect.stringContaining(`Translation error for post ${postId}`),
       })
     );
-    expect(mockPostRepository.updateTranslatedText).not.toHaveBeenCalled();
+    expect(mockPostRepository.updateTranslations).not.toHaveBeenCalled();
+  });
+
+  it('should request JSON output and parse it even with a preamble and code fence', async () => {
+    const originalText = 'おはようございます';
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
+    mockGeminiClient.generateText.mockResolvedValue(
+      'Here is the translation:\n```json\n{"pl": "Dzień dobry", "en": "Good morning"}\n```'
+    );
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', originalText);
+
+    expect(mockGeminiClient.generateText).toHaveBeenCalledWith(
+      expect.stringContaining('{"pl": "[Polishの翻訳結果]", "en": "[Englishの翻訳結果]"}'),
+      { postId: 'post1', roomId: 'room1', userId: 'user1', economy: false, purpose: 'translation' }
+    );
+    expect(result).toBe('Polish: Dzień dobry\nEnglish: Good morning');
+    expect(mockPostRepository.updateTranslations).toHaveBeenCalledWith('post1', result, {
+      pl: 'Dzień dobry',
+      en: 'Good morning',
+    });
+  });
+
+  it('should re-prompt only for the missing language', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
+    mockGeminiClient.generateText
+      .mockResolvedValueOnce('{"pl": "Dzień dobry"}')
+      .mockResolvedValueOnce('{"en": "Good morning"}');
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+
+    expect(mockGeminiClient.generateText).toHaveBeenCalledTimes(2);
+    const retryPrompt = mockGeminiClient.generateText.mock.calls[1][0];
+    expect(retryPrompt).toContain('{"en": "[Englishの翻訳結果]"}');
+    expect(retryPrompt).not.toContain('"pl"');
+    expect(result).toBe('Polish: Dzień dobry\nEnglish: Good morning');
+  });
+
+  it('should reply with the available language when one is still missing after re-prompting', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
+    mockGeminiClient.generateText
+      .mockResolvedValueOnce('{"pl": "Dzień dobry"}')
+      .mockResolvedValueOnce('Sorry, I cannot help with that.');
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+
+    expect(result).toBe('Polish: Dzień dobry');
+    expect(mockPostRepository.updateTranslations).toHaveBeenCalledWith('post1', 'Polish: Dzień dobry', { pl: 'Dzień dobry' });
+    expect(mockLogRepository.createDebugLog).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Partial translation for post post1: missing en' })
+    );
+  });
+
+  it('should not write the unparsable output to the debug log', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
+    mockGeminiClient.generateText.mockResolvedValue('Dzień dobry i dobranoc');
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+
+    expect(result).toBeNull();
+    expect(mockLogRepository.createDebugLog).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Translation error for post post1: Translation output could not be parsed (22 characters).',
+    }));
+  });
+
+  it('should return the Japanese translation without a label for non-Japanese input', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
+    mockGeminiClient.generateText.mockResolvedValue('{"ja": "おはようございます"}');
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', 'Dzień dobry');
+
+    expect(result).toBe('おはようございます');
+    expect(mockPostRepository.updateTranslations).toHaveBeenCalledWith('post1', 'おはようございます', { ja: 'おはようございます' });
+  });
+
+  it('should translate according to the room language configuration', async () => {
+    mockRoomRepository.findById.mockResolvedValueOnce({
+      room_id: 'room1',
+      room_name: 'Kyiv Class',
+      language_config: JSON.stringify({ languages: ['ja', 'uk', 'de'], targets: { uk: ['ja', 'de'] } }),
+    });
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
+    mockGeminiClient.generateText.mockResolvedValue('{"ja": "こんにちは", "de": "Hallo"}');
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', 'Привіт');
+
+    const prompt = mockGeminiClient.generateText.mock.calls[0][0];
+    expect(prompt).toContain('「日本語」と「ドイツ語」の両方に翻訳してください');
+    expect(prompt).toContain('{"ja": "[Japaneseの翻訳結果]", "de": "[Germanの翻訳結果]"}');
+    expect(prompt).not.toContain('ポーランド人');
+    expect(result).toBe('Japanese: こんにちは\nGerman: Hallo');
+    expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({ language: 'uk' }));
+  });
+
+  it('should translate into all other room languages when there is no rule for the source language', async () => {
+    mockRoomRepository.findById.mockResolvedValueOnce({
+      room_id: 'room1',
+      room_name: 'Berlin Class',
+      language_config: JSON.stringify({ languages: ['ja', 'uk', 'de'], targets: {} }),
+    });
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
+    mockGeminiClient.generateText.mockResolvedValue('{"ja": "おはよう", "uk": "Доброго ранку"}');
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', 'Guten Morgen, schönen Tag');
+
+    expect(mockGeminiClient.generateText).toHaveBeenCalledWith(
+      expect.stringContaining('{"ja": "[Japaneseの翻訳結果]", "uk": "[Ukrainianの翻訳結果]"}'),
+      expect.objectContaining({ purpose: 'translation' })
+    );
+    expect(result).toBe('Japanese: おはよう\nUkrainian: Доброго ранку');
+  });
+
+  it('should skip translation when the room has no target language for the source', async () => {
+    mockRoomRepository.findById.mockResolvedValueOnce({
+      room_id: 'room1',
+      room_name: 'Announcements',
+      language_config: JSON.stringify({ languages: ['ja', 'en'], targets: { en: [] } }),
+    });
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', 'Hello everyone');
+
+    expect(result).toBeNull();
+    expect(mockGeminiClient.generateText).not.toHaveBeenCalled();
+  });
+
+  it('should record the detection confidence for Polish written without diacritics', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
+    mockGeminiClient.generateText.mockResolvedValue('{"ja": "明日は授業がありません"}');
+
+    await translationService.translateMessage('post1', 'user1', 'room1', 'Jutro nie bedzie zajec');
+
+    expect(mockGeminiClient.generateText).toHaveBeenCalledTimes(1);
+    expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({
+      language: 'pl',
+      language_confidence: expect.any(Number),
+      detection_method: 'ngram',
+    }));
+    expect(mockLogRepository.createTranslationLog.mock.calls[0][0].language_confidence).toBeGreaterThan(0.9);
+  });
+
+  it('should ask Gemini for the language when the confidence is low', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
+    mockGeminiClient.generateText
+      .mockResolvedValueOnce('pl')
+      .mockResolvedValueOnce('{"ja": "はい"}');
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', 'Tak');
+
+    expect(mockGeminiClient.generateText.mock.calls[0][0]).toContain('候補: ja, pl, en');
+    expect(mockGeminiClient.generateText.mock.calls[0][1]).toEqual(expect.objectContaining({ purpose: 'language_detection' }));
+    expect(result).toBe('はい');
+    expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({
+      language: 'pl',
+      detection_method: 'gemini',
+    }));
+  });
+
+  it('should keep the n-gram result when Gemini cannot determine the language', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce([]);
+    mockGeminiClient.generateText
+      .mockRejectedValueOnce(new Error('Gemini API error'))
+      .mockResolvedValueOnce('{"ja": "OK"}');
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', 'ok');
+
+    expect(result).toBe('OK');
+    expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({
+      detection_method: 'ngram',
+    }));
+  });
+
+  describe('glossary', () => {
+    const glossaryTerms = [
+      { id: 1, term: 'pas de bourrée', translations: '{"ja": "パ・ド・ブレ"}', do_not_translate: 0, room_id: null, note: null, created_at: '', updated_at: '' },
+      { id: 2, term: '発表会', translations: '{"pl": "pokaz", "en": "recital"}', do_not_translate: 0, room_id: null, note: null, created_at: '', updated_at: '' },
+      { id: 3, term: 'Madame Kasia', translations: null, do_not_translate: 1, room_id: 'room1', note: null, created_at: '', updated_at: '' },
+    ];
+
+    beforeEach(() => {
+      mockGlossaryRepository.findForRoom.mockResolvedValue(glossaryTerms);
+      mockPostRepository.findContextPostsByRoomId.mockResolvedValue([]);
+    });
+
+    it('should inject only the matching terms into the prompt', async () => {
+      mockGeminiClient.generateText.mockResolvedValue('{"pl": "Pokaz jest w sobotę", "en": "The recital is on Saturday"}');
+
+      await translationService.translateMessage('post1', 'user1', 'room1', '発表会は土曜日です');
+
+      expect(mockGlossaryRepository.findForRoom).toHaveBeenCalledWith('room1');
+      const prompt = mockGeminiClient.generateText.mock.calls[0][0];
+      expect(prompt).toContain('【用語集】');
+      expect(prompt).toContain('- "発表会": Polish「pokaz」, English「recital」');
+      expect(prompt).not.toContain('pas de bourrée');
+      expect(mockGeminiClient.generateText).toHaveBeenCalledTimes(1);
+    });
+
+    it('should require the original form for do-not-translate terms', async () => {
+      mockGeminiClient.generateText.mockResolvedValue('{"ja": "マダム・カシャにご連絡ください"}');
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'Please contact Madame Kasia');
+
+      const prompt = mockGeminiClient.generateText.mock.calls[0][0];
+      expect(prompt).toContain('- "Madame Kasia": 翻訳せず原文のまま「Madame Kasia」と表記');
+      // 原文のままになっていないため訳し直しを依頼する
+      expect(mockGeminiClient.generateText).toHaveBeenCalledTimes(2);
+    });
+
+    it('should re-prompt when a required rendering is missing and keep the corrected translation', async () => {
+      mockGeminiClient.generateText
+        .mockResolvedValueOnce('{"ja": "パドブレを練習しましょう"}')
+        .mockResolvedValueOnce('{"ja": "パ・ド・ブレを練習しましょう"}');
+
+      const result = await translationService.translateMessage('post1', 'user1', 'room1', 'Let us practice the pas de bourrée');
+
+      const correctionPrompt = mockGeminiClient.generateText.mock.calls[1][0];
+      expect(correctionPrompt).toContain('前回の翻訳では次の訳語が使われていませんでした');
+      expect(correctionPrompt).toContain('Japanese「パ・ド・ブレ」');
+      expect(result).toBe('パ・ド・ブレを練習しましょう');
+      expect(mockLogRepository.createDebugLog).not.toHaveBeenCalled();
+    });
+
+    it('should log the terms that are still missing after re-prompting', async () => {
+      mockGeminiClient.generateText
+        .mockResolvedValueOnce('{"pl": "Pokaz jest w sobotę", "en": "The show is on Saturday"}')
+        .mockResolvedValueOnce('{"en": "The concert is on Saturday"}');
+
+      const result = await translationService.translateMessage('post1', 'user1', 'room1', '発表会は土曜日です');
+
+      const correctionPrompt = mockGeminiClient.generateText.mock.calls[1][0];
+      expect(correctionPrompt).toContain('{"en": "[Englishの翻訳結果]"}');
+      expect(result).toBe('Polish: Pokaz jest w sobotę\nEnglish: The show is on Saturday');
+      expect(mockLogRepository.createDebugLog).toHaveBeenCalledWith(expect.objectContaining({
+        message: 'Glossary terms missing for post post1: en "recital" (発表会)',
+      }));
+    });
+  });
+
+  describe('translation cache', () => {
+    beforeEach(() => {
+      mockPostRepository.findContextPostsByRoomId.mockResolvedValue([]);
+    });
+
+    it('should use the cached translation without calling Gemini', async () => {
+      mockTranslationCacheRepository.findByKey.mockResolvedValueOnce({
+        cache_key: 'key1',
+        translations: '{"pl": "Dziękuję bardzo", "en": "Thank you very much"}',
+      });
+
+      const result = await translationService.translateMessage('post1', 'user1', 'room1', 'ありがとうございます');
+
+      expect(result).toBe('Polish: Dziękuję bardzo\nEnglish: Thank you very much');
+      expect(mockGeminiClient.generateText).not.toHaveBeenCalled();
+      expect(mockTranslationCacheRepository.recordHit).toHaveBeenCalledWith(expect.any(String), expect.any(String));
+      expect(mockTranslationCacheRepository.incrementStats).toHaveBeenCalledWith(expect.any(String), 'hits');
+      expect(mockPostRepository.updateTranslations).toHaveBeenCalledWith('post1', result, {
+        pl: 'Dziękuję bardzo',
+        en: 'Thank you very much',
+      });
+      expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({ prompt: null }));
+    });
+
+    it('should save the translation and count a miss when there is no cache entry', async () => {
+      mockGeminiClient.generateText.mockResolvedValue('{"pl": "Dziękuję", "en": "Thank you"}');
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'ありがとう');
+
+      expect(mockTranslationCacheRepository.incrementStats).toHaveBeenCalledWith(expect.any(String), 'misses');
+      expect(mockTranslationCacheRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+        normalized_text: 'ありがとう',
+        source_lang: 'ja',
+        target_langs: 'pl,en',
+        translations: '{"pl":"Dziękuję","en":"Thank you"}',
+        post_id: 'post1',
+      }));
+    });
+
+    it('should use the same key for messages that differ only in case and spacing', async () => {
+      mockGeminiClient.generateText.mockResolvedValue('{"ja": "OK"}');
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'OK ');
+      await translationService.translateMessage('post2', 'user1', 'room1', ' ok');
+
+      const [firstKey] = mockTranslationCacheRepository.findByKey.mock.calls[0];
+      const [secondKey] = mockTranslationCacheRepository.findByKey.mock.calls[1];
+      expect(firstKey).toMatch(/^[0-9a-f]{64}$/);
+      expect(secondKey).toBe(firstKey);
+    });
+
+    it('should use a different key when the preceding message differs', async () => {
+      mockGeminiClient.generateText.mockResolvedValue('{"ja": "はい、もちろんです。衣装も持っていきます"}');
+      mockPostRepository.findContextPostsByRoomId
+        .mockResolvedValueOnce([{ post_id: 'ctx1', message_text: 'Czy przyjdziesz jutro?' }])
+        .mockResolvedValueOnce([{ post_id: 'ctx2', message_text: 'Czy masz kostium?' }]);
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'Tak, oczywiście, wezmę też kostium');
+      await translationService.translateMessage('post2', 'user1', 'room1', 'Tak, oczywiście, wezmę też kostium');
+
+      const [firstKey] = mockTranslationCacheRepository.findByKey.mock.calls[0];
+      const [secondKey] = mockTranslationCacheRepository.findByKey.mock.calls[1];
+      expect(secondKey).not.toBe(firstKey);
+    });
+
+    it('should use the same key when only older messages in the context differ', async () => {
+      mockGeminiClient.generateText.mockResolvedValue('{"ja": "はい、もちろんです。衣装も持っていきます"}');
+      mockPostRepository.findContextPostsByRoomId
+        .mockResolvedValueOnce([{ post_id: 'ctx1', message_text: 'Czy masz kostium?' }, { post_id: 'old1', message_text: 'Dzień dobry' }])
+        .mockResolvedValueOnce([{ post_id: 'ctx1', message_text: 'Czy masz kostium?' }, { post_id: 'old2', message_text: 'Jutro próba' }]);
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'Tak, oczywiście, wezmę też kostium');
+      await translationService.translateMessage('post2', 'user1', 'room1', 'Tak, oczywiście, wezmę też kostium');
+
+      const [firstKey] = mockTranslationCacheRepository.findByKey.mock.calls[0];
+      const [secondKey] = mockTranslationCacheRepository.findByKey.mock.calls[1];
+      expect(secondKey).toBe(firstKey);
+    });
+
+    it('should hit the cache for a short message sent after different earlier messages', async () => {
+      const savedEntries = new Map<string, any>();
+      mockTranslationCacheRepository.save.mockImplementation(async (entry: any) => {
+        savedEntries.set(entry.cache_key, entry);
+      });
+      mockTranslationCacheRepository.findByKey.mockImplementation(async (key: string) => savedEntries.get(key) ?? null);
+      mockGeminiClient.generateText.mockResolvedValue('{"pl": "Dziękuję bardzo", "en": "Thank you very much"}');
+      mockPostRepository.findContextPostsByRoomId
+        .mockResolvedValueOnce([{ post_id: 'ctx1', message_text: 'Jutro lekcja o 10:00.' }])
+        .mockResolvedValueOnce([{ post_id: 'ctx2', message_text: 'Zdjęcia z koncertu są już gotowe.' }]);
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'ありがとうございます');
+      const result = await translationService.translateMessage('post2', 'user2', 'room1', 'ありがとうございます');
+
+      expect(result).toBe('Polish: Dziękuję bardzo\nEnglish: Thank you very much');
+      expect(mockGeminiClient.generateText).toHaveBeenCalledTimes(1);
+      expect(mockTranslationCacheRepository.incrementStats).toHaveBeenCalledWith(expect.any(String), 'hits');
+    });
+
+    it('should not cache a partial translation', async () => {
+      mockGeminiClient.generateText
+        .mockResolvedValueOnce('{"pl": "Dzień dobry"}')
+        .mockResolvedValueOnce('Sorry, I cannot help with that.');
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+
+      expect(mockTranslationCacheRepository.save).not.toHaveBeenCalled();
+    });
+
+    it('should keep translating when the cache is unavailable', async () => {
+      mockTranslationCacheRepository.findByKey.mockRejectedValueOnce(new Error('D1 error'));
+      mockGeminiClient.generateText.mockResolvedValue('{"ja": "こんにちは"}');
+
+      const result = await translationService.translateMessage('post1', 'user1', 'room1', 'Dzień dobry');
+
+      expect(result).toBe('こんにちは');
+    });
+  });
+
+  describe('content that needs no translation', () => {
+    beforeEach(() => {
+      mockPostRepository.findContextPostsByRoomId.mockResolvedValue([]);
+    });
+
+    it.each([
+      ['👍', 'emoji_only'],
+      ['https://example.com/photos', 'url_only'],
+      ['3', 'numeric'],
+    ])('should skip %j without calling Gemini and log the reason', async (text, reason) => {
+      const result = await translationService.translateMessage('post1', 'user1', 'room1', text);
+
+      expect(result).toBeNull();
+      expect(mockGeminiClient.generateText).not.toHaveBeenCalled();
+      expect(mockPostRepository.updateTranslations).not.toHaveBeenCalled();
+      expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({
+        original_message: text,
+        translation: null,
+        prompt: null,
+        skip_reason: reason,
+      }));
+    });
+
+    it('should translate only the words and keep URLs and times unchanged', async () => {
+      mockGeminiClient.generateText.mockResolvedValue('{"ja": "レッスンは{{TIME_1}}からです。詳細: {{URL_1}}"}');
+
+      const result = await translationService.translateMessage(
+        'post1', 'user1', 'room1', 'Lekcja zaczyna się o 16:30. Szczegóły: https://example.com/plan'
+      );
+
+      expect(result).toBe('レッスンは16:30からです。詳細: https://example.com/plan');
+      const prompt = mockGeminiClient.generateText.mock.calls[0][0];
+      expect(prompt).toContain('Lekcja zaczyna się o {{TIME_1}}. Szczegóły: {{URL_1}}');
+      expect(prompt).not.toContain('https://example.com/plan');
+      expect(prompt).toContain('プレースホルダー');
+      expect(mockTranslationCacheRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+        translations: '{"ja":"レッスンは{{TIME_1}}からです。詳細: {{URL_1}}"}',
+      }));
+    });
+  });
+
+  describe('prompt templates', () => {
+    beforeEach(() => {
+      mockPostRepository.findContextPostsByRoomId.mockResolvedValue([]);
+      mockGeminiClient.generateText.mockResolvedValue('{"pl": "Dzień dobry", "en": "Good morning"}');
+    });
+
+    it('should use the latest version of the template selected for the room and log it', async () => {
+      mockRoomRepository.findById.mockResolvedValueOnce({
+        room_id: 'room1',
+        room_name: 'Adult Class',
+        prompt_template: 'formal',
+        description: '大人のバレエ教室のチャットです。',
+      });
+      mockPromptTemplateRepository.findLatestByName.mockResolvedValueOnce({
+        id: 5,
+        name: 'formal',
+        version: 3,
+        body: '{{room_description}} {{target_languages}}に丁寧に翻訳: {{source_text}}\n{{output_format}}',
+      });
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+
+      expect(mockPromptTemplateRepository.findLatestByName).toHaveBeenCalledWith('formal');
+      expect(mockGeminiClient.generateText.mock.calls[0][0]).toBe(
+        '大人のバレエ教室のチャットです。 「ポーランド語」と「英語」の両方に丁寧に翻訳: おはようございます\n' +
+        '{"pl": "[Polishの翻訳結果]", "en": "[Englishの翻訳結果]"}'
+      );
+      expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({
+        prompt_template: 'formal',
+        prompt_template_version: 3,
+      }));
+    });
+
+    it('should fall back to the default template when the selected one does not exist', async () => {
+      mockRoomRepository.findById.mockResolvedValueOnce({ room_id: 'room1', room_name: null, prompt_template: 'deleted' });
+      mockPromptTemplateRepository.findLatestByName
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 1, name: 'default', version: 2, body: '{{source_text}} {{output_format}}' });
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+
+      expect(mockPromptTemplateRepository.findLatestByName).toHaveBeenNthCalledWith(2, 'default');
+      expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({
+        prompt_template: 'default',
+        prompt_template_version: 2,
+      }));
+    });
+
+    it('should not share cached translations between template versions', async () => {
+      await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+      mockPromptTemplateRepository.findLatestByName.mockResolvedValueOnce({
+        id: 1, name: 'default', version: 1, body: '{{source_text}} {{output_format}}',
+      });
+      await translationService.translateMessage('post2', 'user1', 'room1', 'おはようございます');
+
+      const [firstKey] = mockTranslationCacheRepository.findByKey.mock.calls[0];
+      const [secondKey] = mockTranslationCacheRepository.findByKey.mock.calls[1];
+      expect(firstKey).not.toBe(secondKey);
+    });
+
+    it('should not share cached translations between rooms with different descriptions', async () => {
+      mockRoomRepository.findById
+        .mockResolvedValueOnce({ room_id: 'room1', room_name: null, description: 'バレエ教室の保護者グループ' })
+        .mockResolvedValueOnce({ room_id: 'room2', room_name: null, description: 'ピアノ教室の保護者グループ' });
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+      await translationService.translateMessage('post2', 'user1', 'room2', 'おはようございます');
+
+      const [firstKey] = mockTranslationCacheRepository.findByKey.mock.calls[0];
+      const [secondKey] = mockTranslationCacheRepository.findByKey.mock.calls[1];
+      expect(firstKey).not.toBe(secondKey);
+    });
+  });
+
+  describe('retranslation and corrected examples', () => {
+    beforeEach(() => {
+      mockPostRepository.findContextPostsByRoomId.mockResolvedValue([]);
+      mockGeminiClient.generateText.mockResolvedValue('{"pl": "Dzień dobry", "en": "Good morning"}');
+    });
+
+    it('should include the corrected examples of the room in the prompt', async () => {
+      mockTranslationExampleRepository.findRecentByRoomId.mockResolvedValueOnce([
+        { id: 4, post_id: 'old1', room_id: 'room1', source_text: '発表会の衣装', translation: 'Polish: Kostium na pokaz\nEnglish: Recital costume' },
+      ]);
+
+      await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+
+      expect(mockTranslationExampleRepository.findRecentByRoomId).toHaveBeenCalledWith('room1', 3);
+      const prompt = mockGeminiClient.generateText.mock.calls[0][0];
+      expect(prompt).toContain(
+        '【翻訳例】\n以下はこのチャットで管理者が修正した翻訳です。訳し方や言葉の選び方の参考にしてください。\n\n' +
+        '- 原文: 発表会の衣装\n  訳: Polish: Kostium na pokaz\nEnglish: Recital costume\n\n【翻訳対象】'
+      );
+    });
+
+    it('should translate without examples when they cannot be loaded', async () => {
+      mockTranslationExampleRepository.findRecentByRoomId.mockRejectedValueOnce(new Error('D1 error'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const result = await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+
+      expect(result).toBe('Polish: Dzień dobry\nEnglish: Good morning');
+      expect(mockGeminiClient.generateText.mock.calls[0][0]).not.toContain('【翻訳例】');
+    });
+
+    it('should bypass the cache and prefer accurate models when retranslating', async () => {
+      mockTranslationCacheRepository.findByKey.mockResolvedValue({ translations: '{"pl": "Stare", "en": "Old"}' });
+
+      const result = await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます', { retranslate: true });
+
+      expect(result).toBe('Polish: Dzień dobry\nEnglish: Good morning');
+      expect(mockTranslationCacheRepository.findByKey).not.toHaveBeenCalled();
+      expect(mockGeminiClient.generateText).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+        purpose: 'translation',
+        accurate: true,
+      }));
+      // 新しい翻訳でキャッシュを置き換える
+      expect(mockTranslationCacheRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+        translations: '{"pl":"Dzień dobry","en":"Good morning"}',
+      }));
+      expect(mockPostRepository.updateTranslations).toHaveBeenCalledWith('post1', 'Polish: Dzień dobry\nEnglish: Good morning', {
+        pl: 'Dzień dobry',
+        en: 'Good morning',
+      });
+    });
+  });
+
+  it('should keep mentioned names unchanged in the translation', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValue([]);
+    mockGeminiClient.generateText.mockResolvedValue('{"pl": "{{MENTION_1}} Dzień dobry", "en": "{{MENTION_1}} Good morning"}');
+
+    const result = await translationService.translateMessage('post1', 'user1', 'room1', '@ハナ おはようございます', {
+      mentionees: [{ index: 0, length: 3, type: 'user', userId: 'U2' }],
+    });
+
+    const prompt = mockGeminiClient.generateText.mock.calls[0][0];
+    expect(prompt).toContain('【翻訳対象】\n{{MENTION_1}} おはようございます');
+    expect(prompt).not.toContain('@ハナ');
+    expect(result).toBe('Polish: @ハナ Dzień dobry\nEnglish: @ハナ Good morning');
+  });
+
+  describe('quoted replies', () => {
+    const quotedPost: PostWithSpeaker = {
+      post_id: 'question1', timestamp: '2024-05-01T09:00:00Z', user_id: 'U2', room_id: 'room1',
+      message_text: '来週の土曜日は振替レッスンに参加してもいいですか？', has_poll: 0, translated_text: null, display_name: 'Hana',
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-05-01T10:00:00Z'));
+      mockPostRepository.findWithSpeakerById = vi.fn().mockResolvedValue(quotedPost);
+      mockGeminiClient.generateText.mockResolvedValue('{"ja": "はい、大丈夫です。"}');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should include the quoted message as the reply target and leave it out of the context', async () => {
+      mockPostRepository.findContextPostsByRoomId.mockResolvedValue([
+        { ...quotedPost, post_id: 'other1', timestamp: '2024-05-01T09:58:00Z', message_text: 'Dziękuję!', display_name: 'Kasia' },
+        quotedPost,
+      ]);
+
+      await translationService.translateMessage('post1', 'teacher1', 'room1', "Yes, that's fine", { quotedPostId: 'question1' });
+
+      expect(mockPostRepository.findWithSpeakerById).toHaveBeenCalledWith('question1');
+      const prompt = mockGeminiClient.generateText.mock.calls[0][0];
+      expect(prompt).toContain('1. [2分前] Kasia (先生): Dziękuję!\n\n【返信先の発言】\n');
+      expect(prompt).toContain('[1時間前] Hana (生徒の保護者): 来週の土曜日は振替レッスンに参加してもいいですか？\n\n【翻訳対象】');
+      expect(prompt).not.toContain('2. [1時間前]');
+      expect(prompt).toContain('- 【返信先の発言】への返事として自然に通じる訳にしてください');
+      expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({
+        context_post_ids: '["other1","question1"]',
+      }));
+    });
+
+    it('should translate without a reply target when the quoted message is not stored', async () => {
+      mockPostRepository.findContextPostsByRoomId.mockResolvedValue([]);
+      mockPostRepository.findWithSpeakerById.mockResolvedValue(null);
+
+      await translationService.translateMessage('post1', 'teacher1', 'room1', "Yes, that's fine", { quotedPostId: 'botReply1' });
+
+      expect(mockGeminiClient.generateText.mock.calls[0][0]).not.toContain('【返信先の発言】');
+    });
+
+    it('should not share cached translations between replies to different messages', async () => {
+      mockPostRepository.findContextPostsByRoomId.mockResolvedValue([]);
+
+      await translationService.translateMessage('post1', 'teacher1', 'room1', "Yes, that's fine", { quotedPostId: 'question1' });
+      mockPostRepository.findWithSpeakerById.mockResolvedValue({ ...quotedPost, post_id: 'question2', message_text: '月謝は現金でもいいですか？' });
+      await translationService.translateMessage('post2', 'teacher1', 'room1', "Yes, that's fine", { quotedPostId: 'question2' });
+
+      const [firstKey] = mockTranslationCacheRepository.findByKey.mock.calls[0];
+      const [secondKey] = mockTranslationCacheRepository.findByKey.mock.calls[1];
+      expect(firstKey).not.toBe(secondKey);
+    });
+  });
+
+  describe('usage limits', () => {
+    beforeEach(() => {
+      mockPostRepository.findContextPostsByRoomId.mockResolvedValue([]);
+    });
+
+    it('should reply with a notice instead of translating when the user hits the hourly limit', async () => {
+      mockGeminiUsageRepository.countTranslationsByUserSince.mockResolvedValue(30);
+
+      const result = await translationService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+
+      expect(result).toContain('しばらく翻訳を休止します');
+      expect(mockGeminiClient.generateText).not.toHaveBeenCalled();
+      expect(mockGeminiUsageRepository.countTranslationsByUserSince).toHaveBeenCalledWith('user1', expect.any(String));
+      expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({
+        skip_reason: 'rate_limited',
+        translation: result,
+      }));
+    });
+
+    it('should count a retranslation against the user who asked for it', async () => {
+      mockGeminiUsageRepository.countTranslationsByUserSince.mockImplementation(async (userId: string) => (userId === 'requester1' ? 30 : 0));
+
+      const result = await translationService.translateMessage('post1', 'author1', 'room1', 'おはようございます', {
+        retranslate: true,
+        requesterId: 'requester1',
+      });
+
+      expect(result).toContain('しばらく翻訳を休止します');
+      expect(mockGeminiUsageRepository.countTranslationsByUserSince).toHaveBeenCalledWith('requester1', expect.any(String));
+      expect(mockGeminiUsageRepository.countTranslationsByUserSince).not.toHaveBeenCalledWith('author1', expect.any(String));
+      expect(mockGeminiClient.generateText).not.toHaveBeenCalled();
+    });
+
+    it('should record the usage of a retranslation under the user who asked for it', async () => {
+      mockGeminiClient.generateText.mockResolvedValue('{"pl": "Dzień dobry", "en": "Good morning"}');
+
+      await translationService.translateMessage('post1', 'author1', 'room1', 'おはようございます', {
+        retranslate: true,
+        requesterId: 'requester1',
+      });
+
+      expect(mockGeminiClient.generateText).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+        purpose: 'translation',
+        userId: 'requester1',
+      }));
+      expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({ user_id: 'author1' }));
+    });
+
+    it('should use the configured limits', async () => {
+      mockGeminiUsageRepository.countTranslationsByUserSince.mockResolvedValue(30);
+      mockGeminiClient.generateText.mockResolvedValue('{"ja": "おはよう"}');
+      const service = new TranslationService({ ...mockEnv, RATE_LIMIT_PER_USER_PER_HOUR: '100' });
+
+      const result = await service.translateMessage('post1', 'user1', 'room1', 'Dzień dobry');
+
+      expect(result).toBe('おはよう');
+    });
+
+    it('should switch to economy models when the monthly budget is running low', async () => {
+      mockGeminiUsageRepository.sumTokensSince.mockResolvedValue(850000);
+      mockGeminiClient.generateText.mockResolvedValue('{"ja": "おはよう"}');
+      const service = new TranslationService({ ...mockEnv, MONTHLY_TOKEN_BUDGET: '1000000' });
+
+      const result = await service.translateMessage('post1', 'user1', 'room1', 'Dzień dobry');
+
+      expect(result).toBe('おはよう');
+      expect(mockGeminiClient.generateText).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ economy: true }));
+    });
+
+    it('should reply with a notice in the sender language when the monthly budget is exhausted', async () => {
+      mockGeminiUsageRepository.sumTokensSince.mockResolvedValue(1000000);
+      const service = new TranslationService({ ...mockEnv, MONTHLY_TOKEN_BUDGET: '1000000' });
+
+      const result = await service.translateMessage('post1', 'user1', 'room1', 'Dzień dobry, jutro nie ma zajęć');
+
+      expect(result).toContain('miesięczny limit tłumaczeń');
+      expect(mockGeminiClient.generateText).not.toHaveBeenCalled();
+      expect(mockLogRepository.createTranslationLog).toHaveBeenCalledWith(expect.objectContaining({ skip_reason: 'budget_exceeded' }));
+    });
+
+    it('should translate only the beginning of a long message and say so', async () => {
+      mockGeminiClient.generateText.mockResolvedValue('{"pl": "Dzień dobry", "en": "Good morning"}');
+      const service = new TranslationService({ ...mockEnv, MAX_MESSAGE_LENGTH: '25' });
+
+      const result = await service.translateMessage('post1', 'user1', 'room1', 'おはようございます。明日の練習は十時からです。よろしくお願いします。');
+
+      const prompt = mockGeminiClient.generateText.mock.calls[0][0];
+      expect(prompt).toContain('【翻訳対象】\nおはようございます。明日の練習は十時からです。\n\n');
+      expect(result).toBe('Polish: Dzień dobry\nEnglish: Good morning\n\n※メッセージが長いため、最初の25文字のみ翻訳しました。');
+    });
+  });
+
+  it('should translate offline with the local provider', async () => {
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValue([]);
+    const localService = new TranslationService({ ...mockEnv, TRANSLATION_PROVIDER: 'local' });
+
+    const result = await localService.translateMessage('post1', 'user1', 'room1', 'おはようございます');
+
+    expect(result).toBe('Polish: [pl] おはようございます\nEnglish: [en] おはようございます');
+    expect(mockGeminiClient.generateText).not.toHaveBeenCalled();
   });
 
   it('should include context in the prompt', async () => {
@@ -153,25 +915,29 @@ describe('TranslationService', () => {
     const userId = 'test_user_id';
     const roomId = 'test_room_id';
 
-    // Mock returns newest first (DESC)
-    const mockContext: Post[] = [
-      { post_id: 'ctx1', timestamp: 'new', user_id: 'U1', room_id: roomId, message_text: 'こんにちは', has_poll: 0, translated_text: 'Hello' },
-      { post_id: 'ctx2', timestamp: 'old', user_id: 'U2', room_id: roomId, message_text: '元気ですか', has_poll: 0, translated_text: 'How are you' },
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-05-01T10:00:00Z'));
+
+    // Mock returns newest first (DESC). The prompt lists them chronologically with speaker, role and translation.
+    const mockContext: PostWithSpeaker[] = [
+      { post_id: 'ctx1', timestamp: '2024-05-01T09:55:00Z', user_id: 'U1', room_id: roomId, message_text: 'Dzień dobry', has_poll: 0, translated_text: 'おはようございます', display_name: 'Kasia' },
+      { post_id: 'ctx2', timestamp: '2024-05-01T08:00:00Z', user_id: 'U2', room_id: roomId, message_text: '元気ですか', has_poll: 0, translated_text: 'Polish: Jak się masz?\nEnglish: How are you?', display_name: 'Hana' },
     ];
-    // But wait, `findLatestPostsByRoomId` usually returns them in DESC order (Newest at index 0).
-    // The code reverses them to be Chronological (Oldest at index 0).
-    // So index 0 (oldest) = '元気ですか', index 1 (newest) = 'こんにちは'.
-    // Prompt loop: 1. 元気ですか 2. こんにちは
 
-    mockPostRepository.findLatestPostsByRoomId.mockResolvedValueOnce(mockContext);
+    mockPostRepository.findContextPostsByRoomId.mockResolvedValueOnce(mockContext);
     mockGeminiClient.generateText.mockResolvedValue(translatedText);
-    mockPostRepository.updateTranslatedText.mockResolvedValueOnce({ success: true } as D1Result<Post>);
+    mockPostRepository.updateTranslations.mockResolvedValueOnce({ success: true } as D1Result<Post>);
     mockLogRepository.createTranslationLog.mockResolvedValueOnce({ success: true } as D1Result<any>);
 
     await translationService.translateMessage(postId, userId, roomId, originalText);
 
     expect(mockGeminiClient.generateText).toHaveBeenCalledWith(
-      expect.stringContaining('1. 元気ですか\n2. こんにちは')
+      expect.stringContaining(
+        '1. [2時間前] Hana (生徒の保護者): 元気ですか\n   訳: Polish: Jak się masz? / English: How are you?\n' +
+        '2. [5分前] Kasia (先生): Dzień dobry\n   訳: おはようございます\n'
+      ),
+      expect.anything()
     );
+    vi.useRealTimers();
   });
 });
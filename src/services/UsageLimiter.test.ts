@@ -0,0 +1,77 @@
+/**
+ * @file UsageLimiter.test.ts
+ * @description UsageLimiterの単体テスト。
+ *              GeminiUsageRepositoryをモックして、回数制限・月間予算の判定とメッセージの切り詰めを検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { UsageLimiter } from '../services/usageLimits';
+import { GeminiUsageRepository } from '../db';
+import { Env } from '../db/BaseRepository';
+
+vi.mock('../db/GeminiUsageRepository');
+
+describe('UsageLimiter', () => {
+  let mockEnv: Env;
+  let mockGeminiUsageRepository: any;
+  const now = new Date('2024-05-15T10:00:00Z');
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockEnv = { DB: {} as D1Database } as Env;
+    mockGeminiUsageRepository = {
+      countTranslationsByUserSince: vi.fn().mockResolvedValue(0),
+      sumTokensSince: vi.fn().mockResolvedValue(0),
+    };
+    vi.mocked(GeminiUsageRepository).mockImplementation(function () {
+      return mockGeminiUsageRepository;
+    });
+  });
+
+  it('should count the translations in the last hour and the tokens since the start of the month', async () => {
+    const limiter = new UsageLimiter({ ...mockEnv, MONTHLY_TOKEN_BUDGET: '1000000' });
+
+    expect(await limiter.check('U1', now)).toEqual({ action: 'allow', economy: false });
+    expect(mockGeminiUsageRepository.countTranslationsByUserSince).toHaveBeenCalledWith('U1', '2024-05-15T09:00:00.000Z');
+    expect(mockGeminiUsageRepository.sumTokensSince).toHaveBeenCalledWith('2024-05-01T00:00:00.000Z');
+  });
+
+  it('should not check the monthly budget when it is not configured', async () => {
+    mockGeminiUsageRepository.sumTokensSince.mockResolvedValue(999999999);
+
+    expect(await new UsageLimiter(mockEnv).check('U1', now)).toEqual({ action: 'allow', economy: false });
+    expect(mockGeminiUsageRepository.sumTokensSince).not.toHaveBeenCalled();
+  });
+
+  it.each([
+    [29, 0, { action: 'allow', economy: false }],
+    [30, 0, { action: 'deny', reason: 'rate_limited' }],
+    [0, 799999, { action: 'allow', economy: false }],
+    [0, 800000, { action: 'allow', economy: true }],
+    [0, 1000000, { action: 'deny', reason: 'budget_exceeded' }],
+  ])('should decide for %i translations and %i tokens', async (count, tokens, expected) => {
+    mockGeminiUsageRepository.countTranslationsByUserSince.mockResolvedValue(count);
+    mockGeminiUsageRepository.sumTokensSince.mockResolvedValue(tokens);
+
+    const limiter = new UsageLimiter({ ...mockEnv, MONTHLY_TOKEN_BUDGET: '1000000' });
+
+    expect(await limiter.check('U1', now)).toEqual(expected);
+  });
+
+  it('should cut a long message at the last sentence break', () => {
+    const limiter = new UsageLimiter({ ...mockEnv, MAX_MESSAGE_LENGTH: '30' });
+
+    expect(limiter.truncate('Short message.')).toEqual({ text: 'Short message.', truncated: false });
+    expect(limiter.truncate('The recital is on Sunday. Please bring the costume.'))
+      .toEqual({ text: 'The recital is on Sunday.', truncated: true });
+    expect(limiter.truncate('x'.repeat(40))).toEqual({ text: 'x'.repeat(30), truncated: true });
+  });
+
+  it('should return notices in the sender language with English as the fallback', () => {
+    const limiter = new UsageLimiter(mockEnv);
+
+    expect(limiter.getNotice('truncated', 'ja')).toBe('※メッセージが長いため、最初の1000文字のみ翻訳しました。');
+    expect(limiter.getNotice('rate_limited', 'uk')).toContain('translation is paused');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @file VoiceTranscriber.test.ts
+ * @description VoiceTranscriberの単体テスト。
+ *              LineClient・UsageLimiterをモックし、ローカルのフィクスチャのプロバイダーで音声の書き起こしを検証します。
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { VoiceTranscriber } from '../services/voiceTranscription';
+import { LineClient } from '../services/line';
+import { UsageLimiter } from '../services/usageLimits';
+import { Env } from '../db/BaseRepository';
+import { AudioMessage } from '../types/line';
+
+vi.mock('../services/line');
+vi.mock('../services/usageLimits');
+
+const voiceNote: AudioMessage = { id: 'msg1', type: 'audio', duration: 12000, contentProvider: { type: 'line' } };
+const generation = { postId: 'msg1', roomId: 'group1', userId: 'teacher1' };
+
+/**
+ * ローカルのプロバイダーで書き起こしとして読まれる音声のフィクスチャを作成します。
+ */
+const createFixtureAudio = (transcript: string) => ({
+  data: new TextEncoder().encode(transcript).buffer,
+  contentType: 'audio/m4a',
+});
+
+describe('VoiceTranscriber', () => {
+  let transcriber: VoiceTranscriber;
+  let mockLineClient: any;
+  let mockUsageLimiter: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockLineClient = {
+      getContent: vi.fn().mockResolvedValue(createFixtureAudio('Dzień dobry, jutro próba o 10.')),
+    };
+    vi.mocked(LineClient).mockImplementation(function () {
+      return mockLineClient;
+    });
+    mockUsageLimiter = {
+      check: vi.fn().mockResolvedValue({ action: 'allow', economy: false }),
+    };
+    vi.mocked(UsageLimiter).mockImplementation(function () {
+      return mockUsageLimiter;
+    });
+    transcriber = new VoiceTranscriber({ DB: {} as D1Database, SPEECH_TO_TEXT_PROVIDER: 'local' } as Env);
+  });
+
+  it('should download the voice message and transcribe it', async () => {
+    expect(await transcriber.transcribe(voiceNote, generation)).toBe('Dzień dobry, jutro próba o 10.');
+    expect(mockLineClient.getContent).toHaveBeenCalledWith(voiceNote);
+    expect(mockUsageLimiter.check).toHaveBeenCalledWith('teacher1');
+  });
+
+  it('should return null when there is no speech', async () => {
+    mockLineClient.getContent.mockResolvedValueOnce(createFixtureAudio('  '));
+
+    expect(await transcriber.transcribe(voiceNote, generation)).toBeNull();
+  });
+
+  it('should not transcribe long recordings or when the user has reached the usage limit', async () => {
+    mockUsageLimiter.check.mockResolvedValueOnce({ action: 'deny', reason: 'rate_limited' });
+
+    expect(await transcriber.transcribe({ ...voiceNote, duration: 10 * 60 * 1000 }, generation)).toBeNull();
+    expect(await transcriber.transcribe(voiceNote, generation)).toBeNull();
+    expect(mockLineClient.getContent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @file ContentStorage
+ * @description 写真・動画・音声・ファイルのコンテンツを保存するストレージの共通インターフェースと、R2による実装。
+ *              LINEのコンテンツAPIから取得できるのは送信から一定期間のみのため、CONTENT_BUCKET が設定されている場合は
+ *              受信したコンテンツを保存し、管理画面から後で確認できるようにします。
+ *              R2互換のストレージであれば、このインターフェースを実装して差し替えることができます。
+ */
+
+import { Env } from '../db/BaseRepository';
+import { MessageContent } from './line';
+
+/**
+ * @interface ContentStorage
+ * @description コンテンツを保存するストレージの実装
+ */
+export interface ContentStorage {
+  /**
+   * コンテンツを保存します。同じキーのコンテンツがある場合は上書きします。
+   * @param {string} key 保存先のキー
+   * @param {MessageContent} content コンテンツのバイナリとContent-Type
+   */
+  put(key: string, content: MessageContent): Promise<void>;
+
+  /**
+   * 保存したコンテンツを取得します。
+   * @param {string} key 保存先のキー
+   * @returns {Promise<MessageContent | null>} コンテンツ、または保存されていない場合はnull
+   */
+  get(key: string): Promise<MessageContent | null>;
+
+  /**
+   * 保存したコンテンツを削除します。
+   * @param {string} key 保存先のキー
+   */
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * @function createContentKey
+ * @description 投稿のコンテンツを保存するキーを作成します。
+ * @param {string} postId 投稿ID (LINEのメッセージID)
+ * @returns {string} 保存先のキー
+ */
+export const createContentKey = (postId: string): string => `posts/${postId}`;
+
+export class R2ContentStorage implements ContentStorage {
+  private bucket: R2Bucket;
+
+  constructor(bucket: R2Bucket) {
+    this.bucket = bucket;
+  }
+
+  /**
+   * @method put
+   * @description コンテンツをContent-Typeと一緒にR2に保存します。
+   * @param {string} key 保存先のキー
+   * @param {MessageContent} content コンテンツのバイナリとContent-Type
+   */
+  async put(key: string, content: MessageContent): Promise<void> {
+    await this.bucket.put(key, content.data, { httpMetadata: { contentType: content.contentType } });
+  }
+
+  /**
+   * @method get
+   * @description R2に保存したコンテンツを取得します。
+   * @param {string} key 保存先のキー
+   * @returns {Promise<MessageContent | null>} コンテンツ、または保存されていない場合はnull
+   */
+  async get(key: string): Promise<MessageContent | null> {
+    const object = await this.bucket.get(key);
+    if (!object) {
+      return null;
+    }
+    return {
+      data: await object.arrayBuffer(),
+      contentType: object.httpMetadata?.contentType || 'application/octet-stream',
+    };
+  }
+
+  /**
+   * @method delete
+   * @description R2に保存したコンテンツを削除します。
+   * @param {string} key 保存先のキー
+   */
+  async delete(key: string): Promise<void> {
+    await this.bucket.delete(key);
+  }
+}
+
+/**
+ * @function createContentStorage
+ * @description 環境変数 CONTENT_BUCKET (R2のバインディング) が設定されている場合に、コンテンツのストレージを作成します。
+ * @param {Env} env 環境変数
+ * @returns {ContentStorage | null} ストレージ、またはコンテンツを保存しない場合はnull
+ */
+export const createContentStorage = (env: Env): ContentStorage | null =>
+  env.CONTENT_BUCKET ? new R2ContentStorage(env.CONTENT_BUCKET) : null;
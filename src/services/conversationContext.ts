@@ -0,0 +1,187 @@
+/**
+ * @file ConversationContextBuilder
+ * @description 翻訳プロンプトに含める会話の文脈を作成するサービス。
+ *              直近の発言に話者の表示名・役割、発言時刻 (相対時刻)、既存の翻訳を付け、
+ *              推定トークン数の上限に収まる範囲で新しい発言から順に含めます。
+ *              アンケートコマンドと名前の登録コマンドは会話の内容ではないため除外します。
+ *              写真・スタンプ・ファイルなどテキスト以外の投稿は "[写真]" のような説明で含めます。
+ *              引用返信の場合は、引用された発言を返信先として同じ形式で作成します。
+ */
+
+import { PostRepository, Env } from '../db';
+import { PostWithSpeaker } from '../types/db';
+import { RoomLanguageConfig } from '../utils/languages';
+import { detectLanguage } from '../utils/languageDetection';
+import { describeContent } from '../utils/messageContent';
+import {
+  POLL_COMMAND_PATTERN,
+  NAME_REGISTRATION_PATTERN,
+  FEEDBACK_SUGGESTION_PATTERN,
+  RETRANSLATE_COMMAND_PATTERN,
+  PLACE_REGISTRATION_PATTERN,
+} from '../utils/commands';
+
+// 文脈に含める発言の推定トークン数の上限 (TRANSLATION_CONTEXT_TOKEN_BUDGET が未設定の場合)
+const DEFAULT_TOKEN_BUDGET = 400;
+
+// 文脈の候補としてDBから取得する発言の最大数
+const MAX_CONTEXT_POSTS = 20;
+
+/**
+ * @interface ContextEntry
+ * @description 翻訳の文脈に含める1件の発言
+ */
+export interface ContextEntry {
+  post: PostWithSpeaker; // 元の投稿
+  text: string; // プロンプトに含めるテキスト (時刻・話者・役割・発言・既存の翻訳)
+}
+
+/**
+ * @function estimateTokens
+ * @description テキストのトークン数を概算します。
+ *              日本語・中国語・韓国語は1文字を1トークン、それ以外は4文字を1トークンとして数えます。
+ * @param {string} text テキスト
+ * @returns {number} 推定トークン数
+ */
+export const estimateTokens = (text: string): number => {
+  const cjkCount = (text.match(/[\u3000-\u30FF\u3400-\u9FFF\uAC00-\uD7AF\uFF00-\uFFEF]/g) || []).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+};
+
+/**
+ * @function formatRelativeTime
+ * @description 発言時刻を、現在時刻からの相対時刻 (例: "5分前") で表します。
+ * @param {string} timestamp 発言時刻 (ISO8601形式)
+ * @param {Date} now 現在時刻
+ * @returns {string} 相対時刻
+ */
+export const formatRelativeTime = (timestamp: string, now: Date): string => {
+  const elapsed = now.getTime() - new Date(timestamp).getTime();
+  if (Number.isNaN(elapsed)) {
+    return '時刻不明';
+  }
+  const minutes = Math.floor(elapsed / 60000);
+  if (minutes < 1) {
+    return 'たった今';
+  }
+  if (minutes < 60) {
+    return `${minutes}分前`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}時間前`;
+  }
+  return `${Math.floor(hours / 24)}日前`;
+};
+
+export class ConversationContextBuilder {
+  private postRepository: PostRepository;
+  private tokenBudget: number;
+
+  constructor(env: Env) {
+    this.postRepository = new PostRepository(env);
+    const tokenBudget = Number(env.TRANSLATION_CONTEXT_TOKEN_BUDGET);
+    this.tokenBudget = tokenBudget > 0 ? tokenBudget : DEFAULT_TOKEN_BUDGET;
+  }
+
+  /**
+   * @method build
+   * @description 翻訳対象の投稿より前の発言から、翻訳の文脈を作成します。
+   * @param {string} postId 翻訳対象の投稿ID (文脈から除外する)
+   * @param {string} userId 投稿者のユーザーID
+   * @param {string | null} roomId 投稿があったルームID。nullの場合は個人チャット。
+   * @param {RoomLanguageConfig} languageConfig ルームの言語設定 (話者の役割の判定に使用)
+   * @param {Date} [now] 相対時刻の基準とする現在時刻
+   * @returns {Promise<ContextEntry[]>} 文脈に含める発言の配列 (古い順)
+   */
+  async build(
+    postId: string,
+    userId: string,
+    roomId: string | null,
+    languageConfig: RoomLanguageConfig,
+    now: Date = new Date()
+  ): Promise<ContextEntry[]> {
+    const posts = roomId
+      ? await this.postRepository.findContextPostsByRoomId(roomId, MAX_CONTEXT_POSTS)
+      : await this.postRepository.findContextPostsByUserId(userId, MAX_CONTEXT_POSTS);
+
+    // 新しい発言から順に、トークン数の上限に達するまで含める
+    const entries: ContextEntry[] = [];
+    let usedTokens = 0;
+    for (const post of posts) {
+      if (post.post_id === postId || !this.isConversation(post)) {
+        continue;
+      }
+      const text = this.formatEntry(post, languageConfig, now);
+      const tokens = estimateTokens(text);
+      if (usedTokens + tokens > this.tokenBudget) {
+        break;
+      }
+      usedTokens += tokens;
+      entries.push({ post, text });
+    }
+    return entries.reverse();
+  }
+
+  /**
+   * @method buildQuoted
+   * @description 引用返信で引用された発言を、文脈と同じ形式の返信先として作成します。
+   * @param {string} quotedPostId 引用されたメッセージのID
+   * @param {RoomLanguageConfig} languageConfig ルームの言語設定 (話者の役割の判定に使用)
+   * @param {Date} [now] 相対時刻の基準とする現在時刻
+   * @returns {Promise<ContextEntry | null>} 返信先の発言、または保存されていないメッセージ (ボットの返信など) の場合はnull
+   */
+  async buildQuoted(quotedPostId: string, languageConfig: RoomLanguageConfig, now: Date = new Date()): Promise<ContextEntry | null> {
+    const post = await this.postRepository.findWithSpeakerById(quotedPostId);
+    if (!post?.message_text?.trim()) {
+      return null;
+    }
+    return { post, text: this.formatEntry(post, languageConfig, now) };
+  }
+
+  /**
+   * @method isConversation
+   * @description 投稿が文脈に含めるべき会話かを判定します。空のテキスト、送信が取り消された投稿、アンケート、
+   *              名前の登録・再翻訳・場所の登録のコマンド、翻訳の修正案は除外します。テキスト以外の投稿は本文がなくても含めます。
+   * @param {PostWithSpeaker} post 投稿
+   * @returns {boolean} 文脈に含める場合はtrue
+   */
+  private isConversation(post: PostWithSpeaker): boolean {
+    if (post.retracted_at || post.has_poll) {
+      return false;
+    }
+    const text = post.message_text?.trim();
+    if (!text) {
+      return !!describeContent(post);
+    }
+    return !POLL_COMMAND_PATTERN.test(text)
+      && !NAME_REGISTRATION_PATTERN.test(text)
+      && !FEEDBACK_SUGGESTION_PATTERN.test(text)
+      && !RETRANSLATE_COMMAND_PATTERN.test(text)
+      && !PLACE_REGISTRATION_PATTERN.test(text);
+  }
+
+  /**
+   * @method formatEntry
+   * @description 発言をプロンプト用のテキストに整形します。
+   *              例: "[5分前] Kasia (先生): Jutro nie ma zajęć\n   訳: 明日はレッスンがありません"
+   *              テキスト以外の投稿は、発言の前に説明を付けます (例: "[写真] 発表会のお知らせ…", "[スタンプ]")。
+   * @param {PostWithSpeaker} post 投稿
+   * @param {RoomLanguageConfig} languageConfig ルームの言語設定
+   * @param {Date} now 現在時刻
+   * @returns {string} 整形されたテキスト
+   */
+  private formatEntry(post: PostWithSpeaker, languageConfig: RoomLanguageConfig, now: Date): string {
+    const body = (post.message_text || '').replace(/\s*\n\s*/g, ' ').trim();
+    const message = [describeContent(post), body].filter(Boolean).join(' ');
+    const speaker = post.display_name || '名前未登録のユーザー';
+    // 役割は言語ごとに設定されているため、発言の言語から判定する (スタンプなど本文がない場合は判定しない)
+    const role = body ? languageConfig.roles?.[detectLanguage(body, languageConfig.languages).language] : undefined;
+
+    let text = `[${formatRelativeTime(post.timestamp, now)}] ${speaker}${role ? ` (${role})` : ''}: ${message}`;
+    if (post.translated_text) {
+      text += `\n   訳: ${post.translated_text.replace(/\s*\n\s*/g, ' / ').trim()}`;
+    }
+    return text;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * @file MessageDeliveryService
+ * @description LINEへのメッセージ送信を管理するサービス。
+ *              Reply APIのレスポンスを確認し、返信トークンが無効・期限切れの場合はPush APIで同じメッセージを再送します。
+ *              どちらの方法で送信したか、LINEから返されたエラー内容を 'delivery_logs' に記録します。
+ */
+
+import { LineClient } from './line';
+import { LogRepository, Env } from '../db';
+
+/**
+ * @interface DeliveryTarget
+ * @description メッセージの送信先
+ */
+export interface DeliveryTarget {
+  replyToken?: string; // 返信トークン (存在しない場合は最初からPush APIで送信)
+  to: string | null; // Push APIでの送信先ID (グループID, ルームID, またはユーザーID)
+  postId?: string | null; // 返信元の投稿ID (ログ用)
+}
+
+/**
+ * @interface DeliveryResult
+ * @description メッセージ送信の結果
+ */
+export interface DeliveryResult {
+  method: 'reply' | 'push'; // 実際に送信に使用した方法
+}
+
+export class MessageDeliveryService {
+  private lineClient: LineClient;
+  private logRepository: LogRepository;
+
+  constructor(env: Env) {
+    this.lineClient = new LineClient(env);
+    this.logRepository = new LogRepository(env);
+  }
+
+  /**
+   * @method deliver
+   * @description メッセージを送信します。
+   *              返信トークンがあればReply APIを使用し、トークンが無効・期限切れの場合はPush APIにフォールバックします。
+   * @param {DeliveryTarget} target 送信先
+   * @param {any[]} messages 送信するメッセージオブジェクトの配列
+   * @returns {Promise<DeliveryResult>} 送信結果
+   * @throws {Error} 送信に失敗した場合 (キューのリトライ対象とするため)
+   */
+  async deliver(target: DeliveryTarget, messages: any[]): Promise<DeliveryResult> {
+    if (target.replyToken) {
+      const response = await this.lineClient.replyMessage(target.replyToken, messages);
+      if (response.ok) {
+        await this.log(target, 'reply', response.status, null);
+        return { method: 'reply' };
+      }
+
+      const errorBody = await this.readErrorBody(response);
+      await this.log(target, 'reply', response.status, errorBody);
+
+      if (!this.isInvalidReplyToken(response.status, errorBody)) {
+        throw new Error(`LINE reply API error: ${response.status} ${errorBody}`);
+      }
+      console.warn(`Reply token is invalid or expired (post ${target.postId ?? '-'}). Falling back to push API.`);
+    }
+
+    if (!target.to) {
+      throw new Error('Cannot push message: destination is unknown.');
+    }
+
+    const response = await this.lineClient.pushMessage(target.to, messages);
+    if (!response.ok) {
+      const errorBody = await this.readErrorBody(response);
+      await this.log(target, 'push', response.status, errorBody);
+      throw new Error(`LINE push API error: ${response.status} ${errorBody}`);
+    }
+
+    await this.log(target, 'push', response.status, null);
+    return { method: 'push' };
+  }
+
+  /**
+   * @method isInvalidReplyToken
+   * @description LINEのエラーレスポンスが返信トークンの無効・期限切れによるものかを判定します。
+   *              LINEは使用済み・期限切れのトークンに対して 400 "Invalid reply token" を返します。
+   * @param {number} status HTTPステータスコード
+   * @param {string} errorBody エラーレスポンスのボディ
+   * @returns {boolean} 返信トークンが無効な場合はtrue
+   */
+  private isInvalidReplyToken(status: number, errorBody: string): boolean {
+    return status === 400 && /invalid reply token/i.test(errorBody);
+  }
+
+  /**
+   * @method readErrorBody
+   * @description エラーレスポンスのボディを文字列として読み取ります。
+   * @param {Response} response fetch APIのレスポンス
+   * @returns {Promise<string>} レスポンスボディ (読み取れない場合は空文字)
+   */
+  private async readErrorBody(response: Response): Promise<string> {
+    try {
+      return await response.text();
+    } catch (e) {
+      return '';
+    }
+  }
+
+  /**
+   * @method log
+   * @description 送信結果をログに記録します。ログの保存に失敗しても送信処理は継続します。
+   */
+  private async log(
+    target: DeliveryTarget,
+    method: 'reply' | 'push',
+    statusCode: number,
+    errorBody: string | null
+  ): Promise<void> {
+    try {
+      await this.logRepository.createDeliveryLog({
+        timestamp: new Date().toISOString(),
+        post_id: target.postId ?? null,
+        destination: target.to,
+        method: method,
+        success: errorBody === null ? 1 : 0,
+        status_code: statusCode,
+        error_body: errorBody,
+      });
+    } catch (e) {
+      console.error('Failed to save delivery log:', e);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * @file EventLedger
+ * @description Webhookイベントの処理台帳を管理するサービス。
+ *              webhookEventIdをキーに処理状況を記録し、LINEの再送やキューのリトライによる二重処理を防ぎます。
+ *              処理途中で失敗したイベントは、完了済みのステップを飛ばして続きから再開できます。
+ */
+
+import { ProcessedEventRepository, Env } from '../db';
+import { WebhookEvent, MessageEvent } from '../types/line';
+
+// 処理中のイベントを他の処理が奪わないようにするリース期間 (ミリ秒)
+const PROCESSING_LEASE_MS = 2 * 60 * 1000;
+
+/**
+ * @class EventProgress
+ * @description 1つのイベントの処理進捗を表します。
+ *              ステップ単位で結果を記録し、リトライ時には記録済みの結果を返して処理を再実行しません。
+ */
+export class EventProgress {
+  private eventId: string | null;
+  private repository: ProcessedEventRepository | null;
+  private stepResults: Record<string, unknown>;
+
+  constructor(
+    eventId: string | null,
+    repository: ProcessedEventRepository | null,
+    stepResults: Record<string, unknown> = {}
+  ) {
+    this.eventId = eventId;
+    this.repository = repository;
+    this.stepResults = stepResults;
+  }
+
+  /**
+   * @method step
+   * @description 名前付きのステップを実行し、結果を台帳に記録します。
+   *              既に完了しているステップは実行せず、記録済みの結果を返します。
+   * @param {string} name ステップ名 (イベント内で一意)
+   * @param {() => Promise<T>} fn ステップの処理。結果はJSONとして保存できる値である必要があります
+   * @returns {Promise<T>} ステップの結果
+   */
+  async step<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    if (name in this.stepResults) {
+      console.log(`Skipping completed step "${name}" for event ${this.eventId}`);
+      return this.stepResults[name] as T;
+    }
+
+    const result = await fn();
+    // undefinedはJSONに保存できないため、nullとして記録する
+    this.stepResults[name] = result === undefined ? null : result;
+
+    if (this.eventId && this.repository) {
+      await this.repository.saveStepResults(
+        this.eventId,
+        JSON.stringify(this.stepResults),
+        new Date().toISOString()
+      );
+    }
+    return result;
+  }
+
+  /**
+   * @method complete
+   * @description イベントを処理完了として記録します。
+   */
+  async complete(): Promise<void> {
+    if (this.eventId && this.repository) {
+      await this.repository.markCompleted(this.eventId, new Date().toISOString());
+    }
+  }
+
+  /**
+   * @method fail
+   * @description イベントを処理失敗として記録します。
+   * @param {unknown} error 発生したエラー
+   */
+  async fail(error: unknown): Promise<void> {
+    if (this.eventId && this.repository) {
+      const message = error instanceof Error ? error.message : String(error);
+      await this.repository.markFailed(this.eventId, message, new Date().toISOString());
+    }
+  }
+}
+
+export class EventLedger {
+  private repository: ProcessedEventRepository;
+
+  constructor(env: Env) {
+    this.repository = new ProcessedEventRepository(env);
+  }
+
+  /**
+   * @method begin
+   * @description イベントの処理を開始し、進捗オブジェクトを返します。
+   *              webhookEventIdを持たないイベントは台帳に記録せず、そのまま処理します。
+   * @param {WebhookEvent} event 処理するWebhookイベント
+   * @returns {Promise<EventProgress | null>} 進捗オブジェクト、または処理済みのイベントの場合はnull
+   * @throws {Error} 他の処理がリース期間内でイベントを処理中の場合
+   */
+  async begin(event: WebhookEvent): Promise<EventProgress | null> {
+    const eventId = event.webhookEventId;
+    if (!eventId) {
+      return new EventProgress(null, null);
+    }
+
+    const now = new Date();
+    const leaseExpiredBefore = new Date(now.getTime() - PROCESSING_LEASE_MS).toISOString();
+    const messageId = event.type === 'message' ? (event as MessageEvent).message.id : null;
+    const claimed = await this.repository.claim(eventId, messageId, now.toISOString(), leaseExpiredBefore);
+
+    if (claimed) {
+      const stepResults = claimed.step_results ? JSON.parse(claimed.step_results) : {};
+      if (claimed.attempts > 1) {
+        console.log(`Resuming event ${eventId} (attempt ${claimed.attempts}), completed steps: ${Object.keys(stepResults).join(', ') || 'none'}`);
+      }
+      return new EventProgress(eventId, this.repository, stepResults);
+    }
+
+    const existing = await this.repository.findById(eventId);
+    if (existing?.status === 'completed') {
+      console.log(`Event ${eventId} has already been processed. Skipping.`);
+      return null;
+    }
+
+    throw new Error(`Event ${eventId} is being processed by another consumer.`);
+  }
+}
@@ -1,24 +1,137 @@
 /**
  * @file GeminiClient
  * @description Google Generative AI (Gemini) APIとの連携を管理するクライアント。
- *              テキスト生成、エラーハンドリング、リトライロジックを提供します。
+ *              テキスト生成 (画像を含むプロンプトからの生成を含む)、エラーハンドリング、リトライロジックを提供します。
+ *              呼び出しごとに、応答したモデル、試行回数とフォールバックの経路、トークン数、推定コスト、所要時間を 'gemini_usage' に記録します。
+ *              直前に429/503を返したモデルなどクールダウン中のモデルは ModelHealthTracker によって飛ばし、使用可能な最初のモデルから試します。
  */
 
-import { GoogleGenerativeAI, GenerativeModel } from '@google/generative-ai';
+import { GoogleGenerativeAI, GenerativeModel, Part } from '@google/generative-ai';
 import { Env } from '../db/BaseRepository';
+import { GeminiUsageRepository } from '../db/GeminiUsageRepository';
+import { TranslationProvider, GenerationContext } from './translationProvider';
+import { ModelHealthTracker } from './modelHealth';
+import { SpeechToTextProvider } from './speechToText';
+import { MessageContent } from './line';
+import { toBase64, toMimeType } from '../utils/encoding';
 
-const GEMINI_MODELS = [
+export const GEMINI_MODELS = [
   'gemini-2.5-flash-lite',
   'gemini-2.5-flash',
   'gemini-3-flash-preview',
   'gemma-3-27b-it'
 ];
 
-export class GeminiClient {
+// 月間のトークン予算が残り少ない場合に使用する安価なモデル (GEMINI_MODELS から高価なモデルを除いたもの)
+const ECONOMY_MODELS = [
+  'gemini-2.5-flash-lite',
+  'gemma-3-27b-it'
+];
+
+// 再翻訳で使用する、精度の高いモデルから試す順序
+const ACCURATE_MODELS = [
+  'gemini-3-flash-preview',
+  'gemini-2.5-flash',
+  'gemini-2.5-flash-lite',
+  'gemma-3-27b-it'
+];
+
+// 画像や音声を含むプロンプトに使用するモデル (画像・音声を入力できるモデルのみ)
+const MULTIMODAL_MODELS = [
+  'gemini-2.5-flash-lite',
+  'gemini-2.5-flash',
+  'gemini-3-flash-preview'
+];
+
+// 月間のトークン予算が残り少ない場合に、画像や音声を含むプロンプトに使用するモデル
+const ECONOMY_MULTIMODAL_MODELS = [
+  'gemini-2.5-flash-lite'
+];
+
+// 聞き取れる発言がない場合にモデルが返す文字列
+const NO_SPEECH_MARKER = 'NO_SPEECH';
+
+// 音声を書き起こすプロンプト
+const TRANSCRIPTION_PROMPT = [
+  'この音声の発言を、話されている言語のまま正確に書き起こしてください。\n',
+  '- 翻訳や要約はせず、言い淀み (えー、あの など) は省いてください\n',
+  '- 書き起こした文章のみを出力してください（説明や話者名、タイムスタンプは不要）\n',
+  `- 聞き取れる発言がない場合は、${NO_SPEECH_MARKER} とだけ出力してください\n`,
+].join('');
+
+// モデルごとの料金の目安 (USD / 100万トークン、有料枠の入力・出力)。無料枠内の利用でも推定コストとして記録する
+const GEMINI_MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-3-flash-preview': { input: 0.5, output: 3.0 },
+  'gemma-3-27b-it': { input: 0, output: 0 },
+};
+
+/**
+ * @interface GenerationAttempt
+ * @description 1回のAPI呼び出しの結果 (フォールバックの経路の記録用)
+ */
+interface GenerationAttempt {
+  model: string; // 呼び出したモデル
+  outcome: string; // 'ok'、HTTPステータスコード、またはステータスのないエラーの場合は 'error'
+}
+
+/**
+ * @interface InlineMedia
+ * @description プロンプトに含める画像や音声
+ */
+export interface InlineMedia {
+  data: string; // Base64でエンコードしたデータ
+  mimeType: string; // MIMEタイプ (例: 'image/jpeg', 'audio/m4a')
+}
+
+/**
+ * @interface GenerationResult
+ * @description テキスト生成に成功した結果
+ */
+interface GenerationResult {
+  text: string; // 生成されたテキスト
+  model: string; // 応答したモデル
+  promptTokens: number | null; // 入力トークン数 (usageMetadata.promptTokenCount)
+  outputTokens: number | null; // 出力トークン数 (usageMetadata.candidatesTokenCount)
+}
+
+/**
+ * モデルの料金の目安から推定コスト (USD) を計算します。料金が不明なモデルやトークン数がない場合はnullを返します。
+ */
+const estimateCost = (model: string, promptTokens: number | null, outputTokens: number | null): number | null => {
+  const pricing = GEMINI_MODEL_PRICING[model];
+  if (!pricing || (promptTokens === null && outputTokens === null)) {
+    return null;
+  }
+  return ((promptTokens ?? 0) * pricing.input + (outputTokens ?? 0) * pricing.output) / 1_000_000;
+};
+
+/**
+ * APIのエラーからHTTPステータスコード (error.response.status) を取り出します。ステータスのないエラーの場合はundefinedを返します。
+ */
+const getErrorStatus = (error: unknown): number | undefined => {
+  if (typeof error !== 'object' || error === null || !('response' in error)) {
+    return undefined;
+  }
+  const response = (error as { response?: unknown }).response;
+  if (typeof response !== 'object' || response === null || !('status' in response)) {
+    return undefined;
+  }
+  const status = (response as { status?: unknown }).status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export class GeminiClient implements TranslationProvider, SpeechToTextProvider {
+  readonly name = 'gemini';
   private genAI: GoogleGenerativeAI;
   private apiKey: string;
+  private geminiUsageRepository: GeminiUsageRepository;
+  private modelHealthTracker: ModelHealthTracker;
 
   constructor(env: Env) {
+    this.geminiUsageRepository = new GeminiUsageRepository(env);
+    this.modelHealthTracker = new ModelHealthTracker(env);
     this.apiKey = env.GEMINI_API_KEY;
     console.log('Gemini API Key (first 5 chars):', this.apiKey ? this.apiKey.substring(0, 5) + '...' : 'Not Set');
     console.log('Gemini API Key Length:', this.apiKey ? this.apiKey.length : 'N/A');
@@ -36,21 +149,149 @@ export class GeminiClient {
   /**
    * @method generateText
    * @description 指定されたプロンプトと履歴に基づいてテキストを生成します。
-   *              リトライロジックを含みます。
+   *              リトライロジックを含み、成功・失敗にかかわらず呼び出しの記録を 'gemini_usage' に保存します。
    * @param {string} prompt プロンプトテキスト
+   * @param {GenerationContext} context 呼び出しの目的と、投稿・ルーム・ユーザー (使用量の集計用)
    * @param {string[]} history 過去のメッセージ履歴 (例: ['user: こんにちは', 'model: こんにちは！'])
    * @param {number} retries リトライ試行回数
    * @returns {Promise<string>} 生成されたテキスト
    * @throws {Error} リトライ回数を超えてもテキスト生成に失敗した場合
    */
-  async generateText(prompt: string, history: { role: string; parts: string }[] = [], retries = 3): Promise<string> {
+  async generateText(
+    prompt: string,
+    context: GenerationContext = {},
+    history: { role: string; parts: string }[] = [],
+    retries = 3
+  ): Promise<string> {
+    const startedAt = Date.now();
+    const attempts: GenerationAttempt[] = [];
+    try {
+      const models = await this.modelHealthTracker.selectModels(
+        context.economy ? ECONOMY_MODELS : context.accurate ? ACCURATE_MODELS : GEMINI_MODELS
+      );
+      const result = await this.generateWithFallback(prompt, models, history, retries, attempts);
+      await this.recordUsage(context, attempts, startedAt, result, null);
+      return result.text;
+    } catch (error) {
+      await this.recordUsage(context, attempts, startedAt, null, error);
+      throw error;
+    }
+  }
+
+  /**
+   * @method generateFromMedia
+   * @description 画像や音声とプロンプトからテキストを生成します (写真に写った文章の読み取りや、音声の書き起こしなど)。
+   *              画像・音声を入力できるモデルのみを使用し、呼び出しの記録は generateText と同様に 'gemini_usage' に保存します。
+   * @param {string} prompt プロンプトテキスト
+   * @param {InlineMedia} media プロンプトに含める画像や音声
+   * @param {GenerationContext} context 呼び出しの目的と、投稿・ルーム・ユーザー (使用量の集計用)
+   * @param {number} retries リトライ試行回数
+   * @returns {Promise<string>} 生成されたテキスト
+   * @throws {Error} リトライ回数を超えてもテキスト生成に失敗した場合
+   */
+  async generateFromMedia(
+    prompt: string,
+    media: InlineMedia,
+    context: GenerationContext = {},
+    retries = 3
+  ): Promise<string> {
+    const startedAt = Date.now();
+    const attempts: GenerationAttempt[] = [];
+    try {
+      const models = await this.modelHealthTracker.selectModels(context.economy ? ECONOMY_MULTIMODAL_MODELS : MULTIMODAL_MODELS);
+      const result = await this.generateWithFallback([prompt, { inlineData: media }], models, [], retries, attempts);
+      await this.recordUsage(context, attempts, startedAt, result, null);
+      return result.text;
+    } catch (error) {
+      await this.recordUsage(context, attempts, startedAt, null, error);
+      throw error;
+    }
+  }
+
+  /**
+   * @method transcribe
+   * @description 音声を書き起こします (SpeechToTextProvider の実装)。
+   * @param {MessageContent} audio 音声のバイナリとContent-Type
+   * @param {GenerationContext} [context] 呼び出しの目的と、投稿・ルーム・ユーザー (使用量の集計用)
+   * @returns {Promise<string>} 書き起こしたテキスト (聞き取れる発言がない場合は空文字)
+   */
+  async transcribe(audio: MessageContent, context: GenerationContext = {}): Promise<string> {
+    const text = await this.generateFromMedia(
+      TRANSCRIPTION_PROMPT,
+      { data: toBase64(audio.data), mimeType: toMimeType(audio.contentType) },
+      { purpose: 'speech_to_text', ...context }
+    );
+    return text.trim() === NO_SPEECH_MARKER ? '' : text.trim();
+  }
+
+  /**
+   * @method recordUsage
+   * @description API呼び出しの記録を 'gemini_usage' に保存します。保存に失敗しても翻訳処理には影響させません。
+   * @param {GenerationContext} context 呼び出しの目的と、投稿・ルーム・ユーザー
+   * @param {GenerationAttempt[]} attempts 各試行の結果
+   * @param {number} startedAt 呼び出しを開始した時刻 (ミリ秒)
+   * @param {GenerationResult | null} result 成功した場合の結果
+   * @param {unknown} error 失敗した場合のエラー
+   */
+  private async recordUsage(
+    context: GenerationContext,
+    attempts: GenerationAttempt[],
+    startedAt: number,
+    result: GenerationResult | null,
+    error: unknown
+  ): Promise<void> {
+    try {
+      const errorStatus = getErrorStatus(error);
+      await this.geminiUsageRepository.create({
+        timestamp: new Date(startedAt).toISOString(),
+        purpose: context.purpose ?? null,
+        post_id: context.postId ?? null,
+        room_id: context.roomId ?? null,
+        user_id: context.userId ?? null,
+        model: result?.model ?? attempts[attempts.length - 1]?.model ?? null,
+        attempts: attempts.length,
+        fallback_path: attempts.map(a => `${a.model}:${a.outcome}`).join(' > '),
+        prompt_tokens: result?.promptTokens ?? null,
+        output_tokens: result?.outputTokens ?? null,
+        cost_usd: result ? estimateCost(result.model, result.promptTokens, result.outputTokens) : null,
+        latency_ms: Date.now() - startedAt,
+        status: result ? 'success' : 'error',
+        error_message: result
+          ? null
+          : error instanceof Error ? error.message : errorStatus ? `HTTP ${errorStatus}` : String(error),
+      });
+    } catch (e) {
+      console.warn('Failed to record Gemini usage:', e);
+    }
+  }
+
+  /**
+   * @method generateWithFallback
+   * @description 指定されたモデルの順に試してテキストを生成します。
+   *              429の場合は次のモデルに切り替え、500/503の場合は同じモデルでリトライします。
+   *              各試行の結果はモデルの状態 (model_health) に反映します。
+   * @param {string | Array<string | Part>} prompt プロンプト (画像を含む場合はパーツの配列)
+   * @param {string[]} models 試すモデルの配列 (優先順)
+   * @param {string[]} history 過去のメッセージ履歴
+   * @param {number} retries リトライ試行回数
+   * @param {GenerationAttempt[]} attempts 各試行の結果を追加する配列
+   * @returns {Promise<GenerationResult>} 生成されたテキストと、応答したモデル・トークン数
+   * @throws {Error} リトライ回数を超えてもテキスト生成に失敗した場合
+   */
+  private async generateWithFallback(
+    prompt: string | Array<string | Part>,
+    models: string[],
+    history: { role: string; parts: string }[],
+    retries: number,
+    attempts: GenerationAttempt[]
+  ): Promise<GenerationResult> {
     if (!this.apiKey || this.apiKey.length !== 39) {
       console.error('Gemini API Key is invalid or missing (expected 39 chars).');
     }
 
     let lastError: any;
 
-    for (const modelName of GEMINI_MODELS) {
+    for (const modelName of models) {
       console.log('Attempting to get model:', modelName);
       const model = this.genAI.getGenerativeModel({ model: modelName });
 
@@ -68,7 +309,14 @@ export class GeminiClient {
           if (!text) {
             throw new Error('Gemini API did not return text.');
           }
-          return text;
+          attempts.push({ model: modelName, outcome: 'ok' });
+          await this.modelHealthTracker.recordOutcome(modelName, 'ok');
+          return {
+            text,
+            model: modelName,
+            promptTokens: response.usageMetadata?.promptTokenCount ?? null,
+            outputTokens: response.usageMetadata?.candidatesTokenCount ?? null,
+          };
         } catch (error: any) {
           const errorMessage = error instanceof Error ? error.message : String(error);
           const errorStack = error instanceof Error ? error.stack : '';
@@ -76,7 +324,10 @@ export class GeminiClient {
 
           lastError = error;
 
-          const status = error.response?.status;
+          const status = getErrorStatus(error);
+          const outcome = status ? String(status) : 'error';
+          attempts.push({ model: modelName, outcome });
+          await this.modelHealthTracker.recordOutcome(modelName, outcome);
 
           // 429 Too Many Requests: Switch to next model immediately
           if (status === 429) {
@@ -113,7 +364,7 @@ export class GeminiClient {
 
       // If we are here, inner loop finished.
       // If it was due to 429 break, lastError.response.status is 429.
-      if (lastError?.response?.status === 429) {
+      if (getErrorStatus(lastError) === 429) {
         continue; // Try next model
       }
 
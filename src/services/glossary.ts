@@ -0,0 +1,123 @@
+/**
+ * @file GlossaryService
+ * @description 用語集 (glossary_terms) を使って翻訳の訳語を統一するサービス。
+ *              原文に含まれる用語を探してプロンプト用の指示を作成し、翻訳後に指定の訳語が使われているかを確認します。
+ */
+
+import { GlossaryRepository, Env } from '../db';
+import { GlossaryTerm } from '../types/db';
+import { getLanguageLabel } from '../utils/languages';
+
+/**
+ * @interface GlossaryViolation
+ * @description 翻訳結果に指定の訳語が含まれていなかった項目
+ */
+export interface GlossaryViolation {
+  lang: string; // 翻訳先の言語コード
+  term: string; // 用語
+  expected: string; // 翻訳結果に含まれるべき訳語
+}
+
+export class GlossaryService {
+  private glossaryRepository: GlossaryRepository;
+
+  constructor(env: Env) {
+    this.glossaryRepository = new GlossaryRepository(env);
+  }
+
+  /**
+   * @method findMatchingTerms
+   * @description ルームに適用される用語のうち、原文に含まれるものを取得します。
+   *              用語そのものか、いずれかの言語の訳語が原文に含まれていれば一致とみなします (大文字・小文字は区別しません)。
+   * @param {string} text 原文
+   * @param {string | null} roomId ルームID。nullの場合は個人チャット。
+   * @returns {Promise<GlossaryTerm[]>} 原文に含まれる用語の配列
+   */
+  async findMatchingTerms(text: string, roomId: string | null): Promise<GlossaryTerm[]> {
+    const terms = await this.glossaryRepository.findForRoom(roomId);
+    const lowerText = text.toLowerCase();
+    return terms.filter(term =>
+      [term.term, ...Object.values(this.parseTranslations(term))]
+        .some(form => form && lowerText.includes(form.toLowerCase()))
+    );
+  }
+
+  /**
+   * @method createPromptSection
+   * @description 一致した用語をプロンプトに挿入する【用語集】セクションを作成します。
+   * @param {GlossaryTerm[]} terms 原文に含まれる用語
+   * @param {string[]} targetLangs 翻訳先の言語コードの配列
+   * @returns {string} プロンプトのセクション (該当する用語がない場合は空文字)
+   */
+  createPromptSection(terms: GlossaryTerm[], targetLangs: string[]): string {
+    const lines = terms
+      .map(term => {
+        if (term.do_not_translate) {
+          return `- "${term.term}": 翻訳せず原文のまま「${term.term}」と表記`;
+        }
+        const renderings = targetLangs
+          .map(lang => ({ lang, rendering: this.parseTranslations(term)[lang] }))
+          .filter(({ rendering }) => rendering)
+          .map(({ lang, rendering }) => `${getLanguageLabel(lang)}「${rendering}」`);
+        return renderings.length > 0 ? `- "${term.term}": ${renderings.join(', ')}` : null;
+      })
+      .filter(line => line !== null);
+
+    if (lines.length === 0) {
+      return '';
+    }
+    return '【用語集】\n以下の用語は、指定された訳語を必ず使用してください。\n' + lines.join('\n') + '\n\n';
+  }
+
+  /**
+   * @method findViolations
+   * @description 翻訳結果に、用語集で指定された訳語が含まれているかを確認します。
+   * @param {GlossaryTerm[]} terms 原文に含まれる用語
+   * @param {Record<string, string>} translations 言語コードをキーとした翻訳結果
+   * @returns {GlossaryViolation[]} 指定の訳語が含まれていなかった項目の配列
+   */
+  findViolations(terms: GlossaryTerm[], translations: Record<string, string>): GlossaryViolation[] {
+    const violations: GlossaryViolation[] = [];
+    for (const [lang, translation] of Object.entries(translations)) {
+      for (const term of terms) {
+        const expected = this.getRequiredRendering(term, lang);
+        if (expected && !translation.toLowerCase().includes(expected.toLowerCase())) {
+          violations.push({ lang, term: term.term, expected });
+        }
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * @method getRequiredRendering
+   * @description 指定された言語の翻訳結果に含まれるべき訳語を返します。
+   * @param {GlossaryTerm} term 用語
+   * @param {string} lang 翻訳先の言語コード
+   * @returns {string | null} 訳語 (指定がない場合はnull)
+   */
+  private getRequiredRendering(term: GlossaryTerm, lang: string): string | null {
+    if (term.do_not_translate) {
+      return term.term;
+    }
+    return this.parseTranslations(term)[lang] || null;
+  }
+
+  /**
+   * @method parseTranslations
+   * @description 用語の言語ごとの訳語 (JSON) を読み込みます。不正なJSONの場合は空のオブジェクトを返します。
+   * @param {GlossaryTerm} term 用語
+   * @returns {Record<string, string>} 言語コードをキーとした訳語
+   */
+  private parseTranslations(term: GlossaryTerm): Record<string, string> {
+    if (!term.translations) {
+      return {};
+    }
+    try {
+      return JSON.parse(term.translations);
+    } catch (e) {
+      console.warn(`Invalid glossary translations for term ${term.id}.`, term.translations);
+      return {};
+    }
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * @file ImageTextExtractor
+ * @description 画像メッセージに写っている文章を読み取るサービス。
+ *              LINEのコンテンツAPIから画像を取得し、マルチモーダルモデル (Gemini) で文章を書き起こします。
+ *              先生が撮影した発表会のスケジュールなどのお知らせを、通常の投稿と同じように翻訳するために使用します。
+ *              文章が写っていない写真 (子供の写真など) の場合は何も返しません。
+ */
+
+import { Env } from '../db';
+import { ImageMessage } from '../types/line';
+import { LineClient } from './line';
+import { GeminiClient } from './gemini';
+import { GenerationContext } from './translationProvider';
+import { UsageLimiter } from './usageLimits';
+import { toBase64, toMimeType } from '../utils/encoding';
+
+// 文章が写っていない場合にモデルが返す文字列
+const NO_TEXT_MARKER = 'NO_TEXT';
+
+// 画像から文章を読み取るプロンプト
+const IMAGE_TEXT_PROMPT = [
+  'この画像に写っている文章を、書かれている言語のまま正確に書き起こしてください。\n',
+  '- 翻訳や要約はせず、日付・時刻・場所・持ち物などは書かれている通りに残してください\n',
+  '- 表や箇条書きは、行ごとに改行して読みやすく並べてください\n',
+  '- 書き起こした文章のみを出力してください（説明や追加情報、コードブロックは不要）\n',
+  `- お知らせなどの文章が写っていない場合（写真の背景や服に写った短い文字のみの場合を含む）は、${NO_TEXT_MARKER} とだけ出力してください\n`,
+].join('');
+
+export class ImageTextExtractor {
+  private env: Env;
+  private lineClient: LineClient;
+  private usageLimiter: UsageLimiter;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.lineClient = new LineClient(env);
+    this.usageLimiter = new UsageLimiter(env);
+  }
+
+  /**
+   * @method extract
+   * @description 画像メッセージに写っている文章を読み取ります。
+   *              投稿者が利用上限に達している場合は、画像を読み取らずにnullを返します。
+   * @param {ImageMessage} message 画像メッセージ
+   * @param {GenerationContext} generation 画像の投稿・ルーム・ユーザー (使用量の記録用)
+   * @returns {Promise<string | null>} 読み取った文章、または文章が写っていない場合はnull
+   * @throws {Error} 画像の取得や読み取りに失敗した場合 (キューのリトライ対象とするため)
+   */
+  async extract(message: ImageMessage, generation: GenerationContext): Promise<string | null> {
+    const usage = generation.userId ? await this.usageLimiter.check(generation.userId) : null;
+    if (usage?.action === 'deny') {
+      console.warn(`Skipping image text extraction for post ${message.id} (${usage.reason}).`);
+      return null;
+    }
+
+    const content = await this.lineClient.getContent(message);
+    const image = { data: toBase64(content.data), mimeType: toMimeType(content.contentType) };
+    // Geminiはここでのみ使用するため、TRANSLATION_PROVIDER が 'gemini' 以外でも画像の読み取りにはGeminiを使用する
+    const text = (await new GeminiClient(this.env).generateFromMedia(IMAGE_TEXT_PROMPT, image, {
+      ...generation,
+      purpose: 'image_text_extraction',
+      economy: usage?.economy,
+    })).trim();
+
+    if (!text || text === NO_TEXT_MARKER) {
+      console.log(`No text found in image ${message.id}.`);
+      return null;
+    }
+    return text;
+  }
+}
@@ -5,10 +5,23 @@
  */
 
 import { Env } from '../db/BaseRepository';
+import { ImageMessage, VideoMessage, AudioMessage, FileMessage } from '../types/line';
 
 // LINE APIの基本URL
 const LINE_API_BASE_URL = 'https://api.line.me/v2/bot';
 
+// 画像・動画・音声などのコンテンツを取得するAPIの基本URL
+const LINE_DATA_API_BASE_URL = 'https://api-data.line.me/v2/bot';
+
+/**
+ * @interface MessageContent
+ * @description ユーザーが送信した画像・動画・音声などのコンテンツ
+ */
+export interface MessageContent {
+  data: ArrayBuffer; // コンテンツのバイナリ
+  contentType: string; // Content-Type (例: 'image/jpeg')
+}
+
 /**
  * @interface LineProfile
  * @description LINEユーザーまたはグループメンバーのプロフィール情報
@@ -96,6 +109,49 @@ export class LineClient {
     return response.json();
   }
 
+  /**
+   * @method getMessageContent
+   * @description ユーザーが送信した画像・動画・音声などのコンテンツを取得します。
+   * @param {string} messageId メッセージID
+   * @returns {Promise<MessageContent>} コンテンツのバイナリとContent-Type
+   * @throws {Error} コンテンツを取得できなかった場合
+   */
+  async getMessageContent(messageId: string): Promise<MessageContent> {
+    const url = `${LINE_DATA_API_BASE_URL}/message/${messageId}/content`;
+    const response = await this.get(url);
+    if (!response.ok) {
+      console.error(`Failed to get content for messageId: ${messageId}, Status: ${response.status}`);
+      throw new Error(`LINE API error: ${response.status}`);
+    }
+    return {
+      data: await response.arrayBuffer(),
+      contentType: response.headers.get('Content-Type') || 'application/octet-stream',
+    };
+  }
+
+  /**
+   * @method getContent
+   * @description 画像・動画・音声・ファイルのメッセージのコンテンツを取得します。
+   *              LINEに保存されたコンテンツはコンテンツAPIから、外部のコンテンツは元のURLから取得します。
+   * @param {ImageMessage | VideoMessage | AudioMessage | FileMessage} message コンテンツを含むメッセージ
+   * @returns {Promise<MessageContent>} コンテンツのバイナリとContent-Type
+   * @throws {Error} コンテンツを取得できなかった場合
+   */
+  async getContent(message: ImageMessage | VideoMessage | AudioMessage | FileMessage): Promise<MessageContent> {
+    const contentProvider = message.type === 'file' ? undefined : message.contentProvider;
+    if (contentProvider?.type !== 'external' || !contentProvider.originalContentUrl) {
+      return this.getMessageContent(message.id);
+    }
+    const response = await fetch(contentProvider.originalContentUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch external content: ${response.status}`);
+    }
+    return {
+      data: await response.arrayBuffer(),
+      contentType: response.headers.get('Content-Type') || 'application/octet-stream',
+    };
+  }
+
   /**
    * @method startLoadingAnimation
    * @description ユーザーに対してローディングアニメーションを表示します。
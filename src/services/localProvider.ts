@@ -0,0 +1,82 @@
+/**
+ * @file LocalTranslationProvider
+ * @description 外部APIを呼び出さない、決定的な応答を返すローカルのプロバイダー。
+ *              ボット全体をオフラインで動作確認するためのもので、翻訳プロンプトには
+ *              "[言語コード] 原文" という訳文をJSON形式で返し、言語判定のプロンプトには同梱のn-gramで判定した言語コードを返します。
+ *              TranslationServiceが作成するプロンプトの形式 (【出力形式】【翻訳対象】【指示】) を前提としています。
+ *              音声の書き起こしには、音声データをUTF-8のテキストとして読んだものを書き起こしとして返します
+ *              (テストでは、発言内容をそのまま書いたファイルを音声のフィクスチャとして使用できます)。
+ *              オフラインでも使用量の制限が働くように、翻訳の呼び出しは他のプロバイダーと同じく 'gemini_usage' に記録します (トークン数はなし)。
+ */
+
+import { Env } from '../db/BaseRepository';
+import { TranslationProvider, GenerationContext } from './translationProvider';
+import { ProviderUsageRecorder } from './providerUsage';
+import { SpeechToTextProvider } from './speechToText';
+import { MessageContent } from './line';
+import { detectLanguage } from '../utils/languageDetection';
+
+export class LocalTranslationProvider implements TranslationProvider {
+  readonly name = 'local';
+  private usageRecorder: ProviderUsageRecorder;
+
+  constructor(env: Env) {
+    this.usageRecorder = new ProviderUsageRecorder(env);
+  }
+
+  /**
+   * @method generateText
+   * @description プロンプトの種類に応じた決定的な応答を返し、呼び出しを 'gemini_usage' に記録します。
+   * @param {string} prompt プロンプトテキスト
+   * @param {GenerationContext} context 呼び出しの目的と、投稿・ルーム・ユーザー (使用量の集計用)
+   * @returns {Promise<string>} 生成されたテキスト
+   */
+  async generateText(prompt: string, context: GenerationContext = {}): Promise<string> {
+    const startedAt = Date.now();
+    const text = this.respond(prompt);
+    await this.usageRecorder.record(context, { model: this.name, startedAt, promptTokens: null, outputTokens: null, error: null });
+    return text;
+  }
+
+  /**
+   * @method respond
+   * @description プロンプトの種類に応じた決定的な応答を作成します。
+   * @param {string} prompt プロンプトテキスト
+   * @returns {string} 生成されたテキスト
+   */
+  private respond(prompt: string): string {
+    // 言語判定のプロンプト ("候補: ja, pl, en" の後に空行を挟んで判定するテキストが続く)
+    const candidatesMatch = prompt.match(/^候補: (.+)$/m);
+    if (candidatesMatch) {
+      const candidates = candidatesMatch[1].split(',').map(lang => lang.trim());
+      const text = prompt.substring(prompt.indexOf('\n\n') + 2);
+      const detected = detectLanguage(text, candidates).language;
+      return candidates.includes(detected) ? detected : candidates[0];
+    }
+
+    // 翻訳プロンプト。【出力形式】のJSONのキーを翻訳先とし、【翻訳対象】をそのまま返す
+    const formatMatch = prompt.match(/【出力形式】\n.*\n(\{.*\})\n/);
+    const targetMatch = prompt.match(/【翻訳対象】\n([\s\S]*?)\n\n【指示】/);
+    if (formatMatch && targetMatch) {
+      const targetLangs = Object.keys(JSON.parse(formatMatch[1]));
+      const translations = Object.fromEntries(targetLangs.map(lang => [lang, `[${lang}] ${targetMatch[1]}`]));
+      return JSON.stringify(translations);
+    }
+
+    return `[local] ${prompt.trim().split('\n').pop()}`;
+  }
+}
+
+export class LocalSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'local';
+
+  /**
+   * @method transcribe
+   * @description 音声データをUTF-8のテキストとして読み、そのまま書き起こしとして返します。
+   * @param {MessageContent} audio 音声のバイナリとContent-Type
+   * @returns {Promise<string>} 書き起こしたテキスト
+   */
+  async transcribe(audio: MessageContent): Promise<string> {
+    return new TextDecoder().decode(audio.data).trim();
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * @file ModelHealthTracker
+ * @description Geminiのモデルごとの状態を記録するサーキットブレーカー。
+ *              429/503を返したモデルや、直近の期間のエラー率が高いモデルを一定時間 (クールダウン) 使わないようにし、
+ *              呼び出しを使用可能な最初のモデルに振り分けます。状態は 'model_health' に保存し、呼び出しをまたいで共有します。
+ *              状態の読み書きに失敗してもテキスト生成は継続します。
+ */
+
+import { ModelHealthRepository, Env } from '../db';
+import { ModelHealth } from '../types/db';
+
+// クールダウンの基本の長さ (ミリ秒)。連続して失敗するたびに2倍にし、MAX_COOLDOWN_MS を上限とする
+const COOLDOWN_MS: Record<string, number> = {
+  '429': 60 * 1000,
+  '503': 30 * 1000,
+};
+const ERROR_RATE_COOLDOWN_MS = 60 * 1000;
+const MAX_COOLDOWN_MS = 10 * 60 * 1000;
+
+// エラー率を計算する期間と、クールダウンにする条件 (期間内の呼び出し回数の下限とエラー率)
+const ERROR_RATE_WINDOW_MS = 5 * 60 * 1000;
+const ERROR_RATE_MIN_REQUESTS = 4;
+const ERROR_RATE_THRESHOLD = 0.5;
+
+/**
+ * @interface ModelHealthStatus
+ * @description 管理画面に表示するモデルの状態
+ */
+export interface ModelHealthStatus {
+  model: string; // モデル名
+  healthy: boolean; // 使用可能か (クールダウン中でないか)
+  errorRate: number | null; // 期間内のエラー率 (呼び出しがない場合はnull)
+  health: ModelHealth | null; // 保存された状態 (まだ呼び出していない場合はnull)
+}
+
+/**
+ * 試行の結果がモデルの不調による失敗かを判定します。
+ * 400などプロンプトに起因するエラーはモデルの状態に含めません。
+ */
+const isModelFailure = (outcome: string): boolean =>
+  outcome === '429' || outcome === 'error' || outcome.startsWith('5');
+
+/**
+ * クールダウン中かを判定します。
+ */
+const isCoolingDown = (health: ModelHealth | undefined, now: Date): boolean =>
+  !!health?.cooldown_until && new Date(health.cooldown_until) > now;
+
+export class ModelHealthTracker {
+  private modelHealthRepository: ModelHealthRepository;
+  private states: Map<string, ModelHealth> = new Map();
+
+  constructor(env: Env) {
+    this.modelHealthRepository = new ModelHealthRepository(env);
+  }
+
+  /**
+   * @method selectModels
+   * @description 保存された状態を読み込み、クールダウン中でないモデルを優先順のまま返します。
+   *              すべてのモデルがクールダウン中の場合は、翻訳が止まらないよう、クールダウンが早く終わる順にすべてのモデルを返します。
+   * @param {string[]} models 試すモデルの配列 (優先順)
+   * @param {Date} [now] 現在日時
+   * @returns {Promise<string[]>} 試すモデルの配列
+   */
+  async selectModels(models: string[], now: Date = new Date()): Promise<string[]> {
+    await this.load();
+    const healthy = models.filter(model => !isCoolingDown(this.states.get(model), now));
+    if (healthy.length > 0) {
+      return healthy;
+    }
+    const cooldownEnd = (model: string) => new Date(this.states.get(model)?.cooldown_until ?? 0).getTime();
+    return [...models].sort((a, b) => cooldownEnd(a) - cooldownEnd(b));
+  }
+
+  /**
+   * @method recordOutcome
+   * @description 1回の試行の結果をモデルの状態に反映して保存します。
+   *              成功した場合はクールダウンを解除し、429/503の場合や期間内のエラー率が高い場合はクールダウンにします。
+   * @param {string} model 呼び出したモデル
+   * @param {string} outcome 'ok'、HTTPステータスコード、またはステータスのないエラーの場合は 'error'
+   * @param {Date} [now] 現在日時
+   */
+  async recordOutcome(model: string, outcome: string, now: Date = new Date()): Promise<void> {
+    const timestamp = now.toISOString();
+    const previous = this.states.get(model);
+    // 期間が終わっている場合は、呼び出し回数と失敗回数を数え直す
+    const activeWindow = previous && now.getTime() - new Date(previous.window_started_at).getTime() < ERROR_RATE_WINDOW_MS
+      ? previous
+      : null;
+    const health: ModelHealth = {
+      model,
+      cooldown_until: previous?.cooldown_until ?? null,
+      consecutive_failures: previous?.consecutive_failures ?? 0,
+      window_started_at: activeWindow?.window_started_at ?? timestamp,
+      window_requests: (activeWindow?.window_requests ?? 0) + 1,
+      window_failures: activeWindow?.window_failures ?? 0,
+      last_status: outcome,
+      last_success_at: previous?.last_success_at ?? null,
+      last_failure_at: previous?.last_failure_at ?? null,
+      updated_at: timestamp,
+    };
+
+    if (outcome === 'ok') {
+      health.cooldown_until = null;
+      health.consecutive_failures = 0;
+      health.last_success_at = timestamp;
+    } else if (isModelFailure(outcome)) {
+      health.consecutive_failures += 1;
+      health.window_failures += 1;
+      health.last_failure_at = timestamp;
+
+      const errorRateExceeded = health.window_requests >= ERROR_RATE_MIN_REQUESTS
+        && health.window_failures / health.window_requests >= ERROR_RATE_THRESHOLD;
+      const baseCooldown = COOLDOWN_MS[outcome] ?? (errorRateExceeded ? ERROR_RATE_COOLDOWN_MS : null);
+      if (baseCooldown !== null) {
+        const cooldown = Math.min(baseCooldown * 2 ** Math.min(health.consecutive_failures - 1, 10), MAX_COOLDOWN_MS);
+        health.cooldown_until = new Date(now.getTime() + cooldown).toISOString();
+        console.warn(`Model ${model} is cooling down until ${health.cooldown_until} (last status: ${outcome}).`);
+      }
+    }
+
+    this.states.set(model, health);
+    try {
+      await this.modelHealthRepository.save(health);
+    } catch (e) {
+      console.warn('Failed to save model health:', e);
+    }
+  }
+
+  /**
+   * @method getStatuses
+   * @description 管理画面に表示するため、各モデルの状態を取得します。
+   * @param {string[]} models 表示するモデルの配列
+   * @param {Date} [now] 現在日時
+   * @returns {Promise<ModelHealthStatus[]>} モデルの状態の配列
+   */
+  async getStatuses(models: string[], now: Date = new Date()): Promise<ModelHealthStatus[]> {
+    await this.load();
+    return models.map(model => {
+      const health = this.states.get(model);
+      const activeWindow = health && now.getTime() - new Date(health.window_started_at).getTime() < ERROR_RATE_WINDOW_MS
+        ? health
+        : null;
+      return {
+        model,
+        healthy: !isCoolingDown(health, now),
+        errorRate: activeWindow && activeWindow.window_requests > 0
+          ? activeWindow.window_failures / activeWindow.window_requests
+          : null,
+        health: health ?? null,
+      };
+    });
+  }
+
+  /**
+   * @method load
+   * @description 保存されたモデルの状態を読み込みます。読み込みに失敗した場合は、すべてのモデルを使用可能とみなします。
+   */
+  private async load(): Promise<void> {
+    try {
+      const rows = await this.modelHealthRepository.findAll();
+      this.states = new Map(rows.map(row => [row.model, row]));
+    } catch (e) {
+      console.warn('Failed to load model health:', e);
+      this.states = new Map();
+    }
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * @file OpenAICompatibleClient
+ * @description OpenAI互換のChat Completions API (/chat/completions) を使ってテキストを生成するクライアント。
+ *              vLLMやOllamaなど、自前でホストしたモデルを翻訳に使用する場合に利用します。
+ *              呼び出しごとに、モデルと応答の usage のトークン数を 'gemini_usage' に記録します (使用量の制限の集計用)。
+ */
+
+import { Env } from '../db/BaseRepository';
+import { TranslationProvider, GenerationContext } from './translationProvider';
+import { ProviderUsageRecorder } from './providerUsage';
+
+/**
+ * @interface ChatCompletionResponse
+ * @description Chat Completions API の応答のうち使用する部分。サーバーの実装によって欠けている場合があるため、すべて省略可能として扱います。
+ */
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: unknown } }>; // 生成された候補 (先頭の message.content を応答テキストとして使用)
+  usage?: { prompt_tokens?: unknown; completion_tokens?: unknown }; // トークン数 (返さないサーバーもある)
+}
+
+/**
+ * 数値の場合はそのまま、それ以外の場合はnullを返します (usage のトークン数の読み取り用)。
+ */
+const toTokenCount = (value: unknown): number | null => (typeof value === 'number' ? value : null);
+
+export class OpenAICompatibleClient implements TranslationProvider {
+  readonly name = 'openai-compatible';
+  private baseUrl: string;
+  private model: string;
+  private apiKey?: string;
+  private usageRecorder: ProviderUsageRecorder;
+
+  constructor(env: Env) {
+    if (!env.OPENAI_COMPATIBLE_BASE_URL || !env.OPENAI_COMPATIBLE_MODEL) {
+      throw new Error('OPENAI_COMPATIBLE_BASE_URL and OPENAI_COMPATIBLE_MODEL are required for the openai-compatible provider.');
+    }
+    this.baseUrl = env.OPENAI_COMPATIBLE_BASE_URL.replace(/\/+$/, '');
+    this.model = env.OPENAI_COMPATIBLE_MODEL;
+    this.apiKey = env.OPENAI_COMPATIBLE_API_KEY;
+    this.usageRecorder = new ProviderUsageRecorder(env);
+  }
+
+  /**
+   * @method generateText
+   * @description プロンプトをユーザーメッセージとして送信し、応答テキストを返します。
+   *              成功・失敗にかかわらず呼び出しの記録を 'gemini_usage' に保存します。
+   * @param {string} prompt プロンプトテキスト
+   * @param {GenerationContext} context 呼び出しの目的と、投稿・ルーム・ユーザー (使用量の集計用)
+   * @returns {Promise<string>} 生成されたテキスト
+   * @throws {Error} APIがエラーを返した場合、または応答にテキストが含まれていない場合
+   */
+  async generateText(prompt: string, context: GenerationContext = {}): Promise<string> {
+    const startedAt = Date.now();
+    let promptTokens: number | null = null;
+    let outputTokens: number | null = null;
+    try {
+      const data = await this.requestCompletion(prompt);
+      promptTokens = toTokenCount(data.usage?.prompt_tokens);
+      outputTokens = toTokenCount(data.usage?.completion_tokens);
+      const text = data.choices?.[0]?.message?.content;
+      if (typeof text !== 'string' || !text) {
+        throw new Error(`OpenAI-compatible API did not return text (Model: ${this.model}).`);
+      }
+      await this.usageRecorder.record(context, { model: this.model, startedAt, promptTokens, outputTokens, error: null });
+      return text;
+    } catch (error) {
+      await this.usageRecorder.record(context, { model: this.model, startedAt, promptTokens, outputTokens, error });
+      throw error;
+    }
+  }
+
+  /**
+   * @method requestCompletion
+   * @description Chat Completions API にプロンプトを送信し、応答のJSONを返します。
+   * @param {string} prompt プロンプトテキスト
+   * @returns {Promise<ChatCompletionResponse>} 応答のJSON
+   * @throws {Error} APIがエラーを返した場合、または応答がJSONのオブジェクトでない場合
+   */
+  private async requestCompletion(prompt: string): Promise<ChatCompletionResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+      }),
+    });
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`OpenAI-compatible API request failed (Model: ${this.model}, Status: ${response.status}): ${body}`);
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch {
+      throw new Error(`OpenAI-compatible API returned invalid JSON (Model: ${this.model}).`);
+    }
+    if (typeof data !== 'object' || data === null) {
+      throw new Error(`OpenAI-compatible API returned an unexpected response (Model: ${this.model}).`);
+    }
+    return data as ChatCompletionResponse;
+  }
+}
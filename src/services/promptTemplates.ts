@@ -0,0 +1,196 @@
+/**
+ * @file PromptTemplateService
+ * @description 翻訳プロンプトのテンプレートを管理するサービス。
+ *              テンプレートは 'prompt_templates' にバージョンごとに保存し、ルームで選択された名前の最新バージョンを使用します。
+ *              データベースにテンプレートがない場合や読み込みに失敗した場合は、組み込みのテンプレート ('built-in') を使用します。
+ *
+ *              テンプレートでは {{source_text}} のような変数と、変数が空でない場合のみ含める {{#glossary}}...{{/glossary}}、
+ *              空の場合のみ含める {{^glossary}}...{{/glossary}} のセクションを使用できます。
+ *              変数として定義されていない {{URL_1}} などはそのまま残します。
+ */
+
+import { PromptTemplateRepository, Env } from '../db';
+
+// ルームで選択されていない場合に使用するテンプレート名
+export const DEFAULT_PROMPT_TEMPLATE_NAME = 'default';
+
+// ルームの説明が設定されていない場合にプロンプトに含める説明
+export const DEFAULT_ROOM_DESCRIPTION = '子供バレエ教室のチャットでのメッセージです。バレエ用語は正しく訳してください。';
+
+// 組み込みのテンプレートの名前 (管理画面では保存できない名前として予約する)
+export const BUILTIN_PROMPT_TEMPLATE_NAME = 'built-in';
+
+// 組み込みのテンプレートのバージョン
+// BUILTIN_PROMPT_TEMPLATE を変更したら1つ増やす (翻訳キャッシュとログで変更前のテンプレートと区別するため)
+export const BUILTIN_PROMPT_TEMPLATE_VERSION = 1;
+
+// 組み込みのテンプレート (GASの実装(gas-src/code.gs)のプロンプトと一致するようにしています)
+export const BUILTIN_PROMPT_TEMPLATE = [
+  'あなたはプロの通訳アシスタントです。',
+  '{{#japanese_only}}以下のテキストを自然な日本語に翻訳してください。{{/japanese_only}}',
+  '{{^japanese_only}}以下の{{#source_is_japanese}}日本語{{/source_is_japanese}}テキストを{{target_languages}}に翻訳してください。{{/japanese_only}}\n\n',
+  '【出力形式】\n',
+  '以下のキーを持つJSONオブジェクトのみを出力してください。\n',
+  '{{output_format}}\n\n',
+  '{{glossary}}',
+  '{{#examples}}【翻訳例】\n',
+  '以下はこのチャットで管理者が修正した翻訳です。訳し方や言葉の選び方の参考にしてください。\n\n',
+  '{{examples}}\n\n{{/examples}}',
+  '{{#context}}【会話の文脈】\n',
+  '以下はこのチャットの直近の発言です（古い順）。[ ]内は発言時刻、話者名の後の( )内は話者の役割、「訳:」は既に送信された翻訳です。\n',
+  '代名詞や省略表現が誰・何を指しているかを判断する際の参考にしてください。\n',
+  '「[スタンプ: ...]」はスタンプによる反応で、:の後はスタンプの意味を表すキーワードです。\n\n',
+  '{{context}}\n\n{{/context}}',
+  '{{#quoted}}【返信先の発言】\n',
+  '翻訳対象は、次の発言を引用した返信です。「はい」「大丈夫です」などの返事が何に対するものかは、この発言を最も重視して判断してください。\n\n',
+  '{{quoted}}\n\n{{/quoted}}',
+  '【翻訳対象】\n',
+  '{{source_text}}\n\n',
+  '【指示】\n',
+  '- 上記のJSONのみを出力してください（説明や追加情報、コードブロックは不要）\n',
+  '- {{room_description}}{{roles}}バレエ教室の先生とのやりとりとして自然な文章にしてください。\n',
+  '{{#glossary}}- 【用語集】にある用語は、意訳や直訳をせず指定された訳語を使用してください\n{{/glossary}}',
+  '{{#placeholders}}- {{URL_1}} のような二重波括弧のプレースホルダーは、翻訳せずそのままの形で訳文の適切な位置に残してください\n{{/placeholders}}',
+  '- 原文に含まれるニュアンス（感情、皮肉、丁寧さの度合い、ユーモアなど）を鋭敏に汲み取り、それをターゲット言語で適切に表現してください。直訳よりも、この「空気感」の再現を優先してください。\n',
+  '{{#polish}}- ポーランド人が言葉に込める親密さを表現してください\n{{/polish}}',
+  '- 翻訳した文章が長くなっても構いませんので、元の文章の意図が完全に伝わるようにしてください\n',
+  '{{#context}}- 代名詞や省略表現は、上記の文脈を考慮して適切に翻訳してください\n{{/context}}',
+  '{{#context}}- 直前のスタンプなどの反応から会話の雰囲気（感謝、お詫び、喜びなど）を汲み取り、訳文の口調に反映してください\n{{/context}}',
+  '{{#quoted}}- 【返信先の発言】への返事として自然に通じる訳にしてください\n{{/quoted}}',
+].join('');
+
+/**
+ * テンプレートで使用できる変数と、管理画面に表示する説明
+ */
+export const PROMPT_TEMPLATE_VARIABLES: Record<string, string> = {
+  source_text: 'The message to translate (URLs, e-mail addresses and times are replaced by {{URL_1}}-style placeholders). Required.',
+  output_format: 'The JSON object the model must output, keyed by target language code. Required.',
+  source_language: 'Japanese name of the source language, e.g. ポーランド語',
+  source_is_japanese: 'Non-empty when the source language is Japanese',
+  target_languages: 'Japanese names of the target languages, e.g. 「ポーランド語」と「英語」の両方',
+  japanese_only: 'Non-empty when Japanese is the only target language',
+  glossary: 'The 【用語集】 section for glossary terms found in the message (empty when none)',
+  context: 'Numbered recent messages with speaker, role, time and sent translation (empty when none)',
+  quoted: 'The message the translated message replies to (quotes), in the same format as a context entry (empty when not a reply)',
+  examples: 'Translations corrected by an admin in this room, as 原文/訳 pairs (empty when none)',
+  room_description: 'The room description, or the default description when the room has none',
+  roles: 'Speaker roles from the room language settings, e.g. ポーランド語は先生で、日本語は生徒の保護者です。',
+  placeholders: 'Non-empty when the message contains placeholders',
+  polish: 'Non-empty when Polish is the source or a target language',
+};
+
+// 変数として必ず含める必要があるもの (翻訳対象と、翻訳結果を取り出すための出力形式)
+const REQUIRED_VARIABLES = ['source_text', 'output_format'];
+
+// 管理画面のプレビューで使用する変数の例
+export const SAMPLE_PROMPT_VARIABLES: Record<string, string> = {
+  source_text: '明日のレッスンは{{TIME_1}}からです。詳細: {{URL_1}}',
+  output_format: '{"pl": "[Polishの翻訳結果]", "en": "[Englishの翻訳結果]"}',
+  source_language: '日本語',
+  source_is_japanese: '1',
+  target_languages: '「ポーランド語」と「英語」の両方',
+  japanese_only: '',
+  glossary: '【用語集】\n以下の用語は、指定された訳語を必ず使用してください。\n- "発表会": Polish「pokaz」, English「recital」\n\n',
+  context: '1. [10分前] Kasia (先生): Dzień dobry!\n   訳: おはようございます！\n2. [5分前] Hana (生徒の保護者): おはようございます。\n3. [4分前] Hana: [スタンプ: thank you, bow]',
+  quoted: '[1時間前] Hana (生徒の保護者): 来週の土曜日は振替レッスンに参加してもいいですか？\n   訳: Czy możemy przyjść na lekcję zastępczą w przyszłą sobotę?',
+  examples: '- 原文: 発表会の衣装は来週配ります。\n  訳: Kostiumy na pokaz rozdamy w przyszłym tygodniu.',
+  room_description: DEFAULT_ROOM_DESCRIPTION,
+  roles: 'ポーランド語は先生で、日本語は生徒の保護者です。',
+  placeholders: '1',
+  polish: '1',
+};
+
+const SECTION_PATTERN = /\{\{([#^])(\w+)\}\}([\s\S]*?)\{\{\/\2\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * @interface ResolvedPromptTemplate
+ * @description 翻訳に使用するテンプレート
+ */
+export interface ResolvedPromptTemplate {
+  name: string; // テンプレート名
+  version: number; // バージョン
+  body: string; // テンプレート本文
+}
+
+/**
+ * @function renderPromptTemplate
+ * @description テンプレートのセクションと変数を展開してプロンプトを作成します。
+ *              変数の値に含まれる {{...}} は展開しません (翻訳対象のメッセージがテンプレートとして解釈されないようにするため)。
+ * @param {string} body テンプレート本文
+ * @param {Record<string, string>} variables 変数の値
+ * @returns {string} 作成されたプロンプト
+ */
+export const renderPromptTemplate = (body: string, variables: Record<string, string>): string => {
+  // 入れ子のセクションに対応するため、展開するセクションがなくなるまで繰り返す
+  let rendered = body;
+  let previous: string;
+  do {
+    previous = rendered;
+    rendered = rendered.replace(SECTION_PATTERN, (_match, type: string, name: string, content: string) =>
+      (type === '#') === !!variables[name] ? content : ''
+    );
+  } while (rendered !== previous);
+
+  return rendered.replace(VARIABLE_PATTERN, (match, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : match
+  );
+};
+
+/**
+ * @function validatePromptTemplate
+ * @description テンプレートに必須の変数が含まれ、セクションが閉じられているかを確認します。
+ * @param {string} body テンプレート本文
+ * @returns {string | null} エラーメッセージ (問題がない場合はnull)
+ */
+export const validatePromptTemplate = (body: string): string | null => {
+  const missing = REQUIRED_VARIABLES.filter(name => !body.includes(`{{${name}}}`));
+  if (missing.length > 0) {
+    return `The template must contain ${missing.map(name => `{{${name}}}`).join(' and ')}.`;
+  }
+  const opened = [...body.matchAll(/\{\{[#^](\w+)\}\}/g)].map(m => m[1]);
+  const closed = [...body.matchAll(/\{\{\/(\w+)\}\}/g)].map(m => m[1]);
+  const unbalanced = [...new Set([...opened, ...closed])]
+    .filter(name => opened.filter(n => n === name).length !== closed.filter(n => n === name).length);
+  if (unbalanced.length > 0) {
+    return `Unclosed section: ${unbalanced.join(', ')}`;
+  }
+  const unknown = [...new Set([...opened, ...closed])].filter(name => !PROMPT_TEMPLATE_VARIABLES[name]);
+  if (unknown.length > 0) {
+    return `Unknown section variable: ${unknown.join(', ')}`;
+  }
+  return null;
+};
+
+export class PromptTemplateService {
+  private promptTemplateRepository: PromptTemplateRepository;
+
+  constructor(env: Env) {
+    this.promptTemplateRepository = new PromptTemplateRepository(env);
+  }
+
+  /**
+   * @method resolve
+   * @description ルームで選択されたテンプレートの最新バージョンを取得します。
+   *              選択されたテンプレートが見つからない場合は 'default' を、それもない場合は組み込みのテンプレートを使用します。
+   * @param {string | null | undefined} name ルームで選択されたテンプレート名
+   * @returns {Promise<ResolvedPromptTemplate>} 翻訳に使用するテンプレート
+   */
+  async resolve(name: string | null | undefined): Promise<ResolvedPromptTemplate> {
+    const names = name && name !== DEFAULT_PROMPT_TEMPLATE_NAME ? [name, DEFAULT_PROMPT_TEMPLATE_NAME] : [DEFAULT_PROMPT_TEMPLATE_NAME];
+    try {
+      for (const candidate of names) {
+        const template = await this.promptTemplateRepository.findLatestByName(candidate);
+        if (template) {
+          return { name: template.name, version: template.version, body: template.body };
+        }
+        if (candidate !== DEFAULT_PROMPT_TEMPLATE_NAME) {
+          console.warn(`Prompt template "${candidate}" was not found. Using the default template.`);
+        }
+      }
+    } catch (e) {
+      console.warn('Failed to load prompt template. Using the built-in template.', e);
+    }
+    return { name: BUILTIN_PROMPT_TEMPLATE_NAME, version: BUILTIN_PROMPT_TEMPLATE_VERSION, body: BUILTIN_PROMPT_TEMPLATE };
+  }
+}
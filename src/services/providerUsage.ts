@@ -0,0 +1,61 @@
+/**
+ * @file ProviderUsageRecorder
+ * @description Gemini以外の翻訳プロバイダーの呼び出しを 'gemini_usage' に記録するサービス。
+ *              使用量の制限 (UsageLimiter) は 'gemini_usage' を集計するため、どのプロバイダーで翻訳しても
+ *              ユーザーごとの翻訳回数と月間のトークン使用量が数えられるように、すべてのプロバイダーが呼び出しを記録します。
+ *              GeminiClient はリトライとフォールバックの経路を含めて自身で記録します。
+ */
+
+import { Env } from '../db/BaseRepository';
+import { GeminiUsageRepository } from '../db/GeminiUsageRepository';
+import { GenerationContext } from './translationProvider';
+
+/**
+ * @interface ProviderCall
+ * @description プロバイダーの呼び出し1回分の結果
+ */
+export interface ProviderCall {
+  model: string; // 呼び出したモデル
+  startedAt: number; // 呼び出しを開始した時刻 (ミリ秒)
+  promptTokens: number | null; // 入力トークン数 (プロバイダーが返さない場合はnull)
+  outputTokens: number | null; // 出力トークン数 (プロバイダーが返さない場合はnull)
+  error: unknown; // 失敗した場合のエラー (成功した場合はnull)
+}
+
+export class ProviderUsageRecorder {
+  private geminiUsageRepository: GeminiUsageRepository;
+
+  constructor(env: Env) {
+    this.geminiUsageRepository = new GeminiUsageRepository(env);
+  }
+
+  /**
+   * @method record
+   * @description 呼び出しの記録を 'gemini_usage' に保存します。保存に失敗しても翻訳処理には影響させません。
+   * @param {GenerationContext} context 呼び出しの目的と、投稿・ルーム・ユーザー
+   * @param {ProviderCall} call 呼び出しの結果
+   */
+  async record(context: GenerationContext, call: ProviderCall): Promise<void> {
+    const succeeded = call.error === null;
+    try {
+      await this.geminiUsageRepository.create({
+        timestamp: new Date(call.startedAt).toISOString(),
+        purpose: context.purpose ?? null,
+        post_id: context.postId ?? null,
+        room_id: context.roomId ?? null,
+        user_id: context.userId ?? null,
+        model: call.model,
+        attempts: 1,
+        fallback_path: `${call.model}:${succeeded ? 'ok' : 'error'}`,
+        prompt_tokens: call.promptTokens,
+        output_tokens: call.outputTokens,
+        cost_usd: null,
+        latency_ms: Date.now() - call.startedAt,
+        status: succeeded ? 'success' : 'error',
+        error_message: succeeded ? null : call.error instanceof Error ? call.error.message : String(call.error),
+      });
+    } catch (e) {
+      console.warn('Failed to record provider usage:', e);
+    }
+  }
+}
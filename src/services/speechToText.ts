@@ -0,0 +1,48 @@
+/**
+ * @file SpeechToTextProvider
+ * @description 音声の書き起こしに使用するプロバイダーの共通インターフェースと、環境変数による実装の選択。
+ *              音声メッセージはこのインターフェースを通して書き起こすため、Gemini以外の音声認識や、
+ *              オフラインで動作するローカルのフィクスチャに差し替えることができます。
+ */
+
+import { Env } from '../db/BaseRepository';
+import { MessageContent } from './line';
+import { GenerationContext } from './translationProvider';
+import { GeminiClient } from './gemini';
+import { LocalSpeechToTextProvider } from './localProvider';
+
+/**
+ * @interface SpeechToTextProvider
+ * @description 音声を書き起こす実装
+ */
+export interface SpeechToTextProvider {
+  readonly name: string; // プロバイダー名 (ログ用)
+
+  /**
+   * 音声を書き起こします。
+   * @param {MessageContent} audio 音声のバイナリとContent-Type
+   * @param {GenerationContext} [context] 呼び出しの目的と対象 (使用量を記録するプロバイダーが使用)
+   * @returns {Promise<string>} 書き起こしたテキスト (聞き取れる発言がない場合は空文字)
+   */
+  transcribe(audio: MessageContent, context?: GenerationContext): Promise<string>;
+}
+
+/**
+ * @function createSpeechToTextProvider
+ * @description 環境変数 SPEECH_TO_TEXT_PROVIDER に応じたプロバイダーを作成します。
+ *              'gemini' (既定), 'local' (オフライン用のフィクスチャ) を指定できます。
+ * @param {Env} env 環境変数
+ * @returns {SpeechToTextProvider} プロバイダー
+ * @throws {Error} 未知のプロバイダー名が指定された場合
+ */
+export const createSpeechToTextProvider = (env: Env): SpeechToTextProvider => {
+  const providerName = (env.SPEECH_TO_TEXT_PROVIDER || 'gemini').trim().toLowerCase();
+  switch (providerName) {
+    case 'gemini':
+      return new GeminiClient(env);
+    case 'local':
+      return new LocalSpeechToTextProvider();
+    default:
+      throw new Error(`Unknown SPEECH_TO_TEXT_PROVIDER: ${env.SPEECH_TO_TEXT_PROVIDER}`);
+  }
+};
@@ -0,0 +1,128 @@
+/**
+ * @file TranslationCache
+ * @description 翻訳結果をD1にキャッシュするサービス。
+ *              「ありがとうございます」「OK」など繰り返し送られるメッセージで、Geminiの呼び出しを省略します。
+ *              キーは正規化したメッセージ、言語の組み合わせ、会話の文脈のハッシュ、プロンプトテンプレートのバージョンと翻訳の例、
+ *              ルームの設定 (説明・話者の役割・用語集) から作成し、文脈やテンプレート、ルームによって訳が変わる場合に別のキャッシュを使用するようにしています。
+ *              文脈のハッシュには訳に影響する発言 (引用返信の返信先、なければ直前の発言) のみを含め、
+ *              あいさつや相づちのような短いメッセージでは文脈を含めません (前の発言が変わるたびにキャッシュが外れないようにするため)。
+ *              キャッシュの読み書きに失敗しても翻訳処理は継続します。
+ */
+
+import { TranslationCacheRepository, Env } from '../db';
+import { Post } from '../types/db';
+
+/**
+ * @interface TranslationCacheKey
+ * @description キャッシュの検索・登録に使用するキー
+ */
+export interface TranslationCacheKey {
+  key: string; // キャッシュキー (SHA-256)
+  normalizedText: string; // 正規化したメッセージ
+  sourceLang: string; // 元の言語コード
+  targetLangs: string[]; // 翻訳先の言語コード
+  contextHash: string; // 会話の文脈のハッシュ
+}
+
+// 文脈をキーに含めない短いメッセージの最大文字数 (正規化後)。「ありがとうございます」「OK」などの定型的なメッセージを想定
+const SHORT_MESSAGE_LENGTH = 20;
+
+/**
+ * メッセージを正規化します (全角・半角の統一、大文字・小文字と連続する空白の違いを無視)。
+ */
+const normalizeMessage = (text: string): string =>
+  text.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * 文字列のSHA-256ハッシュを16進数で返します。
+ */
+const sha256 = async (value: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export class TranslationCache {
+  private translationCacheRepository: TranslationCacheRepository;
+
+  constructor(env: Env) {
+    this.translationCacheRepository = new TranslationCacheRepository(env);
+  }
+
+  /**
+   * @method createKey
+   * @description メッセージ、言語の組み合わせ、会話の文脈、プロンプトテンプレート、ルームの設定からキャッシュキーを作成します。
+   * @param {string} messageText 翻訳するメッセージ
+   * @param {string} sourceLang 元の言語コード
+   * @param {string[]} targetLangs 翻訳先の言語コード
+   * @param {Post[]} context 翻訳プロンプトに含める会話の文脈 (古い順)
+   * @param {Post | null} quoted 引用返信の返信先の発言 (引用返信でない場合はnull)
+   * @param {string} promptTemplate 翻訳に使用するプロンプトテンプレートと翻訳の例 (例: 'default@2'、'default@2+examples:5,3')
+   * @param {string} roomSettings 翻訳プロンプトに含めるルームの説明・話者の役割・用語集 (JSON形式)
+   * @returns {Promise<TranslationCacheKey>} キャッシュキー
+   */
+  async createKey(
+    messageText: string,
+    sourceLang: string,
+    targetLangs: string[],
+    context: Post[],
+    quoted: Post | null,
+    promptTemplate: string,
+    roomSettings: string
+  ): Promise<TranslationCacheKey> {
+    const normalizedText = normalizeMessage(messageText);
+    // 返信先は短いメッセージでも訳に影響するため常に含め、それ以外は直前の発言のみを含める
+    const keyContext = quoted ? [quoted] : normalizedText.length <= SHORT_MESSAGE_LENGTH ? [] : context.slice(-1);
+    const contextHash = await sha256(keyContext.map(post => normalizeMessage(post.message_text || '')).join('\n'));
+    const key = await sha256(
+      [normalizedText, sourceLang, targetLangs.join(','), contextHash, promptTemplate, roomSettings].join('\u0000')
+    );
+    return { key, normalizedText, sourceLang, targetLangs, contextHash };
+  }
+
+  /**
+   * @method get
+   * @description キャッシュから翻訳結果を取得し、ヒット数・ミス数を記録します。
+   * @param {TranslationCacheKey} cacheKey キャッシュキー
+   * @returns {Promise<Record<string, string> | null>} 言語コードをキーとした翻訳結果、またはキャッシュがない場合はnull
+   */
+  async get(cacheKey: TranslationCacheKey): Promise<Record<string, string> | null> {
+    try {
+      const now = new Date().toISOString();
+      const entry = await this.translationCacheRepository.findByKey(cacheKey.key);
+      if (!entry) {
+        await this.translationCacheRepository.incrementStats(now.substring(0, 10), 'misses');
+        return null;
+      }
+      await this.translationCacheRepository.recordHit(cacheKey.key, now);
+      await this.translationCacheRepository.incrementStats(now.substring(0, 10), 'hits');
+      return JSON.parse(entry.translations);
+    } catch (error) {
+      console.warn('Failed to read translation cache:', error);
+      return null;
+    }
+  }
+
+  /**
+   * @method set
+   * @description 翻訳結果をキャッシュに登録します。
+   * @param {TranslationCacheKey} cacheKey キャッシュキー
+   * @param {Record<string, string>} translations 言語コードをキーとした翻訳結果
+   * @param {string} postId 翻訳した投稿のID (送信が取り消された場合にキャッシュを削除するため)
+   */
+  async set(cacheKey: TranslationCacheKey, translations: Record<string, string>, postId: string): Promise<void> {
+    try {
+      await this.translationCacheRepository.save({
+        cache_key: cacheKey.key,
+        normalized_text: cacheKey.normalizedText,
+        source_lang: cacheKey.sourceLang,
+        target_langs: cacheKey.targetLangs.join(','),
+        context_hash: cacheKey.contextHash,
+        translations: JSON.stringify(translations),
+        post_id: postId,
+        created_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.warn('Failed to save translation cache:', error);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @file TranslationProvider
+ * @description 翻訳に使用するLLMの共通インターフェースと、環境変数による実装の選択。
+ *              TranslationServiceはこのインターフェースを通してプロンプトを送信するため、
+ *              Gemini以外のモデルや、オフラインで動作するローカルのスタブに差し替えることができます。
+ */
+
+import { Env } from '../db/BaseRepository';
+import { GeminiClient } from './gemini';
+import { LocalTranslationProvider } from './localProvider';
+import { OpenAICompatibleClient } from './openaiCompatible';
+
+/**
+ * @interface GenerationContext
+ * @description テキスト生成の呼び出しの目的と対象 (使用量の集計に使用)
+ */
+export interface GenerationContext {
+  purpose?: string; // 呼び出しの目的 ('translation', 'translation_retry', 'glossary_correction', 'language_detection', 'image_text_extraction', 'speech_to_text')
+  postId?: string | null; // 翻訳対象の投稿ID
+  roomId?: string | null; // 投稿があったルームID (個人チャットの場合はnull)
+  userId?: string | null; // 投稿者のユーザーID
+  economy?: boolean; // 安価なモデルのみを使用する (月間のトークン予算が残り少ない場合)
+  accurate?: boolean; // 精度の高いモデルから試す (再翻訳の場合。economy が優先)
+}
+
+/**
+ * @interface TranslationProvider
+ * @description プロンプトからテキストを生成するLLMの実装
+ */
+export interface TranslationProvider {
+  readonly name: string; // プロバイダー名 (ログ用)
+
+  /**
+   * プロンプトに対する応答テキストを生成します。
+   * @param {string} prompt プロンプトテキスト
+   * @param {GenerationContext} [context] 呼び出しの目的と対象 (使用量を記録するプロバイダーが使用)
+   * @returns {Promise<string>} 生成されたテキスト
+   */
+  generateText(prompt: string, context?: GenerationContext): Promise<string>;
+}
+
+/**
+ * @function createTranslationProvider
+ * @description 環境変数 TRANSLATION_PROVIDER に応じたプロバイダーを作成します。
+ *              'gemini' (既定), 'local' (オフライン用のスタブ), 'openai-compatible' (OpenAI互換のAPI) を指定できます。
+ * @param {Env} env 環境変数
+ * @returns {TranslationProvider} プロバイダー
+ * @throws {Error} 未知のプロバイダー名が指定された場合
+ */
+export const createTranslationProvider = (env: Env): TranslationProvider => {
+  const providerName = (env.TRANSLATION_PROVIDER || 'gemini').trim().toLowerCase();
+  switch (providerName) {
+    case 'gemini':
+      return new GeminiClient(env);
+    case 'local':
+      return new LocalTranslationProvider(env);
+    case 'openai-compatible':
+      return new OpenAICompatibleClient(env);
+    default:
+      throw new Error(`Unknown TRANSLATION_PROVIDER: ${env.TRANSLATION_PROVIDER}`);
+  }
+};
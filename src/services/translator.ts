@@ -1,41 +1,131 @@
 /**
  * @file TranslationService
  * @description メッセージの翻訳ロジックと関連するデータ処理を管理するサービス。
- *              言語検出、Geminiを使った翻訳、履歴の管理、ログの保存を行います。
+ *              言語検出、翻訳プロバイダー (既定はGemini) を使った翻訳、履歴の管理、ログの保存を行います。
  */
 
-import { GeminiClient } from './gemini';
-import { PostRepository, LogRepository, Env } from '../db';
-import { Post } from '../types/db';
+import { TranslationProvider, GenerationContext, createTranslationProvider } from './translationProvider';
+import { GlossaryService } from './glossary';
+import { TranslationCache } from './translationCache';
+import { ConversationContextBuilder, ContextEntry } from './conversationContext';
+import { UsageLimiter } from './usageLimits';
+import { PromptTemplateService, ResolvedPromptTemplate, DEFAULT_ROOM_DESCRIPTION, renderPromptTemplate } from './promptTemplates';
+import { PostRepository, LogRepository, RoomRepository, TranslationExampleRepository, Env } from '../db';
+import { GlossaryTerm, Room, TranslationExample } from '../types/db';
+import { Mentionee } from '../types/line';
+import {
+  RoomLanguageConfig,
+  getLanguageLabel,
+  getJapaneseLanguageName,
+  parseRoomLanguageConfig,
+  resolveTargetLanguages,
+} from '../utils/languages';
+import { detectLanguage } from '../utils/languageDetection';
+import { classifyMessage, restorePlaceholders } from '../utils/messageClassifier';
+
+// n-gramによる言語検出の確信度がこれより低い場合は、Geminiに言語を判定させる
+const LANGUAGE_CONFIDENCE_THRESHOLD = 0.6;
+
+// 翻訳プロンプトに含める、管理者が修正した翻訳の例の最大数 (新しいものから)
+const MAX_TRANSLATION_EXAMPLES = 3;
+
+/**
+ * @interface SourceLanguage
+ * @description 翻訳元の言語の検出結果
+ */
+interface SourceLanguage {
+  language: string; // 言語コード
+  confidence: number; // n-gramによる検出の確信度 (0〜1)
+  method: 'ngram' | 'gemini'; // 最終的に言語を決定した方法
+}
+
+/**
+ * @interface TranslationPromptInput
+ * @description 翻訳プロンプトの作成に使用する情報 (翻訳先の言語を除く)
+ */
+interface TranslationPromptInput {
+  messageText: string; // 翻訳対象のメッセージ (プレースホルダーに置き換え済み)
+  context: ContextEntry[]; // 会話のコンテキスト (古い順)
+  quoted: ContextEntry | null; // 引用返信の返信先の発言 (引用返信でない場合はnull)
+  sourceLang: string; // 元のメッセージの言語コード
+  languageConfig: RoomLanguageConfig; // ルームの言語設定
+  glossaryTerms: GlossaryTerm[]; // 原文に含まれる用語集の項目
+  template: ResolvedPromptTemplate; // 使用するプロンプトテンプレート
+  roomDescription: string | null; // ルームの説明 (nullの場合は既定の説明)
+  examples: TranslationExample[]; // 管理者が修正した翻訳の例 (新しい順)
+}
+
+/**
+ * @interface TranslateOptions
+ * @description 翻訳の方法の指定
+ */
+export interface TranslateOptions {
+  retranslate?: boolean; // 再翻訳 (キャッシュを使わず、精度の高いモデルから試す)
+  quotedPostId?: string | null; // 引用返信で引用されたメッセージのID (返信先としてプロンプトに含める)
+  mentionees?: Mentionee[]; // メッセージ内のメンション (名前を翻訳せずにそのまま残す)
+  requesterId?: string; // 再翻訳を依頼したユーザーのID (利用上限の確認と使用量の記録の対象。未指定の場合は投稿者)
+}
 
 export class TranslationService {
-  private geminiClient: GeminiClient;
+  private provider: TranslationProvider;
   private postRepository: PostRepository;
   private logRepository: LogRepository;
+  private roomRepository: RoomRepository;
+  private glossaryService: GlossaryService;
+  private translationCache: TranslationCache;
+  private contextBuilder: ConversationContextBuilder;
+  private usageLimiter: UsageLimiter;
+  private promptTemplateService: PromptTemplateService;
+  private translationExampleRepository: TranslationExampleRepository;
 
   constructor(env: Env) {
-    this.geminiClient = new GeminiClient(env);
+    this.provider = createTranslationProvider(env);
     this.postRepository = new PostRepository(env);
     this.logRepository = new LogRepository(env);
+    this.roomRepository = new RoomRepository(env);
+    this.glossaryService = new GlossaryService(env);
+    this.translationCache = new TranslationCache(env);
+    this.contextBuilder = new ConversationContextBuilder(env);
+    this.usageLimiter = new UsageLimiter(env);
+    this.promptTemplateService = new PromptTemplateService(env);
+    this.translationExampleRepository = new TranslationExampleRepository(env);
   }
 
   /**
-   * @method detectLanguage
-   * @description テキストの言語を検出します。
+   * @method detectSourceLanguage
+   * @description テキストの言語を、ルームの参加者言語の中から検出します。
+   *              同梱のn-gramプロファイルで判定し、確信度が低い場合のみGeminiに判定させます。
    * @param {string} text 検出するテキスト
-   * @returns {'ja' | 'pl' | 'en'} 検出された言語コード
+   * @param {string[]} candidates 候補となる言語コード (ルームの参加者言語)
+   * @param {GenerationContext} generation 翻訳対象の投稿・ルーム・ユーザー (使用量の記録用)
+   * @returns {Promise<SourceLanguage>} 検出された言語コード、確信度、判定方法
    */
-  private detectLanguage(text: string): 'ja' | 'pl' | 'en' {
-    // 日本語のひらがな、カタカナ、漢字のいずれかが含まれているか
-    if (/[\u3040-\u309F\u30A0-\u30FF\u4E00-\u9FAF]/.test(text)) {
-      return 'ja';
+  private async detectSourceLanguage(
+    text: string,
+    candidates: string[],
+    generation: GenerationContext
+  ): Promise<SourceLanguage> {
+    const detected = detectLanguage(text, candidates);
+    if (detected.confidence >= LANGUAGE_CONFIDENCE_THRESHOLD) {
+      return { ...detected, method: 'ngram' };
     }
-    // ポーランド語の特殊文字が含まれているか
-    if (/[ąćęłńóśźżĄĆĘŁŃÓŚŹŻ]/.test(text)) {
-      return 'pl';
+
+    try {
+      const prompt =
+        '次のテキストが書かれている言語を判定してください。\n' +
+        `候補: ${candidates.join(', ')}\n` +
+        '候補の中から言語コードを1つだけ出力してください（説明は不要）。\n\n' +
+        text;
+      const output = (await this.provider.generateText(prompt, { ...generation, purpose: 'language_detection' })).trim().toLowerCase();
+      const language = candidates.find(lang => new RegExp(`\\b${lang}\\b`).test(output));
+      if (language) {
+        return { language, confidence: detected.confidence, method: 'gemini' };
+      }
+      console.warn(`${this.provider.name} returned an unknown language: ${output}. Using n-gram result.`);
+    } catch (error) {
+      console.warn(`Language detection with ${this.provider.name} failed. Using n-gram result.`, error);
     }
-    // デフォルトは英語
-    return 'en';
+    return { ...detected, method: 'ngram' };
   }
 
   /**
@@ -45,41 +135,154 @@ export class TranslationService {
    * @param {string} userId 投稿者のユーザーID
    * @param {string | null} roomId 投稿があったルームID (個人チャットの場合はnull)
    * @param {string} messageText 翻訳する元のメッセージテキスト
-   * @returns {Promise<string | null>} 翻訳されたテキスト、または翻訳不要/失敗の場合はnull
+   * @param {TranslateOptions} [options] 翻訳の方法 (再翻訳の場合は { retranslate: true }、引用返信の場合は引用されたメッセージのID)
+   * @returns {Promise<string | null>} 翻訳されたテキスト (利用上限に達した場合はお知らせ)、または翻訳不要/失敗の場合はnull
    */
   async translateMessage(
     postId: string,
     userId: string,
     roomId: string | null,
-    messageText: string
+    messageText: string,
+    options: TranslateOptions = {}
   ): Promise<string | null> {
-    const sourceLang = this.detectLanguage(messageText);
-    console.log(`Detected language: ${sourceLang} for text: ${messageText}`);
+    // 長すぎるメッセージは先頭のみを翻訳する
+    const { text: limitedText, truncated } = this.usageLimiter.truncate(messageText);
 
-    // 翻訳対象の言語かチェック
-    if (sourceLang !== 'ja' && sourceLang !== 'en' && sourceLang !== 'pl') {
+    // 絵文字のみ、URLのみ、数字のみなど翻訳が不要なメッセージは、Geminiを呼び出さずに理由を記録して終了する
+    const classification = classifyMessage(limitedText, options.mentionees);
+    if (classification.action === 'skip') {
+      console.log(`Skipping translation (${classification.reason}) for text: ${messageText}`);
+      await this.logRepository.createTranslationLog({
+        timestamp: new Date().toISOString(),
+        post_id: postId,
+        user_id: userId,
+        language: null,
+        original_message: messageText,
+        translation: null,
+        prompt: null,
+        history_count: 0,
+        skip_reason: classification.reason,
+      });
+      return null;
+    }
+    // メンション・URL・メールアドレス・時刻はプレースホルダーに置き換えて翻訳し、翻訳後に元に戻す
+    const maskedText = classification.text;
+
+    const room = await this.getRoom(roomId);
+    const languageConfig = parseRoomLanguageConfig(room?.language_config);
+
+    // 利用上限に達している場合は、翻訳せずにお知らせを返す (言語判定もGeminiを使わずに行う)
+    // 再翻訳の場合は、投稿者ではなく依頼したユーザーの利用回数として確認・記録する
+    const usageUserId = options.requesterId ?? userId;
+    const usage = await this.usageLimiter.check(usageUserId);
+    if (usage.action === 'deny') {
+      const noticeLang = detectLanguage(classification.linguisticText, languageConfig.languages).language;
+      const notice = this.usageLimiter.getNotice(usage.reason, noticeLang);
+      await this.logRepository.createTranslationLog({
+        timestamp: new Date().toISOString(),
+        post_id: postId,
+        user_id: userId,
+        language: noticeLang,
+        original_message: messageText,
+        translation: notice,
+        prompt: null,
+        history_count: 0,
+        skip_reason: usage.reason,
+      });
+      return notice;
+    }
+
+    const generation: GenerationContext = { postId, roomId, userId: usageUserId, economy: usage.economy, accurate: options.retranslate };
+    const detection = await this.detectSourceLanguage(classification.linguisticText, languageConfig.languages, generation);
+    const sourceLang = detection.language;
+    console.log(`Detected language: ${sourceLang} (${detection.method}, confidence ${detection.confidence}) for text: ${messageText}`);
+
+    // 翻訳先の言語があるかチェック
+    const targetLangs = resolveTargetLanguages(languageConfig, sourceLang);
+    if (targetLangs.length === 0) {
       console.log('No target languages identified. Skipping translation.');
       return null;
     }
 
-    const context = await this.getContext(userId, roomId);
-    const prompt = this.createTranslationPrompt(messageText, context, sourceLang);
+    // 引用返信の場合は、引用された発言を返信先として文脈とは別に含める (文脈と重複する場合は文脈から除く)
+    const quoted = options.quotedPostId ? await this.contextBuilder.buildQuoted(options.quotedPostId, languageConfig) : null;
+    const context = (await this.contextBuilder.build(postId, userId, roomId, languageConfig))
+      .filter(entry => entry.post.post_id !== quoted?.post.post_id);
+    const glossaryTerms = await this.glossaryService.findMatchingTerms(maskedText, roomId);
+    const template = await this.promptTemplateService.resolve(room?.prompt_template);
+    const examples = await this.findExamples(roomId);
+    const promptInput: TranslationPromptInput = {
+      messageText: maskedText,
+      context,
+      quoted,
+      sourceLang,
+      languageConfig,
+      glossaryTerms,
+      template,
+      roomDescription: room?.description ?? null,
+      examples,
+    };
+    const prompt = this.createTranslationPrompt(promptInput, targetLangs);
 
     try {
-      const translatedText = await this.geminiClient.generateText(prompt);
+      // 同じメッセージ・文脈・テンプレート・翻訳の例・ルームの設定の翻訳がキャッシュにあれば、Geminiを呼び出さずに使用する
+      // 再翻訳の場合はキャッシュを使わずに翻訳し、キャッシュを新しい翻訳で置き換える
+      const promptVariant = `${template.name}@${template.version}` +
+        (examples.length > 0 ? `+examples:${examples.map(example => example.id).join(',')}` : '') +
+        (quoted ? '+quoted' : '');
+      const roomSettings = JSON.stringify({
+        description: promptInput.roomDescription,
+        languageConfig,
+        glossary: glossaryTerms.map(term => [term.term, term.translations, term.do_not_translate]),
+      });
+      const cacheKey = await this.translationCache.createKey(
+        maskedText, sourceLang, targetLangs, context.map(entry => entry.post), quoted?.post ?? null, promptVariant, roomSettings
+      );
+      const cachedTranslations = options.retranslate ? null : await this.translationCache.get(cacheKey);
+      let translations: Record<string, string>;
+      if (cachedTranslations) {
+        console.log(`Translation cache hit for post ${postId}.`);
+        translations = cachedTranslations;
+      } else {
+        const result = await this.requestTranslations(generation, promptInput, targetLangs, prompt);
+        translations = result.translations;
+        // 一部の言語が欠けている翻訳や、用語集に沿っていない翻訳は再利用しない
+        if (result.complete) {
+          await this.translationCache.set(cacheKey, translations, postId);
+        }
+      }
+
+      // キャッシュにはプレースホルダーのまま保存し、返信と投稿にはURL等を元に戻した翻訳を使う
+      translations = Object.fromEntries(
+        Object.entries(translations).map(([lang, translation]) => [lang, restorePlaceholders(translation, classification.placeholders)])
+      );
+      let translatedText = this.formatTranslations(translations, targetLangs);
+      if (truncated) {
+        console.warn(`Message for post ${postId} was truncated from ${messageText.length} characters.`);
+        translatedText += '\n\n' + this.usageLimiter.getNotice('truncated', sourceLang);
+      }
 
       // ログを記録
       await this.logRepository.createTranslationLog({
         timestamp: new Date().toISOString(),
+        post_id: postId,
         user_id: userId,
         language: sourceLang,
+        language_confidence: detection.confidence,
+        detection_method: detection.method,
         original_message: messageText,
         translation: translatedText,
-        prompt: prompt,
+        prompt: cachedTranslations ? null : prompt,
+        // 文脈の投稿の送信が取り消された場合にプロンプトを削除するため、文脈と返信先に含めた投稿を記録する
+        context_post_ids: cachedTranslations
+          ? null
+          : JSON.stringify([...context.map(entry => entry.post.post_id), ...(quoted ? [quoted.post.post_id] : [])]),
         history_count: context.length,
+        prompt_template: template.name,
+        prompt_template_version: template.version,
       });
 
-      await this.postRepository.updateTranslatedText(postId, translatedText);
+      await this.postRepository.updateTranslations(postId, translatedText, translations);
       return translatedText;
     } catch (error) {
       console.error(`Translation failed:`, error);
@@ -95,70 +298,268 @@ export class TranslationService {
   }
 
   /**
-   * @method getContext
-   * @description 翻訳のための会話コンテキストを取得します。
-   * @param {string} userId ユーザーID
-   * @param {string | null} roomId 会話が行われているルームID。nullの場合は個人チャット。
-   * @returns {Promise<Post[]>} 直近のメッセージの配列
+   * @method requestTranslations
+   * @description 翻訳プロバイダーに翻訳を依頼し、言語ごとの翻訳結果を取り出します。
+   *              欠けている言語は一度だけ再度問い合わせ、用語集の訳語が使われているかを確認します。
+   * @param {GenerationContext} generation 翻訳対象の投稿・ルーム・ユーザー (ログと使用量の記録用)
+   * @param {TranslationPromptInput} promptInput 翻訳プロンプトの作成に使用する情報
+   * @param {string[]} targetLangs 翻訳先の言語コードの配列
+   * @param {string} prompt 翻訳プロンプト
+   * @returns {Promise<{ translations: Record<string, string>; complete: boolean }>}
+   *          言語ごとの翻訳結果と、すべての言語が用語集に沿って翻訳できたか
+   * @throws {Error} どの言語の翻訳も取り出せなかった場合
    */
-  private async getContext(userId: string, roomId: string | null): Promise<Post[]> {
-    const CONTEXT_LIMIT = 2;
-    if (roomId) {
-      return await this.postRepository.findLatestPostsByRoomId(roomId, CONTEXT_LIMIT);
-    } else {
-      return await this.postRepository.findLatestPostsByUserId(userId, CONTEXT_LIMIT);
+  private async requestTranslations(
+    generation: GenerationContext,
+    promptInput: TranslationPromptInput,
+    targetLangs: string[],
+    prompt: string
+  ): Promise<{ translations: Record<string, string>; complete: boolean }> {
+    // 翻訳先が1言語のみの場合は、ラベルのない出力もその言語の翻訳として受け付ける
+    const allowPlainText = targetLangs.length === 1;
+    const rawOutput = await this.provider.generateText(prompt, { ...generation, purpose: 'translation' });
+    const translations = this.parseTranslationOutput(rawOutput, targetLangs, allowPlainText);
+
+    // 欠けている言語があれば、その言語だけを対象に一度だけ再度問い合わせる
+    let missingLangs = targetLangs.filter(lang => !translations[lang]);
+    if (missingLangs.length > 0) {
+      console.warn(`Translation output is missing languages: ${missingLangs.join(', ')}. Re-prompting.`);
+      const retryPrompt = this.createTranslationPrompt(promptInput, missingLangs);
+      const retryOutput = await this.provider.generateText(retryPrompt, { ...generation, purpose: 'translation_retry' });
+      Object.assign(translations, this.parseTranslationOutput(retryOutput, missingLangs, allowPlainText));
+      missingLangs = targetLangs.filter(lang => !translations[lang]);
+    }
+
+    if (missingLangs.length === targetLangs.length) {
+      // 出力には翻訳が含まれるため、デバッグログに残さないよう長さのみを記録する
+      throw new Error(`Translation output could not be parsed (${rawOutput.length} characters).`);
     }
+    if (missingLangs.length > 0) {
+      // 一部の言語のみ取得できた場合は、取得できた言語だけで返信する
+      await this.logRepository.createDebugLog({
+        timestamp: new Date().toISOString(),
+        message: `Partial translation for post ${generation.postId}: missing ${missingLangs.join(', ')}`,
+        stack: null,
+      });
+    }
+
+    // 用語集で指定された訳語が使われているかを確認する
+    const glossarySatisfied = await this.enforceGlossary(generation, translations, promptInput.glossaryTerms, allowPlainText, langs =>
+      this.createTranslationPrompt(promptInput, langs)
+    );
+
+    return { translations, complete: missingLangs.length === 0 && glossarySatisfied };
   }
 
   /**
-   * @method createTranslationPrompt
-   * @description Gemini APIに渡す翻訳プロンプトを構築します。
-   *              GASの実装(gas-src/code.gs)と完全に一致するようにしています。
-   * @param {string} messageText 翻訳対象のメッセージ
-   * @param {Post[]} context 会話のコンテキスト
-   * @param {'ja' | 'pl' | 'en'} sourceLang 元のメッセージの言語コード
-   * @returns {string} 構築されたプロンプト
+   * @method enforceGlossary
+   * @description 翻訳結果に用語集の訳語が使われているかを確認します。
+   *              使われていない言語があれば、その言語だけを対象に一度だけ訳し直させ、改善した翻訳で置き換えます。
+   *              それでも使われていない訳語はデバッグログに記録します。
+   * @param {GenerationContext} generation 翻訳対象の投稿・ルーム・ユーザー (ログと使用量の記録用)
+   * @param {Record<string, string>} translations 言語コードをキーとした翻訳結果 (置き換え対象)
+   * @param {GlossaryTerm[]} glossaryTerms 原文に含まれる用語
+   * @param {boolean} allowPlainText ラベルのない出力を翻訳として受け付けるか
+   * @param {(langs: string[]) => string} createPrompt 指定した言語への翻訳プロンプトを作成する関数
+   * @returns {Promise<boolean>} 最終的にすべての訳語が使われている場合はtrue
    */
-  private createTranslationPrompt(
-    messageText: string,
-    context: Post[],
-    sourceLang: 'ja' | 'pl' | 'en'
-  ): string {
-    let prompt = '';
-
-    if (sourceLang === 'ja') {
-      prompt += 'あなたはプロの通訳アシスタントです。以下の日本語テキストを「英語」と「ポーランド語」の両方に翻訳してください。\n\n';
-      prompt += '【出力形式】\n';
-      prompt += 'Polish: [ポーランド語の翻訳結果]\n';
-      prompt += 'English: [英語の翻訳結果]\n\n';
-    } else {
-      prompt += 'あなたはプロの通訳アシスタントです。以下のテキストを自然な日本語に翻訳してください。\n\n';
-    }
-
-    if (context && context.length > 0) {
-      prompt += '【会話の文脈】\n';
-      prompt += '以下は過去のユーザーの発言です。代名詞や省略表現を翻訳する際の参考にしてください。\n\n';
-      // コンテキストは新しい順(DESC)で来るので、古い順に並べ替える
-      const chronologicalContext = [...context].reverse();
-      chronologicalContext.forEach((post, index) => {
-        prompt += (index + 1) + '. ' + (post.message_text || '') + '\n';
+  private async enforceGlossary(
+    generation: GenerationContext,
+    translations: Record<string, string>,
+    glossaryTerms: GlossaryTerm[],
+    allowPlainText: boolean,
+    createPrompt: (langs: string[]) => string
+  ): Promise<boolean> {
+    let violations = this.glossaryService.findViolations(glossaryTerms, translations);
+    if (violations.length > 0) {
+      const violatingLangs = [...new Set(violations.map(v => v.lang))];
+      console.warn(`Glossary terms are not used in: ${violatingLangs.join(', ')}. Re-prompting.`);
+      const correctionPrompt = createPrompt(violatingLangs) +
+        '- 前回の翻訳では次の訳語が使われていませんでした。必ず使用してください: ' +
+        violations.map(v => `${getLanguageLabel(v.lang)}「${v.expected}」`).join(', ') + '\n';
+      const correctionOutput = await this.provider.generateText(correctionPrompt, { ...generation, purpose: 'glossary_correction' });
+      const corrected = this.parseTranslationOutput(correctionOutput, violatingLangs, allowPlainText);
+      for (const [lang, translation] of Object.entries(corrected)) {
+        const before = violations.filter(v => v.lang === lang).length;
+        const after = this.glossaryService.findViolations(glossaryTerms, { [lang]: translation }).length;
+        if (after < before) {
+          translations[lang] = translation;
+        }
+      }
+      violations = this.glossaryService.findViolations(glossaryTerms, translations);
+    }
+
+    if (violations.length > 0) {
+      await this.logRepository.createDebugLog({
+        timestamp: new Date().toISOString(),
+        message: `Glossary terms missing for post ${generation.postId}: ${
+          violations.map(v => `${v.lang} "${v.expected}" (${v.term})`).join(', ')
+        }`,
+        stack: null,
       });
-      prompt += '\n';
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * @method getRoom
+   * @description ルームの情報 (言語設定、プロンプトテンプレート、説明) を取得します。
+   * @param {string | null} roomId ルームID。nullの場合は個人チャット。
+   * @returns {Promise<Room | null>} ルーム、または個人チャットや未登録のルームの場合はnull (既定の設定を使用)
+   */
+  private async getRoom(roomId: string | null): Promise<Room | null> {
+    if (!roomId) {
+      return null;
+    }
+    return await this.roomRepository.findById(roomId);
+  }
+
+  /**
+   * @method findExamples
+   * @description ルームで管理者が修正した翻訳の例を取得します。取得に失敗した場合は例なしで翻訳します。
+   * @param {string | null} roomId ルームID。nullの場合は個人チャット。
+   * @returns {Promise<TranslationExample[]>} 翻訳の例の配列 (新しい順)
+   */
+  private async findExamples(roomId: string | null): Promise<TranslationExample[]> {
+    try {
+      return await this.translationExampleRepository.findRecentByRoomId(roomId, MAX_TRANSLATION_EXAMPLES);
+    } catch (error) {
+      console.warn('Failed to load translation examples. Translating without examples.', error);
+      return [];
+    }
+  }
+
+  /**
+   * @method parseTranslationOutput
+   * @description Geminiの出力から言語ごとの翻訳結果を取り出します。
+   *              JSON形式を優先し、解析できない場合は "Polish: ..." 形式の行にフォールバックします。
+   *              前置きやコードブロックが付いていても、該当部分だけを取り出します。
+   * @param {string} rawOutput Geminiの出力テキスト
+   * @param {string[]} targetLangs 翻訳先の言語コードの配列
+   * @param {boolean} allowPlainText JSONもラベルもない出力全体を、翻訳先の1言語の翻訳とみなすか
+   * @returns {Record<string, string>} 言語コードをキーとした翻訳結果 (取り出せた言語のみ)
+   */
+  private parseTranslationOutput(
+    rawOutput: string,
+    targetLangs: string[],
+    allowPlainText: boolean
+  ): Record<string, string> {
+    const translations: Record<string, string> = {};
+    const text = rawOutput.trim();
+
+    // 言語コード ('pl') と言語名 ('Polish') のどちらのキーでも受け付ける
+    const findLang = (key: string): string | undefined =>
+      targetLangs.find(lang =>
+        lang === key.toLowerCase() || getLanguageLabel(lang).toLowerCase() === key.toLowerCase()
+      );
+
+    const jsonStart = text.indexOf('{');
+    const jsonEnd = text.lastIndexOf('}');
+    if (jsonStart !== -1 && jsonEnd > jsonStart) {
+      try {
+        const parsed = JSON.parse(text.substring(jsonStart, jsonEnd + 1));
+        for (const [key, value] of Object.entries(parsed)) {
+          const lang = findLang(key);
+          if (lang && typeof value === 'string' && value.trim()) {
+            translations[lang] = value.trim();
+          }
+        }
+        return translations;
+      } catch (e) {
+        console.warn('Translation output is not valid JSON. Falling back to line parsing.');
+      }
     }
 
-    prompt += '【翻訳対象】\n';
-    prompt += messageText + '\n\n';
-    prompt += '【指示】\n';
-    prompt += '- 翻訳結果のみを出力してください（説明や追加情報は不要）\n';
-    prompt += '- 子供バレエ教室のチャットでのメッセージです。バレエ用語は正しく訳してください。ポーランド語は先生で、日本語は生徒の保護者です。バレエ教室の先生とのやりとりとして自然な文章にしてください。\n';
-    prompt += '- 原文に含まれるニュアンス（感情、皮肉、丁寧さの度合い、ユーモアなど）を鋭敏に汲み取り、それをターゲット言語で適切に表現してください。直訳よりも、この「空気感」の再現を優先してください。\n';
-    prompt += '- ポーランド人が言葉に込める親密さを表現してください\n';
-    prompt += '- 翻訳した文章が長くなっても構いませんので、元の文章の意図が完全に伝わるようにしてください\n';
+    // "Polish: ..." 形式の行を解析する。ラベルのない行は直前の言語の続きとして扱う
+    let currentLang: string | undefined;
+    const lines: Record<string, string[]> = {};
+    for (const line of text.split('\n')) {
+      const labelMatch = line.match(/^\s*\**([A-Za-z]+)\**\s*[:：]\s*(.*)$/);
+      const lang = labelMatch ? findLang(labelMatch[1]) : undefined;
+      if (labelMatch && lang) {
+        currentLang = lang;
+        lines[lang] = [labelMatch[2]];
+      } else if (currentLang) {
+        lines[currentLang].push(line);
+      }
+    }
+    for (const [lang, langLines] of Object.entries(lines)) {
+      const value = langLines.join('\n').trim();
+      if (value) {
+        translations[lang] = value;
+      }
+    }
 
-    if (context && context.length > 0) {
-      prompt += '- 代名詞や省略表現は、上記の文脈を考慮して適切に翻訳してください\n';
+    if (allowPlainText && targetLangs.length === 1 && Object.keys(translations).length === 0 && text) {
+      translations[targetLangs[0]] = text;
     }
 
-    return prompt;
+    return translations;
+  }
+
+  /**
+   * @method formatTranslations
+   * @description 言語ごとの翻訳結果を、LINEの返信用テキストに整形します。
+   *              翻訳先が1言語の場合は翻訳文のみ、複数の場合は "Polish: ..." 形式で言語ごとに1行ずつ並べます。
+   * @param {Record<string, string>} translations 言語コードをキーとした翻訳結果
+   * @param {string[]} targetLangs 翻訳先の言語コードの配列 (表示順)
+   * @returns {string} 整形されたテキスト
+   */
+  private formatTranslations(translations: Record<string, string>, targetLangs: string[]): string {
+    const availableLangs = targetLangs.filter(lang => translations[lang]);
+    if (targetLangs.length === 1) {
+      return translations[targetLangs[0]] || '';
+    }
+    return availableLangs
+      .map(lang => `${getLanguageLabel(lang)}: ${translations[lang]}`)
+      .join('\n');
+  }
+
+  /**
+   * @method createTranslationPrompt
+   * @description ルームで選択されたテンプレートに変数を当てはめて、翻訳プロンプトを構築します。
+   *              組み込みのテンプレートは、GASの実装(gas-src/code.gs)と一致するようにしています。
+   * @param {TranslationPromptInput} input 翻訳プロンプトの作成に使用する情報
+   * @param {string[]} targetLangs 翻訳先の言語コードの配列
+   * @returns {string} 構築されたプロンプト
+   */
+  private createTranslationPrompt(input: TranslationPromptInput, targetLangs: string[]): string {
+    const { messageText, context, quoted, sourceLang, languageConfig, glossaryTerms, template, roomDescription, examples } = input;
+    const scope = targetLangs.length === 2 ? 'の両方' : targetLangs.length > 2 ? 'のすべて' : '';
+    const flag = (value: boolean) => (value ? '1' : '');
+
+    return renderPromptTemplate(template.body, {
+      source_text: messageText,
+      // 言語ごとに取り出せるよう、翻訳先の言語コードをキーとしたJSONで出力させる
+      output_format: '{' + targetLangs.map(lang => `"${lang}": "[${getLanguageLabel(lang)}の翻訳結果]"`).join(', ') + '}',
+      source_language: getJapaneseLanguageName(sourceLang),
+      source_is_japanese: flag(sourceLang === 'ja'),
+      target_languages: targetLangs.map(lang => `「${getJapaneseLanguageName(lang)}」`).join('と') + scope,
+      japanese_only: flag(targetLangs.length === 1 && targetLangs[0] === 'ja'),
+      glossary: this.glossaryService.createPromptSection(glossaryTerms, targetLangs),
+      context: context.map((entry, index) => `${index + 1}. ${entry.text}`).join('\n'),
+      quoted: quoted?.text ?? '',
+      examples: examples.map(example => `- 原文: ${example.source_text}\n  訳: ${example.translation}`).join('\n'),
+      room_description: roomDescription || DEFAULT_ROOM_DESCRIPTION,
+      roles: this.describeRoles(languageConfig),
+      placeholders: flag(/\{\{(?:MENTION|URL|EMAIL|TIME)_\d+\}\}/.test(messageText)),
+      polish: flag(sourceLang === 'pl' || targetLangs.includes('pl')),
+    });
+  }
+
+  /**
+   * @method describeRoles
+   * @description ルームの言語設定から、プロンプトに含める話者の役割の説明文を作成します。
+   *              例: "ポーランド語は先生で、日本語は生徒の保護者です。"
+   * @param {RoomLanguageConfig} languageConfig ルームの言語設定
+   * @returns {string} 役割の説明文 (役割が設定されていない場合は空文字)
+   */
+  private describeRoles(languageConfig: RoomLanguageConfig): string {
+    const roles = Object.entries(languageConfig.roles || {}).filter(([, role]) => role);
+    if (roles.length === 0) {
+      return '';
+    }
+    return roles.map(([lang, role]) => `${getJapaneseLanguageName(lang)}は${role}`).join('で、') + 'です。';
   }
 }
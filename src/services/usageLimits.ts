@@ -0,0 +1,138 @@
+/**
+ * @file UsageLimiter
+ * @description 翻訳プロバイダーの使用量を制限するサービス。
+ *              ユーザーごとの1時間あたりの翻訳回数、1メッセージの文字数、全体の月間トークン予算を確認し、
+ *              回数とトークン数は、すべてのプロバイダーが呼び出しごとに記録する 'gemini_usage' から集計します。
+ *              上限に近づいた場合は安価なモデルのみを使用し、上限に達した場合は翻訳せずにお知らせを返します。
+ *              一人の長文の投稿で無料枠を使い切り、全員の翻訳が止まることを防ぎます。
+ */
+
+import { GeminiUsageRepository, Env } from '../db';
+
+// ユーザーごとの1時間あたりの翻訳回数の上限 (RATE_LIMIT_PER_USER_PER_HOUR が未設定の場合)
+const DEFAULT_RATE_LIMIT_PER_USER_PER_HOUR = 30;
+
+// 1メッセージで翻訳する最大文字数 (MAX_MESSAGE_LENGTH が未設定の場合)
+const DEFAULT_MAX_MESSAGE_LENGTH = 1000;
+
+// 月間トークン予算のうち、この割合を超えたら安価なモデルのみを使用する
+const ECONOMY_BUDGET_RATIO = 0.8;
+
+/**
+ * 使用量の確認結果
+ */
+export type UsageDecision =
+  | { action: 'allow'; economy: boolean } // economy: 安価なモデルのみを使用する
+  | { action: 'deny'; reason: 'rate_limited' | 'budget_exceeded' };
+
+/**
+ * @interface LimitNotices
+ * @description 上限に達した場合に投稿者に伝えるお知らせ
+ */
+interface LimitNotices {
+  truncated: (maxLength: number) => string; // 長いメッセージの先頭のみを翻訳した場合
+  rate_limited: string; // 1時間あたりの翻訳回数の上限に達した場合
+  budget_exceeded: string; // 月間のトークン予算を使い切った場合
+}
+
+const LIMIT_NOTICES: Record<string, LimitNotices> = {
+  ja: {
+    truncated: maxLength => `※メッセージが長いため、最初の${maxLength}文字のみ翻訳しました。`,
+    rate_limited: '※短時間に多くのメッセージが送信されたため、しばらく翻訳を休止します。1時間ほどしてから再度お試しください。',
+    budget_exceeded: '※今月の翻訳の利用上限に達したため、翻訳を休止しています。来月になると再開します。',
+  },
+  pl: {
+    truncated: maxLength => `※Wiadomość jest długa, więc przetłumaczono tylko pierwsze ${maxLength} znaków.`,
+    rate_limited: '※Wysłano wiele wiadomości w krótkim czasie, więc tłumaczenie jest chwilowo wstrzymane. Spróbuj ponownie za około godzinę.',
+    budget_exceeded: '※Osiągnięto miesięczny limit tłumaczeń. Tłumaczenie zostanie wznowione w przyszłym miesiącu.',
+  },
+  en: {
+    truncated: maxLength => `※This message is long, so only the first ${maxLength} characters were translated.`,
+    rate_limited: '※Many messages were sent in a short time, so translation is paused for now. Please try again in about an hour.',
+    budget_exceeded: '※The monthly translation limit has been reached. Translation will resume next month.',
+  },
+};
+
+/**
+ * 環境変数の数値を読み込みます。未設定や0以下の場合は既定値を返します。
+ */
+const readLimit = (value: string | undefined, defaultValue: number | null): number | null => {
+  const limit = Number(value);
+  return value && limit > 0 ? limit : defaultValue;
+};
+
+export class UsageLimiter {
+  private geminiUsageRepository: GeminiUsageRepository;
+  private rateLimitPerHour: number | null;
+  private maxMessageLength: number | null;
+  private monthlyTokenBudget: number | null;
+
+  constructor(env: Env) {
+    this.geminiUsageRepository = new GeminiUsageRepository(env);
+    this.rateLimitPerHour = readLimit(env.RATE_LIMIT_PER_USER_PER_HOUR, DEFAULT_RATE_LIMIT_PER_USER_PER_HOUR);
+    this.maxMessageLength = readLimit(env.MAX_MESSAGE_LENGTH, DEFAULT_MAX_MESSAGE_LENGTH);
+    this.monthlyTokenBudget = readLimit(env.MONTHLY_TOKEN_BUDGET, null);
+  }
+
+  /**
+   * @method check
+   * @description ユーザーの直近1時間の翻訳回数と、今月の全体のトークン使用量を確認します。
+   * @param {string} userId 投稿者のユーザーID
+   * @param {Date} [now] 現在時刻
+   * @returns {Promise<UsageDecision>} 翻訳してよいか、安価なモデルのみを使用するか
+   */
+  async check(userId: string, now: Date = new Date()): Promise<UsageDecision> {
+    if (this.rateLimitPerHour !== null) {
+      const since = new Date(now.getTime() - 60 * 60 * 1000).toISOString();
+      const count = await this.geminiUsageRepository.countTranslationsByUserSince(userId, since);
+      if (count >= this.rateLimitPerHour) {
+        console.warn(`User ${userId} reached the rate limit: ${count} translations in the last hour.`);
+        return { action: 'deny', reason: 'rate_limited' };
+      }
+    }
+
+    if (this.monthlyTokenBudget !== null) {
+      const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)).toISOString();
+      const usedTokens = await this.geminiUsageRepository.sumTokensSince(monthStart);
+      if (usedTokens >= this.monthlyTokenBudget) {
+        console.warn(`Monthly token budget exhausted: ${usedTokens} / ${this.monthlyTokenBudget} tokens.`);
+        return { action: 'deny', reason: 'budget_exceeded' };
+      }
+      if (usedTokens >= this.monthlyTokenBudget * ECONOMY_BUDGET_RATIO) {
+        console.warn(`Monthly token budget is running low: ${usedTokens} / ${this.monthlyTokenBudget} tokens. Using economy models.`);
+        return { action: 'allow', economy: true };
+      }
+    }
+
+    return { action: 'allow', economy: false };
+  }
+
+  /**
+   * @method truncate
+   * @description 上限を超える長さのメッセージを切り詰めます。
+   *              後半に文の区切りがあればそこで切り、途中で文が切れないようにします。
+   * @param {string} text メッセージ
+   * @returns {{ text: string; truncated: boolean }} 切り詰めたメッセージと、切り詰めたかどうか
+   */
+  truncate(text: string): { text: string; truncated: boolean } {
+    if (this.maxMessageLength === null || text.length <= this.maxMessageLength) {
+      return { text, truncated: false };
+    }
+    const head = text.substring(0, this.maxMessageLength);
+    const lastBreak = Math.max(...['。', '！', '？', '. ', '! ', '? ', '\n'].map(mark => head.lastIndexOf(mark)));
+    const cut = lastBreak >= this.maxMessageLength / 2 ? lastBreak + 1 : this.maxMessageLength;
+    return { text: head.substring(0, cut).trim(), truncated: true };
+  }
+
+  /**
+   * @method getNotice
+   * @description 投稿者に伝えるお知らせを、投稿の言語で返します (対応していない言語の場合は英語)。
+   * @param {'truncated' | 'rate_limited' | 'budget_exceeded'} kind お知らせの種類
+   * @param {string} lang 投稿の言語コード
+   * @returns {string} お知らせ
+   */
+  getNotice(kind: 'truncated' | 'rate_limited' | 'budget_exceeded', lang: string): string {
+    const notices = LIMIT_NOTICES[lang] || LIMIT_NOTICES.en;
+    return kind === 'truncated' ? notices.truncated(this.maxMessageLength ?? 0) : notices[kind];
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * @file VoiceTranscriber
+ * @description 音声メッセージを書き起こすサービス。
+ *              LINEのコンテンツAPIから音声を取得し、SPEECH_TO_TEXT_PROVIDER で選択したプロバイダーで書き起こします。
+ *              先生が送る短いボイスメッセージを、通常の投稿と同じように翻訳するために使用します。
+ */
+
+import { Env } from '../db';
+import { AudioMessage } from '../types/line';
+import { LineClient } from './line';
+import { GenerationContext } from './translationProvider';
+import { createSpeechToTextProvider } from './speechToText';
+import { UsageLimiter } from './usageLimits';
+
+// 書き起こす音声の最大の長さ (ミリ秒)。これより長い音声は書き起こさない
+const MAX_VOICE_DURATION_MS = 5 * 60 * 1000;
+
+export class VoiceTranscriber {
+  private env: Env;
+  private lineClient: LineClient;
+  private usageLimiter: UsageLimiter;
+
+  constructor(env: Env) {
+    this.env = env;
+    this.lineClient = new LineClient(env);
+    this.usageLimiter = new UsageLimiter(env);
+  }
+
+  /**
+   * @method transcribe
+   * @description 音声メッセージを書き起こします。
+   *              音声が長すぎる場合や、投稿者が利用上限に達している場合は、書き起こさずにnullを返します。
+   * @param {AudioMessage} message 音声メッセージ
+   * @param {GenerationContext} generation 音声の投稿・ルーム・ユーザー (使用量の記録用)
+   * @returns {Promise<string | null>} 書き起こしたテキスト、または聞き取れる発言がない場合はnull
+   * @throws {Error} 音声の取得や書き起こしに失敗した場合 (キューのリトライ対象とするため)
+   */
+  async transcribe(message: AudioMessage, generation: GenerationContext): Promise<string | null> {
+    if (message.duration > MAX_VOICE_DURATION_MS) {
+      console.warn(`Skipping transcription for post ${message.id} (${message.duration}ms is too long).`);
+      return null;
+    }
+
+    const usage = generation.userId ? await this.usageLimiter.check(generation.userId) : null;
+    if (usage?.action === 'deny') {
+      console.warn(`Skipping transcription for post ${message.id} (${usage.reason}).`);
+      return null;
+    }
+
+    const audio = await this.lineClient.getContent(message);
+    const text = (await createSpeechToTextProvider(this.env).transcribe(audio, {
+      ...generation,
+      purpose: 'speech_to_text',
+      economy: usage?.economy,
+    })).trim();
+
+    if (!text) {
+      console.log(`No speech found in audio ${message.id}.`);
+      return null;
+    }
+    return text;
+  }
+}
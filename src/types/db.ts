@@ -19,6 +19,32 @@ export interface User {
 export interface Room {
   room_id: string; // LINEのルームIDまたはグループID
   room_name: string | null; // ルーム名
+  language_config?: string | null; // 参加者の言語と翻訳先のルール (JSON形式)
+  prompt_template?: string | null; // 翻訳に使用するプロンプトテンプレート名 (NULLの場合は 'default')
+  description?: string | null; // 翻訳プロンプトに含めるルームの説明 (NULLの場合は既定の説明)
+}
+
+/**
+ * 投稿の種類 (LINEのメッセージの種類)
+ */
+export type PostContentType = 'text' | 'image' | 'video' | 'audio' | 'file' | 'location' | 'sticker';
+
+/**
+ * @interface PostContentMetadata
+ * @description テキスト以外の投稿のコンテンツの情報 (posts.content_metadata にJSON形式で保存)
+ */
+export interface PostContentMetadata {
+  fileName?: string; // ファイル名 (ファイル)
+  fileSize?: number; // ファイルサイズ (バイト。ファイル)
+  duration?: number; // 長さ (ミリ秒。動画・音声)
+  packageId?: string; // スタンプのパッケージID
+  stickerId?: string; // スタンプID
+  keywords?: string[]; // スタンプの意味を表すキーワード
+  stickerText?: string; // メッセージスタンプにユーザーが入力した文字
+  title?: string; // 位置情報のタイトル
+  address?: string; // 位置情報の住所
+  latitude?: number; // 緯度
+  longitude?: number; // 経度
 }
 
 /**
@@ -33,6 +59,21 @@ export interface Post {
   message_text: string | null; // メッセージ本文
   has_poll: 0 | 1; // アンケートが含まれているか (0: false, 1: true)
   translated_text: string | null; // 翻訳されたテキスト
+  translations?: string | null; // 言語コードをキーとした翻訳結果 (JSON形式)
+  quoted_post_id?: string | null; // 引用返信の場合、引用されたメッセージのID
+  retracted_at?: string | null; // 送信が取り消された日時 (本文と翻訳は削除済み)
+  content_type?: PostContentType; // 投稿の種類 (画像・音声の場合、message_text は読み取った文章・書き起こし)
+  content_metadata?: string | null; // コンテンツの情報 (PostContentMetadata のJSON形式。テキストの場合はNULL)
+  content_key?: string | null; // コンテンツの保存先のキー (保存していない場合はNULL)
+  place_id?: number | null; // アンケートやお知らせで参照した場所のID (参照していない場合はNULL)
+}
+
+/**
+ * @interface PostWithSpeaker
+ * @description 投稿に投稿者の表示名を付けたもの (翻訳の文脈に使用)
+ */
+export interface PostWithSpeaker extends Post {
+  display_name: string | null; // 投稿者の表示名 (usersに登録されていない場合はnull)
 }
 
 /**
@@ -56,10 +97,17 @@ export interface TranslationLog {
   timestamp: string; // ログ日時
   user_id: string | null; // ユーザーID
   language: string | null; // 検出された言語 ('ja', 'pl', 'en' 等)
+  language_confidence?: number | null; // n-gramによる言語検出の確信度 (0〜1)
+  detection_method?: 'ngram' | 'gemini' | null; // 言語を決定した方法
   original_message: string | null; // 元のメッセージ
   translation: string | null; // 翻訳結果
   prompt: string | null; // Gemini APIへのプロンプト
   history_count: number | null; // コンテキスト履歴の数
+  skip_reason?: string | null; // 翻訳をスキップした理由 ('emoji_only', 'url_only' 等。翻訳した場合はnull)
+  prompt_template?: string | null; // 翻訳に使用したプロンプトテンプレート名
+  prompt_template_version?: number | null; // 翻訳に使用したプロンプトテンプレートのバージョン (組み込みのテンプレートの場合は 'built-in' のバージョン)
+  post_id?: string | null; // 翻訳した投稿のID
+  context_post_ids?: string | null; // プロンプトの会話の文脈と返信先に含めた投稿のID (JSON配列)
 }
 
 /**
@@ -72,3 +120,245 @@ export interface DebugLog {
   message: string | null; // エラーメッセージ等
   stack: string | null; // スタックトレース
 }
+
+/**
+ * @interface ProcessedEvent
+ * @description Webhookイベントの処理状況を表すインターフェース
+ */
+export interface ProcessedEvent {
+  event_id: string; // LINEのwebhookEventId
+  status: 'processing' | 'completed' | 'failed'; // 処理状況
+  attempts: number; // 処理試行回数
+  last_error: string | null; // 直近のエラーメッセージ
+  step_results: string | null; // 完了済みステップとその結果 (JSON形式)
+  message_id?: string | null; // メッセージイベントの場合、LINEのメッセージID (送信取り消し時の削除に使用)
+  created_at: string; // 初回受信日時
+  updated_at: string; // 最終更新日時
+}
+
+/**
+ * @interface RetractedMessage
+ * @description 送信が取り消されたメッセージの記録
+ */
+export interface RetractedMessage {
+  message_id: string; // 取り消されたLINEのメッセージID
+  retracted_at: string; // 送信が取り消された日時
+}
+
+/**
+ * @interface FailedEvent
+ * @description 処理に失敗したWebhookイベント (デッドレター) を表すインターフェース
+ */
+export interface FailedEvent {
+  id: number; // ID (自動採番)
+  event_id: string | null; // LINEのwebhookEventId
+  event_type: string | null; // イベント種別
+  event_json: string; // 元のWebhookEventのJSON
+  error_message: string | null; // 直近のエラーメッセージ
+  stack: string | null; // 直近のスタックトレース
+  attempts: number; // 処理試行回数
+  status: 'pending' | 'replayed' | 'discarded'; // 状態
+  created_at: string; // 登録日時
+  updated_at: string; // 最終更新日時
+}
+
+/**
+ * @interface DeliveryLog
+ * @description メッセージ送信ログを表すインターフェース
+ */
+export interface DeliveryLog {
+  id: number; // ログID (自動採番)
+  timestamp: string; // ログ日時
+  post_id: string | null; // 返信元の投稿ID (posts.post_id)
+  destination: string | null; // 送信先ID (ユーザーID, グループID, またはルームID)
+  method: 'reply' | 'push'; // 送信方法
+  success: 0 | 1; // 送信に成功したか (0: false, 1: true)
+  status_code: number | null; // LINE APIのHTTPステータスコード
+  error_body: string | null; // LINE APIから返されたエラーレスポンスのボディ
+}
+
+/**
+ * @interface GlossaryTerm
+ * @description 翻訳時に訳語を統一するための用語集の項目を表すインターフェース
+ */
+export interface GlossaryTerm {
+  id: number; // ID (自動採番)
+  term: string; // 用語 (原文に現れる形。例: "pas de bourrée", "発表会")
+  translations: string | null; // 言語ごとの訳語 (JSON形式。例: {"ja": "パ・ド・ブレ"})
+  do_not_translate: number; // 翻訳せず原文のまま使用するか (0: false, 1: true)
+  room_id: string | null; // 適用するルームID (NULLの場合はすべてのルーム)
+  note: string | null; // 管理用のメモ
+  created_at: string; // 登録日時
+  updated_at: string; // 最終更新日時
+}
+
+/**
+ * @interface TranslationCacheEntry
+ * @description 翻訳キャッシュの項目を表すインターフェース
+ */
+export interface TranslationCacheEntry {
+  cache_key: string; // キャッシュキー (SHA-256)
+  normalized_text: string; // 正規化したメッセージ
+  source_lang: string; // 元の言語コード
+  target_langs: string; // 翻訳先の言語コード (カンマ区切り)
+  context_hash: string; // 翻訳時に使用した会話の文脈のハッシュ
+  translations: string; // 言語ごとの翻訳結果 (JSON形式)
+  post_id?: string | null; // キャッシュを登録した翻訳の投稿ID (送信取り消し時の削除に使用)
+  hit_count: number; // キャッシュが使用された回数
+  created_at: string; // 登録日時
+  last_hit_at: string | null; // 最後にキャッシュが使用された日時
+}
+
+/**
+ * @interface TranslationCacheStats
+ * @description 日ごとの翻訳キャッシュのヒット数・ミス数を表すインターフェース
+ */
+export interface TranslationCacheStats {
+  date: string; // 日付 (YYYY-MM-DD, UTC)
+  hits: number; // キャッシュから翻訳を返した回数
+  misses: number; // キャッシュになくGeminiを呼び出した回数
+}
+
+/**
+ * @interface GeminiUsage
+ * @description Gemini APIの呼び出し1回分の記録を表すインターフェース
+ */
+export interface GeminiUsage {
+  id: number; // 記録ID (自動採番)
+  timestamp: string; // 呼び出し日時
+  purpose: string | null; // 呼び出しの目的 ('translation', 'language_detection' 等)
+  post_id: string | null; // 翻訳対象の投稿ID
+  room_id: string | null; // 投稿があったルームID
+  user_id: string | null; // 投稿者のユーザーID
+  model: string | null; // 応答したモデル (失敗した場合は最後に試したモデル)
+  attempts: number; // API呼び出しの試行回数 (リトライ・フォールバックを含む)
+  fallback_path: string; // 各試行のモデルと結果 (例: 'gemini-2.5-flash-lite:429 > gemini-2.5-flash:ok')
+  prompt_tokens: number | null; // 入力トークン数
+  output_tokens: number | null; // 出力トークン数
+  cost_usd: number | null; // 推定コスト (USD)
+  latency_ms: number; // 所要時間 (ミリ秒、リトライの待ち時間を含む)
+  status: 'success' | 'error'; // 最終的な結果
+  error_message: string | null; // 失敗した場合のエラー内容
+}
+
+/**
+ * @interface GeminiUsageSummary
+ * @description Gemini APIの使用量を期間と集計単位 (ルーム、ユーザー、モデル) ごとに集計した結果
+ */
+export interface GeminiUsageSummary {
+  period: string; // 期間 (日別は YYYY-MM-DD、月別は YYYY-MM)
+  dimension_key: string; // 集計単位のID (ルームID、ユーザーID、モデル名。全体の場合は空文字)
+  label: string | null; // 集計単位の表示名 (ルーム名、ユーザーの表示名)
+  calls: number; // 呼び出し回数
+  errors: number; // 失敗した呼び出しの回数
+  attempts: number; // API呼び出しの試行回数の合計
+  prompt_tokens: number; // 入力トークン数の合計
+  output_tokens: number; // 出力トークン数の合計
+  cost_usd: number; // 推定コストの合計 (USD)
+  avg_latency_ms: number; // 平均所要時間 (ミリ秒)
+}
+
+/**
+ * @interface ModelHealth
+ * @description Geminiのモデルごとの状態 (サーキットブレーカー)
+ */
+export interface ModelHealth {
+  model: string; // モデル名
+  cooldown_until: string | null; // この日時まではモデルを使用しない (NULLの場合は使用可能)
+  consecutive_failures: number; // 連続して失敗した回数
+  window_started_at: string; // エラー率を計算する期間の開始日時
+  window_requests: number; // 期間内の呼び出し回数
+  window_failures: number; // 期間内に失敗した回数
+  last_status: string | null; // 最後の呼び出しの結果 ('ok'、HTTPステータスコード、または 'error')
+  last_success_at: string | null; // 最後に成功した日時
+  last_failure_at: string | null; // 最後に失敗した日時
+  updated_at: string; // 更新日時
+}
+
+/**
+ * @interface PromptTemplate
+ * @description 翻訳プロンプトのテンプレートの1バージョン
+ */
+export interface PromptTemplate {
+  id: number; // テンプレートID (自動採番)
+  name: string; // テンプレート名
+  version: number; // バージョン (テンプレート名ごとに1から採番)
+  body: string; // テンプレート本文
+  note: string | null; // 変更内容のメモ
+  created_at: string; // 作成日時
+}
+
+/**
+ * @interface PromptTemplateSummary
+ * @description テンプレート名ごとの最新バージョンとバージョン数
+ */
+export interface PromptTemplateSummary {
+  name: string; // テンプレート名
+  version: number; // 最新のバージョン
+  versions: number; // バージョンの数
+  updated_at: string; // 最新バージョンの作成日時
+}
+
+/**
+ * 翻訳に対するユーザーの評価 ('good': 👍, 'bad': 👎, 'fix': 修正案あり)
+ */
+export type FeedbackRating = 'good' | 'bad' | 'fix';
+
+/**
+ * @interface TranslationFeedback
+ * @description 翻訳に対するユーザーの評価
+ */
+export interface TranslationFeedback {
+  id: number; // 評価ID (自動採番)
+  translation_log_id: number; // 評価された翻訳ログのID
+  post_id: string; // 翻訳した投稿のID
+  user_id: string; // 評価したユーザーのID
+  rating: FeedbackRating; // 評価
+  suggestion: string | null; // ユーザーが送った修正案
+  created_at: string; // 評価日時
+  updated_at: string; // 更新日時
+}
+
+/**
+ * @interface PoorlyRatedTranslation
+ * @description 管理画面に表示する、低く評価された翻訳 (評価と翻訳ログを結合したもの)
+ */
+export interface PoorlyRatedTranslation extends TranslationFeedback {
+  original_message: string | null; // 元のメッセージ
+  translation: string | null; // 翻訳結果
+  prompt: string | null; // Gemini APIへのプロンプト (キャッシュを使用した場合はnull)
+  language: string | null; // 元の言語
+  prompt_template: string | null; // 翻訳に使用したプロンプトテンプレート名
+  prompt_template_version: number | null; // 翻訳に使用したプロンプトテンプレートのバージョン
+}
+
+/**
+ * @interface TranslationExample
+ * @description 管理者が修正した翻訳の例 (翻訳プロンプトに参考例として含める)
+ */
+export interface TranslationExample {
+  id: number; // 例のID (自動採番)
+  post_id: string; // 修正した投稿のID
+  room_id: string | null; // 投稿があったルームID (NULLは個人チャット)
+  source_text: string; // 原文
+  translation: string; // 修正後の翻訳
+  created_at: string; // 保存日時
+}
+
+/**
+ * @interface Place
+ * @description 名前を付けて登録した場所 (発表会の会場など。アンケートやお知らせから参照する)
+ */
+export interface Place {
+  id: number; // ID (自動採番)
+  name: string; // 参照に使う名前 (例: "発表会会場")
+  room_id: string | null; // 登録したルームID (NULLの場合は個人チャットで登録した、created_by のユーザー専用の場所)
+  title: string | null; // 位置情報のタイトル (施設名など)
+  address: string | null; // 住所
+  latitude: number; // 緯度
+  longitude: number; // 経度
+  source_post_id: string | null; // 登録元の位置情報メッセージのID
+  created_by: string | null; // 登録したユーザーID
+  created_at: string; // 登録日時
+  updated_at: string; // 最終更新日時
+}
@@ -13,6 +13,10 @@ export interface WebhookEvent {
   type: 'message' | 'follow' | 'unfollow' | 'join' | 'leave' | 'postback' | 'beacon' | 'accountLink' | 'memberJoined' | 'memberLeft' | 'things' | 'unsend' | 'videoPlayComplete' | 'scenarioResult' | 'pinocchioAudio' | 'chatControl' | 'agreements';
   mode: 'active' | 'standby'; // Channel state
   timestamp: number; // Time of the event in milliseconds
+  webhookEventId?: string; // Webhook event ID (unique per event, kept across redeliveries)
+  deliveryContext?: {
+    isRedelivery: boolean; // Whether the event is a redelivery
+  };
   source: UserSource | GroupSource | RoomSource; // Source of the event
 }
 
@@ -76,17 +80,26 @@ export interface Message {
 export interface TextMessage extends Message {
   type: 'text';
   text: string; // Message text
+  quoteToken?: string; // Token for quoting this message
+  quotedMessageId?: string; // ID of the quoted message (only when the message quotes another one)
   emojis?: { index: number; length: number; productId: string; emojiId: string; }[];
   mention?: {
-    mentionees: {
-      index: number;
-      length: number;
-      userId: string;
-      type: 'user';
-    }[];
+    mentionees: Mentionee[];
   };
 }
 
+/**
+ * @interface Mentionee
+ * @description メッセージ内でメンションされた対象
+ */
+export interface Mentionee {
+  index: number; // Start position of the mention in the message text
+  length: number; // Length of the mention text (e.g. "@Hana")
+  type: 'user' | 'all'; // 'user' for a single user, 'all' for everyone in the group
+  userId?: string; // ID of the mentioned user (only when type is 'user' and the ID is available)
+  isSelf?: boolean; // Whether the mentioned user is this bot
+}
+
 /**
  * @interface ImageMessage
  * @description 画像メッセージオブジェクト
@@ -186,6 +199,17 @@ export interface PostbackEvent extends WebhookEvent {
   };
 }
 
+/**
+ * @interface UnsendEvent
+ * @description 送信取り消しイベントオブジェクト
+ */
+export interface UnsendEvent extends WebhookEvent {
+  type: 'unsend';
+  unsend: {
+    messageId: string; // ID of the unsent message
+  };
+}
+
 /**
  * @interface FollowEvent
  * @description フォローイベントオブジェクト
@@ -239,3 +263,12 @@ export interface MemberLeftEvent extends WebhookEvent {
     members: (UserSource | GroupSource | RoomSource)[];
   };
 }
+
+/**
+ * @interface SendingMessage
+ * @description 返信・Pushで送信するメッセージオブジェクト (テキスト、位置情報、Flex Messageなど)
+ */
+export interface SendingMessage {
+  type: string; // Message type (e.g. 'text', 'location', 'flex')
+  [property: string]: unknown; // Properties of each message type
+}
@@ -0,0 +1,24 @@
+/**
+ * @file commands.ts
+ * @description チャットで使用するコマンドの判定パターン。
+ *              Webhookでのコマンド処理と、翻訳の文脈からコマンドを除外する処理の両方で使用します。
+ */
+
+// アンケートコマンド (例: "[check] 明日の練習に参加しますか？")
+export const POLL_COMMAND_PATTERN = /\[check\]/i;
+
+// 名前の登録コマンド (例: '私の名前は"ハナ"')。1番目のグループが登録する名前
+export const NAME_REGISTRATION_PATTERN = /私(?:の名前|)は"(.+?)"/;
+
+// 翻訳の修正案 (例: "✏️ Jutro lekcja zaczyna się o 16:00")。クイックリプライの ✏️ を選ぶと入力欄にこの接頭辞が入る
+export const FEEDBACK_SUGGESTION_PREFIX = '✏️ ';
+export const FEEDBACK_SUGGESTION_PATTERN = /^✏️?\s*([\s\S]+)$/;
+
+// 再翻訳コマンド。翻訳し直すメッセージを引用して送信する (例: "再翻訳", "retranslate")
+export const RETRANSLATE_COMMAND_PATTERN = /^\s*(?:再翻訳|retranslate)\s*$/i;
+
+// 場所の登録コマンド。登録する位置情報メッセージを引用して送信する (例: "場所登録 発表会会場")。1番目のグループが場所の名前
+export const PLACE_REGISTRATION_PATTERN = /^\s*(?:場所登録|save place)\s*[:：]?\s*(.+?)\s*$/i;
+
+// 登録した場所の参照 (例: "[check] 土曜日の発表会に参加しますか？ [place:発表会会場]")。1番目のグループが場所の名前
+export const PLACE_REFERENCE_PATTERN = /\[place:\s*([^\]]+?)\s*\]/i;
@@ -0,0 +1,30 @@
+/**
+ * @file encoding.ts
+ * @description 画像や音声のバイナリを、LLMのプロンプトに含められる形式に変換するユーティリティ。
+ */
+
+// String.fromCharCode に一度に渡すバイト数 (引数の上限を超えないようにするため)
+const CHUNK_SIZE = 0x8000;
+
+/**
+ * @function toBase64
+ * @description バイナリをBase64でエンコードします。大きなファイルでも引数の上限を超えないよう、分割して変換します。
+ * @param {ArrayBuffer} data エンコードするバイナリ
+ * @returns {string} Base64でエンコードした文字列
+ */
+export const toBase64 = (data: ArrayBuffer): string => {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += CHUNK_SIZE) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK_SIZE));
+  }
+  return btoa(binary);
+};
+
+/**
+ * @function toMimeType
+ * @description Content-Type ヘッダーから、パラメータ (charset など) を除いたMIMEタイプを取り出します。
+ * @param {string} contentType Content-Type ヘッダーの値
+ * @returns {string} MIMEタイプ
+ */
+export const toMimeType = (contentType: string): string => contentType.split(';')[0].trim();
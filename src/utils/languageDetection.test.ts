@@ -0,0 +1,53 @@
+/**
+ * @file languageDetection.test.ts
+ * @description n-gramプロファイルによる言語検出の単体テスト。
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectLanguage } from './languageDetection';
+
+describe('detectLanguage', () => {
+  const defaultLanguages = ['ja', 'pl', 'en'];
+
+  it('should detect Japanese by script', () => {
+    expect(detectLanguage('明日のレッスンは何時からですか？', defaultLanguages)).toEqual({ language: 'ja', confidence: 1 });
+  });
+
+  it('should detect Polish written without diacritics', () => {
+    const result = detectLanguage('Dzien dobry, jutro nie bedzie zajec', defaultLanguages);
+    expect(result.language).toBe('pl');
+    expect(result.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('should detect Polish with diacritics', () => {
+    expect(detectLanguage('Dziękuję bardzo za informację', defaultLanguages).language).toBe('pl');
+  });
+
+  it('should detect English', () => {
+    const result = detectLanguage('See you tomorrow at the rehearsal', defaultLanguages);
+    expect(result.language).toBe('en');
+    expect(result.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('should detect other configured Latin-script languages', () => {
+    expect(detectLanguage('Guten Morgen, wie geht es Ihnen?', ['ja', 'de', 'en']).language).toBe('de');
+    expect(detectLanguage('Merci beaucoup pour votre aide', ['ja', 'fr', 'en']).language).toBe('fr');
+  });
+
+  it('should distinguish Ukrainian from Russian', () => {
+    expect(detectLanguage('Привіт, як справи?', ['ja', 'uk', 'ru']).language).toBe('uk');
+    expect(detectLanguage('Привет, как дела?', ['ja', 'uk', 'ru']).language).toBe('ru');
+  });
+
+  it('should detect Cyrillic text even when no Cyrillic language is configured', () => {
+    expect(detectLanguage('Дякую за допомогу', defaultLanguages).language).toBe('uk');
+  });
+
+  it('should return low confidence for very short text', () => {
+    expect(detectLanguage('ok', defaultLanguages).confidence).toBeLessThan(0.6);
+  });
+
+  it('should return zero confidence when there are no letters', () => {
+    expect(detectLanguage('👍 123', defaultLanguages)).toEqual({ language: 'en', confidence: 0 });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * @file languageDetection.ts
+ * @description 文字3-gramのプロファイルを使った言語検出。
+ *              ワーカーに同梱したプロファイルのみで判定するため、外部APIを呼び出さずに言語コードと確信度を返します。
+ *              日本語・韓国語・中国語は文字体系で判定し、ラテン文字とキリル文字の言語は3-gramの出現順位で判定します。
+ */
+
+import { NGRAM_PROFILES } from './languageProfiles';
+
+/**
+ * @interface LanguageDetectionResult
+ * @description 言語検出の結果
+ */
+export interface LanguageDetectionResult {
+  language: string; // 検出された言語コード
+  confidence: number; // 確信度 (0〜1)
+}
+
+// プロファイルに含まれない3-gramの重み (最下位の順位よりも十分に低くする)
+const UNKNOWN_TRIGRAM_WEIGHT = -Math.log(600);
+
+// この数より3-gramが少ない短文は、長さに応じて確信度を下げる
+const MIN_RELIABLE_TRIGRAMS = 6;
+
+// 3-gramごとの順位表 (初回使用時に構築)
+let rankTables: Record<string, Map<string, number>> | null = null;
+
+const getRankTables = (): Record<string, Map<string, number>> => {
+  if (!rankTables) {
+    rankTables = {};
+    for (const [lang, profile] of Object.entries(NGRAM_PROFILES)) {
+      rankTables[lang] = new Map(profile.trigrams.split('|').map((trigram, rank) => [trigram, rank]));
+    }
+  }
+  return rankTables;
+};
+
+/**
+ * テキストを単語に分割し、単語の前後を空白で区切った3-gramを取り出します。
+ */
+const extractTrigrams = (text: string): string[] => {
+  const words = text.toLowerCase().replace(/[^\p{L}]+/gu, ' ').split(' ').filter(w => w);
+  const trigrams: string[] = [];
+  for (const word of words) {
+    const padded = ` ${word} `;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      trigrams.push(padded.substring(i, i + 3));
+    }
+  }
+  return trigrams;
+};
+
+/**
+ * 文字体系だけで言語が決まる場合 (日本語・韓国語・中国語) は、その結果を返します。
+ */
+const detectByScript = (text: string, candidates: string[]): LanguageDetectionResult | null => {
+  // ひらがな・カタカナがあれば日本語
+  if (/[\u3040-\u309F\u30A0-\u30FF]/.test(text)) {
+    return { language: 'ja', confidence: 1 };
+  }
+  // ハングルがあれば韓国語
+  if (/[\uAC00-\uD7AF\u1100-\u11FF]/.test(text)) {
+    return { language: 'ko', confidence: 1 };
+  }
+  // 漢字のみの場合は、ルームの参加者言語から日本語か中国語かを決める
+  if (/[\u4E00-\u9FAF]/.test(text)) {
+    if (candidates.includes('zh') && candidates.includes('ja')) {
+      return { language: 'ja', confidence: 0.5 };
+    }
+    return { language: candidates.includes('zh') ? 'zh' : 'ja', confidence: 1 };
+  }
+  return null;
+};
+
+/**
+ * @function detectLanguage
+ * @description テキストの言語を、ルームの参加者言語の中から検出します。
+ *              参加者言語に同じ文字体系の言語がない場合は、プロファイルのあるすべての言語から検出します。
+ * @param {string} text 検出するテキスト
+ * @param {string[]} candidates 候補となる言語コード (ルームの参加者言語)
+ * @returns {LanguageDetectionResult} 検出された言語コードと確信度
+ */
+export const detectLanguage = (text: string, candidates: string[]): LanguageDetectionResult => {
+  const scriptResult = detectByScript(text, candidates);
+  if (scriptResult) {
+    return scriptResult;
+  }
+
+  const trigrams = extractTrigrams(text);
+  if (trigrams.length === 0) {
+    // 絵文字や数字のみなど、判定できる文字がない
+    return { language: 'en', confidence: 0 };
+  }
+
+  const script = /[\u0400-\u04FF]/.test(text) ? 'cyrillic' : 'latin';
+  const sameScript = Object.keys(NGRAM_PROFILES).filter(lang => NGRAM_PROFILES[lang].script === script);
+  const configured = sameScript.filter(lang => candidates.includes(lang));
+  const languages = configured.length > 0 ? configured : sameScript;
+
+  // 出現順位をZipf分布の確率とみなした対数尤度で各言語を採点する
+  const tables = getRankTables();
+  const scores = languages.map(lang => {
+    const table = tables[lang];
+    let score = 0;
+    for (const trigram of trigrams) {
+      const rank = table.get(trigram);
+      score += rank === undefined ? UNKNOWN_TRIGRAM_WEIGHT : -Math.log(rank + 2);
+    }
+    return { lang, score };
+  });
+
+  // ソフトマックスで確信度に変換し、短文の場合は長さに応じて割り引く
+  const maxScore = Math.max(...scores.map(s => s.score));
+  const total = scores.reduce((sum, s) => sum + Math.exp(s.score - maxScore), 0);
+  const best = scores.find(s => s.score === maxScore)!;
+  const lengthFactor = Math.min(1, trigrams.length / MIN_RELIABLE_TRIGRAMS);
+  const confidence = (1 / total) * lengthFactor;
+
+  return { language: best.lang, confidence: Math.round(confidence * 1000) / 1000 };
+};
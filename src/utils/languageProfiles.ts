@@ -0,0 +1,148 @@
+/**
+ * @file languageProfiles.ts
+ * @description 言語検出に使用する文字3-gramのプロファイル。
+ *              各言語の代表的なチャット文 (バレエ教室の連絡、あいさつ、日常会話) から出現頻度の高い順に300件を抽出したものです。
+ *              スマートフォンでダイアクリティカルマークを省略して入力されることが多いため、
+ *              ラテン文字の言語はマークを除いた文も学習に含めています (例: "dziękuję" と "dziekuje")。
+ *              単語の前後は空白で区切り、3-gramは '|' で連結しています。
+ */
+
+/**
+ * @interface NgramProfile
+ * @description 1言語分の3-gramプロファイル
+ */
+export interface NgramProfile {
+  script: 'latin' | 'cyrillic'; // 言語が使用する文字体系
+  trigrams: string; // 出現頻度の高い順に並べた3-gram ('|' 区切り)
+}
+
+export const NGRAM_PROFILES: Record<string, NgramProfile> = {
+  pl: {
+    script: 'latin',
+    trigrams:
+      'ie |dzi| pr|zie|prz| po|nie| dz| w |rzy| za|cie|czy|rze| cz| na|pro|sze| do| i | ni|osz|ze |cze|ia |' +
+      'na | je| ko| mi| mo| si|ch |iec|my |nia|zy |ej |mie|ros|eci| ma| pi| sp| wa| ws|ac |am |ani|asz|ci |' +
+      'ies|je |odz|wie|za | ro|jes|sie|ach|ać |do |ego|esi|est|go |iej|li |rob|szy|zaj|zes|zys|zę | sa|ale|' +
+      'iac|iet|nas|się|szę|uje|zen|zo |zyc| ba| ch| da| du| go| ju| sz| ta| wi|ak |ard|ast|bar|ce |cia|dzo|' +
+      'edz|emy|eni|god|ię |ję |ko |kuj|le |mog|ora|owa|pom|pra|rdz|rod|ry |st |ste|te |trz|was|wcz|wsz| be|' +
+      'cza|ejs|ial|iał|ięt|kac|lek|ode|sci|sia|sob|spo|sza|zej|zia|zym|ści| al| bi| dr| ja| kt| le| o | od|' +
+      ' pa| ra| so| wc| we| z | ze| że|aci|acj|acz|adz|aj |aje|aję|ali|ami|apr|as |bed|bot|bry|buj|by |będ|' +
+      'cho|cy |dni|dob|dro|du |dy |ec |ek |eka|ekc|elk|em |ewc|got|ich|icz|ied|iek|ier|ile|inu|isz|iu |ięk|' +
+      'ja |jak|jec|jem|jut|ka |kcj|kie|kor|kos|ku |mac|mam|min|mna|mu |ni |nut|ny |obi|obo|obr|orz|ost|oto|' +
+      'owe|owi|pam|pis|pod|pot|pow|py |raj|ras|row|sal|spa|stk|tak|to |tow|ucz|ut |utr|wan|we |wic|wod|wsp|' +
+      'ych|ycz|ygo|yli|ymy|yst|yta|zam|zed|zek|zin|zna|zyl|zyn|ędz|że | bę| są|ałe|bia|ca |cja|eje|eku|esn|' +
+      'etn|ic |ien|ić |jęc|kać|kon|kto|la |lo |moc|moz|moż|ne |oc |omo|ory|ozn|pie|pię|rac|roz|sa |sią|sta',
+  },
+  en: {
+    script: 'latin',
+    trigrams:
+      ' th|the|he |on | to| wi| yo|you| be| ha| we| a | an| in|at |ay |day|ll |re | mo|en |er |for|ill|nd |' +
+      'ou |se |to |ve |wil| on| pl| sh|and|ed |in |me |ple|tha| ch| fo| no| of| so|an |ase|eas|es |ing|lea|' +
+      'ng |of |or |ow |ry |ts |we | ca| co| i | is| pa| pr| wa|are|ave|be |can|ce |chi|ent|ery|hav|hil|ild|' +
+      'is |ne |nk |ome|our|ren|te |ter|th |ver| ar| cl| fi| ho| le| ne| re| wh|ati|dre|ear|em |ess|han|hat|' +
+      'ion|it |ld |ldr|mor|nce|not|nt |one|ot |rea|sho|tio|ur |ut | at| bu| da| do| if| it| ma| me| te| ti|' +
+      ' tr| ve|ake|all|anc|ank|ass|ate|ck |cla|cou|eat|gre|hal|hem|her|hou|ick|if |ite|ith|ke |las|le |les|' +
+      'ly |mon|ns |nth|ons|orr|ort|oul|par|pro|rda|rin|rt |so |son|ss |sso|uld|wit|yon| ab| bo| de| ev| fe|' +
+      ' fr| gi| go| gr| he| kn| la| mi| pe| pi| sa| ta| up| wo| wr| ye|air|ait|al |any|ar |art|as |atu|ber|' +
+      'ble|but|ced|ch |cke|com|dea|don|ee |eed|eek|een|elp|ere|erf|est|et |ets|eve|ext|ey |fin|fte|ful|ght|' +
+      'goo|hai|hea|hel|hey|how|ice|ink|inu|ir |iti|ive|kno|lac|lat|lly|lp |mak|mbe|men|min|mov|nee|nex|no |' +
+      'now|nut|od |om |omo|ond|ont|ood|ope|ore|orm|out|ove|por|ran|rat|rit|rma|row|rro|rts|ryo|sat|sda|ses|' +
+      'she|tak|ten|tes|tic|tin|tom|tra|try|tur|up |urd|urs|ute|wai|wee|whi|wri|xt |yes|ys | ac| af| am| bi',
+  },
+  de: {
+    script: 'latin',
+    trigrams:
+      'en |ie |er |ich| si| di|sch| de|der|die|ein|nd |sie| un|gen|und| ei|ch |cht|te | ge| wi|es |ir |nde|' +
+      'ht |ten| ha| bi| da|ind|ine|ter|ung| es| mi| sc|ben|che|hre|itt|nen|tte|wir| st| zu|abe|in |ne |ng |' +
+      ' ko| am| ic| ih| mo| we|am |bit|den|ers|nte|ute| wa|ur | au| be| ki|ag |auf|ber|das|hab|hen|kin|nge|' +
+      'nn |re |sta|tag|unt|war| ab| al| he| ka| ni| sa| tr|ach|age|ank|ass|be |de |ehr|ei |em |err|hne|hr |' +
+      'ihr|le |mir|nic|nke|nne|och|ric|rri|ste|um |wei|zu | wu|on |se |ss |sse|stu| gu| is| na| se| so| vi|' +
+      ' wo|all|ann|ar |art|as |bei|cho|chr|chs|dan|ehn|ern|fen|ffe|geh|ges|gut|he |ing|ist|kan|kom|lic|lte|' +
+      'men|mit|mon|mor|nat|oll|omm|org|pro|rag|rei|rge|rin|rob|rst|rte|sin|st |tig|tun|uf |vie|vor|woc|zeh|' +
+      ' fu| fü|kon|onn|wun|ür | an| br| fe| fl| fr| gr| ho| im| in| ke| le| me| pr| sp| to| ub| um| ve| vo|' +
+      ' ze| üb|aar|aff|als|ams|at |ati|bis|bt |bun|cha|chu|des|ebe|ech|eht|eib|eis|eit|ell|end|enn|ere|eri|' +
+      'et |eut|fe |fer|for|fur|für|geb|gro|haf|hal|her|hlu|hn |hon|hos|hst|hte|hul|ibe|iel|ier|ig |ihn|im |' +
+      'inu|ion|is |it |ke |kei|ken|lfe|ll |lle|llt|lun|min|mme|mmt|mst|mt |nac|nem|ner|nk |nut|obe|ona|ont|' +
+      'ose|rau|rde|ren|rn |ros|rsc|sam|seh|sen|so |sol|sun|tio|tol|tra|tsc|uch|uld|ver|was|wen|wie|zur| kö',
+  },
+  fr: {
+    script: 'latin',
+    trigrams:
+      'es | le|le |nt | de|our|de | co| pa|ant|ent|er |les|ns |re |lle| po|us | qu|ur | en| es| la| un| vo|' +
+      'cou|la |ne |ous| au| et|as |ill|on |pas|pou|tre|ts | av| no| pr| sa|est|et |ez |ien|men|ons|rs | a |' +
+      'mer|te | me| mo|ans|dan|erc|ion|is |mai|nts|que|ra |st |un |urs|ain| bo| d | da| do| ma| so| tr|ais|' +
+      'di |en |end|enf|fan|in |ire|nfa|nou|oir|ont|ort|pro|rci|res|si |son|tio|ut | à |ce |ite|nne| bi| ch|' +
+      ' di| fi| je| n | pe| se| si| vi|ati|aur|cha|ci |eur|eux|hai|ir |moi|nce|out|por|qu |ux |vou| ou| su|' +
+      'des|eme|per|se | ai| at| be| du| il| in| l | ne| re| va|ait|all|ame|att|au |ava|ave|bie|bon|com|dix|' +
+      'doi|du |eau|edi|ee |ema|ess|il |it |ix |je |nde|ndr|onn|otr|par|rd |rir|ron|rte|rès|sal|tac|ter|tes|' +
+      'ui |une|ure|ute|veu|vot|ès | he| to|che|ide|ine|ret|spe| c | ca| ce| ec| el| gr| j | mi| pl| sh| sp|' +
+      ' te| ve| éc|acl|aid|anc|and|ard|auc|avo|aye|bea|ces|cip|cle|col|cri|cta|dem|don|dra|ect|eil|ell|elq|' +
+      'enc|ers|eui|eut|fil|gra|heu|ici|inu|ive|jou|lan|leu|lez|lie|lqu|lus|med|min|mme|mon|nc |ner|nte|ntr|' +
+      'nut|och|oi |ois|oiv|omm|onc|ond|oup|pec|peu|plu|pre|qui|ran|rat|ren|roc|rt |sam|say|ses|sou|ssa|sse|' +
+      'tan|tar|ten|tie|tou|tra|tte|uco|ue |uel|ues|uil|uis|up |ura|urr|va |van|ven|vez|vie|vit|voi|yer|ze ',
+  },
+  es: {
+    script: 'latin',
+    trigrams:
+      'os | la|la |en |as | de|es | es|el | en|las|de | el| qu| po|ien|los|or |se | pr|aci|ent|na |on |que|' +
+      'ue | a | lo| no| pa| y |no |per|por|ro | cl| un|ar |cla|est|mos|nte| co| ha| mu| ni|ant|ase|do |nta|' +
+      'rac|ta | se| si|pro|ra | gr| pe| re|an |ana|cia|con|del|dos|esp|gra|lo |nos|par|tra|uen|una|ara|ias|' +
+      'pue|ran| ca| ll| me| mi| pu| ta| te|ado|al |cio|cue|den|des|ene|ero|lle|llo|rec|si |spe|ten|to |un |' +
+      ' di| ma|ia |tan| al| an| ay| bu| cu| fa| in| sa| su| ti| tr| ve|abr|alg|amo|aro|avo|bue|da |dia|ebe|' +
+      'eco|ede|ema|emo|end|er |ere|esc|fav|gan|go |gun|ici|ido|iez|ill|ion|les|lgu|man|muy|nci|nde|nen|nin|' +
+      'niñ|nto|oy |pod|rde|ron|sto|tar|te |tes|tie|tos|ued|uer|uy |vor|ón |ino|iño|nas|rá |sta|stá| bi| du|' +
+      ' fi| fu| hi| ho| lu| mo| ne| so| to| va| vi|ada|ala|ami|and|ard|atr|ayu|bad|bie|bir|cam|cha|cie|cip|' +
+      'ció|cog|cor|cri|deb|die|dra|drá|ecu|edi|ega|egu|ell|elo|emp|enc|eng|ens|erd|ers|eso|eva|ez |fer|fin|' +
+      'gar|gui|ha |hab|hac|hij|ibi|imo|in |inc|inu|ipa|ita|ión|lar|leg|lev|lla|ma |me |med|men|mes|min|mpo|' +
+      'muc|ndr|nes|nsa|ntr|nut|odo|odr|ora|ort|osa|pre|rad|re |ren|res|rib|rma|rob|rse|rta|sa |sal|say|scr|' +
+      'sem|sil|son|sos|su |tal|tam|tic|tod|toy|tro|uch|uda|uto|var|vie|yo |yud|án |ños| do| dí|asi|bri|erc',
+  },
+  it: {
+    script: 'latin',
+    trigrams:
+      'no |la |to | co| pr|ne |re |ro | e |di | le|on |per|te | de| di| pe|ion|le |mo |zio| fa| i | in| po|' +
+      ' se| un|er |ett|gli|lla|ni |one|pro|ti | al| la|azi|ono|ost|si | ba| il| me|all|ant|are|ci |ell|ezi|' +
+      'il |lez|ma |non|se |ta |tti|un | ch| do| gr| ma| ne| no| ri| sa| so| st| vo|amb|ate|ato|bam|bin|col|' +
+      'del|gra|igl|ima|ini|man|mbi|na |oss|ran|raz|ri |son|spe|ssi|tar|tat|tro|tta|ia |ra | av| ci| fi| mi|' +
+      ' mo| pa| qu| sc| sp| ve|amo|ann|che|con|cor|cos|ent|erc|ere|ese|ess|ete|he |iam|ico|ie |li |lo |nno|' +
+      'nto|olt|ort|pet|por|rta|sa |sta|str|tra|ver|vos|zie| si|edi| be| bi| bu| ca| da| es| te|ala|and|att|' +
+      'ave|avo|buo|dev|die|do |dom|eci|el |ero|fav|gno|iet|ind|ita|lle|men|mer|mi |mol|ndi|nel|nte|oma|oni|' +
+      'ore|osa|otr|par|pos|pot|pri|qua|rci|rem|res|riv|ros|rov|ser|sim|tem|una|uon|ved|vet|vi |vor|za | è |' +
+      'rà | ai| as| bo| ce| du| gi| l | lo| pu| su| tu| vi|aba|aco|aiu|alc|ale|ame|ana|ani|ara|ard|ari|asp|' +
+      'ata|bat|ben|bia|ca |chi|cin|co |com|cri|cun|dat|de |dia|egn|emi|emo|eni|enz|eri|err|evo|fat|fig|fin|' +
+      'gio|gre|iec|imo|in |ine|inu|ios|isc|iut|izi|lat|lcu|lia|lie|lio|llo|lor|lto|me |mes|min|mpo|nal|nde|' +
+      'ndo|nta|nut|nza|olo|ome|ont|ord|oro|osi|ova|ove|po |pre|qui|rdo|ric|rim|ris|rit|rri|sab|sal|sar|sca',
+  },
+  uk: {
+    script: 'cyrillic',
+    trigrams:
+      ' за|на |ти | в | на|ся |ть | до| по|ка |не | пр| пі| що| бу| ва| ви| не| і |буд|ере|ми |но |що | во|' +
+      ' ді| мо| пи| че|діт|же |мож|ні |ого|при|те |ять| вс| де| ла| пе| сп| та| у | хв| чи| як|аня|аск|ати|' +
+      'вер|го |до |дь |ене|за |зан|ки |ку |лас|мо |нят|оже|пер|про|під|роб|ска|сту|трі|ту |тьс|удь|ую |ці |' +
+      'ься|іти| ба| бі| га| дя| ко| ми| мі| ра| ро|айт|али|ам |арн|ас |аст|біл|ви |вил|вон|ві |від|гар|гот|' +
+      'де |дуж|дяк|ека|ий |или|ися|ити|их |йте|кую|ла |ли |лин|льк|мог|міс|них|ня |ови|ові|оди|ок |она|ора|' +
+      'отр|пиш|пов|пот|пра|рав|ран|рен|спр|ття|туп|тя |хви|ход|чи |ька|яку|ятт|ій |іль|іть| ал| ве| вп| вч|' +
+      ' ві| го| дв| ду| зв| зм| зн| зу| ме| су| те| ур| чу| шо| ят| є |ави|авт|ак |але|аці|аю |аюс|ає |бно|' +
+      'бот|бра|ва |вас|ваш|вел|вин|вис|во |всі|втр|вча|год|гу |дес|дит|доб|дов|дом|доп|ду |дів|еді|ез |ей |' +
+      'ели|емо|ер |еся|етв|зав|зал|зап|змо|зна|зус|икі|ин |ина|инн|ист|ить|кол|кор|кщо|ле |лив|лик|ля |мен|' +
+      'нас|нем|нес|ним|ння|нні|об |обл|обр|оду|омо|опо|орі|ост|ото|оту|пит|пом|піз|ра |ред|рив|рим|рни|ро |' +
+      'рок|рі |ріб|сти|стр|суб|сят|сяц|та |так|тан|тве|тис|тки|тов|тра|убо|ува|уде|удо|уже|упн|уро|уст|ція|' +
+      'час|чек|чет|чин|чор|чуд|ше |шу |щоб|юся|якщ|ята|яти|ібн|ізн|іся| б | бе| вд| вж| вз| вх| гу| да| ди',
+  },
+  ru: {
+    script: 'cyrillic',
+    trigrams:
+      ' по| за| в | де| на| пр|ть |ите|на |но | до| не|ие |ли |оро|те | и |ет |при| ва| чт|бол|дет|ем |не |' +
+      'ся |то |что| бо| вс| ко| мо| сп| у | че|ать|дел|ере|ети|йст|мы |нят|ого|оль|про|ход| во| ес| ме| мы|' +
+      ' пе|алу|аня|аси|буд|го |дит|ела|ель|ени|ест|еся|жал|за |зан|ину|луй|льн|льш|мин|мож|ны |ое |ожа|пер|' +
+      'пож|пра|ста|та |тел|ти |тся|ту |уйс|яти| бе| бу| бы| вы| го| ли| ми| но| ну| он| пи| см| со| хо|аю |' +
+      'бо |бра|бы |во |гот|дор|еду|ез |ей |ело|жно|жны|ибо|ий |итс|ить|ке |кол|кор|ла |ле |нес|ние|нуж|нут|' +
+      'ня |обр|оди|оже|ок |опр|ото|оче|пас|под|ра |рен|ро |рое|рош|сиб|ско|сле|спа|спе|сь |тие|тог|тра|тре|' +
+      'ужн|ут |хор| да| дв| из| им| оп| оч| ра| ре| ро| сл| су| та| те| ур| ус| уч|ави|авт|ает|ажн|ак |ам |' +
+      'ас |аци|ая |ббо|без|бот|вас|ваш|вер|вин|вит|вод|все|вст|втр|вы |гла|гор|да |дес|до |дол|дую|ево|еде|' +
+      'ек |ене|ень|еня|есл|еты|жет|заб|зав|зал|здн|иве|или|их |ия |ки |ку |лат|лаю|лед|лжн|ло |лов|мен|мер|' +
+      'мес|ми |мог|над|нед|ник|ных|нь |обы|ово|овы|одн|озд|олж|оло|ом |омо|она|оне|ост|осы|отк|оту|очь|пиш|' +
+      'поз|пом|поп|рав|раз|ран|рат|ре |ред|рив|рид|роб|ров|род|рок|сли|смо|сти|сто|стр|сту|сть|суб|сы |сят|' +
+      'сяц|так|тит|тоб|тов|тьс|убб|уде|удь|уро|усп|ующ|ца |ция|час|чен|чер|чет|чь |ше |шу |ые |ых |ьни|ься',
+  },
+};
@@ -0,0 +1,100 @@
+/**
+ * @file languages.ts
+ * @description 翻訳で扱う言語の定義と、ルームごとの言語設定に関するユーティリティ。
+ */
+
+/**
+ * @interface LanguageInfo
+ * @description 言語ごとの表示名
+ */
+export interface LanguageInfo {
+  label: string; // 返信やJSONの説明に使用する英語名
+  japaneseName: string; // プロンプトや管理画面に使用する日本語名
+}
+
+/**
+ * 対応している言語の一覧 (キーは言語コード)
+ */
+export const SUPPORTED_LANGUAGES: Record<string, LanguageInfo> = {
+  ja: { label: 'Japanese', japaneseName: '日本語' },
+  pl: { label: 'Polish', japaneseName: 'ポーランド語' },
+  en: { label: 'English', japaneseName: '英語' },
+  uk: { label: 'Ukrainian', japaneseName: 'ウクライナ語' },
+  de: { label: 'German', japaneseName: 'ドイツ語' },
+  ru: { label: 'Russian', japaneseName: 'ロシア語' },
+  fr: { label: 'French', japaneseName: 'フランス語' },
+  es: { label: 'Spanish', japaneseName: 'スペイン語' },
+  it: { label: 'Italian', japaneseName: 'イタリア語' },
+  ko: { label: 'Korean', japaneseName: '韓国語' },
+  zh: { label: 'Chinese', japaneseName: '中国語' },
+};
+
+/**
+ * @interface RoomLanguageConfig
+ * @description ルームごとの言語設定 (rooms.language_config にJSONとして保存)
+ */
+export interface RoomLanguageConfig {
+  languages: string[]; // ルーム参加者が使用する言語コード
+  targets: Record<string, string[]>; // 元の言語コードごとの翻訳先。定義がない言語は他の参加者言語すべてに翻訳する
+  roles?: Record<string, string>; // 言語コードごとの話者の役割 (例: {"pl": "先生"})。プロンプトのロールプレイに使用
+}
+
+/**
+ * 言語設定のないルームおよび個人チャットで使用する既定の設定。
+ * 日本人の保護者とポーランド人の先生のやりとりを想定しています。
+ */
+export const DEFAULT_ROOM_LANGUAGE_CONFIG: RoomLanguageConfig = {
+  languages: ['ja', 'pl', 'en'],
+  targets: {
+    ja: ['pl', 'en'],
+    pl: ['ja'],
+    en: ['ja'],
+  },
+  roles: {
+    pl: '先生',
+    ja: '生徒の保護者',
+  },
+};
+
+/**
+ * 言語コードの表示名 (英語) を返します。未知の言語コードはそのまま返します。
+ */
+export const getLanguageLabel = (lang: string): string => SUPPORTED_LANGUAGES[lang]?.label || lang;
+
+/**
+ * 言語コードの日本語名を返します。未知の言語コードはそのまま返します。
+ */
+export const getJapaneseLanguageName = (lang: string): string => SUPPORTED_LANGUAGES[lang]?.japaneseName || lang;
+
+/**
+ * rooms.language_config のJSONをルームの言語設定として読み込みます。
+ * 未設定または不正なJSONの場合は既定の設定を返します。
+ */
+export const parseRoomLanguageConfig = (json: string | null | undefined): RoomLanguageConfig => {
+  if (!json) {
+    return DEFAULT_ROOM_LANGUAGE_CONFIG;
+  }
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed.languages) || parsed.languages.length === 0) {
+      return DEFAULT_ROOM_LANGUAGE_CONFIG;
+    }
+    return {
+      languages: parsed.languages,
+      targets: parsed.targets && typeof parsed.targets === 'object' ? parsed.targets : {},
+      roles: parsed.roles && typeof parsed.roles === 'object' ? parsed.roles : {},
+    };
+  } catch (e) {
+    console.warn('Invalid room language config. Using default.', json);
+    return DEFAULT_ROOM_LANGUAGE_CONFIG;
+  }
+};
+
+/**
+ * 元の言語に対する翻訳先の言語コードを、ルームの言語設定から決定します。
+ * 明示的なルールがない場合は、元の言語以外の参加者言語すべてを翻訳先とします。
+ */
+export const resolveTargetLanguages = (config: RoomLanguageConfig, sourceLang: string): string[] => {
+  const targets = config.targets[sourceLang] ?? config.languages;
+  return targets.filter(lang => lang !== sourceLang);
+};
@@ -0,0 +1,50 @@
+/**
+ * @file mentions.test.ts
+ * @description メンションを含む翻訳の返信メッセージ作成の単体テスト。
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMentionMessage } from './mentions';
+
+describe('createMentionMessage', () => {
+  const originalText = '@Hana @Hanako @All 明日はお休みです';
+  const mentionees = [
+    { index: 0, length: 5, type: 'user' as const, userId: 'U1' },
+    { index: 6, length: 7, type: 'user' as const, userId: 'U2' },
+    { index: 14, length: 4, type: 'all' as const },
+  ];
+
+  it('should mention the same users in every translation of the reply', () => {
+    const message = createMentionMessage(
+      'Polish: @Hana @Hanako @All jutro nie ma zajęć\nEnglish: @Hana @Hanako @All there is no class tomorrow',
+      originalText,
+      mentionees
+    );
+
+    expect(message).toEqual({
+      type: 'textV2',
+      text: 'Polish: {mention2} {mention1} {mention3} jutro nie ma zajęć\nEnglish: {mention2} {mention1} {mention3} there is no class tomorrow',
+      substitution: {
+        mention1: { type: 'mention', mentionee: { type: 'user', userId: 'U2' } },
+        mention2: { type: 'mention', mentionee: { type: 'user', userId: 'U1' } },
+        mention3: { type: 'mention', mentionee: { type: 'all' } },
+      },
+    });
+  });
+
+  it('should escape braces in the translated text', () => {
+    expect(createMentionMessage('@Hana {ok}', '@Hana OK', [mentionees[0]])).toEqual({
+      type: 'textV2',
+      text: '{mention1} {{ok}}',
+      substitution: { mention1: { type: 'mention', mentionee: { type: 'user', userId: 'U1' } } },
+    });
+  });
+
+  it('should return a plain text message when there is nothing to mention', () => {
+    expect(createMentionMessage('Dzień dobry {ok}', 'おはよう', [])).toEqual({ type: 'text', text: 'Dzień dobry {ok}' });
+    expect(createMentionMessage('@Bot dzięki', '@Bot ありがとう', [
+      { index: 0, length: 4, type: 'user', userId: 'B1', isSelf: true },
+      { index: 0, length: 4, type: 'user' },
+    ])).toEqual({ type: 'text', text: '@Bot dzięki' });
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * @file mentions.ts
+ * @description メンションを含むメッセージの翻訳を、同じ相手へのメンションとして返信するためのユーティリティ。
+ *              翻訳ではメンションされた名前 (例: "@Hana") をそのまま残すため、翻訳結果に含まれる名前を
+ *              LINEの textV2 メッセージの置換 ({mention1} など) に置き換えて、メンションの通知が届くようにします。
+ */
+
+import { Mentionee } from '../types/line';
+
+/**
+ * textV2 のテキストでは { と } を置換の記号として扱うため、通常の文字は {{ と }} に置き換えます。
+ */
+const escapeTextV2 = (text: string): string => text.replace(/[{}]/g, brace => brace + brace);
+
+/**
+ * @function createMentionMessage
+ * @description 翻訳結果に含まれるメンションの名前を、同じ相手へのメンションに置き換えたメッセージを作成します。
+ *              ボット自身へのメンションや、ユーザーIDがわからないメンションは置き換えません。
+ *              置き換えるメンションがない場合は通常のテキストメッセージを返します。
+ * @param {string} text 返信するテキスト (翻訳結果)
+ * @param {string} originalText メンションを含む元のメッセージ
+ * @param {Mentionee[]} [mentionees] 元のメッセージ内のメンション
+ * @returns {object} textV2 またはテキストのメッセージオブジェクト
+ */
+export const createMentionMessage = (text: string, originalText: string, mentionees: Mentionee[] = []) => {
+  const substitution: Record<string, { type: 'mention'; mentionee: { type: 'user'; userId: string } | { type: 'all' } }> = {};
+  let escaped = escapeTextV2(text);
+
+  // "@Hana" が "@Hanako" の一部を置き換えないよう、長い名前から順に置き換える
+  const mentions = mentionees
+    .filter(mentionee => !mentionee.isSelf && (mentionee.type === 'all' || mentionee.userId))
+    .map(mentionee => ({ mentionee, name: originalText.slice(mentionee.index, mentionee.index + mentionee.length) }))
+    .sort((a, b) => b.name.length - a.name.length);
+  for (const { mentionee, name } of mentions) {
+    const escapedName = escapeTextV2(name);
+    if (!name || !escaped.includes(escapedName)) {
+      continue;
+    }
+    const key = `mention${Object.keys(substitution).length + 1}`;
+    substitution[key] = {
+      type: 'mention',
+      mentionee: mentionee.type === 'all' ? { type: 'all' } : { type: 'user', userId: mentionee.userId as string },
+    };
+    escaped = escaped.split(escapedName).join(`{${key}}`);
+  }
+
+  return Object.keys(substitution).length > 0
+    ? { type: 'textV2', text: escaped, substitution }
+    : { type: 'text', text };
+};
@@ -0,0 +1,91 @@
+/**
+ * @file messageClassifier.test.ts
+ * @description 翻訳前のメッセージ分類の単体テスト。
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyMessage, restorePlaceholders } from './messageClassifier';
+
+describe('classifyMessage', () => {
+  it.each([
+    ['   ', 'empty'],
+    ['👍', 'emoji_only'],
+    ['🙏🏻✨ ', 'emoji_only'],
+    ['https://example.com/schedule', 'url_only'],
+    ['teacher@example.com', 'email_only'],
+    ['+48 123 456 789', 'phone_number'],
+    ['090-1234-5678', 'phone_number'],
+    ['3', 'numeric'],
+    ['2.', 'numeric'],
+    ['16:30', 'time_only'],
+    ['!!', 'no_linguistic_content'],
+    ['👍 https://example.com', 'no_linguistic_content'],
+  ])('should skip %j with reason %s', (text, reason) => {
+    expect(classifyMessage(text)).toEqual({ action: 'skip', reason });
+  });
+
+  it('should translate text that contains words', () => {
+    expect(classifyMessage('ありがとうございます👍')).toEqual({
+      action: 'translate',
+      text: 'ありがとうございます👍',
+      linguisticText: 'ありがとうございます👍',
+      placeholders: {},
+    });
+  });
+
+  it('should replace URLs, emails and times with placeholders', () => {
+    const result = classifyMessage('Lekcja o 16:30, szczegóły: https://example.com/a lub piszcie na info@example.com');
+
+    expect(result).toEqual({
+      action: 'translate',
+      text: 'Lekcja o {{TIME_1}}, szczegóły: {{URL_1}} lub piszcie na {{EMAIL_1}}',
+      linguisticText: 'Lekcja o , szczegóły: lub piszcie na',
+      placeholders: {
+        '{{URL_1}}': 'https://example.com/a',
+        '{{EMAIL_1}}': 'info@example.com',
+        '{{TIME_1}}': '16:30',
+      },
+    });
+  });
+
+  it('should replace mentions with placeholders so the names are not translated', () => {
+    const result = classifyMessage('@Hana @Kasia 明日は16:30からです', [
+      { index: 6, length: 6, type: 'user', userId: 'U2' },
+      { index: 0, length: 5, type: 'user', userId: 'U1' },
+    ]);
+
+    expect(result).toEqual({
+      action: 'translate',
+      text: '{{MENTION_1}} {{MENTION_2}} 明日は{{TIME_1}}からです',
+      linguisticText: '明日は からです',
+      placeholders: {
+        '{{MENTION_1}}': '@Hana',
+        '{{MENTION_2}}': '@Kasia',
+        '{{TIME_1}}': '16:30',
+      },
+    });
+  });
+
+  it('should skip a message with only mentions and ignore mentions outside the text', () => {
+    expect(classifyMessage('@All 👍', [{ index: 0, length: 4, type: 'all' }])).toEqual({ action: 'skip', reason: 'no_linguistic_content' });
+    expect(classifyMessage('@Hana', [{ index: 0, length: 5, type: 'user', userId: 'U1' }])).toEqual({ action: 'skip', reason: 'mention_only' });
+    expect(classifyMessage('Dziękuję', [{ index: 20, length: 5, type: 'user', userId: 'U1' }])).toEqual(expect.objectContaining({
+      action: 'translate',
+      text: 'Dziękuję',
+      placeholders: {},
+    }));
+  });
+});
+
+describe('restorePlaceholders', () => {
+  it('should restore the original strings', () => {
+    expect(restorePlaceholders('{{TIME_1}}からです。{{URL_1}}', {
+      '{{URL_1}}': 'https://example.com',
+      '{{TIME_1}}': '16:30',
+    })).toBe('16:30からです。https://example.com');
+  });
+
+  it('should append strings whose placeholders were lost in translation', () => {
+    expect(restorePlaceholders('詳細はこちら', { '{{URL_1}}': 'https://example.com' })).toBe('詳細はこちら https://example.com');
+  });
+});
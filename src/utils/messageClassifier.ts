@@ -0,0 +1,135 @@
+/**
+ * @file messageClassifier.ts
+ * @description 翻訳前にメッセージを分類するユーティリティ。
+ *              絵文字のみ、URLのみ、電話番号、数字のみの返信など、翻訳が不要なメッセージを理由コード付きで判定します。
+ *              翻訳が必要なメッセージでは、メンション・URL・メールアドレス・時刻をプレースホルダーに置き換え、翻訳後に元に戻せるようにします。
+ */
+
+import { Mentionee } from '../types/line';
+
+/**
+ * 翻訳をスキップする理由コード
+ */
+export type SkipReason =
+  | 'empty' // 空のメッセージ
+  | 'emoji_only' // 絵文字のみ
+  | 'url_only' // URLのみ
+  | 'email_only' // メールアドレスのみ
+  | 'phone_number' // 電話番号のみ
+  | 'numeric' // 数字のみ (例: アンケートへの "3" という返信)
+  | 'time_only' // 時刻のみ (例: "16:30")
+  | 'mention_only' // メンションのみ (例: "@Hana")
+  | 'no_linguistic_content'; // 上記の組み合わせや記号のみで、翻訳する言葉がない
+
+/**
+ * メッセージの分類結果
+ */
+export type MessageClassification =
+  | { action: 'skip'; reason: SkipReason }
+  | {
+      action: 'translate';
+      text: string; // メンション・URL・メールアドレス・時刻をプレースホルダーに置き換えたテキスト
+      linguisticText: string; // プレースホルダーを除いた、言語検出用のテキスト
+      placeholders: Record<string, string>; // プレースホルダーと元の文字列の対応
+    };
+
+// 翻訳せずそのまま残す部分 (順番に置き換える。URL内のメールアドレスや時刻を先に置き換えないようURLを最初にする)
+const PROTECTED_PATTERNS: { type: string; reason: SkipReason; pattern: RegExp }[] = [
+  { type: 'URL', reason: 'url_only', pattern: /(?:https?:\/\/|www\.)[^\s]+/gi },
+  { type: 'EMAIL', reason: 'email_only', pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g },
+  { type: 'TIME', reason: 'time_only', pattern: /\b\d{1,2}:\d{2}(?:\s?[ap]\.?m\.?)?(?![\d:])/gi },
+];
+
+const PHONE_NUMBER_PATTERN = /^\+?\d[\d\s\-()]{6,}\d$/;
+const EMOJI_PATTERN = /[\p{Extended_Pictographic}\p{Emoji_Modifier}\u200d\ufe0f\u20e3]/gu;
+const PLACEHOLDER_PATTERN = /\{\{(?:MENTION|URL|EMAIL|TIME)_\d+\}\}/g;
+
+/**
+ * メンションされた部分を {{MENTION_1}} のようなプレースホルダーに置き換えます。
+ * 範囲がテキストの外にあるメンション (長いメッセージを切り詰めた場合など) や、重なっているメンションは置き換えません。
+ */
+const maskMentions = (text: string, mentionees: Mentionee[], placeholders: Record<string, string>): string => {
+  const spans = mentionees
+    .filter(mentionee => mentionee.index >= 0 && mentionee.length > 0 && mentionee.index + mentionee.length <= text.length)
+    .sort((a, b) => a.index - b.index);
+  let masked = '';
+  let cursor = 0;
+  for (const { index, length } of spans) {
+    if (index < cursor) {
+      continue;
+    }
+    const placeholder = `{{MENTION_${Object.keys(placeholders).length + 1}}}`;
+    placeholders[placeholder] = text.slice(index, index + length);
+    masked += text.slice(cursor, index) + placeholder;
+    cursor = index + length;
+  }
+  return masked + text.slice(cursor);
+};
+
+/**
+ * @function classifyMessage
+ * @description メッセージを翻訳するか、理由コード付きでスキップするかを判定します。
+ * @param {string} text メッセージ
+ * @param {Mentionee[]} [mentionees] メッセージ内のメンション (名前が翻訳・音訳されないようプレースホルダーに置き換える)
+ * @returns {MessageClassification} 分類結果
+ */
+export const classifyMessage = (text: string, mentionees: Mentionee[] = []): MessageClassification => {
+  if (!text.trim()) {
+    return { action: 'skip', reason: 'empty' };
+  }
+
+  // 翻訳しない部分をプレースホルダーに置き換える (メンションの位置は元のテキストを基準とするため、最初に置き換える)
+  const placeholders: Record<string, string> = {};
+  const foundReasons = new Set<SkipReason>();
+  let masked = maskMentions(text, mentionees, placeholders).trim();
+  if (Object.keys(placeholders).length > 0) {
+    foundReasons.add('mention_only');
+  }
+  for (const { type, reason, pattern } of PROTECTED_PATTERNS) {
+    let count = 0;
+    masked = masked.replace(pattern, match => {
+      const placeholder = `{{${type}_${++count}}}`;
+      placeholders[placeholder] = match;
+      foundReasons.add(reason);
+      return placeholder;
+    });
+  }
+
+  const linguisticText = masked.replace(PLACEHOLDER_PATTERN, ' ').replace(/\s+/g, ' ').trim();
+  if (/\p{L}/u.test(linguisticText.replace(EMOJI_PATTERN, ''))) {
+    return { action: 'translate', text: masked, linguisticText, placeholders };
+  }
+
+  // 翻訳する言葉がないため、含まれている内容から理由を決める (複数の種類が混在する場合は no_linguistic_content)
+  const kinds = new Set(foundReasons);
+  const withoutEmoji = linguisticText.replace(EMOJI_PATTERN, '');
+  if (withoutEmoji !== linguisticText) {
+    kinds.add('emoji_only');
+  }
+  const rest = withoutEmoji.replace(/[\s\p{P}\p{S}]/gu, '');
+  if (rest) {
+    kinds.add(PHONE_NUMBER_PATTERN.test(linguisticText) ? 'phone_number' : 'numeric');
+  }
+  return { action: 'skip', reason: kinds.size === 1 ? [...kinds][0] : 'no_linguistic_content' };
+};
+
+/**
+ * @function restorePlaceholders
+ * @description 翻訳結果のプレースホルダーを元の文字列に戻します。
+ *              翻訳でプレースホルダーが失われた場合は、元の文字列を末尾に付け足します。
+ * @param {string} translation 翻訳結果
+ * @param {Record<string, string>} placeholders プレースホルダーと元の文字列の対応
+ * @returns {string} プレースホルダーを元に戻した翻訳結果
+ */
+export const restorePlaceholders = (translation: string, placeholders: Record<string, string>): string => {
+  let restored = translation;
+  const missing: string[] = [];
+  for (const [placeholder, original] of Object.entries(placeholders)) {
+    if (restored.includes(placeholder)) {
+      restored = restored.split(placeholder).join(original);
+    } else {
+      missing.push(original);
+    }
+  }
+  return missing.length > 0 ? `${restored} ${missing.join(' ')}` : restored;
+};
@@ -0,0 +1,77 @@
+/**
+ * @file messageContent.test.ts
+ * @description テキスト以外のメッセージのコンテンツの情報の取り出しと、文脈用の説明の単体テスト。
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createContentMetadata, parseContentMetadata, formatDuration, describeContent } from './messageContent';
+import { Post } from '../types/db';
+
+const createPost = (overrides: Partial<Post>): Post => ({
+  post_id: 'P1',
+  timestamp: '2024-05-01T10:00:00.000Z',
+  user_id: 'U1',
+  room_id: 'R1',
+  message_text: null,
+  has_poll: 0,
+  translated_text: null,
+  ...overrides,
+});
+
+describe('createContentMetadata', () => {
+  it('should keep the LINE metadata of each message type', () => {
+    expect(createContentMetadata({ id: 'm1', type: 'file', fileName: 'harmonogram.pdf', fileSize: 20480 }))
+      .toEqual({ fileName: 'harmonogram.pdf', fileSize: 20480 });
+    expect(createContentMetadata({ id: 'm2', type: 'video', duration: 12000, contentProvider: { type: 'line' } }))
+      .toEqual({ duration: 12000 });
+    expect(createContentMetadata({
+      id: 'm3', type: 'sticker', packageId: '11537', stickerId: '52002734', keywords: ['thank you', 'bow'],
+    })).toEqual({ packageId: '11537', stickerId: '52002734', keywords: ['thank you', 'bow'] });
+    expect(createContentMetadata({
+      id: 'm4', type: 'location', title: 'Filharmonia', address: 'ul. Sienkiewicza 3', latitude: 50.06, longitude: 19.93,
+    })).toEqual({ title: 'Filharmonia', address: 'ul. Sienkiewicza 3', latitude: 50.06, longitude: 19.93 });
+  });
+
+  it('should return null for messages without metadata', () => {
+    expect(createContentMetadata({ id: 'm1', type: 'text', text: 'Dzień dobry' })).toBeNull();
+    expect(createContentMetadata({ id: 'm2', type: 'image', contentProvider: { type: 'line' } })).toBeNull();
+  });
+});
+
+describe('parseContentMetadata', () => {
+  it('should return an empty object for missing or invalid JSON', () => {
+    expect(parseContentMetadata(null)).toEqual({});
+    expect(parseContentMetadata('not json')).toEqual({});
+    expect(parseContentMetadata('{"fileName":"a.pdf"}')).toEqual({ fileName: 'a.pdf' });
+  });
+});
+
+describe('describeContent', () => {
+  it('should describe each non-text message type', () => {
+    expect(formatDuration(65000)).toBe('1:05');
+    expect(describeContent(createPost({ content_type: 'image' }))).toBe('[写真]');
+    expect(describeContent(createPost({ content_type: 'video', content_metadata: '{"duration":12000}' }))).toBe('[動画 0:12]');
+    expect(describeContent(createPost({ content_type: 'audio' }))).toBe('[ボイスメッセージ]');
+    expect(describeContent(createPost({ content_type: 'file', content_metadata: '{"fileName":"harmonogram.pdf"}' })))
+      .toBe('[ファイル: harmonogram.pdf]');
+    expect(describeContent(createPost({ content_type: 'location', content_metadata: '{"title":"Filharmonia"}' })))
+      .toBe('[位置情報: Filharmonia]');
+    expect(describeContent(createPost({ content_type: 'sticker' }))).toBe('[スタンプ]');
+  });
+
+  it('should describe stickers by their text and keywords', () => {
+    expect(describeContent(createPost({
+      content_type: 'sticker',
+      content_metadata: '{"packageId":"11537","stickerId":"52002734","keywords":["thank you","bow"]}',
+    }))).toBe('[スタンプ: thank you, bow]');
+    expect(describeContent(createPost({
+      content_type: 'sticker',
+      content_metadata: '{"packageId":"1","stickerId":"2","stickerText":"ありがとう","keywords":["a","b","c","d","e","f"]}',
+    }))).toBe('[スタンプ: 「ありがとう」, a, b, c, d, e]');
+  });
+
+  it('should not describe text posts', () => {
+    expect(describeContent(createPost({ message_text: 'Dzień dobry' }))).toBe('');
+    expect(describeContent(createPost({ content_type: 'text', message_text: 'Dzień dobry' }))).toBe('');
+  });
+});
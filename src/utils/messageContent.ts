@@ -0,0 +1,100 @@
+/**
+ * @file messageContent.ts
+ * @description テキスト以外のメッセージ (写真・動画・音声・ファイル・位置情報・スタンプ) の情報を扱うユーティリティ。
+ *              LINEのメッセージから posts.content_metadata に保存する情報を取り出し、
+ *              翻訳の文脈では "[ファイル: 発表会.pdf]" のような短い説明として表します。
+ */
+
+import { Post, PostContentMetadata } from '../types/db';
+import { MessageEvent } from '../types/line';
+
+// 翻訳の文脈に含めるスタンプのキーワードの最大数
+const MAX_STICKER_KEYWORDS = 5;
+
+/**
+ * @function createContentMetadata
+ * @description メッセージから、posts.content_metadata に保存するコンテンツの情報を取り出します。
+ * @param {MessageEvent['message']} message LINEのメッセージ
+ * @returns {PostContentMetadata | null} コンテンツの情報 (テキストや画像など、保存する情報がない場合はnull)
+ */
+export const createContentMetadata = (message: MessageEvent['message']): PostContentMetadata | null => {
+  switch (message.type) {
+    case 'video':
+    case 'audio':
+      return { duration: message.duration };
+    case 'file':
+      return { fileName: message.fileName, fileSize: message.fileSize };
+    case 'location':
+      return { title: message.title, address: message.address, latitude: message.latitude, longitude: message.longitude };
+    case 'sticker':
+      return { packageId: message.packageId, stickerId: message.stickerId, keywords: message.keywords, stickerText: message.text };
+    default:
+      return null;
+  }
+};
+
+/**
+ * @function parseContentMetadata
+ * @description posts.content_metadata のJSONを解析します。未設定や不正なJSONの場合は空のオブジェクトを返します。
+ * @param {string | null | undefined} json コンテンツの情報 (JSON形式)
+ * @returns {PostContentMetadata} コンテンツの情報
+ */
+export const parseContentMetadata = (json: string | null | undefined): PostContentMetadata => {
+  if (!json) {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.warn('Invalid content metadata. Ignoring.', json);
+    return {};
+  }
+};
+
+/**
+ * @function formatDuration
+ * @description 動画・音声の長さを "分:秒" の形式で表します。
+ * @param {number} durationMs 長さ (ミリ秒)
+ * @returns {string} 長さ (例: "1:05")
+ */
+export const formatDuration = (durationMs: number): string => {
+  const seconds = Math.round(durationMs / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * @function describeContent
+ * @description テキスト以外の投稿を、翻訳の文脈に含める短い説明で表します。
+ *              例: "[写真]", "[動画 0:12]", "[ファイル: 発表会.pdf]", "[位置情報: Filharmonia (ul. Sienkiewicza 3)]"
+ *              スタンプは、直後の発言の口調を翻訳する手がかりになるよう、意味を表すキーワードで表します (例: "[スタンプ: thank you, bow]")。
+ * @param {Post} post 投稿
+ * @returns {string} 投稿の説明 (テキストの投稿の場合は空文字)
+ */
+export const describeContent = (post: Post): string => {
+  const metadata = parseContentMetadata(post.content_metadata);
+  switch (post.content_type) {
+    case 'image':
+      return '[写真]';
+    case 'video':
+      return metadata.duration ? `[動画 ${formatDuration(metadata.duration)}]` : '[動画]';
+    case 'audio':
+      return '[ボイスメッセージ]';
+    case 'file':
+      return metadata.fileName ? `[ファイル: ${metadata.fileName}]` : '[ファイル]';
+    case 'location': {
+      const place = [metadata.title, metadata.address ? `(${metadata.address})` : ''].filter(Boolean).join(' ');
+      return place ? `[位置情報: ${place}]` : '[位置情報]';
+    }
+    case 'sticker': {
+      // メッセージスタンプの文字は、キーワードより先に含める
+      const meanings = [
+        ...(metadata.stickerText ? [`「${metadata.stickerText}」`] : []),
+        ...(metadata.keywords ?? []).slice(0, MAX_STICKER_KEYWORDS),
+      ];
+      return meanings.length > 0 ? `[スタンプ: ${meanings.join(', ')}]` : '[スタンプ]';
+    }
+    default:
+      return '';
+  }
+};
@@ -0,0 +1,77 @@
+/**
+ * @file places.test.ts
+ * @description 地図のリンク、場所の参照の取り出し、位置情報メッセージの作成の単体テスト。
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMapUrl, parsePlaceReference, createLocationMessage } from './places';
+import { Place } from '../types/db';
+
+const place: Place = {
+  id: 1,
+  name: '発表会会場',
+  room_id: 'R1',
+  title: 'Filharmonia',
+  address: 'ul. Zwierzyniecka 1, Kraków',
+  latitude: 50.0577,
+  longitude: 19.9322,
+  source_post_id: 'loc1',
+  created_by: 'teacher1',
+  created_at: '2024-05-15T10:00:00Z',
+  updated_at: '2024-05-15T10:00:00Z',
+};
+
+describe('createMapUrl', () => {
+  it('should link to the coordinates on the map', () => {
+    expect(createMapUrl(50.0577, 19.9322)).toBe('https://www.google.com/maps/search/?api=1&query=50.0577,19.9322');
+  });
+});
+
+describe('parsePlaceReference', () => {
+  it('should take the place name out of the message', () => {
+    expect(parsePlaceReference('[check] Próba generalna w sobotę [place: 発表会会場 ]\nProszę o odpowiedź')).toEqual({
+      name: '発表会会場',
+      text: '[check] Próba generalna w sobotę\nProszę o odpowiedź',
+    });
+  });
+
+  it('should move the mentions to their positions in the message without the reference', () => {
+    const text = '[place:発表会会場] @Hana 明日はここです  \n@Kasia よろしく';
+    const reference = parsePlaceReference(text, [
+      { index: 14, length: 5, type: 'user', userId: 'U1' },
+      { index: 30, length: 6, type: 'user', userId: 'U2' },
+    ]);
+
+    expect(reference?.text).toBe('@Hana 明日はここです\n@Kasia よろしく');
+    expect(reference?.mentionees).toEqual([
+      { index: 0, length: 5, type: 'user', userId: 'U1' },
+      { index: 14, length: 6, type: 'user', userId: 'U2' },
+    ]);
+    expect(reference?.text.substring(0, 5)).toBe('@Hana');
+    expect(reference?.text.substring(14, 20)).toBe('@Kasia');
+  });
+
+  it('should return null when the message does not reference a place', () => {
+    expect(parsePlaceReference('[check] Próba generalna w sobotę')).toBeNull();
+    expect(parsePlaceReference('[place:]')).toBeNull();
+  });
+});
+
+describe('createLocationMessage', () => {
+  it('should send the place as a LINE location message', () => {
+    expect(createLocationMessage(place)).toEqual({
+      type: 'location',
+      title: 'Filharmonia',
+      address: 'ul. Zwierzyniecka 1, Kraków',
+      latitude: 50.0577,
+      longitude: 19.9322,
+    });
+  });
+
+  it('should fill in the title and address with the place name', () => {
+    expect(createLocationMessage({ ...place, title: null, address: null })).toMatchObject({
+      title: '発表会会場',
+      address: '発表会会場',
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @file places.ts
+ * @description 位置情報と登録した場所 (発表会の会場など) を返信で扱うためのユーティリティ。
+ *              位置情報の翻訳に付ける地図のリンクや、アンケート・お知らせで参照した場所を
+ *              LINEの位置情報メッセージとして送るためのメッセージを作成します。
+ */
+
+import { Place } from '../types/db';
+import { Mentionee } from '../types/line';
+import { PLACE_REFERENCE_PATTERN } from './commands';
+
+// LINEの位置情報メッセージのタイトル・住所の最大文字数
+const MAX_LOCATION_TEXT_LENGTH = 100;
+
+/**
+ * @interface PlaceReference
+ * @description メッセージに含まれる場所の参照
+ */
+export interface PlaceReference {
+  name: string; // 参照した場所の名前
+  text: string; // 参照を取り除いたメッセージ (翻訳に使用)
+  mentionees?: Mentionee[]; // 参照を取り除いたメッセージでの位置に直したメンション
+}
+
+/**
+ * @function createMapUrl
+ * @description 緯度・経度の地点を地図アプリで開くリンクを作成します。
+ * @param {number} latitude 緯度
+ * @param {number} longitude 経度
+ * @returns {string} Googleマップのリンク
+ */
+export const createMapUrl = (latitude: number, longitude: number): string =>
+  `https://www.google.com/maps/search/?api=1&query=${latitude},${longitude}`;
+
+/**
+ * @function parsePlaceReference
+ * @description メッセージから場所の参照 (例: "[place:発表会会場]") を取り出します。参照できる場所は1件のみです。
+ *              参照と、参照を取り除いたことで行末・前後に残った空白を削除し、メンションの位置を削除後のメッセージに合わせて直します。
+ * @param {string} text メッセージ
+ * @param {Mentionee[]} [mentionees] メッセージ内のメンション
+ * @returns {PlaceReference | null} 場所の参照、または参照がない場合はnull
+ */
+export const parsePlaceReference = (text: string, mentionees?: Mentionee[]): PlaceReference | null => {
+  const match = text.match(PLACE_REFERENCE_PATTERN);
+  if (!match || match.index === undefined) {
+    return null;
+  }
+
+  // 残す文字を元のメッセージでの位置とともに保持し、削除後のメンションの位置を求められるようにする
+  const start = match.index;
+  const end = start + match[0].length;
+  let kept = [...Array(text.length).keys()].filter(i => i < start || i >= end);
+  // 行末の空白 (後ろから見て、改行またはメッセージの末尾までに空白しかない空白)
+  let atLineEnd = true;
+  kept = kept.reverse().filter(i => {
+    if (text[i] === ' ' || text[i] === '\t') {
+      return !atLineEnd;
+    }
+    atLineEnd = text[i] === '\n' || text[i] === '\r';
+    return true;
+  }).reverse();
+  // 前後の空白
+  const first = kept.findIndex(i => text[i].trim() !== '');
+  const last = kept.findLastIndex(i => text[i].trim() !== '');
+  kept = first === -1 ? [] : kept.slice(first, last + 1);
+
+  const positions = new Map(kept.map((i, k) => [i, k]));
+  return {
+    name: match[1],
+    text: kept.map(i => text[i]).join(''),
+    mentionees: mentionees
+      ?.filter(mentionee => positions.has(mentionee.index))
+      .map(mentionee => ({ ...mentionee, index: positions.get(mentionee.index)! })),
+  };
+};
+
+/**
+ * @function createLocationMessage
+ * @description 登録した場所を、LINEの位置情報メッセージにします。
+ *              位置情報メッセージはタイトルと住所が必須のため、未設定の場合は場所の名前で補います。
+ * @param {Place} place 登録した場所
+ * @returns {object} 位置情報のメッセージオブジェクト
+ */
+export const createLocationMessage = (place: Place) => ({
+  type: 'location',
+  title: (place.title || place.name).slice(0, MAX_LOCATION_TEXT_LENGTH),
+  address: (place.address || place.title || place.name).slice(0, MAX_LOCATION_TEXT_LENGTH),
+  latitude: place.latitude,
+  longitude: place.longitude,
+});
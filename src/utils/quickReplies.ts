@@ -0,0 +1,60 @@
+/**
+ * @file quickReplies.ts
+ * @description 翻訳の返信に付けるクイックリプライを作成するユーティリティ。
+ *              👍 / 👎 / ✏️ のボタンで翻訳を評価でき、評価は 'action=feedback' のポストバックとして受け取ります。
+ *              ✏️ を選ぶとキーボードが開き、FEEDBACK_SUGGESTION_PREFIX で始まるメッセージとして修正案を送れます。
+ */
+
+import { FeedbackRating } from '../types/db';
+import { FEEDBACK_SUGGESTION_PREFIX } from './commands';
+
+// 評価のポストバックのアクション名
+export const FEEDBACK_POSTBACK_ACTION = 'feedback';
+
+// 評価ボタンのラベル
+const FEEDBACK_LABELS: Record<FeedbackRating, string> = {
+  good: '👍',
+  bad: '👎',
+  fix: '✏️ Suggest fix',
+};
+
+/**
+ * @function createFeedbackPostbackData
+ * @description 評価のポストバックデータを作成します。
+ * @param {FeedbackRating} rating 評価
+ * @param {string} postId 翻訳した投稿のID
+ * @returns {string} ポストバックデータ
+ */
+export const createFeedbackPostbackData = (rating: FeedbackRating, postId: string): string =>
+  `action=${FEEDBACK_POSTBACK_ACTION}&rating=${rating}&postId=${postId}`;
+
+/**
+ * @function createFeedbackQuickReply
+ * @description 翻訳を評価するクイックリプライを作成します。メッセージオブジェクトの quickReply に設定して使用します。
+ * @param {string} postId 翻訳した投稿のID
+ * @returns {object} クイックリプライオブジェクト
+ */
+export const createFeedbackQuickReply = (postId: string) => {
+  const ratings: FeedbackRating[] = ['good', 'bad', 'fix'];
+  return {
+    items: ratings.map(rating => ({
+      type: 'action',
+      action: {
+        type: 'postback',
+        label: FEEDBACK_LABELS[rating],
+        data: createFeedbackPostbackData(rating, postId),
+        // 修正案はキーボードを開き、入力欄に接頭辞を入れておく
+        ...(rating === 'fix' ? { inputOption: 'openKeyboard', fillInText: FEEDBACK_SUGGESTION_PREFIX } : {}),
+      },
+    })),
+  };
+};
+
+/**
+ * @function isFeedbackRating
+ * @description ポストバックで受け取った値が評価として有効かを判定します。
+ * @param {string | null} value ポストバックの値
+ * @returns {boolean} 有効な評価の場合はtrue
+ */
+export const isFeedbackRating = (value: string | null): value is FeedbackRating =>
+  value !== null && Object.prototype.hasOwnProperty.call(FEEDBACK_LABELS, value);
@@ -0,0 +1,43 @@
+/**
+ * @file quotedReply.ts
+ * @description 引用返信の翻訳に、返信先の発言を示す見出しを付けるユーティリティ。
+ *              翻訳だけでは「はい」「大丈夫です」が何への返事かわからないため、
+ *              "↩️ 話者名「返信先の発言の冒頭」" を翻訳の前に付けて返信します。
+ */
+
+import { PostWithSpeaker } from '../types/db';
+import { POLL_COMMAND_PATTERN } from './commands';
+
+// 見出しに含める返信先の発言の最大文字数
+const QUOTED_SNIPPET_LENGTH = 30;
+
+/**
+ * @function createQuotedSnippet
+ * @description 返信先の発言を1行に収まる長さに短くします。アンケートの場合はコマンドを除きます。
+ * @param {PostWithSpeaker} quotedPost 返信先の投稿
+ * @returns {string} 短くした発言 (発言がない場合は空文字)
+ */
+export const createQuotedSnippet = (quotedPost: PostWithSpeaker): string => {
+  const text = (quotedPost.message_text || '')
+    .replace(POLL_COMMAND_PATTERN, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  const chars = [...text];
+  return chars.length > QUOTED_SNIPPET_LENGTH ? `${chars.slice(0, QUOTED_SNIPPET_LENGTH).join('')}…` : text;
+};
+
+/**
+ * @function formatQuotedReply
+ * @description 翻訳の前に返信先の発言を示す見出しを付けます。
+ * @param {string} translatedText 翻訳されたテキスト
+ * @param {PostWithSpeaker | null} quotedPost 返信先の投稿 (引用返信でない場合や、保存されていない場合はnull)
+ * @returns {string} 返信するテキスト
+ */
+export const formatQuotedReply = (translatedText: string, quotedPost: PostWithSpeaker | null): string => {
+  const snippet = quotedPost ? createQuotedSnippet(quotedPost) : '';
+  if (!snippet) {
+    return translatedText;
+  }
+  const speaker = quotedPost?.display_name ? ` ${quotedPost.display_name}` : '';
+  return `↩️${speaker}「${snippet}」\n${translatedText}`;
+};